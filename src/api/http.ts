@@ -0,0 +1,200 @@
+// src/api/http.ts
+// Shared plumbing for the REST API: errors, JSON responses, pagination and body validation.
+
+export class ApiError extends Error {
+    constructor(
+        public readonly status: number,
+        public readonly code: string, // Machine-readable, e.g. "validation_error"
+        message: string,
+        public readonly details?: Record<string, unknown>
+    ) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
+
+// Every error response has this shape
+export interface ApiErrorBody {
+    error: { code: string; message: string; details?: Record<string, unknown> };
+}
+
+export interface Paginated<T> {
+    data: T[];
+    pagination: { page: number; pageSize: number; total: number; totalPages: number };
+}
+
+export interface RouteContext {
+    request: Request;
+    url: URL;
+    params: Record<string, string>; // Path parameters, e.g. { userId: "3" }
+}
+
+export type RouteHandler = (context: RouteContext) => Promise<Response>;
+
+export interface Route {
+    method: 'GET' | 'POST' | 'PUT' | 'DELETE';
+    path: string; // With :named segments, e.g. "/users/:userId/movie-ratings"
+    handler: RouteHandler;
+}
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export const CORS_HEADERS: Record<string, string> = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+};
+
+export function json(data: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(data), {
+        status,
+        headers: { 'Content-Type': 'application/json', ...CORS_HEADERS },
+    });
+}
+
+export function errorResponse(error: ApiError): Response {
+    const body: ApiErrorBody = { error: { code: error.code, message: error.message, ...(error.details ? { details: error.details } : {}) } };
+    return json(body, error.status);
+}
+
+export function notFound(what: string): ApiError {
+    return new ApiError(404, 'not_found', `${what} not found.`);
+}
+
+// --- Pagination ---
+
+export function getPagination(url: URL): { page: number; pageSize: number } {
+    const page = optionalIntParam(url, 'page', 1, Number.MAX_SAFE_INTEGER) ?? 1;
+    const pageSize = optionalIntParam(url, 'pageSize', 1, MAX_PAGE_SIZE) ?? DEFAULT_PAGE_SIZE;
+    return { page, pageSize };
+}
+
+export function paginate<T>(items: T[], url: URL): Paginated<T> {
+    const { page, pageSize } = getPagination(url);
+    return {
+        data: items.slice((page - 1) * pageSize, page * pageSize),
+        pagination: { page, pageSize, total: items.length, totalPages: Math.max(1, Math.ceil(items.length / pageSize)) },
+    };
+}
+
+// --- Validation ---
+
+function validationError(field: string, message: string): ApiError {
+    return new ApiError(400, 'validation_error', `${field} ${message}`, { field });
+}
+
+export async function readJsonBody(request: Request): Promise<Record<string, unknown>> {
+    let body: unknown;
+    try {
+        body = await request.json();
+    } catch {
+        throw new ApiError(400, 'invalid_json', 'Request body must be valid JSON.');
+    }
+    if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+        throw new ApiError(400, 'invalid_json', 'Request body must be a JSON object.');
+    }
+    return body as Record<string, unknown>;
+}
+
+export function pathInt(params: Record<string, string>, name: string): number {
+    const value = Number(params[name]);
+    if (!Number.isInteger(value) || value <= 0) throw validationError(name, 'must be a positive integer.');
+    return value;
+}
+
+export function optionalIntParam(url: URL, name: string, min: number, max: number): number | undefined {
+    const raw = url.searchParams.get(name);
+    if (raw === null || raw === '') return undefined;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < min || value > max) throw validationError(name, `must be an integer between ${min} and ${max}.`);
+    return value;
+}
+
+export function optionalNumberParam(url: URL, name: string, min: number, max: number): number | undefined {
+    const raw = url.searchParams.get(name);
+    if (raw === null || raw === '') return undefined;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < min || value > max) throw validationError(name, `must be a number between ${min} and ${max}.`);
+    return value;
+}
+
+// Comma-separated positive integers, e.g. ?userIds=1,2
+export function requireIntListParam(url: URL, name: string): number[] {
+    const values = (url.searchParams.get(name) ?? '').split(',').map(s => s.trim()).filter(Boolean).map(Number);
+    if (values.length === 0 || values.some(v => !Number.isInteger(v) || v <= 0)) {
+        throw validationError(name, 'must be a comma-separated list of positive integers.');
+    }
+    return values;
+}
+
+export function optionalEnumParam<T extends string>(url: URL, name: string, allowed: readonly T[]): T | undefined {
+    const raw = url.searchParams.get(name);
+    if (raw === null || raw === '') return undefined;
+    if (!allowed.includes(raw as T)) throw validationError(name, `must be one of: ${allowed.join(', ')}.`);
+    return raw as T;
+}
+
+export function requireString(body: Record<string, unknown>, field: string): string {
+    const value = body[field];
+    if (typeof value !== 'string' || value.trim() === '') throw validationError(field, 'is required and must be a non-empty string.');
+    return value.trim();
+}
+
+export function requireInt(body: Record<string, unknown>, field: string, min: number, max: number): number {
+    const value = body[field];
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        throw validationError(field, `is required and must be an integer between ${min} and ${max}.`);
+    }
+    return value;
+}
+
+export function requireEnum<T extends string>(body: Record<string, unknown>, field: string, allowed: readonly T[]): T {
+    const value = body[field];
+    if (typeof value !== 'string' || !allowed.includes(value as T)) throw validationError(field, `must be one of: ${allowed.join(', ')}.`);
+    return value as T;
+}
+
+export function requireBoolean(body: Record<string, unknown>, field: string): boolean {
+    const value = body[field];
+    if (typeof value !== 'boolean') throw validationError(field, 'must be true or false.');
+    return value;
+}
+
+export function requireNumber(body: Record<string, unknown>, field: string, min: number, max: number): number {
+    const value = optionalNumber(body, field, min, max);
+    if (value === undefined) throw validationError(field, 'is required.');
+    return value;
+}
+
+// Missing or null means "not set"
+export function optionalNumber(body: Record<string, unknown>, field: string, min: number, max: number): number | undefined {
+    const value = body[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+        throw validationError(field, `must be a number between ${min} and ${max}.`);
+    }
+    return value;
+}
+
+// Missing or null means "not set"
+export function optionalInt(body: Record<string, unknown>, field: string, min: number, max: number): number | undefined {
+    const value = body[field];
+    if (value === undefined || value === null) return undefined;
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        throw validationError(field, `must be an integer between ${min} and ${max}.`);
+    }
+    return value;
+}
+
+export function optionalStringArray(body: Record<string, unknown>, field: string): string[] | undefined {
+    const value = body[field];
+    if (value === undefined || value === null) return undefined;
+    if (!Array.isArray(value) || value.some(v => typeof v !== 'string')) throw validationError(field, 'must be an array of strings.');
+    return (value as string[]).map(v => v.trim()).filter(Boolean);
+}
+
+// ISO 639-1 codes, lower-cased to match TMDB's original_language
+export function optionalLanguageArray(body: Record<string, unknown>, field: string): string[] | undefined {
+    return optionalStringArray(body, field)?.map(language => language.toLowerCase());
+}
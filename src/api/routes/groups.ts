@@ -0,0 +1,61 @@
+// src/api/routes/groups.ts
+// Recommendations for several users at once, e.g. GET /groups/movie-recommendations?userIds=2,4&strategy=least-misery
+import type { User } from '../../common/types';
+import type { Route } from '../http';
+import { ApiError, getPagination, json, notFound, optionalEnumParam, paginate, requireIntListParam } from '../http';
+import { getUserById } from '../../db/setup';
+import { getUserMoviePreferences } from '../../db/movieDb';
+import { getUserRestaurantPreferences } from '../../db/restaurantDb';
+import { resolveOpenAt, resolveOrigin, restaurantsInScope } from './restaurants';
+import { GROUP_STRATEGIES } from '../../common/groupScoring';
+import { getGroupMovieRecommendations } from '../../movies/recommender';
+import { getGroupRestaurantRecommendations } from '../../restaurants/recommender';
+
+const MAX_RECOMMENDATIONS = 50; // Same cap as the single-user routes
+
+async function requireGroup(url: URL): Promise<User[]> {
+    const ids = [...new Set(requireIntListParam(url, 'userIds'))];
+    if (ids.length < 2) throw new ApiError(400, 'validation_error', 'userIds needs at least two different users.', { field: 'userIds' });
+    const users: User[] = [];
+    for (const id of ids) {
+        const user = await getUserById(id);
+        if (!user) throw notFound(`User ${id}`);
+        users.push(user);
+    }
+    return users;
+}
+
+export const groupRoutes: Route[] = [
+    {
+        // Also returns `conflicts`: preferences the members couldn't agree on, which were ignored
+        method: 'GET',
+        path: '/groups/movie-recommendations',
+        handler: async ({ url }) => {
+            const users = await requireGroup(url);
+            const strategy = optionalEnumParam(url, 'strategy', GROUP_STRATEGIES) ?? 'average';
+            const { page, pageSize } = getPagination(url);
+            const members = await Promise.all(users.map(async user => ({ user, prefs: (await getUserMoviePreferences(user.id)) ?? { user_id: user.id } })));
+            const { recommendations, conflicts } = await getGroupMovieRecommendations(members, strategy, Math.min(page * pageSize, MAX_RECOMMENDATIONS));
+            return json({ ...paginate(recommendations, url), conflicts });
+        },
+    },
+    {
+        // Scoped and located like the single-user route (?areaId=, ?near=), using the first member's
+        // active area and saved locations
+        method: 'GET',
+        path: '/groups/restaurant-recommendations',
+        handler: async ({ url }) => {
+            const users = await requireGroup(url);
+            const strategy = optionalEnumParam(url, 'strategy', GROUP_STRATEGIES) ?? 'average';
+            const members = await Promise.all(users.map(async user => ({
+                user,
+                prefs: (await getUserRestaurantPreferences(user.id)) ?? { user_id: user.id, favoriteCuisines: [], dietaryRestrictions: [], minRating: 3.0 },
+            })));
+            const organizer = users[0]!.id;
+            const recommendations = await getGroupRestaurantRecommendations(members, await restaurantsInScope(organizer, url), strategy, new Set(), {
+                ...await resolveOrigin(organizer, url), ...resolveOpenAt(url),
+            });
+            return json(paginate(recommendations, url));
+        },
+    },
+];
@@ -0,0 +1,124 @@
+// src/api/routes/movies.ts
+import type { UserMoviePreferences } from '../../movies/types';
+import type { Route } from '../http';
+import {
+    ApiError, json, notFound, paginate, getPagination, pathInt, readJsonBody,
+    requireInt, optionalNumber, optionalStringArray, optionalLanguageArray,
+} from '../http';
+import { requireUser } from './users';
+import { searchMovies, getMovieDetails } from '../../common/tmdbService';
+import { getWatchProvidersForTitle } from '../../common/watchProviders';
+import {
+    saveMovie, getMovieByTmdbId, getUserMoviePreferences, saveUserMoviePreferences,
+    saveUserMovieRating, getUserMovieRatings,
+} from '../../db/movieDb';
+import { getMovieRecommendationsForUser } from '../../movies/recommender';
+
+const MAX_RECOMMENDATIONS = 50; // Each one can cost TMDB calls; deeper pages aren't worth it
+
+function upstreamError(): ApiError {
+    return new ApiError(502, 'upstream_error', 'Could not reach TMDB. Try again later.');
+}
+
+// Stored copy if we have it, otherwise fetched from TMDB and saved
+async function loadMovie(tmdbId: number) {
+    const existing = await getMovieByTmdbId(tmdbId);
+    if (existing) return existing;
+    const details = await getMovieDetails(tmdbId);
+    if (!details) throw notFound('Movie');
+    const saved = await saveMovie(details);
+    if (!saved) throw new ApiError(500, 'internal_error', 'Could not save movie.');
+    return saved;
+}
+
+function parseMoviePreferences(userId: number, body: Record<string, unknown>): UserMoviePreferences {
+    return {
+        user_id: userId,
+        preferred_genres: optionalStringArray(body, 'preferred_genres'),
+        preferred_languages: optionalLanguageArray(body, 'preferred_languages'),
+        release_year_min: optionalNumber(body, 'release_year_min', 1870, 2100),
+        release_year_max: optionalNumber(body, 'release_year_max', 1870, 2100),
+        duration_min_minutes: optionalNumber(body, 'duration_min_minutes', 0, 1000),
+        duration_max_minutes: optionalNumber(body, 'duration_max_minutes', 0, 1000),
+        min_imdb_rating: optionalNumber(body, 'min_imdb_rating', 0, 10),
+        preferred_streaming_providers: optionalStringArray(body, 'preferred_streaming_providers'),
+    };
+}
+
+export const movieRoutes: Route[] = [
+    {
+        method: 'GET',
+        path: '/movies/search',
+        handler: async ({ url }) => {
+            const query = url.searchParams.get('query')?.trim();
+            if (!query) throw new ApiError(400, 'validation_error', 'query is required.', { field: 'query' });
+            const { page } = getPagination(url);
+            const results = await searchMovies(query, page);
+            if (!results) throw upstreamError();
+            // TMDB pages are fixed at 20, so pageSize is ignored here
+            return json({
+                data: results.results,
+                pagination: { page: results.page, pageSize: 20, total: results.total_results, totalPages: results.total_pages },
+            });
+        },
+    },
+    {
+        method: 'GET',
+        path: '/movies/:tmdbId',
+        handler: async ({ url, params }) => {
+            const tmdbId = pathInt(params, 'tmdbId');
+            const details = await getMovieDetails(tmdbId);
+            if (!details) throw notFound('Movie');
+            const movie = await saveMovie(details);
+            const region = (url.searchParams.get('region') || 'US').toUpperCase();
+            return json({ movie, watchProviders: await getWatchProvidersForTitle('movie', tmdbId, region) });
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/movie-preferences',
+        handler: async ({ params }) => {
+            const user = await requireUser(params);
+            return json((await getUserMoviePreferences(user.id)) ?? { user_id: user.id });
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/users/:userId/movie-preferences',
+        handler: async ({ request, params }) => {
+            const user = await requireUser(params);
+            await saveUserMoviePreferences(parseMoviePreferences(user.id, await readJsonBody(request)));
+            return json(await getUserMoviePreferences(user.id));
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/movie-ratings',
+        handler: async ({ url, params }) => json(paginate(await getUserMovieRatings((await requireUser(params)).id), url)),
+    },
+    {
+        method: 'POST',
+        path: '/users/:userId/movie-ratings',
+        handler: async ({ request, params }) => {
+            const user = await requireUser(params);
+            const body = await readJsonBody(request);
+            const tmdbId = requireInt(body, 'tmdbId', 1, Number.MAX_SAFE_INTEGER);
+            const rating = requireInt(body, 'rating', 1, 5);
+            const movie = await loadMovie(tmdbId);
+            await saveUserMovieRating(user.id, movie.id, rating);
+            return json({ user_id: user.id, movie_id: movie.id, movie_tmdb_id: movie.tmdb_id, rating, movie }, 201);
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/movie-recommendations',
+        handler: async ({ url, params }) => {
+            const user = await requireUser(params);
+            const { page, pageSize } = getPagination(url);
+            const prefs = (await getUserMoviePreferences(user.id)) ?? { user_id: user.id };
+            const excludeTmdbIds = new Set((await getUserMovieRatings(user.id)).map(r => r.movie_tmdb_id));
+            const count = Math.min(page * pageSize, MAX_RECOMMENDATIONS);
+            return json(paginate(await getMovieRecommendationsForUser(user, prefs, excludeTmdbIds, count), url));
+        },
+    },
+];
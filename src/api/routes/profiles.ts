@@ -0,0 +1,53 @@
+// src/api/routes/profiles.ts
+import type { ProfileConflictStrategy } from '../../profiles/types';
+import { ProfileImportError } from '../../profiles/types';
+import type { Route } from '../http';
+import { ApiError, CORS_HEADERS, json, readJsonBody } from '../http';
+import { requireUser } from './users';
+import { exportUserProfile } from '../../profiles/profileExport';
+import { importUserProfile, parseUserProfile } from '../../profiles/profileImport';
+import { exportRatingsCsv } from '../../profiles/ratingsCsv';
+
+const CONFLICT_STRATEGIES: readonly ProfileConflictStrategy[] = ['fail', 'merge', 'replace'];
+
+export const profileRoutes: Route[] = [
+    {
+        method: 'GET',
+        path: '/users/:userId/profile',
+        handler: async ({ params }) => json(await exportUserProfile((await requireUser(params)).id)),
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/ratings.csv',
+        handler: async ({ params }) => {
+            const user = await requireUser(params);
+            return new Response(await exportRatingsCsv(user.id), {
+                headers: {
+                    'Content-Type': 'text/csv; charset=utf-8',
+                    'Content-Disposition': `attachment; filename="ratings-${user.id}.csv"`,
+                    ...CORS_HEADERS,
+                },
+            });
+        },
+    },
+    {
+        // Body is a profile export; ?onConflict=fail|merge|replace and ?name= to import under another name
+        method: 'POST',
+        path: '/profiles/import',
+        handler: async ({ request, url }) => {
+            const onConflict = (url.searchParams.get('onConflict') ?? 'fail') as ProfileConflictStrategy;
+            if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+                throw new ApiError(400, 'validation_error', `onConflict must be one of: ${CONFLICT_STRATEGIES.join(', ')}.`, { field: 'onConflict' });
+            }
+            try {
+                const profile = parseUserProfile(await readJsonBody(request));
+                const result = await importUserProfile(profile, { onConflict, userName: url.searchParams.get('name') ?? undefined });
+                return json(result, result.created ? 201 : 200);
+            } catch (error) {
+                if (!(error instanceof ProfileImportError)) throw error;
+                if (error.reason === 'conflict') throw new ApiError(409, 'conflict', error.message);
+                throw new ApiError(400, 'validation_error', error.message);
+            }
+        },
+    },
+];
@@ -0,0 +1,217 @@
+// src/api/routes/restaurants.ts
+import type { RestaurantFeedbackType, RestaurantUserPreferences, RestaurantRankingOptions } from '../../restaurants/types';
+import type { Route } from '../http';
+import {
+    ApiError, json, notFound, paginate, pathInt, readJsonBody, requireEnum, requireInt, requireString, optionalNumber, optionalNumberParam,
+    optionalInt, optionalIntParam, optionalStringArray,
+} from '../http';
+import { requireUser } from './users';
+import {
+    getAllRestaurantsFromDb, getRestaurantById, fetchAndSaveRestaurantsToDb,
+    getUserRestaurantPreferences, saveUserRestaurantPreferences,
+    recordUserRestaurantLike, recordRestaurantFeedback, getRestaurantFeedbackByUserId, getLikedRestaurantIdsByUserId,
+} from '../../db/restaurantDb';
+import { getRestaurantRecommendations } from '../../restaurants/recommender';
+import { parseOpeningTime } from '../../restaurants/openingHours';
+import { MAX_PRICE_LEVEL } from '../../restaurants/priceLevel';
+import { getUserLocation } from '../../db/userLocationDb';
+import {
+    getRestaurantArea, getRestaurantAreas, renameRestaurantArea, forgetRestaurantArea,
+    getActiveRestaurantArea, setActiveRestaurantArea,
+} from '../../db/restaurantAreaDb';
+
+const FEEDBACK_TYPES: readonly RestaurantFeedbackType[] = ['like', 'dislike', 'skip', 'visited'];
+
+// Same defaults the CLI starts new users with
+function defaultRestaurantPreferences(userId: number): RestaurantUserPreferences {
+    return { user_id: userId, favoriteCuisines: [], dietaryRestrictions: [], minRating: 3.0 };
+}
+
+// ?near=<saved label> or ?lat=&lng=, plus an optional ?withinKm= radius
+export async function resolveOrigin(userId: number, url: URL): Promise<Pick<RestaurantRankingOptions, 'origin' | 'originLabel' | 'maxDistanceKm'>> {
+    const maxDistanceKm = optionalNumberParam(url, 'withinKm', 0.1, 1000);
+    const near = url.searchParams.get('near')?.trim();
+    const latitude = optionalNumberParam(url, 'lat', -90, 90);
+    const longitude = optionalNumberParam(url, 'lng', -180, 180);
+    if (near) {
+        const saved = await getUserLocation(userId, near);
+        if (!saved) throw notFound(`Location "${near}"`);
+        return { origin: { latitude: saved.latitude, longitude: saved.longitude }, originLabel: saved.label, maxDistanceKm };
+    }
+    if (latitude !== undefined && longitude !== undefined) return { origin: { latitude, longitude }, maxDistanceKm };
+    if (latitude !== undefined || longitude !== undefined || maxDistanceKm !== undefined) {
+        throw new ApiError(400, 'validation_error', 'Give both lat and lng, or near=<saved location>, to search by distance.', { field: 'near' });
+    }
+    return {};
+}
+
+async function requireArea(areaId: number) {
+    const area = await getRestaurantArea(areaId);
+    if (!area) throw notFound('Restaurant area');
+    return area;
+}
+
+// ?open=now or ?open=Friday%2020:00
+export function resolveOpenAt(url: URL): Pick<RestaurantRankingOptions, 'openAt'> {
+    const open = url.searchParams.get('open');
+    if (open === null) return {};
+    const openAt = parseOpeningTime(open);
+    if (!openAt) throw new ApiError(400, 'validation_error', 'open must be "now" or a day and time, e.g. "Friday 20:00".', { field: 'open' });
+    return { openAt };
+}
+
+// ?areaId=<id> or ?areaId=all; without it, the user's active area (or everything if none is set)
+export async function restaurantsInScope(userId: number, url: URL) {
+    const param = url.searchParams.get('areaId')?.trim();
+    if (param?.toLowerCase() === 'all') return getAllRestaurantsFromDb();
+    const areaId = optionalIntParam(url, 'areaId', 1, Number.MAX_SAFE_INTEGER);
+    const area = areaId === undefined ? await getActiveRestaurantArea(userId) : await requireArea(areaId);
+    return getAllRestaurantsFromDb({ areaId: area?.id });
+}
+
+export const restaurantRoutes: Route[] = [
+    {
+        method: 'GET',
+        path: '/restaurants',
+        handler: async ({ url }) => {
+            const cuisine = url.searchParams.get('cuisine')?.trim() || undefined;
+            const areaId = optionalIntParam(url, 'areaId', 1, Number.MAX_SAFE_INTEGER);
+            if (areaId !== undefined) await requireArea(areaId);
+            return json(paginate(await getAllRestaurantsFromDb({ cuisine, areaId }), url));
+        },
+    },
+    {
+        method: 'GET',
+        path: '/restaurants/:restaurantId',
+        handler: async ({ params }) => {
+            const restaurant = await getRestaurantById(pathInt(params, 'restaurantId'));
+            if (!restaurant) throw notFound('Restaurant');
+            return json(restaurant);
+        },
+    },
+    {
+        // Pulls restaurants for an area from the configured source into the DB
+        method: 'POST',
+        path: '/restaurants/search',
+        handler: async ({ request, url }) => {
+            const location = requireString(await readJsonBody(request), 'location');
+            return json(paginate(await fetchAndSaveRestaurantsToDb(location), url));
+        },
+    },
+    {
+        method: 'GET',
+        path: '/restaurant-areas',
+        handler: async ({ url }) => json(paginate(await getRestaurantAreas(), url)),
+    },
+    {
+        method: 'PUT',
+        path: '/restaurant-areas/:areaId',
+        handler: async ({ request, params }) => {
+            const area = await requireArea(pathInt(params, 'areaId'));
+            const name = requireString(await readJsonBody(request), 'name');
+            if (!await renameRestaurantArea(area.id, name)) {
+                throw new ApiError(409, 'conflict', `Another area is already called "${name}".`, { field: 'name' });
+            }
+            return json(await getRestaurantArea(area.id));
+        },
+    },
+    {
+        // Also deletes restaurants only this area held, unless someone liked or rated them
+        method: 'DELETE',
+        path: '/restaurant-areas/:areaId',
+        handler: async ({ params }) => {
+            const area = await requireArea(pathInt(params, 'areaId'));
+            return json({ area_id: area.id, restaurants_deleted: await forgetRestaurantArea(area.id) });
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/restaurant-area',
+        handler: async ({ params }) => {
+            const user = await requireUser(params);
+            return json({ user_id: user.id, area: (await getActiveRestaurantArea(user.id)) ?? null });
+        },
+    },
+    {
+        // { "areaId": <id> } makes an area active; { "areaId": null } goes back to every stored restaurant
+        method: 'PUT',
+        path: '/users/:userId/restaurant-area',
+        handler: async ({ request, params }) => {
+            const user = await requireUser(params);
+            const body = await readJsonBody(request);
+            const area = body.areaId === null ? undefined : await requireArea(requireInt(body, 'areaId', 1, Number.MAX_SAFE_INTEGER));
+            await setActiveRestaurantArea(user.id, area?.id ?? null);
+            return json({ user_id: user.id, area: area ?? null });
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/restaurant-preferences',
+        handler: async ({ params }) => {
+            const user = await requireUser(params);
+            return json((await getUserRestaurantPreferences(user.id)) ?? defaultRestaurantPreferences(user.id));
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/users/:userId/restaurant-preferences',
+        handler: async ({ request, params }) => {
+            const user = await requireUser(params);
+            const body = await readJsonBody(request);
+            const defaults = defaultRestaurantPreferences(user.id);
+            const minPriceLevel = optionalInt(body, 'minPriceLevel', 0, MAX_PRICE_LEVEL);
+            const maxPriceLevel = optionalInt(body, 'maxPriceLevel', 0, MAX_PRICE_LEVEL);
+            if (minPriceLevel !== undefined && maxPriceLevel !== undefined && minPriceLevel > maxPriceLevel) {
+                throw new ApiError(400, 'validation_error', 'minPriceLevel must not be above maxPriceLevel.', { field: 'minPriceLevel' });
+            }
+            await saveUserRestaurantPreferences({
+                user_id: user.id,
+                favoriteCuisines: optionalStringArray(body, 'favoriteCuisines') ?? defaults.favoriteCuisines,
+                dietaryRestrictions: optionalStringArray(body, 'dietaryRestrictions') ?? defaults.dietaryRestrictions,
+                minRating: optionalNumber(body, 'minRating', 0, 5) ?? defaults.minRating,
+                minPriceLevel,
+                maxPriceLevel,
+            });
+            return json(await getUserRestaurantPreferences(user.id));
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/restaurant-feedback',
+        handler: async ({ url, params }) => json(paginate(await getRestaurantFeedbackByUserId((await requireUser(params)).id), url)),
+    },
+    {
+        method: 'POST',
+        path: '/users/:userId/restaurant-feedback',
+        handler: async ({ request, params }) => {
+            const user = await requireUser(params);
+            const body = await readJsonBody(request);
+            const restaurantId = requireInt(body, 'restaurantId', 1, Number.MAX_SAFE_INTEGER);
+            const feedback = requireEnum(body, 'feedback', FEEDBACK_TYPES);
+            if (!await getRestaurantById(restaurantId)) throw notFound('Restaurant');
+            // Likes also go in user_restaurant_likes, which records the feedback row itself
+            if (feedback === 'like') await recordUserRestaurantLike(user.id, restaurantId);
+            else await recordRestaurantFeedback(user.id, restaurantId, feedback);
+            return json({ user_id: user.id, restaurant_id: restaurantId, feedback }, 201);
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/restaurant-recommendations',
+        handler: async ({ url, params }) => {
+            const user = await requireUser(params);
+            const prefs = (await getUserRestaurantPreferences(user.id)) ?? defaultRestaurantPreferences(user.id);
+            const seed = url.searchParams.get('seed') ?? undefined;
+            const jitterParam = url.searchParams.get('jitter');
+            const jitter = jitterParam === null ? undefined : Number(jitterParam);
+            if (jitter !== undefined && (!Number.isFinite(jitter) || jitter < 0)) {
+                throw new ApiError(400, 'validation_error', 'jitter must be a non-negative number.', { field: 'jitter' });
+            }
+            const excludeIds = new Set(await getLikedRestaurantIdsByUserId(user.id));
+            const recommendations = await getRestaurantRecommendations(user, prefs, await restaurantsInScope(user.id, url), excludeIds, {
+                seed, jitter, ...await resolveOrigin(user.id, url), ...resolveOpenAt(url),
+            });
+            return json(paginate(recommendations, url));
+        },
+    },
+];
@@ -0,0 +1,124 @@
+// src/api/routes/tvShows.ts
+import type { UserTvShowPreferences } from '../../tvshows/types';
+import type { Route } from '../http';
+import {
+    ApiError, json, notFound, paginate, getPagination, pathInt, readJsonBody,
+    requireInt, optionalNumber, optionalStringArray, optionalLanguageArray,
+} from '../http';
+import { requireUser } from './users';
+import { searchTvShows, getTvShowDetails } from '../../common/tmdbService';
+import { getWatchProvidersForTitle } from '../../common/watchProviders';
+import {
+    saveTvShow, getTvShowByTmdbId, getUserTvShowPreferences, saveUserTvShowPreferences,
+    saveUserTvShowRating, getUserTvShowRatings,
+} from '../../db/tvShowDb';
+import { getTvShowRecommendationsForUser } from '../../tvshows/recommender';
+
+const MAX_RECOMMENDATIONS = 50; // Each one can cost TMDB calls; deeper pages aren't worth it
+
+function upstreamError(): ApiError {
+    return new ApiError(502, 'upstream_error', 'Could not reach TMDB. Try again later.');
+}
+
+// Stored copy if we have it, otherwise fetched from TMDB and saved
+async function loadTvShow(tmdbId: number) {
+    const existing = await getTvShowByTmdbId(tmdbId);
+    if (existing) return existing;
+    const details = await getTvShowDetails(tmdbId);
+    if (!details) throw notFound('TV show');
+    const saved = await saveTvShow(details);
+    if (!saved) throw new ApiError(500, 'internal_error', 'Could not save TV show.');
+    return saved;
+}
+
+function parseTvShowPreferences(userId: number, body: Record<string, unknown>): UserTvShowPreferences {
+    return {
+        user_id: userId,
+        preferred_genres: optionalStringArray(body, 'preferred_genres'),
+        preferred_languages: optionalLanguageArray(body, 'preferred_languages'),
+        first_air_year_min: optionalNumber(body, 'first_air_year_min', 1920, 2100),
+        first_air_year_max: optionalNumber(body, 'first_air_year_max', 1920, 2100),
+        avg_episode_duration_min: optionalNumber(body, 'avg_episode_duration_min', 0, 600),
+        avg_episode_duration_max: optionalNumber(body, 'avg_episode_duration_max', 0, 600),
+        min_imdb_rating: optionalNumber(body, 'min_imdb_rating', 0, 10),
+        preferred_streaming_providers: optionalStringArray(body, 'preferred_streaming_providers'),
+    };
+}
+
+export const tvShowRoutes: Route[] = [
+    {
+        method: 'GET',
+        path: '/tv/search',
+        handler: async ({ url }) => {
+            const query = url.searchParams.get('query')?.trim();
+            if (!query) throw new ApiError(400, 'validation_error', 'query is required.', { field: 'query' });
+            const { page } = getPagination(url);
+            const results = await searchTvShows(query, page);
+            if (!results) throw upstreamError();
+            // TMDB pages are fixed at 20, so pageSize is ignored here
+            return json({
+                data: results.results,
+                pagination: { page: results.page, pageSize: 20, total: results.total_results, totalPages: results.total_pages },
+            });
+        },
+    },
+    {
+        method: 'GET',
+        path: '/tv/:tmdbId',
+        handler: async ({ url, params }) => {
+            const tmdbId = pathInt(params, 'tmdbId');
+            const details = await getTvShowDetails(tmdbId);
+            if (!details) throw notFound('TV show');
+            const tvShow = await saveTvShow(details);
+            const region = (url.searchParams.get('region') || 'US').toUpperCase();
+            return json({ tvShow, watchProviders: await getWatchProvidersForTitle('tv', tmdbId, region) });
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/tv-preferences',
+        handler: async ({ params }) => {
+            const user = await requireUser(params);
+            return json((await getUserTvShowPreferences(user.id)) ?? { user_id: user.id });
+        },
+    },
+    {
+        method: 'PUT',
+        path: '/users/:userId/tv-preferences',
+        handler: async ({ request, params }) => {
+            const user = await requireUser(params);
+            await saveUserTvShowPreferences(parseTvShowPreferences(user.id, await readJsonBody(request)));
+            return json(await getUserTvShowPreferences(user.id));
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/tv-ratings',
+        handler: async ({ url, params }) => json(paginate(await getUserTvShowRatings((await requireUser(params)).id), url)),
+    },
+    {
+        method: 'POST',
+        path: '/users/:userId/tv-ratings',
+        handler: async ({ request, params }) => {
+            const user = await requireUser(params);
+            const body = await readJsonBody(request);
+            const tmdbId = requireInt(body, 'tmdbId', 1, Number.MAX_SAFE_INTEGER);
+            const rating = requireInt(body, 'rating', 1, 5);
+            const tvShow = await loadTvShow(tmdbId);
+            await saveUserTvShowRating(user.id, tvShow.id, rating);
+            return json({ user_id: user.id, tv_show_id: tvShow.id, tv_show_tmdb_id: tvShow.tmdb_id, rating, tvShow }, 201);
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/tv-recommendations',
+        handler: async ({ url, params }) => {
+            const user = await requireUser(params);
+            const { page, pageSize } = getPagination(url);
+            const prefs = (await getUserTvShowPreferences(user.id)) ?? { user_id: user.id };
+            const excludeTmdbIds = new Set((await getUserTvShowRatings(user.id)).map(r => r.tv_show_tmdb_id));
+            const count = Math.min(page * pageSize, MAX_RECOMMENDATIONS);
+            return json(paginate(await getTvShowRecommendationsForUser(user, prefs, excludeTmdbIds, count), url));
+        },
+    },
+];
@@ -0,0 +1,88 @@
+// src/api/routes/users.ts
+import type { User } from '../../common/types';
+import type { Route } from '../http';
+import { ApiError, json, notFound, paginate, pathInt, readJsonBody, requireBoolean, requireEnum, requireNumber, requireString } from '../http';
+import { ensureUser, getAllUsers, getUserById } from '../../db/setup';
+import { getUserSettings, saveUserSettings } from '../../db/userSettingsDb';
+import { saveUserLocation, getUserLocations, deleteUserLocation } from '../../db/userLocationDb';
+
+// Resolves :userId or fails with 404; used by every per-user route
+export async function requireUser(params: Record<string, string>): Promise<User> {
+    const user = await getUserById(pathInt(params, 'userId'));
+    if (!user) throw notFound('User');
+    return user;
+}
+
+export const userRoutes: Route[] = [
+    {
+        method: 'GET',
+        path: '/users',
+        handler: async ({ url }) => json(paginate(await getAllUsers(), url)),
+    },
+    {
+        method: 'POST',
+        path: '/users',
+        handler: async ({ request }) => {
+            const name = requireString(await readJsonBody(request), 'name');
+            const existing = (await getAllUsers()).find(u => u.name === name);
+            const user = existing ?? await ensureUser(name);
+            if (!user) throw new ApiError(500, 'internal_error', 'Could not create user.');
+            return json(user, existing ? 200 : 201);
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId',
+        handler: async ({ params }) => json(await requireUser(params)),
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/settings',
+        handler: async ({ params }) => json(await getUserSettings((await requireUser(params)).id)),
+    },
+    {
+        method: 'PUT',
+        path: '/users/:userId/settings',
+        handler: async ({ request, params }) => {
+            const user = await requireUser(params);
+            const body = await readJsonBody(request);
+            const settings = await getUserSettings(user.id);
+            if (body.home_region !== undefined) {
+                const region = requireString(body, 'home_region');
+                if (!/^[a-z]{2}$/i.test(region)) throw new ApiError(400, 'validation_error', 'home_region must be a 2-letter country code.', { field: 'home_region' });
+                settings.home_region = region.toUpperCase();
+            }
+            if (body.streaming_filter !== undefined) settings.streaming_filter = requireEnum(body, 'streaming_filter', ['rank', 'only'] as const);
+            if (body.watchlist_boost !== undefined) settings.watchlist_boost = requireBoolean(body, 'watchlist_boost');
+            await saveUserSettings(settings);
+            return json(await getUserSettings(user.id));
+        },
+    },
+    {
+        method: 'GET',
+        path: '/users/:userId/locations',
+        handler: async ({ url, params }) => json(paginate(await getUserLocations((await requireUser(params)).id), url)),
+    },
+    {
+        // Creates or moves the labelled location, e.g. PUT /users/1/locations/home { latitude, longitude }
+        method: 'PUT',
+        path: '/users/:userId/locations/:label',
+        handler: async ({ request, params }) => {
+            const user = await requireUser(params);
+            const body = await readJsonBody(request);
+            const point = { latitude: requireNumber(body, 'latitude', -90, 90), longitude: requireNumber(body, 'longitude', -180, 180) };
+            const saved = await saveUserLocation(user.id, params.label ?? '', point);
+            if (!saved) throw new ApiError(500, 'internal_error', 'Could not save location.');
+            return json(saved);
+        },
+    },
+    {
+        method: 'DELETE',
+        path: '/users/:userId/locations/:label',
+        handler: async ({ params }) => {
+            const user = await requireUser(params);
+            if (!await deleteUserLocation(user.id, params.label ?? '')) throw notFound('Location');
+            return json({ user_id: user.id, label: params.label, removed: true });
+        },
+    },
+];
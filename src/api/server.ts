@@ -0,0 +1,98 @@
+// src/api/server.ts
+// JSON REST API over the same SQLite DB and recommenders as the CLI.
+// Run: bun run api  (port from API_PORT, default 3000)
+import chalk from 'chalk';
+import type { Server } from 'bun';
+import type { Route } from './http';
+import { ApiError, CORS_HEADERS, errorResponse, json } from './http';
+import { userRoutes } from './routes/users';
+import { movieRoutes } from './routes/movies';
+import { tvShowRoutes } from './routes/tvShows';
+import { restaurantRoutes } from './routes/restaurants';
+import { profileRoutes } from './routes/profiles';
+import { groupRoutes } from './routes/groups';
+import { initDB, closeDB } from '../db/setup';
+import { extractConfigFlags, loadConfig } from '../common/config';
+import { waitForPendingRevalidations } from '../common/responseCache';
+
+const DEFAULT_API_PORT = 3000;
+
+interface CompiledRoute extends Route {
+    regex: RegExp;
+    paramNames: string[];
+}
+
+const routes: Route[] = [
+    { method: 'GET', path: '/health', handler: async () => json({ status: 'ok' }) },
+    ...userRoutes,
+    ...movieRoutes,
+    ...tvShowRoutes,
+    ...restaurantRoutes,
+    ...profileRoutes,
+    ...groupRoutes,
+];
+
+// "/users/:userId" -> /^\/users\/([^/]+)$/ with paramNames ["userId"]
+function compileRoute(route: Route): CompiledRoute {
+    const paramNames: string[] = [];
+    const pattern = route.path.replace(/:([a-zA-Z]+)/g, (_, name: string) => {
+        paramNames.push(name);
+        return '([^/]+)';
+    });
+    return { ...route, regex: new RegExp(`^${pattern}$`), paramNames };
+}
+
+const compiledRoutes = routes.map(compileRoute);
+
+// A path segment like "%E0" isn't valid percent-encoding; that's the client's mistake, not a 500
+function decodePathParam(name: string, value: string): string {
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        throw new ApiError(400, 'validation_error', `Path parameter "${name}" is not valid percent-encoding.`, { field: name });
+    }
+}
+
+export async function handleApiRequest(request: Request): Promise<Response> {
+    if (request.method === 'OPTIONS') return new Response(null, { status: 204, headers: CORS_HEADERS });
+
+    const url = new URL(request.url);
+    const pathname = url.pathname.replace(/\/+$/, '') || '/';
+    try {
+        let pathMatched = false;
+        for (const route of compiledRoutes) {
+            const match = pathname.match(route.regex);
+            if (!match) continue;
+            pathMatched = true;
+            if (route.method !== request.method) continue;
+            const params = Object.fromEntries(route.paramNames.map((name, i) => [name, decodePathParam(name, match[i + 1]!)]));
+            return await route.handler({ request, url, params });
+        }
+        if (pathMatched) throw new ApiError(405, 'method_not_allowed', `${request.method} is not supported on ${pathname}.`);
+        throw new ApiError(404, 'not_found', `No route for ${request.method} ${pathname}.`);
+    } catch (error) {
+        if (error instanceof ApiError) return errorResponse(error);
+        console.error(chalk.red(`[API] Unhandled error for ${request.method} ${pathname}:`), error);
+        return errorResponse(new ApiError(500, 'internal_error', 'Something went wrong.'));
+    }
+}
+
+export function startApiServer(port: number = DEFAULT_API_PORT): Server {
+    const server = Bun.serve({ port, fetch: handleApiRequest });
+    console.log(chalk.bold.cyan(`🌐 Recommender API listening on http://localhost:${server.port}`));
+    return server;
+}
+
+if (import.meta.main) {
+    await initDB({ config: loadConfig(extractConfigFlags(process.argv.slice(2)).flags) });
+    const server = startApiServer(Number(process.env.API_PORT) || DEFAULT_API_PORT);
+    const shutdown = async () => {
+        server.stop();
+        await waitForPendingRevalidations();
+        await closeDB();
+        console.log(chalk.bold.cyan("API shut down gracefully."));
+        process.exit(0);
+    };
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+}
@@ -0,0 +1,911 @@
+// src/cli/commands.ts
+// Non-interactive subcommands for scripts and cron jobs, e.g.
+//   bun start recommend movies --user Alice --count 10 --json
+// Exit codes: 0 success, 1 the command ran but failed, 2 bad usage.
+import chalk from 'chalk';
+import { parseArgs } from 'util';
+import { readFile, writeFile } from 'fs/promises';
+import type { User, Recommendation, CacheService, MediaType } from '../common/types';
+import type { Movie, UserMoviePreferences } from '../movies/types';
+import type { TvShow, UserTvShowPreferences } from '../tvshows/types';
+import type { Restaurant, RestaurantArea, RestaurantFeedbackType, RestaurantUserPreferences, RestaurantRankingOptions } from '../restaurants/types';
+import { parseGeoPoint } from '../common/geo';
+import { initDB, getDB, ensureUser, getAllUsers, getUserById } from '../db/setup';
+import { migrateUp, migrateDown, getMigrationStatus, getLatestSchemaVersion } from '../db/migrator';
+import { getUserSettings, saveUserSettings } from '../db/userSettingsDb';
+import {
+    saveMovie, getMovieByTmdbId, getUserMoviePreferences, saveUserMoviePreferences, saveUserMovieRating, getUserMovieRatings,
+} from '../db/movieDb';
+import {
+    saveTvShow, getTvShowByTmdbId, getTvShowByOurId, getUserTvShowPreferences, saveUserTvShowPreferences, saveUserTvShowRating,
+    getUserTvShowRatings,
+} from '../db/tvShowDb';
+import { getTvEpisode, unmarkEpisodeWatched } from '../db/episodeDb';
+import { saveUserLocation, getUserLocation, getUserLocations, deleteUserLocation } from '../db/userLocationDb';
+import {
+    getRestaurantArea, getRestaurantAreas, getRestaurantAreaByQuery, findRestaurantArea, renameRestaurantArea, forgetRestaurantArea,
+    getActiveRestaurantArea, setActiveRestaurantArea,
+} from '../db/restaurantAreaDb';
+import {
+    getAllRestaurantsFromDb, getRestaurantById, fetchAndSaveRestaurantsToDb, getUserRestaurantPreferences,
+    saveUserRestaurantPreferences, recordUserRestaurantLike, recordRestaurantFeedback, getLikedRestaurantIdsByUserId,
+} from '../db/restaurantDb';
+import { clearResponseCache } from '../db/responseCacheDb';
+import { addToWatchlist, removeFromWatchlist, getWatchlist, markWatched, unmarkWatched, getWatched } from '../db/watchlistDb';
+import { getMovieDetails, getTvShowDetails } from '../common/tmdbService';
+import { getCacheEntries, purgeExpiredCacheEntries } from '../common/responseCache';
+import { explainRecommendation, explainMemberFits } from '../common/explanations';
+import type { GroupRecommendation } from '../common/groupScoring';
+import { GROUP_STRATEGIES, parseGroupStrategy } from '../common/groupScoring';
+import type { ProfileConflictStrategy } from '../profiles/types';
+import { ProfileImportError } from '../profiles/types';
+import { exportUserProfile } from '../profiles/profileExport';
+import { importUserProfile, parseUserProfile, ensureTitleSaved } from '../profiles/profileImport';
+import { exportRatingsCsv, importRatingsCsv } from '../profiles/ratingsCsv';
+import type { WatchHistorySource } from '../profiles/watchHistoryImport';
+import { WATCH_HISTORY_SOURCES, importWatchHistory } from '../profiles/watchHistoryImport';
+import { csvToRecords, toCsv } from '../common/csv';
+import { getMovieRecommendationsForUser, getGroupMovieRecommendations } from '../movies/recommender';
+import { getTvShowRecommendationsForUser } from '../tvshows/recommender';
+import type { TvShowProgress } from '../tvshows/types';
+import {
+    getTvShowProgress, getInProgressShows, getShowsWithNewEpisodes, markEpisodeWatched, formatEpisodeCode, parseEpisodeCode,
+} from '../tvshows/episodeProgress';
+import { getRestaurantRecommendations, getGroupRestaurantRecommendations } from '../restaurants/recommender';
+import { parseOpeningTime } from '../restaurants/openingHours';
+import { formatPriceLevel, parseBudget } from '../restaurants/priceLevel';
+import { formatRating } from '../restaurants/adjustedRating';
+
+export const EXIT_OK = 0;
+export const EXIT_FAILURE = 1;
+export const EXIT_USAGE = 2;
+
+export class CommandError extends Error {
+    constructor(message: string, public readonly exitCode: number = EXIT_FAILURE) {
+        super(message);
+        this.name = 'CommandError';
+    }
+}
+
+const FEEDBACK_TYPES: RestaurantFeedbackType[] = ['like', 'dislike', 'skip', 'visited'];
+
+const USAGE = `Usage: bun start <command> [options]
+
+Commands:
+  users list
+  users add <name>
+  recommend <movies|tv|restaurants> --user <name|id> [--count N] [--seed S]
+  recommend restaurants --user <name|id> [--near <label|lat,lng>] [--within KM]   (all also work with --group)
+                        [--area <name|id|all>]   (default: the user's active area)
+                        [--open now|"<day> HH:MM"]   (e.g. --open "Friday 20:00", in each restaurant's local time)
+  recommend <movies|restaurants> --group <a,b,...> [--strategy average|least-misery|most-pleasure] [--count N]
+  rate <movie|tv> <tmdbId> <1-5> --user <name|id>
+  watchlist add|remove <movie|tv> <tmdbId> --user <name|id>
+  watchlist list [movie|tv] --user <name|id>
+  watched add|remove <movie|tv> <tmdbId> --user <name|id>   (watched titles are never recommended)
+  watched list [movie|tv] --user <name|id>
+  progress list --user <name|id> [--new]       (shows in progress; --new: only those with new episodes)
+  progress show <tvTmdbId> --user <name|id>
+  progress watch <tvTmdbId> <S1E3> --user <name|id> [--through]
+  progress unwatch <tvTmdbId> <S1E3> --user <name|id>
+  restaurants fetch "<location>" [--user <name|id>]   (with --user, also makes it their active area)
+  restaurants list [--cuisine <name>] [--area <name|id>]
+  areas list [--user <name|id>]
+  areas use <name|id|all> --user <name|id>
+  areas rename <name|id> "<new name>"
+  areas forget <name|id>     (also deletes its restaurants unless another area or someone's feedback needs them)
+  restaurants feedback <restaurantId> <like|dislike|skip|visited> --user <name|id>
+  locations list --user <name|id>
+  locations set <label> <lat,lng> --user <name|id>     (e.g. locations set home 51.5074,-0.1278)
+  locations remove <label> --user <name|id>
+  prefs show <movie|tv|restaurants> --user <name|id>
+  prefs set movie|tv --user <name|id> [--genres a,b] [--languages en,fr] [--year-min Y] [--year-max Y]
+                     [--duration-min M] [--duration-max M] [--min-rating R] [--providers a,b]
+  prefs set restaurants --user <name|id> [--cuisines a,b] [--dietary a,b] [--min-rating R] [--budget "$-$$$"|any]
+  settings show --user <name|id>
+  settings set --user <name|id> [--region GB] [--streaming rank|only] [--watchlist-boost on|off]
+  cache stats
+  cache purge [--expired] [--service tmdb|google_places]
+  profile export --user <name|id> [--out file.json]
+  profile import <file.json> [--on-conflict fail|merge|replace] [--as <name>]
+  ratings export --user <name|id> [--out file.csv]
+  ratings import <file.csv> --user <name|id> [--replace]
+  ratings import <file> --user <name|id> --from letterboxd|imdb|trakt [--report unmatched.csv] [--replace]
+  migrate status
+  migrate up [--to N]
+  migrate down [--to N]      (default: one step back)
+
+Options:
+  --json           Print machine-readable JSON on stdout (logs go to stderr)
+  --help           Show this message
+  --db <path>      Use this SQLite file (also DB_PATH, or "dbPath" in the config file)
+  --in-memory      Use a throwaway in-memory database
+  --config <file>  Read settings from this JSON file (default ./recommender.config.json)
+
+With no command, the interactive menu starts.`;
+
+// What a command produced: JSON for --json, a printer for people
+interface CommandOutput {
+    data: unknown;
+    print: () => void;
+}
+
+type Flags = {
+    user?: string; count?: string; seed?: string; json?: boolean; help?: boolean;
+    genres?: string; languages?: string; 'year-min'?: string; 'year-max'?: string;
+    'duration-min'?: string; 'duration-max'?: string; 'min-rating'?: string; providers?: string;
+    cuisines?: string; dietary?: string; cuisine?: string;
+    region?: string; streaming?: string; 'watchlist-boost'?: string; expired?: boolean; service?: string; to?: string;
+    out?: string; 'on-conflict'?: string; as?: string; replace?: boolean; from?: string; report?: string;
+    new?: boolean; through?: boolean; group?: string; strategy?: string; near?: string; within?: string; area?: string;
+    open?: string; budget?: string;
+};
+
+function parseCommandLine(argv: string[]): { positionals: string[]; flags: Flags } {
+    try {
+        const { values, positionals } = parseArgs({
+            args: argv,
+            allowPositionals: true,
+            strict: true,
+            options: {
+                user: { type: 'string', short: 'u' },
+                count: { type: 'string', short: 'n' },
+                seed: { type: 'string' },
+                json: { type: 'boolean' },
+                help: { type: 'boolean', short: 'h' },
+                genres: { type: 'string' },
+                languages: { type: 'string' },
+                'year-min': { type: 'string' },
+                'year-max': { type: 'string' },
+                'duration-min': { type: 'string' },
+                'duration-max': { type: 'string' },
+                'min-rating': { type: 'string' },
+                providers: { type: 'string' },
+                cuisines: { type: 'string' },
+                dietary: { type: 'string' },
+                cuisine: { type: 'string' },
+                region: { type: 'string' },
+                streaming: { type: 'string' },
+                'watchlist-boost': { type: 'string' },
+                expired: { type: 'boolean' },
+                service: { type: 'string' },
+                to: { type: 'string' },
+                out: { type: 'string', short: 'o' },
+                'on-conflict': { type: 'string' },
+                as: { type: 'string' },
+                replace: { type: 'boolean' },
+                from: { type: 'string' },
+                report: { type: 'string' },
+                new: { type: 'boolean' },
+                through: { type: 'boolean' },
+                group: { type: 'string', short: 'g' },
+                strategy: { type: 'string' },
+                near: { type: 'string' },
+                within: { type: 'string' },
+                area: { type: 'string' },
+                open: { type: 'string' },
+                budget: { type: 'string' },
+            },
+        });
+        return { positionals, flags: values as Flags };
+    } catch (error: any) {
+        throw new CommandError(error.message, EXIT_USAGE);
+    }
+}
+
+// --- Argument helpers ---
+
+function usageError(message: string): CommandError {
+    return new CommandError(`${message}\nRun with --help for usage.`, EXIT_USAGE);
+}
+
+function parseNumber(value: string | undefined, name: string, min: number, max: number, integer: boolean = true): number | undefined {
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || (integer && !Number.isInteger(parsed)) || parsed < min || parsed > max) {
+        throw usageError(`${name} must be ${integer ? 'an integer' : 'a number'} between ${min} and ${max}.`);
+    }
+    return parsed;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+    if (value === undefined) return undefined;
+    const items = value.split(',').map(s => s.trim()).filter(Boolean);
+    return items.length > 0 ? items : undefined;
+}
+
+// ISO 639-1 codes, lower-cased to match TMDB's original_language
+function parseLanguageList(value: string | undefined): string[] | undefined {
+    return parseList(value)?.map(language => language.toLowerCase());
+}
+
+async function findUser(nameOrId: string): Promise<User> {
+    const asId = Number(nameOrId);
+    const user = Number.isInteger(asId) && asId > 0
+        ? await getUserById(asId)
+        : (await getAllUsers()).find(u => u.name.toLowerCase() === nameOrId.toLowerCase());
+    if (!user) throw new CommandError(`User "${nameOrId}" not found. Create it with: users add "${nameOrId}"`);
+    return user;
+}
+
+// --user takes a name or an ID
+async function resolveUser(flags: Flags): Promise<User> {
+    if (!flags.user) throw usageError("--user is required.");
+    return findUser(flags.user);
+}
+
+// --group takes a comma-separated list of names or IDs
+async function resolveGroup(flags: Flags): Promise<User[]> {
+    const users: User[] = [];
+    for (const nameOrId of parseList(flags.group) ?? []) {
+        const user = await findUser(nameOrId);
+        if (!users.some(u => u.id === user.id)) users.push(user);
+    }
+    if (users.length < 2) throw usageError("--group needs at least two different users, e.g. --group Bob,Diana.");
+    return users;
+}
+
+/**
+ * --near (a saved location label of any of `users`, or "lat,lng") and --within, as ranking
+ * options. --within needs --near.
+ */
+async function resolveNear(flags: Flags, users: User[]): Promise<Pick<RestaurantRankingOptions, 'origin' | 'originLabel' | 'maxDistanceKm'>> {
+    const maxDistanceKm = parseNumber(flags.within, '--within', 0.1, 1000, false);
+    if (flags.near === undefined) {
+        if (maxDistanceKm !== undefined) throw usageError("--within needs --near <label|lat,lng>.");
+        return {};
+    }
+    const point = parseGeoPoint(flags.near);
+    if (point) return { origin: point, maxDistanceKm };
+    for (const user of users) {
+        const saved = await getUserLocation(user.id, flags.near);
+        if (saved) return { origin: { latitude: saved.latitude, longitude: saved.longitude }, originLabel: saved.label, maxDistanceKm };
+    }
+    throw new CommandError(`No saved location "${flags.near}". Save one with: locations set ${flags.near} <lat,lng>`);
+}
+
+// --open "now" or "Friday 20:00"
+function resolveOpenAt(flags: Flags): Pick<RestaurantRankingOptions, 'openAt'> {
+    if (flags.open === undefined) return {};
+    const openAt = parseOpeningTime(flags.open);
+    if (!openAt) throw usageError('--open takes "now" or a day and time, e.g. "Friday 20:00".');
+    return { openAt };
+}
+
+// An area by ID, name or the query it was fetched with
+async function findArea(nameOrId: string): Promise<RestaurantArea> {
+    const asId = Number(nameOrId);
+    const area = Number.isInteger(asId) && asId > 0 ? await getRestaurantArea(asId) : await findRestaurantArea(nameOrId);
+    if (!area) throw new CommandError(`No restaurant area "${nameOrId}". See: areas list`);
+    return area;
+}
+
+/**
+ * The restaurants to recommend from: --area if given ("all" for everything), else the
+ * user's active area. Fails when that leaves nothing to rank.
+ */
+async function restaurantsForRecommendation(flags: Flags, user: User): Promise<Restaurant[]> {
+    const area = flags.area === undefined
+        ? await getActiveRestaurantArea(user.id)
+        : flags.area.trim().toLowerCase() === 'all' ? undefined : await findArea(flags.area);
+    const restaurants = await getAllRestaurantsFromDb({ areaId: area?.id });
+    if (restaurants.length === 0) {
+        throw new CommandError(area
+            ? `No restaurants stored for ${area.name}. Run: restaurants fetch "${area.query}"`
+            : 'No restaurants stored yet. Run: restaurants fetch "<location>"');
+    }
+    return restaurants;
+}
+
+function formatRestaurantLine(r: Restaurant): string {
+    const closed = r.businessStatus === 'CLOSED_PERMANENTLY' ? chalk.red(' permanently closed') : r.businessStatus === 'CLOSED_TEMPORARILY' ? chalk.yellow(' temporarily closed') : '';
+    const price = r.priceLevel === undefined ? '' : `, ${formatPriceLevel(r.priceLevel)}`;
+    return `${r.id}. ${r.name} ${chalk.dim(`(${r.cuisines.join(', ')}, ${formatRating(r, '★')}${price})`)}${closed}`;
+}
+
+function printRecommendation<T>(rec: Recommendation<T>, title: string, rank: number): void {
+    console.log(chalk.bold.yellowBright(`${rank}. ${title}`) + chalk.dim(`  (score ${rec.score.toFixed(1)})`));
+    explainRecommendation(rec).forEach(line => console.log(chalk.cyan(`     • ${line}`)));
+}
+
+function printGroupRecommendation<T>(rec: GroupRecommendation<T>, title: string, rank: number): void {
+    printRecommendation(rec, title, rank);
+    explainMemberFits(rec).forEach(line => console.log(chalk.magenta(`     ◦ ${line}`)));
+}
+
+// --- Commands ---
+
+async function usersCommand(args: string[]): Promise<CommandOutput> {
+    const [action, ...rest] = args;
+    if (action === 'list') {
+        const users = await getAllUsers();
+        return { data: users, print: () => users.forEach(u => console.log(`${u.id}. ${u.name}`)) };
+    }
+    if (action === 'add') {
+        const name = rest.join(' ').trim();
+        if (!name) throw usageError("users add needs a name.");
+        const user = await ensureUser(name);
+        if (!user) throw new CommandError(`Could not create user "${name}".`);
+        return { data: user, print: () => console.log(chalk.green(`User "${user.name}" has ID ${user.id}.`)) };
+    }
+    throw usageError(`Unknown users action "${action ?? ''}".`);
+}
+
+async function groupRecommendCommand(kind: string | undefined, flags: Flags): Promise<CommandOutput> {
+    const users = await resolveGroup(flags);
+    const strategy = flags.strategy === undefined ? 'average' : parseGroupStrategy(flags.strategy);
+    if (!strategy) throw usageError(`--strategy must be one of: ${GROUP_STRATEGIES.join(', ')}.`);
+    const count = parseNumber(flags.count, '--count', 1, 50) ?? 5;
+
+    if (kind === 'movies' || kind === 'movie') {
+        const members = [];
+        for (const user of users) members.push({ user, prefs: (await getUserMoviePreferences(user.id)) ?? { user_id: user.id } });
+        const { recommendations, conflicts } = await getGroupMovieRecommendations(members, strategy, count);
+        return {
+            data: { strategy, conflicts, recommendations },
+            print: () => {
+                conflicts.forEach(conflict => console.log(chalk.yellow(conflict)));
+                recommendations.forEach((rec, i) => printGroupRecommendation(rec, `${rec.item.title} (${rec.item.release_date?.substring(0, 4) || 'N/A'}) [TMDB ${rec.item.tmdb_id}]`, i + 1));
+            },
+        };
+    }
+    if (kind === 'restaurants' || kind === 'restaurant') {
+        const members = [];
+        for (const user of users) {
+            members.push({
+                user,
+                prefs: (await getUserRestaurantPreferences(user.id)) ?? { user_id: user.id, favoriteCuisines: [], dietaryRestrictions: [], minRating: 3.0 },
+            });
+        }
+        const all = await restaurantsForRecommendation(flags, users[0]!); // The first member's active area, unless --area says otherwise
+        const recs = (await getGroupRestaurantRecommendations(members, all, strategy, new Set(), { ...await resolveNear(flags, users), ...resolveOpenAt(flags) })).slice(0, count);
+        return {
+            data: { strategy, recommendations: recs },
+            print: () => recs.length === 0
+                ? console.log(chalk.yellow('Nothing stored suits the whole group; try fetching another area.'))
+                : recs.forEach((rec, i) => printGroupRecommendation(rec, `${rec.item.name} (${rec.item.cuisines.join(', ')}) [ID ${rec.item.id}]`, i + 1)),
+        };
+    }
+    throw usageError(`Group recommendations are available for movies and restaurants.`);
+}
+
+async function recommendCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [kind] = args;
+    if (flags.group !== undefined) return groupRecommendCommand(kind, flags);
+    const user = await resolveUser(flags);
+    const count = parseNumber(flags.count, '--count', 1, 50) ?? 5;
+
+    if (kind === 'movies' || kind === 'movie') {
+        const prefs: UserMoviePreferences = (await getUserMoviePreferences(user.id)) ?? { user_id: user.id };
+        const exclude = new Set((await getUserMovieRatings(user.id)).map(r => r.movie_tmdb_id));
+        const recs: Recommendation<Movie>[] = await getMovieRecommendationsForUser(user, prefs, exclude, count);
+        return { data: recs, print: () => recs.forEach((rec, i) => printRecommendation(rec, `${rec.item.title} (${rec.item.release_date?.substring(0, 4) || 'N/A'}) [TMDB ${rec.item.tmdb_id}]`, i + 1)) };
+    }
+    if (kind === 'tv') {
+        const prefs: UserTvShowPreferences = (await getUserTvShowPreferences(user.id)) ?? { user_id: user.id };
+        const exclude = new Set((await getUserTvShowRatings(user.id)).map(r => r.tv_show_tmdb_id));
+        const recs: Recommendation<TvShow>[] = await getTvShowRecommendationsForUser(user, prefs, exclude, count);
+        return { data: recs, print: () => recs.forEach((rec, i) => printRecommendation(rec, `${rec.item.name} (${rec.item.first_air_date?.substring(0, 4) || 'N/A'}) [TMDB ${rec.item.tmdb_id}]`, i + 1)) };
+    }
+    if (kind === 'restaurants' || kind === 'restaurant') {
+        const prefs: RestaurantUserPreferences = (await getUserRestaurantPreferences(user.id))
+            ?? { user_id: user.id, favoriteCuisines: [], dietaryRestrictions: [], minRating: 3.0 };
+        const exclude = new Set(await getLikedRestaurantIdsByUserId(user.id));
+        const all = await restaurantsForRecommendation(flags, user);
+        const options: RestaurantRankingOptions = { seed: flags.seed, ...await resolveNear(flags, [user]), ...resolveOpenAt(flags) };
+        const recs: Recommendation<Restaurant>[] = (await getRestaurantRecommendations(user, prefs, all, exclude, options)).slice(0, count);
+        return { data: recs, print: () => recs.forEach((rec, i) => printRecommendation(rec, `${rec.item.name} (${rec.item.cuisines.join(', ')}) [ID ${rec.item.id}]`, i + 1)) };
+    }
+    throw usageError(`recommend needs one of: movies, tv, restaurants.`);
+}
+
+async function rateCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [kind, tmdbIdArg, ratingArg] = args;
+    const user = await resolveUser(flags);
+    const tmdbId = parseNumber(tmdbIdArg, 'tmdbId', 1, Number.MAX_SAFE_INTEGER);
+    const rating = parseNumber(ratingArg, 'rating', 1, 5);
+    if (tmdbId === undefined || rating === undefined) throw usageError("rate needs a TMDB ID and a rating, e.g. rate movie 603 4.");
+
+    if (kind === 'movie') {
+        let movie = await getMovieByTmdbId(tmdbId);
+        if (!movie) {
+            const details = await getMovieDetails(tmdbId);
+            movie = details ? await saveMovie(details) : undefined;
+        }
+        if (!movie) throw new CommandError(`Movie ${tmdbId} not found on TMDB.`);
+        await saveUserMovieRating(user.id, movie.id, rating);
+        const rated = movie;
+        return { data: { user_id: user.id, movie_id: rated.id, movie_tmdb_id: tmdbId, rating }, print: () => console.log(chalk.green(`Rated "${rated.title}" ${rating} stars for ${user.name}.`)) };
+    }
+    if (kind === 'tv') {
+        let show = await getTvShowByTmdbId(tmdbId);
+        if (!show) {
+            const details = await getTvShowDetails(tmdbId);
+            show = details ? await saveTvShow(details) : undefined;
+        }
+        if (!show) throw new CommandError(`TV show ${tmdbId} not found on TMDB.`);
+        await saveUserTvShowRating(user.id, show.id, rating);
+        const rated = show;
+        return { data: { user_id: user.id, tv_show_id: rated.id, tv_show_tmdb_id: tmdbId, rating }, print: () => console.log(chalk.green(`Rated "${rated.name}" ${rating} stars for ${user.name}.`)) };
+    }
+    throw usageError("rate needs movie or tv.");
+}
+
+// `watchlist` and `watched` take the same arguments: add|remove <movie|tv> <tmdbId>, or list [movie|tv]
+function titleListCommand(list: 'watchlist' | 'watched'): (args: string[], flags: Flags) => Promise<CommandOutput> {
+    return async (args, flags) => {
+        const [action, kind, tmdbIdArg] = args;
+        const user = await resolveUser(flags);
+        if (kind !== undefined && kind !== 'movie' && kind !== 'tv') throw usageError(`${list} needs movie or tv.`);
+        const mediaType = kind as MediaType | undefined;
+
+        if (action === 'list') {
+            const entries = list === 'watchlist' ? await getWatchlist(user.id, mediaType) : await getWatched(user.id, mediaType);
+            return {
+                data: entries,
+                print: () => entries.length === 0
+                    ? console.log(`Nothing on ${user.name}'s ${list} yet.`)
+                    : entries.forEach(e => console.log(`${e.media_type === 'movie' ? 'Movie' : 'TV   '}  ${e.title} [TMDB ${e.tmdb_id}]  ${chalk.dim(e.added_at)}`)),
+            };
+        }
+        if (action !== 'add' && action !== 'remove') throw usageError(`Unknown ${list} action "${action ?? ''}".`);
+        const tmdbId = parseNumber(tmdbIdArg, 'tmdbId', 1, Number.MAX_SAFE_INTEGER);
+        if (!mediaType || tmdbId === undefined) throw usageError(`${list} ${action} needs movie or tv and a TMDB ID, e.g. ${list} ${action} movie 603.`);
+        const titleId = await ensureTitleSaved(mediaType, tmdbId);
+        if (!titleId) throw new CommandError(`${mediaType === 'movie' ? 'Movie' : 'TV show'} ${tmdbId} not found on TMDB.`);
+
+        if (action === 'add') {
+            await (list === 'watchlist' ? addToWatchlist : markWatched)(user.id, mediaType, titleId);
+        } else if (!(await (list === 'watchlist' ? removeFromWatchlist : unmarkWatched)(user.id, mediaType, titleId))) {
+            throw new CommandError(`${mediaType} ${tmdbId} is not on ${user.name}'s ${list}.`);
+        }
+        return {
+            data: { user_id: user.id, list, action, media_type: mediaType, tmdb_id: tmdbId },
+            print: () => console.log(chalk.green(list === 'watchlist'
+                ? `${action === 'add' ? 'Added' : 'Removed'} ${mediaType} ${tmdbId} ${action === 'add' ? 'to' : 'from'} ${user.name}'s watchlist.`
+                : `${action === 'add' ? 'Marked' : 'Unmarked'} ${mediaType} ${tmdbId} as watched for ${user.name}.`)),
+        };
+    };
+}
+
+function printProgress(progress: TvShowProgress): void {
+    const next = progress.nextEpisode ? `next ${formatEpisodeCode(progress.nextEpisode)}` : 'caught up';
+    const fresh = progress.newSinceLastWatched.length > 0 ? chalk.greenBright(`  ${progress.newSinceLastWatched.length} new`) : '';
+    console.log(`${progress.show.name} [TMDB ${progress.show.tmdb_id}]  ${progress.watchedCount}/${progress.airedCount} watched, ${next}${fresh}`);
+}
+
+async function progressCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [action, tmdbIdArg, codeArg] = args;
+    const user = await resolveUser(flags);
+    if (action === 'list') {
+        const shows = flags.new ? await getShowsWithNewEpisodes(user.id) : await getInProgressShows(user.id);
+        return {
+            data: shows,
+            print: () => shows.length === 0 ? console.log(flags.new ? 'No new episodes.' : 'No shows in progress.') : shows.forEach(printProgress),
+        };
+    }
+    if (action !== 'show' && action !== 'watch' && action !== 'unwatch') throw usageError(`Unknown progress action "${action ?? ''}".`);
+
+    const tmdbId = parseNumber(tmdbIdArg, 'tvTmdbId', 1, Number.MAX_SAFE_INTEGER);
+    if (tmdbId === undefined) throw usageError(`progress ${action} needs a TV show TMDB ID.`);
+    const showId = await ensureTitleSaved('tv', tmdbId);
+    const show = showId ? await getTvShowByOurId(showId) : undefined;
+    if (!show) throw new CommandError(`TV show ${tmdbId} not found on TMDB.`);
+
+    if (action !== 'show') {
+        const code = codeArg ? parseEpisodeCode(codeArg) : undefined;
+        if (!code) throw usageError(`progress ${action} needs an episode like S1E3.`);
+        if (action === 'watch') {
+            const marked = await markEpisodeWatched(user.id, show, code.season, code.episode, { through: flags.through });
+            if (!marked) throw new CommandError(`${show.name} has no episode ${codeArg}.`);
+        } else {
+            const episode = await getTvEpisode(show.id, code.season, code.episode);
+            if (!episode || !(await unmarkEpisodeWatched(user.id, episode.id))) throw new CommandError(`${codeArg} of ${show.name} isn't marked as watched.`);
+        }
+    }
+    const progress = await getTvShowProgress(user.id, show);
+    return {
+        data: progress ?? null,
+        print: () => progress ? printProgress(progress) : console.log(`${user.name} hasn't started ${show.name}.`),
+    };
+}
+
+async function restaurantsCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [action, ...rest] = args;
+    if (action === 'fetch') {
+        const location = rest.join(' ').trim();
+        if (!location) throw usageError('restaurants fetch needs a location, e.g. restaurants fetch "Austin, TX".');
+        const user = flags.user === undefined ? undefined : await resolveUser(flags);
+        const restaurants = await fetchAndSaveRestaurantsToDb(location);
+        if (restaurants.length === 0) throw new CommandError(`No restaurants found for "${location}".`);
+        const area = await getRestaurantAreaByQuery(location);
+        if (user && area) await setActiveRestaurantArea(user.id, area.id);
+        return { data: restaurants, print: () => restaurants.forEach(r => console.log(formatRestaurantLine(r))) };
+    }
+    if (action === 'list') {
+        const area = flags.area === undefined || flags.area.trim().toLowerCase() === 'all' ? undefined : await findArea(flags.area);
+        const restaurants = await getAllRestaurantsFromDb({ cuisine: flags.cuisine, areaId: area?.id });
+        return { data: restaurants, print: () => restaurants.forEach(r => console.log(formatRestaurantLine(r))) };
+    }
+    if (action === 'feedback') {
+        const user = await resolveUser(flags);
+        const restaurantId = parseNumber(rest[0], 'restaurantId', 1, Number.MAX_SAFE_INTEGER);
+        const feedback = rest[1] as RestaurantFeedbackType | undefined;
+        if (restaurantId === undefined || !feedback || !FEEDBACK_TYPES.includes(feedback)) {
+            throw usageError(`restaurants feedback needs a restaurant ID and one of: ${FEEDBACK_TYPES.join(', ')}.`);
+        }
+        const restaurant = await getRestaurantById(restaurantId);
+        if (!restaurant) throw new CommandError(`Restaurant ${restaurantId} not found.`);
+        if (feedback === 'like') await recordUserRestaurantLike(user.id, restaurantId);
+        else await recordRestaurantFeedback(user.id, restaurantId, feedback);
+        return { data: { user_id: user.id, restaurant_id: restaurantId, feedback }, print: () => console.log(chalk.green(`Recorded "${feedback}" for ${restaurant.name}.`)) };
+    }
+    throw usageError(`Unknown restaurants action "${action ?? ''}".`);
+}
+
+async function areasCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [action, nameOrId, ...rest] = args;
+    if (action === 'list') {
+        const areas = await getRestaurantAreas();
+        const active = flags.user === undefined ? undefined : await getActiveRestaurantArea((await resolveUser(flags)).id);
+        return {
+            data: areas.map(area => ({ ...area, active: area.id === active?.id })),
+            print: () => areas.length === 0
+                ? console.log('No areas yet. Run: restaurants fetch "<location>"')
+                : areas.forEach(a => console.log(`${a.id}. ${a.name}${a.id === active?.id ? chalk.green(' (active)') : ''} ` +
+                    chalk.dim(`(${a.restaurant_count} places, searched as "${a.query}", last fetched ${a.last_fetched_at})`))),
+        };
+    }
+    if (!nameOrId) throw usageError(`areas ${action ?? ''} needs an area name or ID.`);
+    if (action === 'use') {
+        const user = await resolveUser(flags);
+        if (nameOrId.trim().toLowerCase() === 'all') {
+            await setActiveRestaurantArea(user.id, null);
+            return { data: { user_id: user.id, area: null }, print: () => console.log(chalk.green(`${user.name} now gets recommendations from every stored restaurant.`)) };
+        }
+        const area = await findArea(nameOrId);
+        await setActiveRestaurantArea(user.id, area.id);
+        return { data: { user_id: user.id, area }, print: () => console.log(chalk.green(`${user.name} now gets recommendations from ${area.name}.`)) };
+    }
+    if (action === 'rename') {
+        const area = await findArea(nameOrId);
+        const name = rest.join(' ').trim();
+        if (!name) throw usageError('areas rename needs a new name.');
+        if (!await renameRestaurantArea(area.id, name)) throw new CommandError(`There's already an area called "${name}".`);
+        return { data: await getRestaurantArea(area.id), print: () => console.log(chalk.green(`Renamed "${area.name}" to "${name}".`)) };
+    }
+    if (action === 'forget') {
+        const area = await findArea(nameOrId);
+        const removedRestaurants = await forgetRestaurantArea(area.id);
+        return {
+            data: { area_id: area.id, removedRestaurants },
+            print: () => console.log(chalk.green(`Forgot "${area.name}" and deleted ${removedRestaurants} of its ${area.restaurant_count} restaurants.`)),
+        };
+    }
+    throw usageError(`Unknown areas action "${action ?? ''}".`);
+}
+
+async function locationsCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [action, label, coordinates] = args;
+    const user = await resolveUser(flags);
+    if (action === 'list') {
+        const locations = await getUserLocations(user.id);
+        return {
+            data: locations,
+            print: () => locations.length === 0
+                ? console.log(`${user.name} has no saved locations.`)
+                : locations.forEach(l => console.log(`${l.label}  ${l.latitude}, ${l.longitude}`)),
+        };
+    }
+    if (action === 'set') {
+        const point = coordinates === undefined ? undefined : parseGeoPoint(coordinates);
+        if (!label?.trim() || !point) throw usageError('locations set needs a label and "lat,lng", e.g. locations set home 51.5074,-0.1278.');
+        const saved = await saveUserLocation(user.id, label, point);
+        if (!saved) throw new CommandError(`Could not save location "${label}".`);
+        return { data: saved, print: () => console.log(chalk.green(`Saved "${saved.label}" for ${user.name}.`)) };
+    }
+    if (action === 'remove') {
+        if (!label) throw usageError('locations remove needs a label.');
+        if (!await deleteUserLocation(user.id, label)) throw new CommandError(`${user.name} has no location "${label}".`);
+        return { data: { user_id: user.id, label, removed: true }, print: () => console.log(chalk.green(`Removed "${label}".`)) };
+    }
+    throw usageError(`Unknown locations action "${action ?? ''}".`);
+}
+
+async function prefsCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [action, kind] = args;
+    const user = await resolveUser(flags);
+    const show = (prefs: unknown): CommandOutput => ({ data: prefs, print: () => console.log(JSON.stringify(prefs, null, 2)) });
+
+    if (action === 'show') {
+        if (kind === 'movie' || kind === 'movies') return show((await getUserMoviePreferences(user.id)) ?? { user_id: user.id });
+        if (kind === 'tv') return show((await getUserTvShowPreferences(user.id)) ?? { user_id: user.id });
+        if (kind === 'restaurants' || kind === 'restaurant') return show((await getUserRestaurantPreferences(user.id)) ?? null);
+        throw usageError("prefs show needs movie, tv or restaurants.");
+    }
+    if (action !== 'set') throw usageError(`Unknown prefs action "${action ?? ''}".`);
+
+    // Only the flags given are changed; the rest of the saved preferences stay as they were
+    const minRating = parseNumber(flags['min-rating'], '--min-rating', 0, 10, false);
+    if (kind === 'movie' || kind === 'movies') {
+        const prefs: UserMoviePreferences = (await getUserMoviePreferences(user.id)) ?? { user_id: user.id };
+        prefs.preferred_genres = parseList(flags.genres) ?? prefs.preferred_genres;
+        prefs.preferred_languages = parseLanguageList(flags.languages) ?? prefs.preferred_languages;
+        prefs.release_year_min = parseNumber(flags['year-min'], '--year-min', 1870, 2100) ?? prefs.release_year_min;
+        prefs.release_year_max = parseNumber(flags['year-max'], '--year-max', 1870, 2100) ?? prefs.release_year_max;
+        prefs.duration_min_minutes = parseNumber(flags['duration-min'], '--duration-min', 0, 1000) ?? prefs.duration_min_minutes;
+        prefs.duration_max_minutes = parseNumber(flags['duration-max'], '--duration-max', 0, 1000) ?? prefs.duration_max_minutes;
+        prefs.min_imdb_rating = minRating ?? prefs.min_imdb_rating;
+        prefs.preferred_streaming_providers = parseList(flags.providers) ?? prefs.preferred_streaming_providers;
+        await saveUserMoviePreferences(prefs);
+        return show(await getUserMoviePreferences(user.id));
+    }
+    if (kind === 'tv') {
+        const prefs: UserTvShowPreferences = (await getUserTvShowPreferences(user.id)) ?? { user_id: user.id };
+        prefs.preferred_genres = parseList(flags.genres) ?? prefs.preferred_genres;
+        prefs.preferred_languages = parseLanguageList(flags.languages) ?? prefs.preferred_languages;
+        prefs.first_air_year_min = parseNumber(flags['year-min'], '--year-min', 1920, 2100) ?? prefs.first_air_year_min;
+        prefs.first_air_year_max = parseNumber(flags['year-max'], '--year-max', 1920, 2100) ?? prefs.first_air_year_max;
+        prefs.avg_episode_duration_min = parseNumber(flags['duration-min'], '--duration-min', 0, 600) ?? prefs.avg_episode_duration_min;
+        prefs.avg_episode_duration_max = parseNumber(flags['duration-max'], '--duration-max', 0, 600) ?? prefs.avg_episode_duration_max;
+        prefs.min_imdb_rating = minRating ?? prefs.min_imdb_rating;
+        prefs.preferred_streaming_providers = parseList(flags.providers) ?? prefs.preferred_streaming_providers;
+        await saveUserTvShowPreferences(prefs);
+        return show(await getUserTvShowPreferences(user.id));
+    }
+    if (kind === 'restaurants' || kind === 'restaurant') {
+        if (minRating !== undefined && minRating > 5) throw usageError("--min-rating for restaurants must be between 0 and 5.");
+        const prefs: RestaurantUserPreferences = (await getUserRestaurantPreferences(user.id))
+            ?? { user_id: user.id, favoriteCuisines: [], dietaryRestrictions: [], minRating: 3.0 };
+        prefs.favoriteCuisines = parseList(flags.cuisines) ?? prefs.favoriteCuisines;
+        prefs.dietaryRestrictions = parseList(flags.dietary) ?? prefs.dietaryRestrictions;
+        prefs.minRating = minRating ?? prefs.minRating;
+        if (flags.budget !== undefined) {
+            const budget = parseBudget(flags.budget);
+            if (!budget) throw usageError('--budget takes a price range such as "$-$$$", "1-3", "up to $$", "$$+" or "any".');
+            Object.assign(prefs, budget);
+        }
+        await saveUserRestaurantPreferences(prefs);
+        return show(await getUserRestaurantPreferences(user.id));
+    }
+    throw usageError("prefs set needs movie, tv or restaurants.");
+}
+
+async function settingsCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [action] = args;
+    const user = await resolveUser(flags);
+    const settings = await getUserSettings(user.id);
+    if (action === 'set') {
+        if (flags.region !== undefined) {
+            if (!/^[a-z]{2}$/i.test(flags.region)) throw usageError("--region must be a 2-letter country code.");
+            settings.home_region = flags.region.toUpperCase();
+        }
+        if (flags.streaming !== undefined) {
+            if (flags.streaming !== 'rank' && flags.streaming !== 'only') throw usageError("--streaming must be rank or only.");
+            settings.streaming_filter = flags.streaming;
+        }
+        if (flags['watchlist-boost'] !== undefined) {
+            if (flags['watchlist-boost'] !== 'on' && flags['watchlist-boost'] !== 'off') throw usageError("--watchlist-boost must be on or off.");
+            settings.watchlist_boost = flags['watchlist-boost'] === 'on';
+        }
+        await saveUserSettings(settings);
+    } else if (action !== 'show') {
+        throw usageError(`Unknown settings action "${action ?? ''}".`);
+    }
+    return {
+        data: settings,
+        print: () => console.log(`Region: ${settings.home_region}, streaming filter: ${settings.streaming_filter}, watchlist boost: ${settings.watchlist_boost ? 'on' : 'off'}`),
+    };
+}
+
+async function cacheCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [action] = args;
+    const service = flags.service as CacheService | undefined;
+    if (service !== undefined && service !== 'tmdb' && service !== 'google_places') throw usageError("--service must be tmdb or google_places.");
+    if (action === 'stats') {
+        const entries = await getCacheEntries(service);
+        const stats = {
+            entries: entries.length,
+            fresh: entries.filter(e => e.freshness === 'fresh').length,
+            stale: entries.filter(e => e.freshness === 'stale').length,
+            expired: entries.filter(e => e.freshness === 'expired').length,
+            sizeBytes: entries.reduce((sum, e) => sum + e.size_bytes, 0),
+            hits: entries.reduce((sum, e) => sum + e.hit_count, 0),
+        };
+        return { data: stats, print: () => console.log(`${stats.entries} entries (${stats.fresh} fresh, ${stats.stale} stale, ${stats.expired} expired), ${stats.sizeBytes} bytes, ${stats.hits} hits`) };
+    }
+    if (action === 'purge') {
+        const removed = flags.expired ? await purgeExpiredCacheEntries(service) : await clearResponseCache(service);
+        return { data: { removed }, print: () => console.log(chalk.green(`Removed ${removed} cache entries.`)) };
+    }
+    throw usageError(`Unknown cache action "${action ?? ''}".`);
+}
+
+async function readInputFile(path: string | undefined, what: string): Promise<string> {
+    if (!path) throw usageError(`${what} needs a file path.`);
+    try {
+        return await readFile(path, 'utf-8');
+    } catch (error: any) {
+        throw new CommandError(`Could not read ${path}: ${error.message}`);
+    }
+}
+
+function printSkipped(skipped: string[]): void {
+    skipped.forEach(reason => console.log(chalk.yellow(`  skipped ${reason}`)));
+}
+
+async function profileCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [action, file] = args;
+    if (action === 'export') {
+        const user = await resolveUser(flags);
+        const profile = await exportUserProfile(user.id);
+        if (!profile) throw new CommandError(`User "${flags.user}" not found.`);
+        const text = JSON.stringify(profile, null, 2) + '\n';
+        if (flags.out) await writeFile(flags.out, text, 'utf-8');
+        return {
+            data: profile,
+            print: () => flags.out
+                ? console.log(chalk.green(`Exported "${user.name}" to ${flags.out}.`))
+                : process.stdout.write(text),
+        };
+    }
+    if (action === 'import') {
+        const onConflict = (flags['on-conflict'] ?? 'fail') as ProfileConflictStrategy;
+        if (!['fail', 'merge', 'replace'].includes(onConflict)) throw usageError("--on-conflict must be fail, merge or replace.");
+        const text = await readInputFile(file, 'profile import');
+        try {
+            const result = await importUserProfile(parseUserProfile(JSON.parse(text)), { onConflict, userName: flags.as });
+            return {
+                data: result,
+                print: () => {
+                    console.log(chalk.green(`${result.created ? 'Created' : 'Updated'} "${result.user.name}" (ID ${result.user.id}): `
+                        + `${result.movieRatings} movie ratings, ${result.tvShowRatings} TV ratings, `
+                        + `${result.watchlist} watchlist and ${result.watched} watched titles, ${result.episodes} watched episodes, `
+                        + `${result.restaurantLikes} restaurant likes, ${result.restaurantFeedback} feedback entries.`));
+                    printSkipped(result.skipped);
+                },
+            };
+        } catch (error) {
+            if (error instanceof SyntaxError) throw new CommandError(`${file} is not valid JSON: ${error.message}`);
+            if (error instanceof ProfileImportError) throw new CommandError(error.message);
+            throw error;
+        }
+    }
+    throw usageError(`Unknown profile action "${action ?? ''}".`);
+}
+
+async function ratingsCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [action, file] = args;
+    const user = await resolveUser(flags);
+    if (action === 'export') {
+        const csv = await exportRatingsCsv(user.id);
+        if (flags.out) await writeFile(flags.out, csv, 'utf-8');
+        return {
+            data: csvToRecords(csv),
+            print: () => flags.out
+                ? console.log(chalk.green(`Exported ratings for "${user.name}" to ${flags.out}.`))
+                : process.stdout.write(csv),
+        };
+    }
+    if (action === 'import' && flags.from) {
+        const source = flags.from.toLowerCase() as WatchHistorySource;
+        if (!WATCH_HISTORY_SOURCES.includes(source)) throw usageError(`--from must be one of ${WATCH_HISTORY_SOURCES.join(', ')}.`);
+        const text = await readInputFile(file, 'ratings import');
+        const result = await importWatchHistory(user.id, source, text, { replace: flags.replace }).catch((error: Error) => {
+            throw error instanceof ProfileImportError ? new CommandError(error.message) : error;
+        });
+        if (flags.report) await writeFile(flags.report, toCsv(['row', 'title', 'year', 'reason'], result.unmatched), 'utf-8');
+        return {
+            data: result,
+            print: () => {
+                console.log(chalk.green(`Imported ${result.movieRatings} movie and ${result.tvShowRatings} TV ratings from ${source} for "${user.name}".`));
+                if (result.unmatched.length === 0) return;
+                console.log(chalk.yellow(`${result.unmatched.length} row(s) not imported${flags.report ? ` (written to ${flags.report})` : ''}:`));
+                result.unmatched.forEach(u => console.log(chalk.yellow(`  row ${u.row}: ${u.title}${u.year ? ` (${u.year})` : ''} - ${u.reason}`)));
+            },
+        };
+    }
+    if (action === 'import') {
+        const text = await readInputFile(file, 'ratings import');
+        const result = await importRatingsCsv(user.id, text, { replace: flags.replace }).catch((error: Error) => {
+            throw error instanceof ProfileImportError ? new CommandError(error.message) : error;
+        });
+        return {
+            data: result,
+            print: () => {
+                console.log(chalk.green(`Imported ${result.movieRatings} movie and ${result.tvShowRatings} TV ratings for "${user.name}".`));
+                printSkipped(result.skipped);
+            },
+        };
+    }
+    throw usageError(`Unknown ratings action "${action ?? ''}".`);
+}
+
+async function migrateCommand(args: string[], flags: Flags): Promise<CommandOutput> {
+    const [action] = args;
+    const db = await getDB();
+    const target = parseNumber(flags.to, '--to', 0, getLatestSchemaVersion());
+    if (action === 'status') {
+        const status = await getMigrationStatus(db);
+        return {
+            data: status,
+            print: () => {
+                console.log(`Schema version ${status.currentVersion} of ${status.latestVersion}.`);
+                status.applied.forEach(m => console.log(chalk.green(`  ✔ ${m.version} ${m.name} (${m.applied_at})`)));
+                status.pending.forEach(m => console.log(chalk.yellow(`  … ${m.version} ${m.name} (pending)`)));
+            },
+        };
+    }
+    if (action === 'up' || action === 'down') {
+        const changed = await (action === 'up' ? migrateUp(db, target) : migrateDown(db, target)).catch((error: Error) => {
+            throw new CommandError(error.message); // Already rolled back; no stack trace needed
+        });
+        const status = await getMigrationStatus(db);
+        const data = { [action === 'up' ? 'applied' : 'reverted']: changed.map(({ version, name }) => ({ version, name })), currentVersion: status.currentVersion };
+        return {
+            data,
+            print: () => console.log(changed.length === 0 ? 'Nothing to do.' : chalk.green(`Schema is now at version ${status.currentVersion}.`)),
+        };
+    }
+    throw usageError(`Unknown migrate action "${action ?? ''}".`);
+}
+
+const COMMANDS: Record<string, (args: string[], flags: Flags) => Promise<CommandOutput>> = {
+    users: usersCommand,
+    recommend: recommendCommand,
+    rate: rateCommand,
+    watchlist: titleListCommand('watchlist'),
+    watched: titleListCommand('watched'),
+    progress: progressCommand,
+    restaurants: restaurantsCommand,
+    locations: locationsCommand,
+    areas: areasCommand,
+    prefs: prefsCommand,
+    settings: settingsCommand,
+    cache: cacheCommand,
+    profile: profileCommand,
+    ratings: ratingsCommand,
+    migrate: migrateCommand,
+};
+
+export function isKnownCommand(argv: string[]): boolean {
+    const [first] = argv;
+    return first !== undefined && (first in COMMANDS || first === 'help' || first === '--help' || first === '-h');
+}
+
+/**
+ * Runs one subcommand and returns the process exit code. With --json, the only
+ * thing written to stdout is the JSON result (or `{ "error": ... }`); all the
+ * chalk progress logging from the services is sent to stderr instead.
+ */
+export async function runCommand(argv: string[]): Promise<number> {
+    const wantsJson = argv.includes('--json');
+    if (wantsJson) console.log = console.error;
+    const writeJson = (value: unknown) => process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+
+    try {
+        const { positionals, flags } = parseCommandLine(argv);
+        const [command, ...args] = positionals;
+        if (flags.help || !command || command === 'help') {
+            process.stderr.write(USAGE + '\n');
+            return command || flags.help ? EXIT_OK : EXIT_USAGE;
+        }
+        const handler = COMMANDS[command];
+        if (!handler) throw usageError(`Unknown command "${command}".`);
+
+        // After the console.log swap, so schema chatter stays off stdout too.
+        // `migrate` manages the schema itself, so it gets the DB as-is.
+        await initDB({ runMigrations: command !== 'migrate' });
+
+        const output = await handler(args, flags);
+        if (wantsJson) writeJson(output.data);
+        else output.print();
+        return EXIT_OK;
+    } catch (error) {
+        const commandError = error instanceof CommandError ? error : new CommandError(String((error as Error)?.message ?? error));
+        if (!(error instanceof CommandError)) console.error(error);
+        if (wantsJson) writeJson({ error: { message: commandError.message, exitCode: commandError.exitCode } });
+        else console.error(chalk.red(commandError.message));
+        return commandError.exitCode;
+    }
+}
@@ -7,7 +7,17 @@ import {
     getUserById as dbGetUserById,
 } from '../db/setup';
 
-import type { User } from '../common/types'; 
+import type { User, CacheService } from '../common/types'; 
+import { getUserSettings, saveUserSettings } from '../db/userSettingsDb';
+import { getCacheEntries, purgeExpiredCacheEntries } from '../common/responseCache';
+import { clearResponseCache } from '../db/responseCacheDb';
+import { getUserMoviePreferences } from '../db/movieDb';
+import { getAllRestaurantsFromDb, getUserRestaurantPreferences } from '../db/restaurantDb';
+import { getGroupMovieRecommendations } from '../movies/recommender';
+import { getGroupRestaurantRecommendations } from '../restaurants/recommender';
+import { formatRating } from '../restaurants/adjustedRating';
+import type { GroupRecommendation, GroupStrategy } from '../common/groupScoring';
+import { explainRecommendation, explainMemberFits } from '../common/explanations';
 
 // Import the specific CLIs
 import { runRestaurantCLI } from './restaurant';
@@ -79,6 +89,137 @@ async function selectOrRegisterUser(): Promise<User | undefined> {
     }
 }
 
+async function manageUserSettings(user: User): Promise<void> {
+    console.log(chalk.cyan("\n--- Settings ---"));
+    const settings = await getUserSettings(user.id);
+
+    const regionStr = (await ask(chalk.green(`Home region for streaming availability (2-letter code, current: ${settings.home_region}): `))).trim();
+    if (regionStr) {
+        if (/^[a-z]{2}$/i.test(regionStr)) settings.home_region = regionStr.toUpperCase();
+        else console.log(chalk.yellow("Region must be a 2-letter country code (e.g. US, GB, DE). Keeping current value."));
+    }
+
+    const filterStr = (await ask(chalk.green(`Only recommend titles on my streaming services? (y/n, current: ${settings.streaming_filter === 'only' ? 'y' : 'n'}): `))).trim().toLowerCase();
+    if (filterStr === 'y') settings.streaming_filter = 'only';
+    else if (filterStr === 'n') settings.streaming_filter = 'rank';
+
+    const boostStr = (await ask(chalk.green(`Boost titles similar to my watchlist? (y/n, current: ${settings.watchlist_boost ? 'y' : 'n'}): `))).trim().toLowerCase();
+    if (boostStr === 'y') settings.watchlist_boost = true;
+    else if (boostStr === 'n') settings.watchlist_boost = false;
+
+    await saveUserSettings(settings);
+    console.log(chalk.green("Settings updated!"));
+}
+
+function formatBytes(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function manageResponseCache(): Promise<void> {
+    let back = false;
+    while (!back) {
+        const entries = await getCacheEntries();
+        console.log(chalk.cyan("\n--- API Response Cache ---"));
+        const services: CacheService[] = ['tmdb', 'google_places'];
+        services.forEach(service => {
+            const forService = entries.filter(e => e.service === service);
+            const count = (freshness: string) => forService.filter(e => e.freshness === freshness).length;
+            const size = forService.reduce((sum, e) => sum + e.size_bytes, 0);
+            const hits = forService.reduce((sum, e) => sum + e.hit_count, 0);
+            console.log(`  ${service}: ${forService.length} entries (${count('fresh')} fresh, ${count('stale')} stale, ${count('expired')} expired), ${formatBytes(size)}, ${hits} hits`);
+        });
+        console.log("\n1. List recent entries");
+        console.log("2. Purge expired entries");
+        console.log("3. Purge all TMDB entries");
+        console.log("4. Purge all Google Places entries");
+        console.log("5. Purge everything");
+        console.log("0. Back to Main Menu");
+
+        const choice = (await ask(chalk.green("Choose an option: "))).trim();
+        switch (choice) {
+            case '1':
+                if (entries.length === 0) console.log(chalk.yellow("The cache is empty."));
+                entries.slice(0, 20).forEach(e => {
+                    const params = Object.entries(e.params).map(([k, v]) => `${k}=${v}`).join('&');
+                    const colour = e.freshness === 'fresh' ? chalk.green : e.freshness === 'stale' ? chalk.yellow : chalk.red;
+                    console.log(`  ${colour(e.freshness.padEnd(7))} ${e.service} ${e.endpoint}${params ? `?${params}` : ''} ` +
+                        chalk.dim(`(${formatBytes(e.size_bytes)}, ${e.hit_count} hits, fetched ${e.fetched_at.toLocaleString()})`));
+                });
+                if (entries.length > 20) console.log(chalk.dim(`  ...and ${entries.length - 20} more.`));
+                break;
+            case '2':
+                console.log(chalk.green(`Removed ${await purgeExpiredCacheEntries()} expired entries.`));
+                break;
+            case '3':
+                console.log(chalk.green(`Removed ${await clearResponseCache('tmdb')} TMDB entries.`));
+                break;
+            case '4':
+                console.log(chalk.green(`Removed ${await clearResponseCache('google_places')} Google Places entries.`));
+                break;
+            case '5':
+                console.log(chalk.green(`Removed ${await clearResponseCache()} entries.`));
+                break;
+            case '0':
+                back = true;
+                break;
+            default:
+                console.log(chalk.red("Invalid option. Please try again."));
+        }
+    }
+}
+
+function printGroupPicks<T>(recommendations: GroupRecommendation<T>[], title: (item: T) => string): void {
+    if (recommendations.length === 0) console.log(chalk.yellow("Nothing suits the whole group right now."));
+    recommendations.forEach((rec, i) => {
+        console.log(chalk.bold.yellowBright(`\n${i + 1}. ${title(rec.item)}`) + chalk.dim(`  (group score ${rec.score.toFixed(0)})`));
+        explainRecommendation({ ...rec, scoreComponents: [] }).forEach(line => console.log(chalk.cyan(`     • ${line}`)));
+        explainMemberFits(rec).forEach(line => console.log(chalk.magenta(`     ◦ ${line}`)));
+    });
+}
+
+async function runGroupRecommendations(user: User): Promise<void> {
+    console.log(chalk.cyan("\n--- Group Recommendations ---"));
+    const others = (await dbGetAllUsers()).filter(u => u.id !== user.id);
+    if (others.length === 0) {
+        console.log(chalk.yellow("There are no other users to make a group with yet."));
+        return;
+    }
+    others.forEach(u => console.log(`  ${u.id}. ${u.name}`));
+    const ids = (await ask(chalk.green("Who's joining you? (IDs, comma-separated): "))).split(',').map(s => parseInt(s.trim()));
+    const group = [user, ...others.filter(u => ids.includes(u.id))];
+    if (group.length < 2) {
+        console.log(chalk.red("Pick at least one other user."));
+        return;
+    }
+
+    const kind = (await ask(chalk.green("1. Restaurants  2. Movies: "))).trim();
+    console.log("1. Average (default)  2. Least misery (nobody unhappy)  3. Most pleasure (somebody's favourite)");
+    const strategyChoice = (await ask(chalk.green("Strategy: "))).trim();
+    const strategy: GroupStrategy = strategyChoice === '2' ? 'least-misery' : strategyChoice === '3' ? 'most-pleasure' : 'average';
+
+    if (kind === '1') {
+        const members = [];
+        for (const member of group) {
+            members.push({
+                user: member,
+                prefs: (await getUserRestaurantPreferences(member.id)) ?? { user_id: member.id, favoriteCuisines: [], dietaryRestrictions: [], minRating: 3.0 },
+            });
+        }
+        const recommendations = await getGroupRestaurantRecommendations(members, await getAllRestaurantsFromDb(), strategy);
+        printGroupPicks(recommendations.slice(0, 5), r => `${r.name} (${r.cuisines.join(', ')}, ${formatRating(r, '★')})`);
+    } else if (kind === '2') {
+        const members = [];
+        for (const member of group) members.push({ user: member, prefs: (await getUserMoviePreferences(member.id)) ?? { user_id: member.id } });
+        const { recommendations, conflicts } = await getGroupMovieRecommendations(members, strategy);
+        conflicts.forEach(conflict => console.log(chalk.yellow(conflict)));
+        printGroupPicks(recommendations, m => `${m.title} (${m.release_date?.substring(0, 4) || 'N/A'})`);
+    } else {
+        console.log(chalk.red("Invalid option."));
+    }
+}
+
 // A small helper to get the DB instance for the check in selectOrRegisterUser
 // This assumes getDB is exported from setup.ts
 
@@ -105,7 +246,10 @@ export async function runMainCLI(): Promise<void> {
         console.log("1. 🍔 Restaurant Recommender");
         console.log("2. 🎬 Movie Recommender");
         console.log("3. 📺 TV Show Recommender");
+        console.log("4. 👥 Group Recommendations");
         console.log("-------------------------");
+        console.log("7. 🗄️  API Response Cache");
+        console.log("8. ⚙️  Settings");
         console.log("9. 🔄 Change User");
         console.log("0. 🚪 Exit Application");
 
@@ -121,6 +265,15 @@ export async function runMainCLI(): Promise<void> {
             case '3':
                 await runTvShowCLI(currentUser);
                 break;
+            case '4':
+                await runGroupRecommendations(currentUser);
+                break;
+            case '7':
+                await manageResponseCache();
+                break;
+            case '8':
+                await manageUserSettings(currentUser);
+                break;
             case '9':
                 console.log(chalk.blue("\nChanging user..."));
                 currentUser = await selectOrRegisterUser();
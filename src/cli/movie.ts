@@ -1,6 +1,6 @@
 import chalk from 'chalk';
 import readline from 'readline';
-import type { User } from '../common/types';
+import type { User, Recommendation, TitleListEntry } from '../common/types';
 import type { Movie, UserMoviePreferences } from '../movies/types';
 import {
     getMovieDetails as getTMDBMovieDetails,
@@ -14,13 +14,16 @@ import {
     saveMovie, getMovieByTmdbId, saveUserMovieRating, getRatedMovieIdsByUser,
     getUserMoviePreferences, saveUserMoviePreferences, getMovieByOurId
 } from '../db/movieDb';
+import { addToWatchlist, removeFromWatchlist, getWatchlist, markWatched, getWatched } from '../db/watchlistDb';
 import { getMovieRecommendationsForUser } from '../movies/recommender';
+import { getUserSettings } from '../db/userSettingsDb';
+import { explainRecommendation } from '../common/explanations';
 
 const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
 const ask = (query: string): Promise<string> => new Promise(resolve => rl.question(query, resolve));
 
 // Updated displayMovieSummary to handle our Movie type
-function displayMovieSummary(movie: Movie, dbId?: number): void {
+function displayMovieSummary(movie: Movie, dbId?: number, recommendation?: Recommendation<Movie>): void {
     console.log(chalk.magenta("\n----------------------------------------"));
     console.log(chalk.bold.yellowBright(`✨ ${movie.title} (${movie.release_date?.substring(0,4) || 'N/A'}) ✨`));
     if (dbId) console.log(chalk.dim(`   Our DB ID: ${dbId}`));
@@ -32,10 +35,14 @@ function displayMovieSummary(movie: Movie, dbId?: number): void {
     console.log(`   Language: ${movie.original_language || 'N/A'}`);
     const poster = getPosterUrl(movie.poster_path, 'w154');
     if (poster) console.log(chalk.dim(`   Poster: ${poster}`));
+    if (recommendation) {
+        console.log(chalk.cyan(`   Why this pick:`));
+        explainRecommendation(recommendation).forEach(line => console.log(chalk.cyan(`     • ${line}`)));
+    }
     console.log(chalk.magenta("----------------------------------------"));
 }
 
-async function viewMovieDetailsFlow(tmdbMovieId: number): Promise<void> {
+async function viewMovieDetailsFlow(tmdbMovieId: number, region: string): Promise<void> {
     console.log(chalk.cyan(`\nFetching details for TMDB ID: ${tmdbMovieId}...`));
     const details = await getTMDBMovieDetails(tmdbMovieId);
     if (!details) {
@@ -64,14 +71,14 @@ async function viewMovieDetailsFlow(tmdbMovieId: number): Promise<void> {
     }
 
     if (details["watch/providers"]?.results) {
-        const providers = details["watch/providers"].results["US"]; // Example: US
+        const providers = details["watch/providers"].results[region];
         if (providers) {
-            console.log(chalk.cyan("\n--- Watch Providers (US) ---"));
+            console.log(chalk.cyan(`\n--- Watch Providers (${region}) ---`));
             if (providers.flatrate?.length) console.log(chalk.greenBright(`   Stream: ${providers.flatrate.map(p=>p.provider_name).join(', ')}`));
             if (providers.rent?.length) console.log(`   Rent: ${providers.rent.map(p=>p.provider_name).join(', ')}`);
             if (providers.buy?.length) console.log(`   Buy: ${providers.buy.map(p=>p.provider_name).join(', ')}`);
         } else {
-            console.log(chalk.gray("   No provider information for US region."));
+            console.log(chalk.gray(`   No provider information for ${region} region.`));
         }
     }
     
@@ -110,6 +117,46 @@ async function searchAndSelectMovie(): Promise<TMDBMovieFromService | null> { //
     return searchResults.results[movieIndex] ?? null;
 }
 
+// Search, then save the chosen movie with full details so it can be listed or rated
+async function searchAndSaveMovie(): Promise<Movie | undefined> {
+    const tmdbMovie = await searchAndSelectMovie();
+    if (!tmdbMovie) return undefined;
+    const details = await getTMDBMovieDetails(tmdbMovie.id);
+    const movieInDb = details ? await saveMovie(details) : undefined;
+    if (!movieInDb) console.log(chalk.red("Could not fetch and save the selected movie."));
+    return movieInDb;
+}
+
+function printTitleList(entries: TitleListEntry[], dateLabel: string): void {
+    entries.forEach((entry, index) => console.log(`${index + 1}. ${entry.title} ${chalk.dim(`(${dateLabel} ${entry.added_at.substring(0, 10)})`)}`));
+}
+
+async function manageMovieWatchlist(userId: number): Promise<void> {
+    const watchlist = await getWatchlist(userId, 'movie');
+    console.log(chalk.cyan("\n--- My Movie Watchlist ---"));
+    if (watchlist.length === 0) console.log(chalk.gray("   Nothing saved yet. Add movies with option 5."));
+    printTitleList(watchlist, 'added');
+
+    const watched = await getWatched(userId, 'movie');
+    if (watched.length > 0) {
+        console.log(chalk.cyan("\n--- Recently Watched ---"));
+        printTitleList(watched.slice(0, 10), 'watched');
+    }
+    if (watchlist.length === 0) return;
+
+    const choice = (await ask(chalk.green("Enter a number to mark it watched, r<number> to remove it, or press Enter to go back: "))).trim().toLowerCase();
+    const remove = choice.startsWith('r');
+    const entry = watchlist[parseInt(remove ? choice.substring(1) : choice) - 1];
+    if (!entry) return;
+    if (remove) {
+        await removeFromWatchlist(userId, 'movie', entry.title_id);
+        console.log(chalk.green(`Removed "${entry.title}" from your watchlist.`));
+    } else {
+        await markWatched(userId, 'movie', entry.title_id);
+        console.log(chalk.green(`Marked "${entry.title}" as watched. It won't be recommended again.`));
+    }
+}
+
 async function manageMoviePreferences(userId: number, currentPrefs?: UserMoviePreferences): Promise<UserMoviePreferences> {
     console.log(chalk.cyan("\n--- Manage Movie Preferences ---"));
     let prefs: UserMoviePreferences = currentPrefs || { user_id: userId };
@@ -167,6 +214,9 @@ export async function runMovieCLI(currentUser: User): Promise<void> {
         console.log("2. Rate a Movie");
         console.log("3. Search and View Movie Details");
         console.log("4. Manage My Movie Preferences");
+        console.log("5. Add a Movie to My Watchlist");
+        console.log("6. Mark a Movie as Watched");
+        console.log("7. View My Watchlist");
         console.log("0. Back to Main Menu");
         const choice = await ask(chalk.green("Choose an option: "));
 
@@ -181,12 +231,12 @@ export async function runMovieCLI(currentUser: User): Promise<void> {
                 const ratedMoviesInDb = (await Promise.all(ratedMovieOurDbIds.map(id => getMovieByOurId(id)))).filter(m => m) as Movie[];
                 const excludeTmdbIds = new Set(ratedMoviesInDb.map(m => m.tmdb_id));
 
-                const recommendations = await getMovieRecommendationsForUser(currentUser, excludeTmdbIds);
+                const recommendations = await getMovieRecommendationsForUser(currentUser, userMoviePrefs, excludeTmdbIds);
                 if (recommendations.length === 0) {
                     console.log(chalk.yellow("No movie recommendations available based on current criteria. Try rating more movies or adjusting preferences."));
                 } else {
                     console.log(chalk.bold.yellowBright("\nTop Movie Recommendations for You:"));
-                    recommendations.forEach(movie => displayMovieSummary(movie, movie.id));
+                    recommendations.forEach(rec => displayMovieSummary(rec.item, rec.item.id, rec));
                 }
                 break;
             }
@@ -219,7 +269,8 @@ export async function runMovieCLI(currentUser: User): Promise<void> {
             case '3': {
                 const tmdbMovieFromSearch = await searchAndSelectMovie();
                 if(tmdbMovieFromSearch) {
-                    await viewMovieDetailsFlow(tmdbMovieFromSearch.id);
+                    const settings = await getUserSettings(currentUser.id);
+                    await viewMovieDetailsFlow(tmdbMovieFromSearch.id, settings.home_region);
                 }
                 break;
             }
@@ -227,6 +278,31 @@ export async function runMovieCLI(currentUser: User): Promise<void> {
                 userMoviePrefs = await manageMoviePreferences(currentUser.id, userMoviePrefs);
                 break;
             }
+            case '5': {
+                const movie = await searchAndSaveMovie();
+                if (movie) {
+                    await addToWatchlist(currentUser.id, 'movie', movie.id);
+                    console.log(chalk.green(`Added "${movie.title}" to your watchlist.`));
+                }
+                break;
+            }
+            case '6': {
+                const movie = await searchAndSaveMovie();
+                if (movie) {
+                    await markWatched(currentUser.id, 'movie', movie.id);
+                    console.log(chalk.green(`Marked "${movie.title}" as watched. It won't be recommended again.`));
+                    const rating = parseInt(await ask(chalk.green(`Rate it too? (1-5, or 0 to skip): `)));
+                    if (rating >= 1 && rating <= 5) {
+                        await saveUserMovieRating(currentUser.id, movie.id, rating);
+                        console.log(chalk.green(`Rated "${movie.title}" ${rating} stars. Thanks!`));
+                    }
+                }
+                break;
+            }
+            case '7': {
+                await manageMovieWatchlist(currentUser.id);
+                break;
+            }
             case '0':
                 exitMovieMenu = true;
                 break;
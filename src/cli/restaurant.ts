@@ -1,31 +1,50 @@
 // src/cli/restaurantCli.ts
 import readline from 'readline';
 import chalk from 'chalk';
-import type { User } from '../common/types';
-import type { Restaurant, RestaurantUserPreferences } from '../restaurants/types';
+import type { User, Recommendation } from '../common/types';
+import type { Restaurant, RestaurantUserPreferences, RestaurantRankingOptions } from '../restaurants/types';
 import {
     getAllRestaurantsFromDb,
     getUserRestaurantPreferences,
     saveUserRestaurantPreferences,
     recordUserRestaurantLike,
+    recordRestaurantFeedback,
     getLikedRestaurantIdsByUserId,
     fetchAndSaveRestaurantsToDb,
     seedInitialRestaurantPreferences // For initial setup if needed
 } from '../db/restaurantDb';
 import { getRestaurantRecommendations } from '../restaurants/recommender';
+import { formatOpeningHours, parseOpeningTime } from '../restaurants/openingHours';
+import { formatBudget, formatPriceLevel, parseBudget } from '../restaurants/priceLevel';
+import { formatRating } from '../restaurants/adjustedRating';
+import { explainRecommendation } from '../common/explanations';
+import { saveUserLocation, getUserLocation, getUserLocations, deleteUserLocation } from '../db/userLocationDb';
+import { parseGeoPoint } from '../common/geo';
+import {
+    getRestaurantAreas, getRestaurantAreaByQuery, renameRestaurantArea, forgetRestaurantArea,
+    getActiveRestaurantArea, setActiveRestaurantArea,
+} from '../db/restaurantAreaDb';
 
 const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
 const ask = (query: string): Promise<string> => new Promise(resolve => rl.question(query, resolve));
 
-function displayRestaurantDetails(restaurant: Restaurant): void {
+function displayRestaurantDetails(restaurant: Restaurant, recommendation?: Recommendation<Restaurant>): void {
     console.log(chalk.magenta("\n----------------------------------------"));
     console.log(chalk.bold.yellowBright(` ✨ How about: ${restaurant.name}? ✨`));
     console.log(chalk.gray(`      Address: ${restaurant.address}`));
     console.log(`      Cuisines: ${restaurant.cuisines.join(', ')}`);
-    console.log(`      Rating: ${'⭐'.repeat(Math.round(restaurant.rating))}(${restaurant.rating.toFixed(1)})`);
+    console.log(`      Rating: ${'⭐'.repeat(Math.round(restaurant.rating))}(${formatRating(restaurant)})`);
+    if (restaurant.priceLevel !== undefined) console.log(`      Price: ${formatPriceLevel(restaurant.priceLevel)}`);
     if (restaurant.dietaryOptions.length > 0) {
         console.log(`      Dietary: ${restaurant.dietaryOptions.join(', ')}`);
     }
+    if (restaurant.openingHours) {
+        console.log(`      Hours: ${formatOpeningHours(restaurant.openingHours)}${restaurant.timeZone ? chalk.dim(` (${restaurant.timeZone})`) : ''}`);
+    }
+    if (recommendation) {
+        console.log(chalk.cyan(`      Why this pick:`));
+        explainRecommendation(recommendation).forEach(line => console.log(chalk.cyan(`        • ${line}`)));
+    }
     console.log(chalk.magenta("----------------------------------------"));
 }
 
@@ -48,11 +67,108 @@ async function manageRestaurantPreferences(currentUser: User, prefs: RestaurantU
     const newMinRating = parseFloat(ratingStr);
     if (!isNaN(newMinRating) && newMinRating >=1 && newMinRating <=5) currentPrefs.minRating = newMinRating;
 
+    const budgetStr = await ask(chalk.green(`Budget ("$-$$$", "up to $$", "$$+" or "any"; current: ${formatBudget(currentPrefs) ?? 'any'}): `));
+    if (budgetStr.trim()) {
+        const budget = parseBudget(budgetStr);
+        if (budget) currentPrefs = { ...currentPrefs, ...budget };
+        else console.log(chalk.yellow(`Couldn't read "${budgetStr.trim()}"; keeping your budget as it was.`));
+    }
+
     await saveUserRestaurantPreferences(currentPrefs);
     console.log(chalk.green("Preferences updated!"));
     return currentPrefs;
 }
 
+// Asks where to search from; {} means "anywhere" (no distance scoring)
+async function askSearchOrigin(currentUser: User): Promise<Pick<RestaurantRankingOptions, 'origin' | 'originLabel' | 'maxDistanceKm'>> {
+    const locations = await getUserLocations(currentUser.id);
+    const hint = locations.length > 0 ? locations.map(l => l.label).join(', ') + ', ' : '';
+    const near = (await ask(chalk.green(`Search near (${hint}"lat,lng", or Enter for anywhere): `))).trim();
+    if (!near) return {};
+    const saved = await getUserLocation(currentUser.id, near);
+    const origin = saved ? { latitude: saved.latitude, longitude: saved.longitude } : parseGeoPoint(near);
+    if (!origin) {
+        console.log(chalk.yellow(`"${near}" isn't a saved location or "lat,lng"; searching anywhere.`));
+        return {};
+    }
+    const radius = parseFloat(await ask(chalk.green("Within how many km? (Enter for no limit): ")));
+    return { origin, originLabel: saved?.label, maxDistanceKm: radius > 0 ? radius : undefined };
+}
+
+async function askOpeningTime(): Promise<Pick<RestaurantRankingOptions, 'openAt'>> {
+    const when = (await ask(chalk.green('When are you going? ("now", a day and time like "Friday 20:00", or Enter for any time): '))).trim();
+    if (!when) return {};
+    const openAt = parseOpeningTime(when);
+    if (!openAt) console.log(chalk.yellow(`Couldn't read "${when}"; showing places whatever their hours.`));
+    return openAt ? { openAt } : {};
+}
+
+// Same as `recommend restaurants --seed`: without one the order is fully deterministic
+async function askVarietySeed(): Promise<Pick<RestaurantRankingOptions, 'seed'>> {
+    const seed = (await ask(chalk.green('Shuffle close matches a little? Enter any word or number as a seed, or Enter for the usual order: '))).trim();
+    return seed ? { seed } : {};
+}
+
+async function manageLocations(currentUser: User): Promise<void> {
+    console.log(chalk.cyan("\n--- My Locations ---"));
+    const locations = await getUserLocations(currentUser.id);
+    if (locations.length === 0) console.log(chalk.yellow("No saved locations yet."));
+    locations.forEach(l => console.log(`  ${l.label}: ${l.latitude}, ${l.longitude}`));
+
+    const label = (await ask(chalk.green("Location to add, move or remove (e.g. home; Enter to go back): "))).trim();
+    if (!label) return;
+    const coordinates = (await ask(chalk.green(`Coordinates for "${label}" as "lat,lng" (or "-" to remove it): `))).trim();
+    if (coordinates === '-') {
+        console.log(await deleteUserLocation(currentUser.id, label) ? chalk.green(`Removed "${label}".`) : chalk.yellow(`No location "${label}".`));
+        return;
+    }
+    const point = parseGeoPoint(coordinates);
+    if (!point) {
+        console.log(chalk.red('Coordinates must look like "51.5074,-0.1278".'));
+        return;
+    }
+    if (await saveUserLocation(currentUser.id, label, point)) console.log(chalk.green(`Saved "${label}".`));
+}
+
+// Numbers pick the active area, "a" goes back to all areas, r<n> renames and f<n> forgets
+async function manageAreas(currentUser: User): Promise<void> {
+    let back = false;
+    while (!back) {
+        const areas = await getRestaurantAreas();
+        const active = await getActiveRestaurantArea(currentUser.id);
+        console.log(chalk.cyan("\n--- Restaurant Areas ---"));
+        if (areas.length === 0) {
+            console.log(chalk.yellow("No areas yet. Fetch restaurants for a location first (option 2)."));
+            return;
+        }
+        areas.forEach((area, i) => {
+            const marker = area.id === active?.id ? chalk.green(' (active)') : '';
+            console.log(`  ${i + 1}. ${area.name}${marker} ${chalk.dim(`- ${area.restaurant_count} places, searched as "${area.query}", last fetched ${area.last_fetched_at}`)}`);
+        });
+        const choice = (await ask(chalk.green("Number to make active, 'a' for all areas, r<number> to rename, f<number> to forget, Enter to go back: "))).trim().toLowerCase();
+        if (!choice) {
+            back = true;
+        } else if (choice === 'a') {
+            await setActiveRestaurantArea(currentUser.id, null);
+            console.log(chalk.green("Recommending from every stored restaurant."));
+        } else {
+            const action = /^[rf]/.test(choice) ? choice[0] : 'use';
+            const area = areas[parseInt(action === 'use' ? choice : choice.slice(1)) - 1];
+            if (!area) {
+                console.log(chalk.red("Invalid option."));
+            } else if (action === 'use') {
+                await setActiveRestaurantArea(currentUser.id, area.id);
+                console.log(chalk.green(`Recommending from ${area.name}.`));
+            } else if (action === 'r') {
+                const name = (await ask(chalk.green(`New name for ${area.name}: `))).trim();
+                if (name) console.log(await renameRestaurantArea(area.id, name) ? chalk.green(`Renamed to ${name}.`) : chalk.red(`There's already an area called ${name}.`));
+            } else if ((await ask(chalk.yellow(`Forget ${area.name}? (y/n): `))).trim().toLowerCase() === 'y') {
+                const removed = await forgetRestaurantArea(area.id);
+                console.log(chalk.green(`Forgot ${area.name} and ${removed} restaurants nobody else needs.`));
+            }
+        }
+    }
+}
 
 export async function runRestaurantCLI(currentUser: User): Promise<void> {
     console.log(chalk.bold.blue("\n--- Restaurant Recommender ---"));
@@ -79,25 +195,31 @@ export async function runRestaurantCLI(currentUser: User): Promise<void> {
 
     let exitRestaurantMenu = false;
     while (!exitRestaurantMenu && userPrefs) {
-        console.log(chalk.cyan("\nRestaurant Menu:"));
+        const activeArea = await getActiveRestaurantArea(currentUser.id);
+        console.log(chalk.cyan("\nRestaurant Menu:") + chalk.gray(` (area: ${activeArea?.name ?? 'all areas'})`));
         console.log("1. Get Recommendations");
         console.log("2. Fetch New Restaurants (by location)");
         console.log("3. Manage My Preferences");
+        console.log("4. Manage My Locations");
+        console.log("5. Restaurant Areas");
         console.log("0. Back to Main Menu");
         const choice = await ask(chalk.green("Choose an option: "));
 
         switch (choice) {
             case '1': {
-                const allDbRestaurants = await getAllRestaurantsFromDb();
+                const allDbRestaurants = await getAllRestaurantsFromDb({ areaId: activeArea?.id });
                 if (allDbRestaurants.length === 0) {
-                    console.log(chalk.yellow("No restaurants in DB. Try fetching some first (option 2)."));
+                    console.log(chalk.yellow(activeArea
+                        ? `No restaurants stored for ${activeArea.name}. Fetch it again (option 2) or pick another area (option 5).`
+                        : "No restaurants in DB. Try fetching some first (option 2)."));
                     break;
                 }
 
                 const likedRestaurantIds = await getLikedRestaurantIdsByUserId(currentUser.id);
                 let shownAndLikedIds = new Set<number>(likedRestaurantIds);
 
-                let recommendations = await getRestaurantRecommendations(currentUser, userPrefs, allDbRestaurants, shownAndLikedIds);
+                const rankingOptions: RestaurantRankingOptions = { ...await askSearchOrigin(currentUser), ...await askOpeningTime(), ...await askVarietySeed() };
+                let recommendations = await getRestaurantRecommendations(currentUser, userPrefs, allDbRestaurants, shownAndLikedIds, rankingOptions);
 
                 if (recommendations.length === 0) {
                     console.log(chalk.yellow("\nNo restaurants match your current preferences and haven't been liked/shown."));
@@ -105,23 +227,31 @@ export async function runRestaurantCLI(currentUser: User): Promise<void> {
                 }
 
                 while(recommendations.length > 0) {
-                    const nextRestaurant = recommendations.shift();
-                    if (!nextRestaurant || !nextRestaurant.id) continue;
+                    const nextRecommendation = recommendations.shift();
+                    const nextRestaurant = nextRecommendation?.item;
+                    if (!nextRecommendation || !nextRestaurant || !nextRestaurant.id) continue;
 
-                    displayRestaurantDetails(nextRestaurant);
+                    displayRestaurantDetails(nextRestaurant, nextRecommendation);
                     shownAndLikedIds.add(nextRestaurant.id);
 
-                    const action = (await ask(chalk.cyan("Like it? (y/n, 's' to stop for now): "))).toLowerCase();
+                    const action = (await ask(chalk.cyan("Like it? (y = like, n = not for me, p = pass for now, v = been there, s = stop): "))).toLowerCase();
                     if (action === 'y') {
                         console.log(chalk.green(`You liked ${nextRestaurant.name}!`));
                         await recordUserRestaurantLike(currentUser.id, nextRestaurant.id);
+                    } else if (action === 'n') {
+                        await recordRestaurantFeedback(currentUser.id, nextRestaurant.id, 'dislike');
+                    } else if (action === 'p') {
+                        await recordRestaurantFeedback(currentUser.id, nextRestaurant.id, 'skip');
+                    } else if (action === 'v') {
+                        console.log(chalk.blue(`Noted that you've been to ${nextRestaurant.name}.`));
+                        await recordRestaurantFeedback(currentUser.id, nextRestaurant.id, 'visited');
                     } else if (action === 's') {
                         break; // Stop showing more recommendations for now
                     }
-                    // For 'n', we just move to the next one based on current `shownAndLikedIds`
+                    // Dismissed places are filtered by the recommender; `shownAndLikedIds` covers the rest of this session
 
                     if (recommendations.length === 0) { // If initial list exhausted, try to get more
-                        recommendations = await getRestaurantRecommendations(currentUser, userPrefs, allDbRestaurants, shownAndLikedIds);
+                        recommendations = await getRestaurantRecommendations(currentUser, userPrefs, allDbRestaurants, shownAndLikedIds, rankingOptions);
                     }
                     if (recommendations.length === 0) {
                         console.log(chalk.yellow("\nNo more matching restaurants to show based on your preferences and interactions."));
@@ -133,7 +263,12 @@ export async function runRestaurantCLI(currentUser: User): Promise<void> {
             case '2': {
                 const location = await ask(chalk.green("Enter city/area to search for restaurants: "));
                 if (location.trim()) {
-                    await fetchAndSaveRestaurantsToDb(location.trim());
+                    const fetched = await fetchAndSaveRestaurantsToDb(location.trim());
+                    const area = fetched.length > 0 ? await getRestaurantAreaByQuery(location) : undefined;
+                    if (area) {
+                        await setActiveRestaurantArea(currentUser.id, area.id);
+                        console.log(chalk.green(`Now recommending from ${area.name}.`));
+                    }
                 } else {
                     console.log(chalk.yellow("No location entered."));
                 }
@@ -143,6 +278,12 @@ export async function runRestaurantCLI(currentUser: User): Promise<void> {
                 userPrefs = await manageRestaurantPreferences(currentUser, userPrefs);
                 break;
             }
+            case '4':
+                await manageLocations(currentUser);
+                break;
+            case '5':
+                await manageAreas(currentUser);
+                break;
             case '0':
                 exitRestaurantMenu = true;
                 break;
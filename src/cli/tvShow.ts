@@ -1,7 +1,7 @@
 import chalk from 'chalk';
 import readline from 'readline';
-import type { User } from '../common/types';
-import type { TvShow, UserTvShowPreferences } from '../tvshows/types';
+import type { User, Recommendation, TitleListEntry } from '../common/types';
+import type { TvShow, TvShowProgress, UserTvShowPreferences } from '../tvshows/types';
 import {
     getTvShowDetails as getTMDBTvShowDetails,
     getTvShowSeasonDetails as getTMDBTvShowSeasonDetails,
@@ -14,12 +14,17 @@ import {
     saveTvShow, getTvShowByTmdbId, saveUserTvShowRating, getRatedTvShowIdsByUser,
     getUserTvShowPreferences, saveUserTvShowPreferences, getTvShowByOurId
 } from '../db/tvShowDb';
+import { addToWatchlist, removeFromWatchlist, getWatchlist, markWatched, getWatched } from '../db/watchlistDb';
+import { unmarkEpisodeWatched, getTvEpisode } from '../db/episodeDb';
 import { getTvShowRecommendationsForUser } from '../tvshows/recommender';
+import { getTvShowProgress, getInProgressShows, markEpisodeWatched, formatEpisodeCode, parseEpisodeCode } from '../tvshows/episodeProgress';
+import { getUserSettings } from '../db/userSettingsDb';
+import { explainRecommendation } from '../common/explanations';
 
 const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
 const ask = (query: string): Promise<string> => new Promise(resolve => rl.question(query, resolve));
 
-function displayTvShowSummary(show: TvShow, dbId?: number): void {
+function displayTvShowSummary(show: TvShow, dbId?: number, recommendation?: Recommendation<TvShow>): void {
     console.log(chalk.magenta("\n----------------------------------------"));
     console.log(chalk.bold.yellowBright(`📺 ${show.name} (${show.first_air_date?.substring(0,4) || 'N/A'}) ✨`));
     if (dbId) console.log(chalk.dim(`   Our DB ID: ${dbId}`));
@@ -31,10 +36,14 @@ function displayTvShowSummary(show: TvShow, dbId?: number): void {
     console.log(`   Language: ${show.original_language || 'N/A'}`);
     const poster = getPosterUrl(show.poster_path, 'w154');
     if (poster) console.log(chalk.dim(`   Poster: ${poster}`));
+    if (recommendation) {
+        console.log(chalk.cyan(`   Why this pick:`));
+        explainRecommendation(recommendation).forEach(line => console.log(chalk.cyan(`     • ${line}`)));
+    }
     console.log(chalk.magenta("----------------------------------------"));
 }
 
-async function viewTvShowDetailsFlow(tmdbShowId: number): Promise<void> {
+async function viewTvShowDetailsFlow(tmdbShowId: number, region: string): Promise<void> {
     console.log(chalk.cyan(`\nFetching details for TV Show TMDB ID: ${tmdbShowId}...`));
     const details = await getTMDBTvShowDetails(tmdbShowId);
     if (!details) {
@@ -58,7 +67,17 @@ async function viewTvShowDetailsFlow(tmdbShowId: number): Promise<void> {
 
     // Cast, Providers, Reviews (similar to movieCli.ts)
     if (details.credits?.cast && details.credits.cast.length > 0) { /* ... display cast ... */ }
-    if (details["watch/providers"]?.results) { /* ... display providers ... */ }
+    if (details["watch/providers"]?.results) {
+        const providers = details["watch/providers"].results[region];
+        if (providers) {
+            console.log(chalk.cyan(`\n--- Watch Providers (${region}) ---`));
+            if (providers.flatrate?.length) console.log(chalk.greenBright(`   Stream: ${providers.flatrate.map(p=>p.provider_name).join(', ')}`));
+            if (providers.rent?.length) console.log(`   Rent: ${providers.rent.map(p=>p.provider_name).join(', ')}`);
+            if (providers.buy?.length) console.log(`   Buy: ${providers.buy.map(p=>p.provider_name).join(', ')}`);
+        } else {
+            console.log(chalk.gray(`   No provider information for ${region} region.`));
+        }
+    }
     if (details.reviews?.results && details.reviews.results.length > 0) { /* ... display reviews ... */ }
 
     // Seasons and Episodes
@@ -142,6 +161,94 @@ async function manageTvShowPreferences(userId: number, currentPrefs?: UserTvShow
     return prefs;
 }
 
+// Search, then save the chosen show with full details so it can be listed or rated
+async function searchAndSaveTvShow(): Promise<TvShow | undefined> {
+    const tmdbShow = await searchAndSelectTvShow();
+    if (!tmdbShow) return undefined;
+    const details = await getTMDBTvShowDetails(tmdbShow.id);
+    const showInDb = details ? await saveTvShow(details) : undefined;
+    if (!showInDb) console.log(chalk.red("Could not fetch and save the selected show."));
+    return showInDb;
+}
+
+function printTitleList(entries: TitleListEntry[], dateLabel: string): void {
+    entries.forEach((entry, index) => console.log(`${index + 1}. ${entry.title} ${chalk.dim(`(${dateLabel} ${entry.added_at.substring(0, 10)})`)}`));
+}
+
+async function manageTvShowWatchlist(userId: number): Promise<void> {
+    const watchlist = await getWatchlist(userId, 'tv');
+    console.log(chalk.cyan("\n--- My TV Watchlist ---"));
+    if (watchlist.length === 0) console.log(chalk.gray("   Nothing saved yet. Add shows with option 5."));
+    printTitleList(watchlist, 'added');
+
+    const watched = await getWatched(userId, 'tv');
+    if (watched.length > 0) {
+        console.log(chalk.cyan("\n--- Recently Watched ---"));
+        printTitleList(watched.slice(0, 10), 'watched');
+    }
+    if (watchlist.length === 0) return;
+
+    const choice = (await ask(chalk.green("Enter a number to mark it watched, r<number> to remove it, or press Enter to go back: "))).trim().toLowerCase();
+    const remove = choice.startsWith('r');
+    const entry = watchlist[parseInt(remove ? choice.substring(1) : choice) - 1];
+    if (!entry) return;
+    if (remove) {
+        await removeFromWatchlist(userId, 'tv', entry.title_id);
+        console.log(chalk.green(`Removed "${entry.title}" from your watchlist.`));
+    } else {
+        await markWatched(userId, 'tv', entry.title_id);
+        console.log(chalk.green(`Marked "${entry.title}" as watched. It won't be recommended again.`));
+    }
+}
+
+function describeProgress(progress: TvShowProgress): string {
+    const next = progress.nextEpisode ? `next: ${formatEpisodeCode(progress.nextEpisode)}${progress.nextEpisode.name ? ` "${progress.nextEpisode.name}"` : ''}` : 'all caught up';
+    const fresh = progress.newSinceLastWatched.length > 0 ? chalk.greenBright(` ★ ${progress.newSinceLastWatched.length} new since you last watched`) : '';
+    return `${progress.show.name}: ${progress.watchedCount}/${progress.airedCount} aired episodes watched, ${next}${fresh}`;
+}
+
+async function trackEpisodeProgress(userId: number): Promise<void> {
+    const show = await searchAndSaveTvShow();
+    if (!show) return;
+    const progress = await getTvShowProgress(userId, show);
+    console.log(chalk.cyan(`\n${progress ? describeProgress(progress) : `${show.name}: not started yet`}`));
+
+    const code = (await ask(chalk.green("Episode watched (e.g. S1E3), add + to include everything before it (S2E5+), -S1E3 to unmark, or Enter to go back: "))).trim();
+    if (!code) return;
+    const unmark = code.startsWith('-');
+    const through = code.endsWith('+');
+    const parsed = parseEpisodeCode(code.replace(/^-|\+$/g, ''));
+    if (!parsed) {
+        console.log(chalk.red("Use the form S1E3."));
+        return;
+    }
+    if (unmark) {
+        const episode = await getTvEpisode(show.id, parsed.season, parsed.episode);
+        const removed = episode ? await unmarkEpisodeWatched(userId, episode.id) : false;
+        console.log(removed ? chalk.green(`Unmarked ${formatEpisodeCode(episode!)}.`) : chalk.yellow("That episode wasn't marked as watched."));
+        return;
+    }
+    const marked = await markEpisodeWatched(userId, show, parsed.season, parsed.episode, { through });
+    if (!marked) {
+        console.log(chalk.red(`${show.name} has no episode S${parsed.season}E${parsed.episode}.`));
+        return;
+    }
+    console.log(chalk.green(`Marked ${marked.length === 1 ? formatEpisodeCode(marked[0]!) : `${marked.length} episodes up to ${formatEpisodeCode(marked.at(-1)!)}`} as watched.`));
+    const updated = await getTvShowProgress(userId, show);
+    if (updated) console.log(chalk.cyan(describeProgress(updated)));
+}
+
+async function showInProgressShows(userId: number): Promise<void> {
+    console.log(chalk.cyan("\nChecking your shows for new episodes..."));
+    const inProgress = await getInProgressShows(userId);
+    console.log(chalk.cyan("\n--- Continue Watching ---"));
+    if (inProgress.length === 0) {
+        console.log(chalk.gray("   Nothing in progress. Track episodes with option 8."));
+        return;
+    }
+    inProgress.forEach((progress, index) => console.log(`${index + 1}. ${describeProgress(progress)}`));
+}
+
 export async function runTvShowCLI(currentUser: User): Promise<void> {
     let userTvShowPrefs = await getUserTvShowPreferences(currentUser.id);
     if (!userTvShowPrefs) {
@@ -156,6 +263,11 @@ export async function runTvShowCLI(currentUser: User): Promise<void> {
         console.log("2. Rate a TV Show");
         console.log("3. Search and View TV Show Details");
         console.log("4. Manage My TV Show Preferences");
+        console.log("5. Add a TV Show to My Watchlist");
+        console.log("6. Mark a TV Show as Watched");
+        console.log("7. View My Watchlist");
+        console.log("8. Track Episode Progress");
+        console.log("9. Continue Watching (in-progress shows)");
         console.log("0. Back to Main Menu");
         const choice = await ask(chalk.green("Choose an option: "));
 
@@ -174,7 +286,7 @@ export async function runTvShowCLI(currentUser: User): Promise<void> {
                     console.log(chalk.yellow("No TV show recommendations. Try rating shows or adjusting preferences."));
                 } else {
                     console.log(chalk.bold.yellowBright("\nTop TV Show Recommendations for You:"));
-                    recommendations.forEach(show => displayTvShowSummary(show, show.id));
+                    recommendations.forEach(rec => displayTvShowSummary(rec.item, rec.item.id, rec));
                 }
                 break;
             }
@@ -199,7 +311,8 @@ export async function runTvShowCLI(currentUser: User): Promise<void> {
             case '3': {
                 const tmdbShowFromSearch = await searchAndSelectTvShow();
                 if(tmdbShowFromSearch) {
-                    await viewTvShowDetailsFlow(tmdbShowFromSearch.id);
+                    const settings = await getUserSettings(currentUser.id);
+                    await viewTvShowDetailsFlow(tmdbShowFromSearch.id, settings.home_region);
                 }
                 break;
             }
@@ -207,6 +320,39 @@ export async function runTvShowCLI(currentUser: User): Promise<void> {
                 userTvShowPrefs = await manageTvShowPreferences(currentUser.id, userTvShowPrefs);
                 break;
             }
+            case '5': {
+                const show = await searchAndSaveTvShow();
+                if (show) {
+                    await addToWatchlist(currentUser.id, 'tv', show.id);
+                    console.log(chalk.green(`Added "${show.name}" to your watchlist.`));
+                }
+                break;
+            }
+            case '6': {
+                const show = await searchAndSaveTvShow();
+                if (show) {
+                    await markWatched(currentUser.id, 'tv', show.id);
+                    console.log(chalk.green(`Marked "${show.name}" as watched. It won't be recommended again.`));
+                    const rating = parseInt(await ask(chalk.green(`Rate it too? (1-5, or 0 to skip): `)));
+                    if (rating >= 1 && rating <= 5) {
+                        await saveUserTvShowRating(currentUser.id, show.id, rating);
+                        console.log(chalk.green(`Rated "${show.name}" ${rating} stars.`));
+                    }
+                }
+                break;
+            }
+            case '7': {
+                await manageTvShowWatchlist(currentUser.id);
+                break;
+            }
+            case '8': {
+                await trackEpisodeProgress(currentUser.id);
+                break;
+            }
+            case '9': {
+                await showInProgressShows(currentUser.id);
+                break;
+            }
             case '0':
                 exitTvMenu = true;
                 break;
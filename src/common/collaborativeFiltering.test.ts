@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { predictForUser, type RatingRow } from './collaborativeFiltering';
+
+function ratings(byUser: Record<number, Record<number, number>>): RatingRow[] {
+    return Object.entries(byUser).flatMap(([userId, items]) =>
+        Object.entries(items).map(([itemId, rating]) => ({ user_id: Number(userId), item_id: Number(itemId), rating })));
+}
+
+// User 1 loves item 10 and dislikes 30. Users 2 and 3 rate 20 like 10 and 40 like 30.
+const HOUSEHOLD = ratings({
+    1: { 10: 5, 30: 2 },
+    2: { 10: 5, 20: 5, 30: 1, 40: 1 },
+    3: { 10: 4, 20: 5, 30: 2, 40: 1 },
+});
+
+describe('predictForUser', () => {
+    test('recommends items rated like the ones the user liked', () => {
+        const [prediction, ...rest] = predictForUser(1, HOUSEHOLD);
+        expect(rest).toHaveLength(0);
+        expect(prediction!.itemId).toBe(20);
+        expect(prediction!.predictedRating).toBeCloseTo(5);
+        expect(prediction!.neighbors.map(n => n.itemId)).toEqual([10]);
+        expect(prediction!.similarUserIds.sort()).toEqual([2, 3]);
+    });
+
+    test('uses adjusted cosine similarity, shrunk by the number of co-raters', () => {
+        // Centred on users 2 and 3's mean of 3: item 20 is (2, 2), item 10 is (2, 1)
+        const cosine = 6 / (Math.sqrt(8) * Math.sqrt(5));
+        const [prediction] = predictForUser(1, HOUSEHOLD);
+        expect(prediction!.neighbors[0]!.similarity).toBeCloseTo(cosine * 2 / (2 + 2));
+        expect(prediction!.neighbors[0]!.coRaterIds.sort()).toEqual([2, 3]);
+    });
+
+    test('leaves out items predicted to be mediocre', () => {
+        expect(predictForUser(1, HOUSEHOLD).map(p => p.itemId)).not.toContain(40);
+    });
+
+    test('skips rated and excluded items', () => {
+        expect(predictForUser(1, HOUSEHOLD, new Set([20]))).toEqual([]);
+        expect(predictForUser(2, HOUSEHOLD)).toEqual([]); // Has rated everything
+    });
+
+    test('returns nothing for a user without ratings', () => {
+        expect(predictForUser(99, HOUSEHOLD)).toEqual([]);
+    });
+
+    test('treats items both liked by a flat rater as somewhat similar', () => {
+        const [prediction] = predictForUser(1, ratings({ 1: { 10: 5 }, 2: { 10: 5, 20: 5 } }));
+        expect(prediction!.itemId).toBe(20);
+        expect(prediction!.neighbors[0]!.similarity).toBeCloseTo(0.5 * 1 / (1 + 2));
+    });
+
+    test('honours the count', () => {
+        const many = ratings({
+            1: { 1: 5, 2: 1 },
+            2: { 1: 5, 2: 1, 3: 5, 4: 4, 5: 5 },
+            3: { 1: 4, 2: 1, 3: 5, 4: 5, 5: 4 },
+        });
+        expect(predictForUser(1, many)).toHaveLength(3);
+        expect(predictForUser(1, many, new Set(), 2)).toHaveLength(2);
+    });
+});
@@ -0,0 +1,131 @@
+// src/common/collaborativeFiltering.ts
+// Item-item collaborative filtering over our own users' ratings. Pure in-process
+// maths on rows from user_movie_ratings / user_tv_show_ratings, so it works offline.
+
+export interface RatingRow {
+    user_id: number;
+    item_id: number; // Our DB id of the movie / TV show
+    rating: number;  // 1-5
+}
+
+export interface CollaborativeNeighbor {
+    itemId: number;      // An item the target user rated...
+    userRating: number;  // ...how they rated it...
+    similarity: number;  // ...and how similar it is to the recommended item
+    coRaterIds: number[]; // Other users who rated both, i.e. whose taste links the two items
+}
+
+export interface CollaborativePrediction {
+    itemId: number;
+    predictedRating: number;
+    neighbors: CollaborativeNeighbor[]; // Strongest first: the items that drove this pick
+    similarUserIds: number[];           // Distinct co-raters across all neighbors
+}
+
+const MIN_CO_RATERS = 1;           // Tiny user base: a single shared rater is still a signal
+const SIMILARITY_SHRINKAGE = 2;    // Damps similarities built on few co-raters
+const NEIGHBORHOOD_SIZE = 20;      // Max rated items used per prediction
+const MIN_PREDICTED_RATING = 3.5;  // Don't recommend what we predict the user will find mediocre
+
+interface ItemSimilarity {
+    similarity: number;
+    coRaterIds: number[];
+}
+
+/**
+ * Adjusted cosine similarity between two items: ratings are centred on each
+ * user's mean so generous and harsh raters are comparable.
+ */
+function itemSimilarity(
+    ratingsA: Map<number, number>,
+    ratingsB: Map<number, number>,
+    userMeans: Map<number, number>
+): ItemSimilarity | undefined {
+    let dot = 0, normA = 0, normB = 0;
+    const coRaterIds: number[] = [];
+    for (const [userId, ratingA] of ratingsA) {
+        const ratingB = ratingsB.get(userId);
+        if (ratingB === undefined) continue;
+        const mean = userMeans.get(userId) ?? 0;
+        const a = ratingA - mean;
+        const b = ratingB - mean;
+        dot += a * b;
+        normA += a * a;
+        normB += b * b;
+        coRaterIds.push(userId);
+    }
+    if (coRaterIds.length < MIN_CO_RATERS) return undefined;
+
+    // Users who rate everything the same have zero-centred vectors; fall back to "both liked it"
+    let similarity: number;
+    if (normA === 0 || normB === 0) {
+        const bothLiked = coRaterIds.every(u => (ratingsA.get(u) ?? 0) >= 4 && (ratingsB.get(u) ?? 0) >= 4);
+        similarity = bothLiked ? 0.5 : 0;
+    } else {
+        similarity = dot / (Math.sqrt(normA) * Math.sqrt(normB));
+    }
+    similarity *= coRaterIds.length / (coRaterIds.length + SIMILARITY_SHRINKAGE);
+    return { similarity, coRaterIds };
+}
+
+export function predictForUser(
+    targetUserId: number,
+    allRatings: RatingRow[],
+    excludeItemIds: Set<number> = new Set(),
+    count: number = 10
+): CollaborativePrediction[] {
+    const ratingsByItem = new Map<number, Map<number, number>>();
+    const ratingsByUser = new Map<number, Map<number, number>>();
+    for (const row of allRatings) {
+        if (!ratingsByItem.has(row.item_id)) ratingsByItem.set(row.item_id, new Map());
+        if (!ratingsByUser.has(row.user_id)) ratingsByUser.set(row.user_id, new Map());
+        ratingsByItem.get(row.item_id)!.set(row.user_id, row.rating);
+        ratingsByUser.get(row.user_id)!.set(row.item_id, row.rating);
+    }
+
+    const targetRatings = ratingsByUser.get(targetUserId);
+    if (!targetRatings || targetRatings.size === 0) return [];
+
+    const userMeans = new Map<number, number>();
+    for (const [userId, ratings] of ratingsByUser) {
+        const values = [...ratings.values()];
+        userMeans.set(userId, values.reduce((sum, r) => sum + r, 0) / values.length);
+    }
+    const targetMean = userMeans.get(targetUserId)!;
+
+    const predictions: CollaborativePrediction[] = [];
+    for (const [candidateId, candidateRatings] of ratingsByItem) {
+        if (targetRatings.has(candidateId) || excludeItemIds.has(candidateId)) continue;
+
+        const neighbors: CollaborativeNeighbor[] = [];
+        for (const [ratedId, userRating] of targetRatings) {
+            const sim = itemSimilarity(candidateRatings, ratingsByItem.get(ratedId)!, userMeans);
+            if (!sim || sim.similarity <= 0) continue;
+            neighbors.push({
+                itemId: ratedId,
+                userRating,
+                similarity: sim.similarity,
+                coRaterIds: sim.coRaterIds.filter(u => u !== targetUserId),
+            });
+        }
+        if (neighbors.length === 0) continue;
+        neighbors.sort((a, b) => b.similarity - a.similarity);
+        const topNeighbors = neighbors.slice(0, NEIGHBORHOOD_SIZE);
+
+        const weightSum = topNeighbors.reduce((sum, n) => sum + n.similarity, 0);
+        const weightedDeviation = topNeighbors.reduce((sum, n) => sum + n.similarity * (n.userRating - targetMean), 0);
+        const predictedRating = Math.min(5, Math.max(1, targetMean + weightedDeviation / weightSum));
+        if (predictedRating < MIN_PREDICTED_RATING) continue;
+
+        predictions.push({
+            itemId: candidateId,
+            predictedRating,
+            neighbors: topNeighbors,
+            similarUserIds: [...new Set(topNeighbors.flatMap(n => n.coRaterIds))],
+        });
+    }
+
+    return predictions
+        .sort((a, b) => b.predictedRating - a.predictedRating || b.neighbors.length - a.neighbors.length)
+        .slice(0, count);
+}
@@ -0,0 +1,101 @@
+// src/common/config.ts
+// App configuration, layered lowest to highest priority:
+//   defaults < config file < environment < CLI flags
+// The config file is JSON: `--config <file>`, RECOMMENDER_CONFIG, or ./recommender.config.json if present.
+//   { "dbPath": "./household-b.sqlite" }
+// Relative paths in the file resolve against the file's own directory.
+import { existsSync, readFileSync } from 'fs';
+import { dirname, resolve } from 'path';
+
+export const IN_MEMORY_DB_PATH = ':memory:';
+export const DEFAULT_DB_PATH = './recommender_system.sqlite';
+export const DEFAULT_CONFIG_FILE = './recommender.config.json';
+
+export interface AppConfig {
+    dbPath: string; // File path, or ':memory:' for a throwaway database
+}
+
+// Flags every entry point accepts, in front of or after a subcommand
+export interface ConfigFlags {
+    config?: string;
+    db?: string;
+    inMemory?: boolean;
+}
+
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+const VALUE_FLAGS: Record<string, 'config' | 'db'> = { '--config': 'config', '--db': 'db' };
+
+/**
+ * Pulls the global config flags (--config, --db, --in-memory) out of argv and
+ * returns them with the remaining arguments in their original order.
+ */
+export function extractConfigFlags(argv: string[]): { flags: ConfigFlags; rest: string[] } {
+    const flags: ConfigFlags = {};
+    const rest: string[] = [];
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i]!;
+        const [name, inlineValue] = arg.startsWith('--') && arg.includes('=')
+            ? [arg.slice(0, arg.indexOf('=')), arg.slice(arg.indexOf('=') + 1)]
+            : [arg, undefined];
+        const key = VALUE_FLAGS[name];
+        if (key) {
+            const value = inlineValue ?? argv[++i];
+            if (!value) throw new ConfigError(`${name} needs a value.`);
+            flags[key] = value;
+        } else if (arg === '--in-memory') {
+            flags.inMemory = true;
+        } else {
+            rest.push(arg);
+        }
+    }
+    return { flags, rest };
+}
+
+function readConfigFile(path: string, required: boolean): Partial<AppConfig> {
+    if (!existsSync(path)) {
+        if (required) throw new ConfigError(`Config file not found: ${path}`);
+        return {};
+    }
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(readFileSync(path, 'utf8'));
+    } catch (error: any) {
+        throw new ConfigError(`Config file ${path} is not valid JSON: ${error.message}`);
+    }
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+        throw new ConfigError(`Config file ${path} must contain a JSON object.`);
+    }
+    const { dbPath } = parsed as Record<string, unknown>;
+    if (dbPath === undefined) return {};
+    if (typeof dbPath !== 'string' || !dbPath.trim()) throw new ConfigError(`"dbPath" in ${path} must be a non-empty string.`);
+    return { dbPath: dbPath === IN_MEMORY_DB_PATH ? dbPath : resolve(dirname(path), dbPath) };
+}
+
+export function loadConfig(flags: ConfigFlags = {}, env: Record<string, string | undefined> = process.env): AppConfig {
+    const explicitFile = flags.config ?? env.RECOMMENDER_CONFIG;
+    const fromFile = readConfigFile(explicitFile ?? DEFAULT_CONFIG_FILE, explicitFile !== undefined);
+
+    let dbPath = fromFile.dbPath ?? DEFAULT_DB_PATH;
+    if (env.DB_PATH) dbPath = env.DB_PATH;
+    if (flags.db) dbPath = flags.db;
+    if (flags.inMemory) dbPath = IN_MEMORY_DB_PATH;
+    return { dbPath };
+}
+
+let activeConfig: AppConfig | undefined;
+
+/** The config set by the entry point, or one loaded from file + env if none was set. */
+export function getConfig(): AppConfig {
+    activeConfig ??= loadConfig();
+    return activeConfig;
+}
+
+export function setConfig(config: AppConfig): void {
+    activeConfig = config;
+}
@@ -0,0 +1,64 @@
+// src/common/csv.ts
+// Small CSV reader/writer for restaurant files and ratings import/export.
+
+// Minimal RFC 4180 parsing: quoted fields, escaped quotes, commas and newlines inside quotes
+export function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') { field += '"'; i++; }
+            else if (char === '"') inQuotes = false;
+            else field += char;
+        } else if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            row.push(field); field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            row.push(field); field = '';
+            if (row.some(f => f.trim() !== '')) rows.push(row);
+            row = [];
+        } else {
+            field += char;
+        }
+    }
+    row.push(field);
+    if (row.some(f => f.trim() !== '')) rows.push(row);
+    return rows;
+}
+
+// Spreadsheet exports often start with a BOM
+function parseCsvWithoutBom(text: string): string[][] {
+    return parseCsv(text.replace(/^﻿/, ''));
+}
+
+// The (trimmed) header names, even when there are no data rows
+export function csvColumns(text: string): string[] {
+    return (parseCsvWithoutBom(text)[0] ?? []).map(h => h.trim());
+}
+
+// Rows keyed by the (trimmed) header names; missing trailing cells become ''
+export function csvToRecords(text: string): Record<string, string>[] {
+    const [header, ...lines] = parseCsvWithoutBom(text);
+    if (!header) return [];
+    const columns = header.map(h => h.trim());
+    return lines.map(values => Object.fromEntries(columns.map((column, i) => [column, values[i] ?? ''])));
+}
+
+function escapeCsvField(value: string | number | null | undefined): string {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv<Row extends object>(columns: string[], rows: Row[]): string {
+    const lines = [columns.map(escapeCsvField).join(',')];
+    for (const row of rows) {
+        const values = row as Record<string, string | number | null | undefined>;
+        lines.push(columns.map(column => escapeCsvField(values[column])).join(','));
+    }
+    return lines.join('\n') + '\n';
+}
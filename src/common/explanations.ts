@@ -0,0 +1,64 @@
+// src/common/explanations.ts
+import type { Recommendation, RecommendationReason, ScoreComponent } from './types';
+import type { GroupRecommendation } from './groupScoring';
+import { formatDistance } from './geo';
+
+export function describeReason(reason: RecommendationReason): string {
+    switch (reason.type) {
+        case 'matched_genres':
+            if (reason.source === 'preferences') return `Matches your preferred genres: ${reason.genres.join(', ')}`;
+            if (reason.source === 'watchlist') return `Similar to titles on your watchlist: ${reason.genres.join(', ')}`;
+            return `Shares genres with titles you rated highly: ${reason.genres.join(', ')}`;
+        case 'matched_cuisines':
+            return reason.source === 'preferences'
+                ? `Serves your favourite cuisines: ${reason.cuisines.join(', ')}`
+                : `You've enjoyed ${reason.cuisines.join(', ')} before`;
+        case 'dietary_match':
+            return `Caters to: ${reason.restrictions.join(', ')}`;
+        case 'seed_title':
+            return `Recommended because you rated "${reason.title}"`;
+        case 'similar_ratings': {
+            const because = reason.titles.length > 0 ? ` because you rated ${reason.titles.map(t => `"${t}"`).join(', ')}` : '';
+            const who = reason.similarUsers.length > 0 ? ` (similar taste: ${reason.similarUsers.join(', ')})` : '';
+            return `Predicted ${reason.predictedRating.toFixed(1)}/5 for you${because}${who}`;
+        }
+        case 'streaming_on':
+            return `Streaming on ${reason.providers.join(', ')} (${reason.region})`;
+        case 'passed_filter':
+            return `Fits your filter: ${reason.filter}`;
+        case 'distance':
+            return `${formatDistance(reason.km)} away${reason.from ? ` from ${reason.from}` : ''}`;
+        case 'open_at':
+            return `Open ${reason.when}${reason.until ? `, until ${reason.until}` : ''}`;
+        case 'popular_fallback':
+            return 'Popular right now';
+    }
+}
+
+export function describeScoreComponents(components: ScoreComponent[]): string {
+    return components
+        .filter(c => c.points !== 0)
+        .map(c => `${c.label} ${c.points > 0 ? '+' : ''}${c.points.toFixed(1)}`)
+        .join(', ');
+}
+
+// One line per reason, plus a breakdown of the score if there is one worth showing
+export function explainRecommendation<T>(recommendation: Recommendation<T>): string[] {
+    const lines = recommendation.reasons.map(describeReason);
+    const breakdown = describeScoreComponents(recommendation.scoreComponents);
+    if (breakdown) lines.push(`Score ${recommendation.score.toFixed(1)}: ${breakdown}`);
+    return lines;
+}
+
+// Not worth a member line: filters they passed, and facts about the place that hold for everyone
+const GROUP_WIDE_REASONS = new Set<RecommendationReason['type']>(['passed_filter', 'dietary_match', 'distance', 'open_at']);
+
+// One line per member of a group pick: how well it suits them, and their best reason for it
+export function explainMemberFits<T>(recommendation: GroupRecommendation<T>): string[] {
+    return recommendation.members.map(member => {
+        const why = member.score === null
+            ? 'fails their own filters'
+            : member.reasons.filter(r => !GROUP_WIDE_REASONS.has(r.type)).map(describeReason)[0];
+        return `${member.name}: ${Math.round(member.fit * 100)}% fit${why ? ` (${why})` : ''}`;
+    });
+}
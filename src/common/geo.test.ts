@@ -0,0 +1,62 @@
+import { describe, expect, test } from 'bun:test';
+import { formatDistance, haversineKm, isValidCoordinate, parseGeoPoint } from './geo';
+
+const LONDON = { latitude: 51.5074, longitude: -0.1278 };
+const PARIS = { latitude: 48.8566, longitude: 2.3522 };
+
+describe('haversineKm', () => {
+    test('is zero for the same point', () => {
+        expect(haversineKm(LONDON, LONDON)).toBe(0);
+    });
+
+    test('matches known distances', () => {
+        expect(haversineKm(LONDON, PARIS)).toBeCloseTo(343.6, 0);
+        // A degree of latitude is about 111 km anywhere
+        expect(haversineKm({ latitude: 10, longitude: 20 }, { latitude: 11, longitude: 20 })).toBeCloseTo(111.2, 1);
+    });
+
+    test('is symmetric', () => {
+        expect(haversineKm(PARIS, LONDON)).toBeCloseTo(haversineKm(LONDON, PARIS), 9);
+    });
+
+    test('takes the short way across the antimeridian', () => {
+        const east = { latitude: 0, longitude: 179.5 };
+        const west = { latitude: 0, longitude: -179.5 };
+        expect(haversineKm(east, west)).toBeCloseTo(111.2, 1);
+    });
+
+    test('handles antipodal points', () => {
+        expect(haversineKm({ latitude: 0, longitude: 0 }, { latitude: 0, longitude: 180 })).toBeCloseTo(Math.PI * 6371, 6);
+    });
+});
+
+describe('parseGeoPoint', () => {
+    test('reads "lat,lng" with optional spaces', () => {
+        expect(parseGeoPoint('51.5074,-0.1278')).toEqual(LONDON);
+        expect(parseGeoPoint(' 48.8566 , 2.3522 ')).toEqual(PARIS);
+        expect(parseGeoPoint('0,0')).toEqual({ latitude: 0, longitude: 0 });
+    });
+
+    test('rejects anything else', () => {
+        expect(parseGeoPoint('home')).toBeUndefined();
+        expect(parseGeoPoint('51.5')).toBeUndefined();
+        expect(parseGeoPoint('91,0')).toBeUndefined();
+        expect(parseGeoPoint('0,181')).toBeUndefined();
+    });
+});
+
+describe('isValidCoordinate', () => {
+    test('accepts the edges of the range and nothing past them', () => {
+        expect(isValidCoordinate(90, -180)).toBe(true);
+        expect(isValidCoordinate(-90.1, 0)).toBe(false);
+        expect(isValidCoordinate(Number.NaN, 0)).toBe(false);
+        expect(isValidCoordinate('51', 0)).toBe(false);
+    });
+});
+
+describe('formatDistance', () => {
+    test('uses metres under a kilometre', () => {
+        expect(formatDistance(0.4567)).toBe('457 m');
+        expect(formatDistance(2.345)).toBe('2.3 km');
+    });
+});
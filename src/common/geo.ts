@@ -0,0 +1,38 @@
+// src/common/geo.ts
+// Coordinates and great-circle distances; everything here works offline.
+
+export interface GeoPoint {
+    latitude: number;  // Degrees, -90..90
+    longitude: number; // Degrees, -180..180
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Great-circle distance in kilometres (haversine formula). */
+export function haversineKm(a: GeoPoint, b: GeoPoint): number {
+    const dLat = toRadians(b.latitude - a.latitude);
+    const dLng = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+export function isValidCoordinate(latitude: unknown, longitude: unknown): boolean {
+    return typeof latitude === 'number' && typeof longitude === 'number'
+        && Number.isFinite(latitude) && Number.isFinite(longitude)
+        && Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180;
+}
+
+/** Parses "51.5074,-0.1278" (spaces allowed). Returns undefined for anything else. */
+export function parseGeoPoint(text: string): GeoPoint | undefined {
+    const match = text.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/);
+    if (!match) return undefined;
+    const latitude = Number(match[1]);
+    const longitude = Number(match[2]);
+    return isValidCoordinate(latitude, longitude) ? { latitude, longitude } : undefined;
+}
+
+export function formatDistance(km: number): string {
+    return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+}
@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import type { User } from './types';
+import type { MemberScores } from './groupScoring';
+import { combineFits, parseGroupStrategy, rankForGroup } from './groupScoring';
+import { mergeGroupMovieConstraints } from '../movies/recommender';
+import { getGroupRestaurantRecommendations, mergeDietaryRestrictions } from '../restaurants/recommender';
+import type { Restaurant, RestaurantUserPreferences } from '../restaurants/types';
+import { IN_MEMORY_DB_PATH } from './config';
+import { closeDB, ensureUser, initDB } from '../db/setup';
+
+const ALICE: User = { id: 1, name: 'Alice' };
+const BOB: User = { id: 2, name: 'Bob' };
+
+function scores(entries: [number, number][]): MemberScores {
+    return new Map(entries.map(([key, score]) => [key, { score, reasons: [] }]));
+}
+
+// Bob scores on a much smaller scale than Alice; his fits are 0.2, 1.0 and 0.7
+const CANDIDATES = [1, 2, 3, 4].map(key => ({ key, item: `title ${key}` }));
+const MEMBERS = [
+    { user: ALICE, scores: scores([[1, 100], [2, 60], [3, 80]]) },
+    { user: BOB, scores: scores([[1, 10], [2, 50], [3, 35]]) },
+];
+
+function rankedItems(strategy: Parameters<typeof rankForGroup>[2]): string[] {
+    return rankForGroup(CANDIDATES, MEMBERS, strategy).map(r => r.item);
+}
+
+describe('combineFits', () => {
+    test('averages, takes the worst or takes the best fit', () => {
+        expect(combineFits([0.2, 1, 0.6], 'average')).toBeCloseTo(0.6);
+        expect(combineFits([0.2, 1, 0.6], 'least-misery')).toBe(0.2);
+        expect(combineFits([0.2, 1, 0.6], 'most-pleasure')).toBe(1);
+    });
+
+    test('is 0 without members', () => {
+        expect(combineFits([], 'least-misery')).toBe(0);
+    });
+});
+
+describe('rankForGroup', () => {
+    test('average favours the pick both members like well enough', () => {
+        expect(rankedItems('average')).toEqual(['title 2', 'title 3', 'title 1']);
+    });
+
+    test('least-misery favours the pick nobody minds', () => {
+        expect(rankedItems('least-misery')).toEqual(['title 3', 'title 2', 'title 1']);
+    });
+
+    test('most-pleasure favours someone\'s favourite, breaking ties on the average fit', () => {
+        // Titles 1 and 2 are each a member's favourite; 2 suits the other member better
+        expect(rankedItems('most-pleasure')).toEqual(['title 2', 'title 1', 'title 3']);
+    });
+
+    test('normalizes each member\'s scores to their own best candidate', () => {
+        const [top] = rankForGroup(CANDIDATES, MEMBERS, 'average');
+        expect(top!.members.map(m => [m.name, m.score, m.fit])).toEqual([['Alice', 60, 0.6], ['Bob', 50, 1]]);
+        expect(top!.score).toBeCloseTo(80);
+        expect(top!.strategy).toBe('average');
+    });
+
+    test('counts a pick a member\'s filters rule out as a 0 fit and drops picks nobody scored', () => {
+        const ranked = rankForGroup(CANDIDATES, [MEMBERS[0]!, { user: BOB, scores: scores([[2, 50]]) }], 'least-misery');
+        expect(ranked.map(r => r.item)).toEqual(['title 2', 'title 1', 'title 3']);
+        expect(ranked[1]!.members[1]).toEqual({ user_id: 2, name: 'Bob', fit: 0, score: null, reasons: [] });
+        expect(ranked.map(r => r.item)).not.toContain('title 4');
+    });
+
+    test('treats negative scores as no fit at all', () => {
+        const [only] = rankForGroup(CANDIDATES.slice(0, 2), [{ user: ALICE, scores: scores([[1, -20], [2, 40]]) }], 'average')
+            .filter(r => r.item === 'title 1');
+        expect(only!.members[0]!.fit).toBe(0);
+    });
+});
+
+describe('parseGroupStrategy', () => {
+    test('reads the strategy names in any case', () => {
+        expect(parseGroupStrategy('average')).toBe('average');
+        expect(parseGroupStrategy(' Least-Misery ')).toBe('least-misery');
+        expect(parseGroupStrategy('most-pleasure')).toBe('most-pleasure');
+    });
+
+    test('rejects anything else', () => {
+        expect(parseGroupStrategy('median')).toBeUndefined();
+        expect(parseGroupStrategy(undefined)).toBeUndefined();
+    });
+});
+
+describe('mergeGroupMovieConstraints', () => {
+    test('keeps only the languages everyone accepts, ignoring members without a preference', () => {
+        const { constraints, conflicts } = mergeGroupMovieConstraints([
+            { user_id: 1, preferred_languages: ['en', 'fr'] },
+            { user_id: 2, preferred_languages: ['EN', 'es'] },
+            { user_id: 3 },
+        ]);
+        expect(constraints.preferred_languages).toEqual(['en']);
+        expect(conflicts).toEqual([]);
+    });
+
+    test('drops the language filter and reports it when no language is shared', () => {
+        const { constraints, conflicts } = mergeGroupMovieConstraints([
+            { user_id: 1, preferred_languages: ['fr'] },
+            { user_id: 2, preferred_languages: ['ja'] },
+        ]);
+        expect(constraints).toHaveProperty('preferred_languages', undefined);
+        expect(conflicts).toEqual(['No language everyone accepts (fr vs ja); ignoring languages.']);
+    });
+
+    test('overlaps the ranges and takes the strictest rating floor', () => {
+        const { constraints, conflicts } = mergeGroupMovieConstraints([
+            { user_id: 1, release_year_min: 1990, duration_max_minutes: 150, min_imdb_rating: 6 },
+            { user_id: 2, release_year_min: 2000, release_year_max: 2020, min_imdb_rating: 7.5 },
+        ]);
+        expect(constraints).toMatchObject({ release_year_min: 2000, release_year_max: 2020, duration_max_minutes: 150, min_imdb_rating: 7.5 });
+        expect(conflicts).toEqual([]);
+    });
+
+    test('drops and reports ranges that don\'t overlap', () => {
+        const { constraints, conflicts } = mergeGroupMovieConstraints([
+            { user_id: 1, release_year_max: 1980 },
+            { user_id: 2, release_year_min: 2000 },
+        ]);
+        expect(constraints.release_year_min).toBeUndefined();
+        expect(constraints.release_year_max).toBeUndefined();
+        expect(conflicts).toEqual(['Release year ranges don\'t overlap; ignoring them.']);
+    });
+});
+
+describe('dietary restrictions for a group', () => {
+    // Bob and Diana as in the mock users
+    const bobPrefs = { favoriteCuisines: ['Indian', 'Thai', 'Vietnamese'], dietaryRestrictions: ['vegetarian'], minRating: 4.2 };
+    const dianaPrefs = { favoriteCuisines: ['Japanese', 'Sushi', 'Ramen'], dietaryRestrictions: ['gluten-free'], minRating: 4.5 };
+
+    function restaurant(id: number, name: string, dietaryOptions: string[]): Restaurant {
+        return { id, googlePlaceId: `place-${id}`, name, address: '', cuisines: ['Thai'], dietaryOptions, rating: 4.7 };
+    }
+
+    beforeEach(async () => {
+        spyOn(console, 'log').mockImplementation(() => {});
+        await initDB({ config: { dbPath: IN_MEMORY_DB_PATH } });
+    });
+
+    afterEach(async () => {
+        await closeDB();
+    });
+
+    test('are the union of the members\', case-insensitively', () => {
+        const merged = mergeDietaryRestrictions([
+            { user_id: 1, ...bobPrefs },
+            { user_id: 2, ...dianaPrefs },
+            { user_id: 3, ...bobPrefs, dietaryRestrictions: ['Vegetarian', 'Gluten-Free'] },
+        ]);
+        expect(merged).toEqual(['vegetarian', 'gluten-free']);
+    });
+
+    test('only leave places where Bob and Diana can both eat', async () => {
+        const bob = (await ensureUser('Bob'))!;
+        const diana = (await ensureUser('Diana'))!;
+        const members: { user: User; prefs: RestaurantUserPreferences }[] = [
+            { user: bob, prefs: { user_id: bob.id, ...bobPrefs } },
+            { user: diana, prefs: { user_id: diana.id, ...dianaPrefs } },
+        ];
+        const places = [
+            restaurant(1, 'Green Leaf', ['Vegetarian']),
+            restaurant(2, 'Celiac Corner', ['Gluten-free']),
+            restaurant(3, 'Both Ways', ['Vegetarian', 'Gluten-free options']),
+        ];
+
+        const recommendations = await getGroupRestaurantRecommendations(members, places, 'least-misery');
+        expect(recommendations.map(r => r.item.name)).toEqual(['Both Ways']);
+        expect(recommendations[0]!.reasons[0]).toEqual({ type: 'dietary_match', restrictions: ['vegetarian', 'gluten-free'] });
+    });
+});
@@ -0,0 +1,89 @@
+// src/common/groupScoring.ts
+// Turns each member's individual scores for the same candidates into one group ranking.
+// Members score on different scales (a restaurant score of 90 isn't a movie score of 90, and
+// one user's preferences may simply award more points), so every score is first turned into
+// a "fit": the member's score divided by their best score among the candidates. The group
+// score is the fits combined by the chosen strategy, times 100.
+import type { User, Recommendation, RecommendationReason } from './types';
+
+export const GROUP_STRATEGIES = ['average', 'least-misery', 'most-pleasure'] as const;
+export type GroupStrategy = typeof GROUP_STRATEGIES[number];
+
+// How well one pick suits one member
+export interface MemberFit {
+    user_id: number;
+    name: string;
+    fit: number;                     // 0-1, relative to this member's best candidate; 0 when it fails them
+    score: number | null;            // The member's own score, null when their filters rule it out
+    reasons: RecommendationReason[]; // Why it suits them, as their own recommender would say
+}
+
+export interface GroupRecommendation<T> extends Recommendation<T> {
+    strategy: GroupStrategy;
+    members: MemberFit[];
+}
+
+// One member's scores, keyed by whatever identifies a candidate (restaurant ID, TMDB ID)
+export type MemberScores = Map<number, Pick<Recommendation<unknown>, 'score' | 'reasons'>>;
+
+export function combineFits(fits: number[], strategy: GroupStrategy): number {
+    if (fits.length === 0) return 0;
+    switch (strategy) {
+        case 'average':
+            return fits.reduce((sum, fit) => sum + fit, 0) / fits.length;
+        case 'least-misery':
+            return Math.min(...fits);
+        case 'most-pleasure':
+            return Math.max(...fits);
+    }
+}
+
+/**
+ * Ranks candidates for a group. Candidates nobody can be recommended are dropped; ties go to
+ * the candidate with the better average fit, then to the lower key so the order is stable.
+ */
+export function rankForGroup<T>(
+    candidates: { key: number; item: T }[],
+    members: { user: User; scores: MemberScores }[],
+    strategy: GroupStrategy
+): GroupRecommendation<T>[] {
+    const bestScores = members.map(({ scores }) => Math.max(0, ...[...scores.values()].map(s => s.score)));
+
+    const ranked: (GroupRecommendation<T> & { key: number; averageFit: number })[] = [];
+    for (const { key, item } of candidates) {
+        const fits: MemberFit[] = members.map(({ user, scores }, index) => {
+            const scored = scores.get(key);
+            const best = bestScores[index] ?? 0;
+            return {
+                user_id: user.id,
+                name: user.name,
+                fit: scored && best > 0 ? Math.max(0, scored.score) / best : 0,
+                score: scored?.score ?? null,
+                reasons: scored?.reasons ?? [],
+            };
+        });
+        if (fits.every(f => f.score === null)) continue;
+
+        const values = fits.map(f => f.fit);
+        const score = combineFits(values, strategy) * 100;
+        ranked.push({
+            item,
+            key,
+            averageFit: combineFits(values, 'average'),
+            score,
+            reasons: [],
+            scoreComponents: [{ label: `${strategy} fit of ${members.length} members`, points: score }],
+            strategy,
+            members: fits,
+        });
+    }
+
+    return ranked
+        .sort((a, b) => b.score - a.score || b.averageFit - a.averageFit || a.key - b.key)
+        .map(({ key: _key, averageFit: _averageFit, ...recommendation }) => recommendation);
+}
+
+/** Parses a strategy name, returning undefined for anything unknown. */
+export function parseGroupStrategy(value: string | undefined): GroupStrategy | undefined {
+    return GROUP_STRATEGIES.find(strategy => strategy === value?.trim().toLowerCase());
+}
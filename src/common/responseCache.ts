@@ -0,0 +1,129 @@
+// src/common/responseCache.ts
+// Persistent cache for TMDB and Google Places responses, stored in the
+// http_response_cache table. Fresh entries are served as-is; stale ones are
+// served immediately while a refresh runs in the background; expired ones are
+// refetched, falling back to the old copy if the API can't be reached.
+import chalk from 'chalk';
+import type { CacheEntrySummary, CacheFreshness, CacheService } from './types';
+import {
+    getCachedResponse,
+    saveCachedResponse,
+    recordCacheHit,
+    getCachedResponseRows,
+    deleteCachedResponses,
+} from '../db/responseCacheDb';
+
+interface CachePolicy {
+    pattern: RegExp;
+    ttlMs: number;   // Served without question for this long
+    staleMs: number; // ...then served while revalidating for this much longer
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// First match wins, so more specific endpoints go first
+const CACHE_POLICIES: Record<CacheService, CachePolicy[]> = {
+    tmdb: [
+        { pattern: /^genre\//, ttlMs: 7 * DAY_MS, staleMs: 30 * DAY_MS },          // Genre lists barely ever change
+        { pattern: /^watch\/providers\//, ttlMs: 7 * DAY_MS, staleMs: 30 * DAY_MS },
+        { pattern: /^(movie|tv)\/popular$/, ttlMs: 6 * HOUR_MS, staleMs: 2 * DAY_MS },
+        { pattern: /^search\//, ttlMs: DAY_MS, staleMs: 7 * DAY_MS },
+        { pattern: /\/recommendations$/, ttlMs: DAY_MS, staleMs: 7 * DAY_MS },
+        { pattern: /^(movie|tv)\/\d+/, ttlMs: DAY_MS, staleMs: 7 * DAY_MS },      // Details and seasons
+    ],
+    google_places: [
+        { pattern: /^textsearch$/, ttlMs: DAY_MS, staleMs: 7 * DAY_MS },
+        { pattern: /^details$/, ttlMs: DAY_MS, staleMs: 7 * DAY_MS },      // Opening hours and business status
+        { pattern: /^timezone$/, ttlMs: 30 * DAY_MS, staleMs: 365 * DAY_MS }, // Zone names for a spot practically never change
+    ],
+};
+const DEFAULT_POLICY: Omit<CachePolicy, 'pattern'> = { ttlMs: HOUR_MS, staleMs: DAY_MS };
+
+// Refreshes started for stale entries; awaited on shutdown so they don't outlive the DB connection
+const pendingRevalidations = new Map<string, Promise<unknown>>();
+
+function isCacheDisabled(): boolean {
+    return ['off', '0', 'false'].includes((process.env.HTTP_CACHE || '').toLowerCase());
+}
+
+export function getCachePolicy(service: CacheService, endpoint: string): Omit<CachePolicy, 'pattern'> {
+    return CACHE_POLICIES[service].find(policy => policy.pattern.test(endpoint)) ?? DEFAULT_POLICY;
+}
+
+export function buildCacheKey(service: CacheService, endpoint: string, params: Record<string, string>): string {
+    const sortedParams = Object.entries(params).sort(([a], [b]) => a.localeCompare(b));
+    return `${service}:${endpoint}?${new URLSearchParams(sortedParams).toString()}`;
+}
+
+export function getFreshness(service: CacheService, endpoint: string, fetchedAt: Date): CacheFreshness {
+    const policy = getCachePolicy(service, endpoint);
+    const age = Date.now() - fetchedAt.getTime();
+    if (age <= policy.ttlMs) return 'fresh';
+    if (age <= policy.ttlMs + policy.staleMs) return 'stale';
+    return 'expired';
+}
+
+async function fetchAndStore<T>(
+    cacheKey: string,
+    service: CacheService,
+    endpoint: string,
+    params: Record<string, string>,
+    fetcher: () => Promise<T | null>
+): Promise<T | null> {
+    const fresh = await fetcher();
+    if (fresh !== null) await saveCachedResponse(cacheKey, service, endpoint, params, fresh);
+    return fresh;
+}
+
+/**
+ * Serves `endpoint` from the cache when it can, otherwise calls `fetcher` and
+ * stores the result. `params` must not contain API keys: they end up in the key.
+ * A null from `fetcher` means the request failed and is never cached.
+ */
+export async function cachedFetch<T>(
+    service: CacheService,
+    endpoint: string,
+    params: Record<string, string>,
+    fetcher: () => Promise<T | null>
+): Promise<T | null> {
+    if (isCacheDisabled()) return fetcher();
+
+    const cacheKey = buildCacheKey(service, endpoint, params);
+    const cached = await getCachedResponse(cacheKey);
+    if (cached) {
+        const freshness = getFreshness(service, endpoint, cached.fetched_at);
+        if (freshness !== 'expired') {
+            await recordCacheHit(cacheKey);
+            if (freshness === 'stale' && !pendingRevalidations.has(cacheKey)) {
+                const revalidation = fetchAndStore(cacheKey, service, endpoint, params, fetcher)
+                    .catch(error => console.error(chalk.red(`[Cache] Background refresh of ${endpoint} failed:`), error))
+                    .finally(() => pendingRevalidations.delete(cacheKey));
+                pendingRevalidations.set(cacheKey, revalidation);
+            }
+            return cached.response as T;
+        }
+    }
+
+    const fresh = await fetchAndStore(cacheKey, service, endpoint, params, fetcher);
+    if (fresh === null && cached) {
+        console.log(chalk.yellow(`[Cache] ${endpoint} unavailable; using a cached copy from ${cached.fetched_at.toLocaleString()}.`));
+        return cached.response as T;
+    }
+    return fresh;
+}
+
+export async function waitForPendingRevalidations(): Promise<void> {
+    await Promise.all([...pendingRevalidations.values()]);
+}
+
+export async function getCacheEntries(service?: CacheService): Promise<CacheEntrySummary[]> {
+    const rows = await getCachedResponseRows(service);
+    return rows.map(row => ({ ...row, freshness: getFreshness(row.service, row.endpoint, row.fetched_at) }));
+}
+
+// Removes entries past their stale window; they'd be refetched before use anyway
+export async function purgeExpiredCacheEntries(service?: CacheService): Promise<number> {
+    const expired = (await getCacheEntries(service)).filter(entry => entry.freshness === 'expired');
+    return deleteCachedResponses(expired.map(entry => entry.cache_key));
+}
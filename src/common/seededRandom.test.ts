@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'bun:test';
+import { createSeededRandom, seededUnit } from './seededRandom';
+
+function draw(random: () => number, count: number): number[] {
+    return Array.from({ length: count }, () => random());
+}
+
+describe('createSeededRandom', () => {
+    test('repeats the same sequence for the same seed', () => {
+        expect(draw(createSeededRandom(42), 5)).toEqual(draw(createSeededRandom(42), 5));
+        expect(draw(createSeededRandom('friday'), 5)).toEqual(draw(createSeededRandom('friday'), 5));
+    });
+
+    test('treats a number and its string form as the same seed', () => {
+        expect(draw(createSeededRandom(7), 3)).toEqual(draw(createSeededRandom('7'), 3));
+    });
+
+    test('gives different sequences for different seeds', () => {
+        expect(draw(createSeededRandom(1), 5)).not.toEqual(draw(createSeededRandom(2), 5));
+    });
+
+    test('stays in [0, 1) and spreads out', () => {
+        const values = draw(createSeededRandom('spread'), 1000);
+        expect(values.every(v => v >= 0 && v < 1)).toBe(true);
+        const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+        expect(mean).toBeGreaterThan(0.45);
+        expect(mean).toBeLessThan(0.55);
+        expect(new Set(values).size).toBe(values.length);
+    });
+});
+
+describe('seededUnit', () => {
+    test('is fixed per seed and key', () => {
+        expect(seededUnit('s', 12)).toBe(seededUnit('s', 12));
+        expect(seededUnit('s', 12)).not.toBe(seededUnit('s', 13));
+        expect(seededUnit('s', 12)).not.toBe(seededUnit('t', 12));
+    });
+
+    test('does not depend on the order keys are visited in', () => {
+        const keys = ['a', 'b', 'c', 'd'];
+        const forwards = keys.map(key => seededUnit(3, key));
+        const backwards = [...keys].reverse().map(key => seededUnit(3, key)).reverse();
+        expect(backwards).toEqual(forwards);
+    });
+});
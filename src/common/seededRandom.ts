@@ -0,0 +1,32 @@
+// src/common/seededRandom.ts
+// Tiny deterministic PRNG so "random" tie-breaking can be reproduced from a seed.
+
+// FNV-1a: turns any seed/key string into a 32-bit integer
+function hashString(value: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// mulberry32: small, fast, and good enough for shuffling recommendations
+export function createSeededRandom(seed: number | string): () => number {
+    let state = hashString(String(seed));
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * A value in [0, 1) fixed for each (seed, key) pair, independent of the order
+ * items are visited in, so adding or removing one item never reshuffles the rest.
+ */
+export function seededUnit(seed: number | string, key: number | string): number {
+    return createSeededRandom(`${seed}:${key}`)();
+}
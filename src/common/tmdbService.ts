@@ -1,9 +1,10 @@
 // src/common/tmdbService.ts
 import chalk from 'chalk';
 import type { Genre, WatchProviders, CastMember, Review, WatchProviderDetail } from './types'; // Common types
+import { createTransportFromEnv, type TMDBTransport } from './tmdbTransport';
+import { cachedFetch } from './responseCache';
 
 const TMDB_API_KEY = process.env.TMDB_API_KEY;
-const TMDB_BASE_URL = 'https://api.themoviedb.org/3';
 const TMDB_IMAGE_BASE_URL = 'https://image.tmdb.org/t/p/';
 
 // --- Helper Types ---
@@ -14,6 +15,20 @@ interface TMDBPaginatedResponse<T> {
     total_results: number;
 }
 
+// --- Transport ---
+// Resolved on first use so TMDB_TRANSPORT can be set after import (e.g. by scripts)
+let transport: TMDBTransport | null = null;
+
+function getTransport(): TMDBTransport {
+    if (!transport) transport = createTransportFromEnv();
+    return transport;
+}
+
+// Swap how requests are served, e.g. a replay transport over a fixtures directory
+export function setTMDBTransport(newTransport: TMDBTransport): void {
+    transport = newTransport;
+}
+
 // --- Core Fetch Function ---
 async function fetchTMDB<T>(
     endpoint: string,
@@ -21,33 +36,37 @@ async function fetchTMDB<T>(
     method: 'GET' | 'POST' = 'GET', // Added method for potential future POST requests
     body?: any // For POST requests
 ): Promise<T | null> {
-    if (!TMDB_API_KEY) {
-        console.error(chalk.red.bold("TMDB_API_KEY not found in .env file. Please set it."));
-        return null;
-    }
+    const activeTransport = getTransport();
+    const stringParams = Object.fromEntries(Object.entries(params).map(([k, v]) => [k, String(v)]));
 
-    const urlParams = new URLSearchParams({
-        api_key: TMDB_API_KEY,
-        ...Object.fromEntries(Object.entries(params).map(([k, v]) => [k, String(v)])),
-    });
+    // Only live GETs are cached: recording must hit the API, replay is already offline
+    if (method === 'GET' && activeTransport.mode === 'live') {
+        return cachedFetch<T>('tmdb', endpoint, stringParams, () => sendTMDBRequest<T>(activeTransport, endpoint, stringParams, method, body));
+    }
+    return sendTMDBRequest<T>(activeTransport, endpoint, stringParams, method, body);
+}
 
-    const url = `${TMDB_BASE_URL}/${endpoint}?${urlParams.toString()}`;
-    // console.log(chalk.dim(`[TMDB Fetch] ${method} ${url.replace(TMDB_API_KEY, "TMDB_KEY_REDACTED")}`));
+async function sendTMDBRequest<T>(
+    activeTransport: TMDBTransport,
+    endpoint: string,
+    stringParams: Record<string, string>,
+    method: 'GET' | 'POST',
+    body?: any
+): Promise<T | null> {
+    if (activeTransport.requiresApiKey && !TMDB_API_KEY) {
+        console.error(chalk.red.bold("TMDB_API_KEY not found in .env file. Please set it (or use TMDB_TRANSPORT=replay)."));
+        return null;
+    }
+    // console.log(chalk.dim(`[TMDB Fetch] ${method} ${endpoint} via ${activeTransport.mode}`));
 
     try {
-        const fetchOptions: RequestInit = { method };
-        if (method === 'POST' && body) {
-            fetchOptions.body = JSON.stringify(body);
-            fetchOptions.headers = { 'Content-Type': 'application/json' };
-        }
-
-        const response = await fetch(url, fetchOptions);
+        const response = await activeTransport.send({ endpoint, params: stringParams, method, body }, TMDB_API_KEY);
 
         if (!response.ok) {
-            const errorData: any = await response.json().catch(() => ({
+            const errorData: any = response.data ?? {
                 message: "Failed to parse error JSON from TMDB API response.",
                 status_code: response.status // TMDB specific error code
-            }));
+            };
             console.error(
                 chalk.red(`[TMDB API Error] ${response.status} for ${endpoint}:`),
                 errorData.status_message || errorData.message || response.statusText
@@ -57,7 +76,7 @@ async function fetchTMDB<T>(
             }
             return null;
         }
-        return (await response.json()) as T;
+        return response.data as T;
     } catch (error) {
         console.error(chalk.red(`[TMDB Network Error] Failed to fetch ${endpoint}:`), error);
         return null;
@@ -196,6 +215,18 @@ export async function getTvShowRecommendations(tvId: number, page: number = 1):
     return fetchTMDB<TMDBPaginatedResponse<TMDBTvShow>>(`tv/${tvId}/recommendations`, { page });
 }
 
+// --- Cross-reference lookup ---
+export interface TMDBFindResults {
+    movie_results: TMDBMovie[];
+    tv_results: TMDBTvShow[];
+    tv_episode_results?: { id: number; show_id: number; name: string }[];
+}
+
+// Resolves an IMDb ID (tt...) to whatever TMDB title carries it
+export async function findByImdbId(imdbId: string): Promise<TMDBFindResults | null> {
+    return fetchTMDB<TMDBFindResults>(`find/${imdbId}`, { external_source: 'imdb_id' });
+}
+
 // --- GENRE LISTS (Cached) ---
 let movieGenreListCache: Genre[] | null = null;
 export async function getMovieGenreList(): Promise<Genre[]> {
@@ -0,0 +1,147 @@
+// src/common/tmdbStubServer.ts
+// Local stand-in for the TMDB endpoints we use, serving the catalogue in
+// src/data/tmdbStubData.ts. Point the app at it with
+//   TMDB_BASE_URL=http://localhost:4010/3 TMDB_API_KEY=stub bun start
+// Run directly: bun run tmdb:stub
+import chalk from 'chalk';
+import type { Server } from 'bun';
+import type { TMDBMovie, TMDBTvShow, TMDBFullSeason } from './tmdbService';
+import { stubMovieGenres, stubTvGenres, stubMovies, stubTvShows, stubWatchProviders } from '../data/tmdbStubData';
+
+const DEFAULT_STUB_PORT = 4010;
+const PAGE_SIZE = 20;
+
+function json(data: unknown, status: number = 200): Response {
+    return new Response(JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+// Same body TMDB sends for unknown resources
+function notFound(): Response {
+    return json({ success: false, status_code: 34, status_message: "The resource you requested could not be found." }, 404);
+}
+
+function paginate<T>(items: T[], pageParam: string | null): object {
+    const page = Math.max(1, Number(pageParam) || 1);
+    return {
+        page,
+        results: items.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+        total_pages: Math.max(1, Math.ceil(items.length / PAGE_SIZE)),
+        total_results: items.length,
+    };
+}
+
+// List endpoints only carry genre_ids and no appended blocks, like the real API
+function toMovieListItem({ genres, runtime, credits, reviews, "watch/providers": _p, external_ids, ...rest }: TMDBMovie): TMDBMovie {
+    return { ...rest, genre_ids: genres?.map(g => g.id) ?? [] };
+}
+
+function toTvListItem({ genres, seasons, credits, reviews, "watch/providers": _p, external_ids, ...rest }: TMDBTvShow): TMDBTvShow {
+    return { ...rest, genre_ids: genres?.map(g => g.id) ?? [] };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Made-up but stable seasons: episodes split evenly, one season a year from the
+// first air date, one episode a week. Episode IDs are show ID * 10000 + S * 100 + E.
+function seasonsOf(show: TMDBTvShow): TMDBFullSeason[] {
+    const seasonCount = show.number_of_seasons ?? 0;
+    const episodeCount = show.number_of_episodes ?? 0;
+    const start = show.first_air_date ? Date.parse(show.first_air_date) : NaN;
+    const seasons: TMDBFullSeason[] = [];
+    for (let season = 1; season <= seasonCount; season++) {
+        const perSeason = Math.floor(episodeCount / seasonCount);
+        const count = season === seasonCount ? episodeCount - perSeason * (seasonCount - 1) : perSeason;
+        const airDate = (offsetDays: number) => Number.isNaN(start) ? null : new Date(start + offsetDays * DAY_MS).toISOString().slice(0, 10);
+        const episodes = Array.from({ length: count }, (_, i) => ({
+            air_date: airDate((season - 1) * 365 + i * 7),
+            episode_number: i + 1,
+            id: show.id * 10000 + season * 100 + i + 1,
+            name: `Episode ${i + 1}`,
+            overview: '',
+            runtime: show.episode_run_time?.[0] ?? null,
+            season_number: season,
+            show_id: show.id,
+            still_path: null,
+            vote_average: show.vote_average,
+            vote_count: 0,
+        }));
+        seasons.push({
+            air_date: airDate((season - 1) * 365), episode_count: count, id: show.id * 100 + season,
+            name: `Season ${season}`, overview: '', poster_path: null, season_number: season, episodes,
+        });
+    }
+    return seasons;
+}
+
+function withDetailBlocks<T extends TMDBMovie | TMDBTvShow>(item: T): T {
+    return {
+        ...item,
+        credits: item.credits ?? { cast: [] },
+        reviews: item.reviews ?? { page: 1, results: [], total_pages: 1, total_results: 0 },
+        external_ids: item.external_ids ?? {},
+    };
+}
+
+// Titles sharing at least one genre, most popular first
+function similarTo<T extends TMDBMovie | TMDBTvShow>(seed: T, catalogue: T[]): T[] {
+    const seedGenreIds = new Set(seed.genres?.map(g => g.id));
+    return catalogue
+        .filter(item => item.id !== seed.id && item.genres?.some(g => seedGenreIds.has(g.id)))
+        .sort((a, b) => (b.popularity ?? 0) - (a.popularity ?? 0));
+}
+
+function byPopularity<T extends { popularity?: number }>(items: T[]): T[] {
+    return [...items].sort((a, b) => (b.popularity ?? 0) - (a.popularity ?? 0));
+}
+
+export function handleTmdbStubRequest(request: Request): Response {
+    const url = new URL(request.url);
+    const route = url.pathname.replace(/^\/3\//, '').replace(/\/$/, '');
+    const page = url.searchParams.get('page');
+    const query = (url.searchParams.get('query') || '').toLowerCase();
+    let match: RegExpMatchArray | null;
+
+    if (route === 'search/movie') return json(paginate(stubMovies.filter(m => m.title.toLowerCase().includes(query)).map(toMovieListItem), page));
+    if (route === 'search/tv') return json(paginate(stubTvShows.filter(s => s.name.toLowerCase().includes(query)).map(toTvListItem), page));
+    if (route === 'movie/popular') return json(paginate(byPopularity(stubMovies).map(toMovieListItem), page));
+    if (route === 'tv/popular') return json(paginate(byPopularity(stubTvShows).map(toTvListItem), page));
+    if (route === 'genre/movie/list') return json({ genres: stubMovieGenres });
+    if (route === 'genre/tv/list') return json({ genres: stubTvGenres });
+    if (route === 'watch/providers/movie' || route === 'watch/providers/tv') return json({ results: stubWatchProviders });
+
+    if ((match = route.match(/^find\/(tt\d+)$/))) {
+        const imdbId = match[1];
+        return json({
+            movie_results: stubMovies.filter(m => (m.imdb_id ?? m.external_ids?.imdb_id) === imdbId).map(toMovieListItem),
+            tv_results: stubTvShows.filter(s => (s.imdb_id ?? s.external_ids?.imdb_id) === imdbId).map(toTvListItem),
+            tv_episode_results: [],
+        });
+    }
+    if ((match = route.match(/^movie\/(\d+)(\/recommendations)?$/))) {
+        const movie = stubMovies.find(m => m.id === Number(match![1]));
+        if (!movie) return notFound();
+        return match[2] ? json(paginate(similarTo(movie, stubMovies).map(toMovieListItem), page)) : json(withDetailBlocks(movie));
+    }
+    if ((match = route.match(/^tv\/(\d+)(\/recommendations)?$/))) {
+        const show = stubTvShows.find(s => s.id === Number(match![1]));
+        if (!show) return notFound();
+        if (match[2]) return json(paginate(similarTo(show, stubTvShows).map(toTvListItem), page));
+        return json({ ...withDetailBlocks(show), seasons: seasonsOf(show).map(({ episodes, ...summary }) => summary) });
+    }
+    if ((match = route.match(/^tv\/(\d+)\/season\/(\d+)$/))) {
+        const show = stubTvShows.find(s => s.id === Number(match![1]));
+        const season = show && seasonsOf(show).find(s => s.season_number === Number(match![2]));
+        return season ? json(season) : notFound();
+    }
+    return notFound();
+}
+
+export function startTmdbStubServer(port: number = DEFAULT_STUB_PORT): Server {
+    const server = Bun.serve({ port, fetch: handleTmdbStubRequest });
+    console.log(chalk.green(`TMDB stub server listening on http://localhost:${server.port}/3`));
+    return server;
+}
+
+if (import.meta.main) {
+    startTmdbStubServer(Number(process.env.TMDB_STUB_PORT) || DEFAULT_STUB_PORT);
+}
@@ -0,0 +1,134 @@
+// src/common/tmdbTransport.ts
+// How fetchTMDB actually gets its responses. Live hits the TMDB API (or anything
+// speaking its protocol, like the local stub server); record does the same and
+// saves each response as a JSON fixture; replay serves those fixtures offline.
+import chalk from 'chalk';
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+
+export type TMDBTransportMode = 'live' | 'record' | 'replay';
+
+export interface TMDBRequest {
+    endpoint: string;               // e.g. "movie/550"
+    params: Record<string, string>; // Query parameters, without the API key
+    method: 'GET' | 'POST';
+    body?: any;
+}
+
+export interface TMDBTransportResponse {
+    ok: boolean;
+    status: number;
+    statusText: string;
+    data: unknown; // Parsed JSON body, or null if it wasn't JSON
+}
+
+export interface TMDBTransport {
+    mode: TMDBTransportMode;
+    requiresApiKey: boolean;
+    send(request: TMDBRequest, apiKey?: string): Promise<TMDBTransportResponse>;
+}
+
+// What a fixture file holds: the request for humans reading it, the response for replay
+interface TMDBFixture {
+    request: Omit<TMDBRequest, 'body'>;
+    status: number;
+    data: unknown;
+}
+
+const DEFAULT_TMDB_BASE_URL = 'https://api.themoviedb.org/3';
+const DEFAULT_FIXTURES_DIR = 'fixtures/tmdb';
+
+// Stable file name per request: readable endpoint prefix + hash of method and sorted params
+export function fixtureFileName(request: TMDBRequest): string {
+    const sortedParams = Object.entries(request.params).sort(([a], [b]) => a.localeCompare(b));
+    const hash = createHash('sha1')
+        .update(`${request.method} ${request.endpoint} ${JSON.stringify(sortedParams)}`)
+        .digest('hex')
+        .substring(0, 10);
+    return `${request.endpoint.replace(/[^a-zA-Z0-9]+/g, '_')}__${hash}.json`;
+}
+
+export function createLiveTransport(baseUrl: string = process.env.TMDB_BASE_URL || DEFAULT_TMDB_BASE_URL): TMDBTransport {
+    return {
+        mode: 'live',
+        requiresApiKey: true,
+        async send(request, apiKey) {
+            const urlParams = new URLSearchParams({ ...(apiKey ? { api_key: apiKey } : {}), ...request.params });
+            const url = `${baseUrl}/${request.endpoint}?${urlParams.toString()}`;
+
+            const fetchOptions: RequestInit = { method: request.method };
+            if (request.method === 'POST' && request.body) {
+                fetchOptions.body = JSON.stringify(request.body);
+                fetchOptions.headers = { 'Content-Type': 'application/json' };
+            }
+
+            const response = await fetch(url, fetchOptions); // Network errors propagate to fetchTMDB
+            const data = await response.json().catch(() => null);
+            return { ok: response.ok, status: response.status, statusText: response.statusText, data };
+        },
+    };
+}
+
+export function createRecordingTransport(inner: TMDBTransport, fixturesDir: string): TMDBTransport {
+    return {
+        mode: 'record',
+        requiresApiKey: inner.requiresApiKey,
+        async send(request, apiKey) {
+            const response = await inner.send(request, apiKey);
+            if (response.ok) { // Errors are usually transient or key problems; not worth replaying
+                const { body: _body, ...requestWithoutBody } = request;
+                const fixture: TMDBFixture = { request: requestWithoutBody, status: response.status, data: response.data };
+                try {
+                    await mkdir(fixturesDir, { recursive: true });
+                    await writeFile(path.join(fixturesDir, fixtureFileName(request)), JSON.stringify(fixture, null, 2));
+                } catch (error) {
+                    console.error(chalk.red(`[TMDB Record] Could not write fixture for ${request.endpoint}:`), error);
+                }
+            }
+            return response;
+        },
+    };
+}
+
+export function createReplayTransport(fixturesDir: string): TMDBTransport {
+    return {
+        mode: 'replay',
+        requiresApiKey: false,
+        async send(request) {
+            const file = path.join(fixturesDir, fixtureFileName(request));
+            let fixture: TMDBFixture;
+            try {
+                fixture = JSON.parse(await readFile(file, 'utf-8')) as TMDBFixture;
+            } catch {
+                // Shaped like TMDB's own "resource not found" so callers handle it the same way
+                return {
+                    ok: false,
+                    status: 404,
+                    statusText: 'Not Found',
+                    data: { status_code: 34, status_message: `No recorded fixture for ${request.endpoint} (${file})` },
+                };
+            }
+            return { ok: fixture.status >= 200 && fixture.status < 300, status: fixture.status, statusText: 'OK', data: fixture.data };
+        },
+    };
+}
+
+// Picks the transport from TMDB_TRANSPORT (live | record | replay) and TMDB_FIXTURES_DIR
+export function createTransportFromEnv(): TMDBTransport {
+    const mode = (process.env.TMDB_TRANSPORT || 'live').toLowerCase();
+    const fixturesDir = process.env.TMDB_FIXTURES_DIR || DEFAULT_FIXTURES_DIR;
+    switch (mode) {
+        case 'record':
+            console.log(chalk.dim(`[TMDB] Recording responses to ${fixturesDir}.`));
+            return createRecordingTransport(createLiveTransport(), fixturesDir);
+        case 'replay':
+            console.log(chalk.dim(`[TMDB] Replaying recorded responses from ${fixturesDir}.`));
+            return createReplayTransport(fixturesDir);
+        case 'live':
+            return createLiveTransport();
+        default:
+            console.error(chalk.yellow(`[TMDB] Unknown TMDB_TRANSPORT "${mode}", falling back to live.`));
+            return createLiveTransport();
+    }
+}
@@ -1,4 +1,6 @@
 // src/common/types.ts
+import type { GeoPoint } from './geo';
+
 export interface User {
   id: number;
   name: string;
@@ -29,6 +31,46 @@ export interface WatchProviders {
     [regionCode: string]: WatchProviderRegionData;
 }
 
+export type MediaType = 'movie' | 'tv';
+
+// A title on a user's watchlist or watched list
+export interface TitleListEntry {
+    media_type: MediaType;
+    title_id: number;   // Our movies.id or tv_shows.id
+    tmdb_id: number;
+    title: string;
+    added_at: string;   // When it was added; for the watched list, when it was watched
+}
+
+export type ProviderAvailabilityType = 'flatrate' | 'rent' | 'buy';
+
+// A single stored "title X is on provider Y in region Z" row
+export interface TitleWatchProvider {
+    media_type: MediaType;
+    tmdb_id: number;
+    region: string;
+    provider_id: number;
+    provider_name: string;
+    availability_type: ProviderAvailabilityType;
+}
+
+// 'rank' boosts titles on the user's services, 'only' hides everything else
+export type StreamingFilterMode = 'rank' | 'only';
+
+export interface UserSettings {
+    user_id: number;
+    home_region: string; // ISO 3166-1 alpha-2, e.g. "US"
+    streaming_filter: StreamingFilterMode;
+    watchlist_boost: boolean; // Rank titles sharing genres with the watchlist higher
+}
+
+// A named place the user searches from, e.g. "home" (user_locations table)
+export interface UserLocation extends GeoPoint {
+    user_id: number;
+    label: string;
+    updated_at: string;
+}
+
 // Cast member type
 export interface CastMember {
     id: number;
@@ -43,4 +85,47 @@ export interface Review {
     content: string;
     created_at: string;
     url: string;
-}
\ No newline at end of file
+}
+
+// --- Recommendation Explanations ---
+// Why an item was picked. Each recommender emits the kinds that apply to it.
+export type RecommendationReason =
+    | { type: 'matched_genres'; genres: string[]; source: 'preferences' | 'ratings' | 'watchlist' }
+    | { type: 'matched_cuisines'; cuisines: string[]; source: 'preferences' | 'history' }
+    | { type: 'dietary_match'; restrictions: string[] }
+    | { type: 'seed_title'; title: string; tmdbId: number }     // TMDB /recommendations for a title the user rated
+    | { type: 'similar_ratings'; titles: string[]; similarUsers: string[]; predictedRating: number } // Local collaborative filtering
+    | { type: 'streaming_on'; providers: string[]; region: string }
+    | { type: 'passed_filter'; filter: string }                 // A hard filter from the user's preferences
+    | { type: 'distance'; km: number; from?: string }           // From the position the user searched near
+    | { type: 'open_at'; when: string; until?: string }         // Open at the time the user asked about; `until` is local closing time
+    | { type: 'popular_fallback' };
+
+export interface ScoreComponent {
+    label: string;
+    points: number;
+}
+
+export interface Recommendation<T> {
+    item: T;
+    score: number;
+    reasons: RecommendationReason[];
+    scoreComponents: ScoreComponent[];
+}
+
+// --- HTTP Response Cache ---
+export type CacheService = 'tmdb' | 'google_places';
+
+export type CacheFreshness = 'fresh' | 'stale' | 'expired';
+
+// One cached API response, as listed by the cache inspector (body left out)
+export interface CacheEntrySummary {
+    cache_key: string;
+    service: CacheService;
+    endpoint: string;
+    params: Record<string, string>;
+    fetched_at: Date;
+    hit_count: number;
+    size_bytes: number;
+    freshness: CacheFreshness;
+}
@@ -0,0 +1,51 @@
+// src/common/watchProviders.ts
+import type { MediaType, ProviderAvailabilityType, TitleWatchProvider } from './types';
+import { getMovieDetails, getTvShowDetails } from './tmdbService';
+import { getTitleWatchProviders, getTitleWatchProvidersRefreshedAt } from '../db/watchProviderDb';
+import { saveMovie } from '../db/movieDb';
+import { saveTvShow } from '../db/tvShowDb';
+import chalk from 'chalk';
+
+// Provider catalogues change slowly; a week keeps TMDB calls down without going badly stale
+const PROVIDER_DATA_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Returns where a title can be watched in `region`, refreshing the stored
+ * availability from TMDB details if it is missing or older than a week.
+ * saveMovie/saveTvShow persist the `watch/providers` block as a side effect.
+ */
+export async function getWatchProvidersForTitle(
+    mediaType: MediaType,
+    tmdbId: number,
+    region: string
+): Promise<TitleWatchProvider[]> {
+    const refreshedAt = await getTitleWatchProvidersRefreshedAt(mediaType, tmdbId);
+    if (!refreshedAt || Date.now() - refreshedAt.getTime() > PROVIDER_DATA_MAX_AGE_MS) {
+        if (mediaType === 'movie') {
+            const details = await getMovieDetails(tmdbId);
+            if (details) await saveMovie(details);
+        } else {
+            const details = await getTvShowDetails(tmdbId);
+            if (details) await saveTvShow(details);
+        }
+        if (!refreshedAt) console.log(chalk.dim(`[Providers] Fetched availability for ${mediaType} ${tmdbId}.`));
+    }
+    return getTitleWatchProviders(mediaType, tmdbId, region);
+}
+
+/**
+ * Filters `providers` down to the ones the user listed. Preferences may hold
+ * provider names ("Netflix") or TMDB provider IDs ("8"); both are accepted.
+ */
+export function matchPreferredProviders(
+    providers: TitleWatchProvider[],
+    preferredProviders: string[] | undefined,
+    availabilityTypes: ProviderAvailabilityType[] = ['flatrate']
+): TitleWatchProvider[] {
+    if (!preferredProviders || preferredProviders.length === 0) return [];
+    const preferredLower = preferredProviders.map(p => p.trim().toLowerCase());
+    return providers.filter(p =>
+        availabilityTypes.includes(p.availability_type) &&
+        (preferredLower.includes(p.provider_name.toLowerCase()) || preferredLower.includes(String(p.provider_id)))
+    );
+}
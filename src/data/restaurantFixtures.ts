@@ -0,0 +1,31 @@
+// src/data/restaurantFixtures.ts
+// Canned restaurants per city for the offline fixture source. Keys are lower-case city names.
+import type { Restaurant, OpeningPeriod } from '../restaurants/types';
+import { parseWeeklyHours } from '../restaurants/openingHours';
+
+const hours = (text: string): OpeningPeriod[] => parseWeeklyHours(text)!;
+
+export const restaurantFixtures: Record<string, Omit<Restaurant, 'id'>[]> = {
+    "san francisco": [
+        { googlePlaceId: "fixture-sf-1", name: "Golden Gate Pizza", address: "101 Columbus Ave, San Francisco, CA", cuisines: ["Italian", "Pizza"], dietaryOptions: ["vegetarian"], rating: 4.4, userRatingsTotal: 842, priceLevel: 2, latitude: 37.7963, longitude: -122.4048, businessStatus: "OPERATIONAL", timeZone: "America/Los_Angeles", openingHours: hours("Daily 11:00-23:00") },
+        { googlePlaceId: "fixture-sf-2", name: "Mission Taqueria", address: "2889 Mission St, San Francisco, CA", cuisines: ["Mexican"], dietaryOptions: [], rating: 4.6, userRatingsTotal: 2310, priceLevel: 1, latitude: 37.7523, longitude: -122.4183, businessStatus: "OPERATIONAL", timeZone: "America/Los_Angeles", openingHours: hours("Mon-Thu 10:00-22:00; Fri-Sat 10:00-02:00; Sun 10:00-21:00") },
+        { googlePlaceId: "fixture-sf-3", name: "Sunset Pho House", address: "1200 Irving St, San Francisco, CA", cuisines: ["Vietnamese"], dietaryOptions: [], rating: 4.1, userRatingsTotal: 96, priceLevel: 1, latitude: 37.764, longitude: -122.47, businessStatus: "OPERATIONAL", timeZone: "America/Los_Angeles", openingHours: hours("Tue-Sun 11:00-21:30") },
+        { googlePlaceId: "fixture-sf-4", name: "Greens Kitchen", address: "2 Marina Blvd, San Francisco, CA", cuisines: ["American"], dietaryOptions: ["vegetarian", "vegan"], rating: 4.5, userRatingsTotal: 1204, priceLevel: 3, latitude: 37.8065, longitude: -122.432, businessStatus: "OPERATIONAL", timeZone: "America/Los_Angeles", openingHours: hours("Tue-Sat 11:30-14:30 17:30-21:00; Sun 10:30-14:00") },
+        { googlePlaceId: "fixture-sf-5", name: "Nob Hill Sushi", address: "850 California St, San Francisco, CA", cuisines: ["Japanese", "Sushi"], dietaryOptions: [], rating: 4.3, userRatingsTotal: 38, priceLevel: 3, latitude: 37.792, longitude: -122.409, businessStatus: "OPERATIONAL", timeZone: "America/Los_Angeles", openingHours: hours("Mon-Sat 17:00-22:30") },
+        { googlePlaceId: "fixture-sf-6", name: "Castro Curry Corner", address: "410 Castro St, San Francisco, CA", cuisines: ["Indian"], dietaryOptions: ["vegetarian"], rating: 3.9, userRatingsTotal: 7, priceLevel: 2, latitude: 37.762, longitude: -122.435, businessStatus: "OPERATIONAL", timeZone: "America/Los_Angeles", openingHours: hours("Daily 11:30-22:00") },
+    ],
+    "london": [
+        { googlePlaceId: "fixture-ldn-1", name: "Soho Noodle Bar", address: "12 Old Compton St, London", cuisines: ["Chinese"], dietaryOptions: [], rating: 4.2, userRatingsTotal: 615, priceLevel: 1, latitude: 51.5134, longitude: -0.13, businessStatus: "OPERATIONAL", timeZone: "Europe/London", openingHours: hours("Daily 12:00-23:30") },
+        { googlePlaceId: "fixture-ldn-2", name: "Brick Lane Curry House", address: "88 Brick Ln, London", cuisines: ["Indian"], dietaryOptions: ["vegetarian", "vegan"], rating: 4.0, userRatingsTotal: 1880, priceLevel: 1, latitude: 51.5207, longitude: -0.0717, businessStatus: "OPERATIONAL", timeZone: "Europe/London", openingHours: hours("Daily 12:00-00:00") },
+        { googlePlaceId: "fixture-ldn-3", name: "The Borough Burger", address: "5 Stoney St, London", cuisines: ["American", "Burgers"], dietaryOptions: [], rating: 4.3, userRatingsTotal: 2140, priceLevel: 2, latitude: 51.5055, longitude: -0.091, businessStatus: "OPERATIONAL", timeZone: "Europe/London", openingHours: hours("Mon-Sat 11:30-22:00") },
+        { googlePlaceId: "fixture-ldn-4", name: "Trattoria Covent", address: "27 Floral St, London", cuisines: ["Italian"], dietaryOptions: ["vegetarian"], rating: 4.5, userRatingsTotal: 12, priceLevel: 3, latitude: 51.5122, longitude: -0.1243, businessStatus: "OPERATIONAL", timeZone: "Europe/London", openingHours: hours("Tue-Sat 12:00-14:30 17:30-22:30") },
+        { googlePlaceId: "fixture-ldn-5", name: "Camden Falafel", address: "40 Camden High St, London", cuisines: ["Middle Eastern"], dietaryOptions: ["vegetarian", "vegan"], rating: 4.4, userRatingsTotal: 430, priceLevel: 1, latitude: 51.537, longitude: -0.141, businessStatus: "OPERATIONAL", timeZone: "Europe/London", openingHours: hours("Mon-Thu 11:00-22:00; Fri-Sat 11:00-02:00; Sun 12:00-20:00") },
+    ],
+    "new york": [
+        { googlePlaceId: "fixture-nyc-1", name: "Bleecker Street Slice", address: "212 Bleecker St, New York, NY", cuisines: ["Italian", "Pizza"], dietaryOptions: ["vegetarian"], rating: 4.6, userRatingsTotal: 3105, priceLevel: 1, latitude: 40.7295, longitude: -74.002, businessStatus: "OPERATIONAL", timeZone: "America/New_York", openingHours: hours("24/7") },
+        { googlePlaceId: "fixture-nyc-2", name: "Koreatown BBQ", address: "32 W 32nd St, New York, NY", cuisines: ["Korean", "BBQ"], dietaryOptions: [], rating: 4.3, userRatingsTotal: 967, priceLevel: 3, latitude: 40.7475, longitude: -73.9868, businessStatus: "OPERATIONAL", timeZone: "America/New_York", openingHours: hours("Daily 11:30-02:00") },
+        { googlePlaceId: "fixture-nyc-3", name: "Lower East Deli", address: "205 E Houston St, New York, NY", cuisines: ["American"], dietaryOptions: [], rating: 4.5, userRatingsTotal: 1542, priceLevel: 2, latitude: 40.7223, longitude: -73.9874, businessStatus: "OPERATIONAL", timeZone: "America/New_York", openingHours: hours("Daily 08:00-22:00") },
+        { googlePlaceId: "fixture-nyc-4", name: "Harlem Soul Kitchen", address: "328 Lenox Ave, New York, NY", cuisines: ["Southern"], dietaryOptions: [], rating: 4.2, userRatingsTotal: 4, priceLevel: 2, latitude: 40.809, longitude: -73.9445, businessStatus: "OPERATIONAL", timeZone: "America/New_York", openingHours: hours("Wed-Sun 17:00-23:00") },
+        { googlePlaceId: "fixture-nyc-5", name: "Chelsea Thai", address: "88 9th Ave, New York, NY", cuisines: ["Thai"], dietaryOptions: ["vegetarian", "vegan"], rating: 4.1, userRatingsTotal: 288, priceLevel: 2, latitude: 40.742, longitude: -74.004, businessStatus: "OPERATIONAL", timeZone: "America/New_York", openingHours: hours("Mon-Fri 11:30-15:00 17:00-22:00; Sat-Sun 12:00-22:30") },
+    ],
+};
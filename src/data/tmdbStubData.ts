@@ -0,0 +1,118 @@
+// src/data/tmdbStubData.ts
+// A small, fixed catalogue for the local TMDB stub server. Real TMDB IDs and
+// genre IDs, trimmed to the fields our services read.
+import type { Genre, WatchProviderDetail, WatchProviders } from '../common/types';
+import type { TMDBMovie, TMDBTvShow } from '../common/tmdbService';
+
+export const stubMovieGenres: Genre[] = [
+    { id: 28, name: "Action" },
+    { id: 12, name: "Adventure" },
+    { id: 16, name: "Animation" },
+    { id: 35, name: "Comedy" },
+    { id: 80, name: "Crime" },
+    { id: 18, name: "Drama" },
+    { id: 878, name: "Science Fiction" },
+    { id: 53, name: "Thriller" },
+];
+
+export const stubTvGenres: Genre[] = [
+    { id: 10759, name: "Action & Adventure" },
+    { id: 35, name: "Comedy" },
+    { id: 80, name: "Crime" },
+    { id: 18, name: "Drama" },
+    { id: 10765, name: "Sci-Fi & Fantasy" },
+];
+
+const NETFLIX: WatchProviderDetail = { provider_id: 8, provider_name: "Netflix", logo_path: "/t2yyOv40HZeVlLjYsCsPHnWLk4W.jpg" };
+const PRIME: WatchProviderDetail = { provider_id: 9, provider_name: "Amazon Prime Video", logo_path: "/emthp39XA2YScoYL1p0sdbAH2WA.jpg" };
+const MAX: WatchProviderDetail = { provider_id: 1899, provider_name: "Max", logo_path: "/6Q3ZYUNA9Hsgj6iWnVsw2gR5V6z.jpg" };
+const APPLE_TV: WatchProviderDetail = { provider_id: 2, provider_name: "Apple TV", logo_path: "/peURlLlr8jggOwK53fJ5wdQl05y.jpg" };
+
+export const stubWatchProviders: WatchProviderDetail[] = [NETFLIX, PRIME, MAX, APPLE_TV];
+
+function providers(us: WatchProviderDetail[], gb: WatchProviderDetail[]): { results: WatchProviders } {
+    return {
+        results: {
+            US: { link: "https://www.themoviedb.org", flatrate: us, rent: [APPLE_TV], buy: [APPLE_TV] },
+            GB: { link: "https://www.themoviedb.org", flatrate: gb, rent: [APPLE_TV], buy: [APPLE_TV] },
+        },
+    };
+}
+
+function movieGenres(ids: number[]): Genre[] {
+    return stubMovieGenres.filter(g => ids.includes(g.id));
+}
+
+function tvGenres(ids: number[]): Genre[] {
+    return stubTvGenres.filter(g => ids.includes(g.id));
+}
+
+export const stubMovies: TMDBMovie[] = [
+    {
+        id: 550, title: "Fight Club", overview: "An insomniac office worker and a soap maker form an underground fight club.",
+        release_date: "1999-10-15", vote_average: 8.4, vote_count: 29000, poster_path: "/pB8BM7pdSp6B6Ih7QZ4DrQ3PmJK.jpg",
+        backdrop_path: null, genres: movieGenres([18, 53]), runtime: 139, original_language: "en", imdb_id: "tt0137523",
+        popularity: 70, "watch/providers": providers([PRIME], [NETFLIX]),
+    },
+    {
+        id: 603, title: "The Matrix", overview: "A hacker learns the true nature of his reality.",
+        release_date: "1999-03-31", vote_average: 8.2, vote_count: 25000, poster_path: "/f89U3ADr1oiB1s9GkdPOEpXUk5H.jpg",
+        backdrop_path: null, genres: movieGenres([28, 878]), runtime: 136, original_language: "en", imdb_id: "tt0133093",
+        popularity: 90, "watch/providers": providers([MAX], [NETFLIX]),
+    },
+    {
+        id: 27205, title: "Inception", overview: "A thief who steals corporate secrets through dream-sharing technology.",
+        release_date: "2010-07-15", vote_average: 8.4, vote_count: 36000, poster_path: "/oYuLEt3zVCKq57qu2F8dT7NIa6f.jpg",
+        backdrop_path: null, genres: movieGenres([28, 878, 12]), runtime: 148, original_language: "en", imdb_id: "tt1375666",
+        popularity: 95, "watch/providers": providers([NETFLIX], [PRIME]),
+    },
+    {
+        id: 680, title: "Pulp Fiction", overview: "The lives of two mob hitmen, a boxer and a pair of diner bandits intertwine.",
+        release_date: "1994-09-10", vote_average: 8.5, vote_count: 27000, poster_path: "/d5iIlFn5s0ImszYzBPb8JPIfbXD.jpg",
+        backdrop_path: null, genres: movieGenres([53, 80]), runtime: 154, original_language: "en", imdb_id: "tt0110912",
+        popularity: 80, "watch/providers": providers([NETFLIX], [NETFLIX]),
+    },
+    {
+        id: 129, title: "Spirited Away", overview: "A young girl wanders into a world ruled by gods, witches and spirits.",
+        release_date: "2001-07-20", vote_average: 8.5, vote_count: 16000, poster_path: "/39wmItIWsg5sZMyRUHLkWBcuVCM.jpg",
+        backdrop_path: null, genres: movieGenres([16, 12]), runtime: 125, original_language: "ja", imdb_id: "tt0245429",
+        popularity: 75, "watch/providers": providers([MAX], [NETFLIX]),
+    },
+    {
+        id: 120467, title: "The Grand Budapest Hotel", overview: "A concierge and his lobby boy are framed for murder.",
+        release_date: "2014-02-26", vote_average: 8.0, vote_count: 15000, poster_path: "/eWdyYQreja6JGCzqHWXpWHDrrPo.jpg",
+        backdrop_path: null, genres: movieGenres([35, 18]), runtime: 100, original_language: "en", imdb_id: "tt2278388",
+        popularity: 50, "watch/providers": providers([PRIME], [PRIME]),
+    },
+];
+
+export const stubTvShows: TMDBTvShow[] = [
+    {
+        id: 1396, name: "Breaking Bad", overview: "A chemistry teacher turns to making methamphetamine.",
+        first_air_date: "2008-01-20", vote_average: 8.9, vote_count: 14000, poster_path: "/ztkUQFLlC19CCMYHW9o1zWhJRNq.jpg",
+        backdrop_path: null, genres: tvGenres([18, 80]), number_of_seasons: 5, number_of_episodes: 62, episode_run_time: [47],
+        original_language: "en", status: "Ended", popularity: 120, "watch/providers": providers([NETFLIX], [NETFLIX]),
+        external_ids: { imdb_id: "tt0903747", tvdb_id: 81189 },
+    },
+    {
+        id: 1399, name: "Game of Thrones", overview: "Noble families fight for control of the Seven Kingdoms.",
+        first_air_date: "2011-04-17", vote_average: 8.5, vote_count: 23000, poster_path: "/1XS1oqL89opfnbLl8WnZY1O1uJx.jpg",
+        backdrop_path: null, genres: tvGenres([10765, 18, 10759]), number_of_seasons: 8, number_of_episodes: 73, episode_run_time: [60],
+        original_language: "en", status: "Ended", popularity: 200, "watch/providers": providers([MAX], [PRIME]),
+        external_ids: { imdb_id: "tt0944947", tvdb_id: 121361 },
+    },
+    {
+        id: 66732, name: "Stranger Things", overview: "Kids in a small town uncover supernatural mysteries.",
+        first_air_date: "2016-07-15", vote_average: 8.6, vote_count: 17000, poster_path: "/49WJfeN0moxb9IPfGn8AIqMGskD.jpg",
+        backdrop_path: null, genres: tvGenres([18, 10765]), number_of_seasons: 4, number_of_episodes: 34, episode_run_time: [50],
+        original_language: "en", status: "Returning Series", popularity: 150, "watch/providers": providers([NETFLIX], [NETFLIX]),
+        external_ids: { imdb_id: "tt4574334", tvdb_id: 305288 },
+    },
+    {
+        id: 2316, name: "The Office", overview: "Everyday life at a mid-sized paper company.",
+        first_air_date: "2005-03-24", vote_average: 8.6, vote_count: 4000, poster_path: "/7DJKHzAi83BmQrWLrYYOqcoKfhR.jpg",
+        backdrop_path: null, genres: tvGenres([35]), number_of_seasons: 9, number_of_episodes: 201, episode_run_time: [22],
+        original_language: "en", status: "Ended", popularity: 110, "watch/providers": providers([PRIME], [PRIME]),
+        external_ids: { imdb_id: "tt0386676", tvdb_id: 73244 },
+    },
+];
@@ -0,0 +1,99 @@
+import { getDB } from './setup';
+import type { TvEpisode } from '../tvshows/types';
+import type { TMDBEpisodeSummary } from '../common/tmdbService';
+import chalk from 'chalk';
+
+// --- Episodes ---
+// Upserts by TMDB episode ID; names and air dates change as a season is scheduled
+export async function saveTvEpisodes(tvShowId: number, episodes: TMDBEpisodeSummary[]): Promise<void> {
+    const db = await getDB();
+    try {
+        for (const episode of episodes) {
+            await db.run(
+                `INSERT INTO tv_episodes (tv_show_id, tmdb_id, season_number, episode_number, name, air_date, runtime)
+                 VALUES (?, ?, ?, ?, ?, ?, ?)
+                 ON CONFLICT(tmdb_id) DO UPDATE SET
+                    season_number = excluded.season_number,
+                    episode_number = excluded.episode_number,
+                    name = excluded.name,
+                    air_date = excluded.air_date,
+                    runtime = excluded.runtime`,
+                tvShowId, episode.id, episode.season_number, episode.episode_number,
+                episode.name || null, episode.air_date || null, episode.runtime ?? null
+            );
+        }
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error saving episodes for TV show ID ${tvShowId}:`), error);
+    }
+}
+
+export async function getTvShowEpisodes(tvShowId: number): Promise<TvEpisode[]> {
+    const db = await getDB();
+    return db.all<TvEpisode[]>(
+        'SELECT * FROM tv_episodes WHERE tv_show_id = ? ORDER BY season_number ASC, episode_number ASC',
+        tvShowId
+    );
+}
+
+export async function getTvEpisode(tvShowId: number, seasonNumber: number, episodeNumber: number): Promise<TvEpisode | undefined> {
+    const db = await getDB();
+    return db.get<TvEpisode>(
+        'SELECT * FROM tv_episodes WHERE tv_show_id = ? AND season_number = ? AND episode_number = ?',
+        tvShowId, seasonNumber, episodeNumber
+    );
+}
+
+// --- User progress ---
+// `watchedAt` ("YYYY-MM-DD HH:MM:SS" UTC) defaults to now; re-marking keeps the first time
+export async function markEpisodesWatched(userId: number, episodeIds: number[], watchedAt?: string): Promise<void> {
+    const db = await getDB();
+    try {
+        for (const episodeId of episodeIds) {
+            await db.run(
+                `INSERT INTO user_episode_progress (user_id, episode_id, watched_at) VALUES (?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+                 ON CONFLICT(user_id, episode_id) DO NOTHING`,
+                userId, episodeId, watchedAt ?? null
+            );
+        }
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error marking episodes watched for user ${userId}:`), error);
+    }
+}
+
+export async function unmarkEpisodeWatched(userId: number, episodeId: number): Promise<boolean> {
+    const db = await getDB();
+    try {
+        const result = await db.run('DELETE FROM user_episode_progress WHERE user_id = ? AND episode_id = ?', userId, episodeId);
+        return (result.changes ?? 0) > 0;
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error unmarking episode ${episodeId} for user ${userId}:`), error);
+        return false;
+    }
+}
+
+// Episode ID -> watched_at for one show
+export async function getWatchedEpisodes(userId: number, tvShowId: number): Promise<Map<number, string>> {
+    const db = await getDB();
+    const rows = await db.all<{ episode_id: number; watched_at: string }[]>(
+        `SELECT p.episode_id, p.watched_at
+         FROM user_episode_progress p JOIN tv_episodes e ON e.id = p.episode_id
+         WHERE p.user_id = ? AND e.tv_show_id = ?`,
+        userId, tvShowId
+    );
+    return new Map(rows.map(r => [r.episode_id, r.watched_at]));
+}
+
+// Every show the user has marked at least one episode of, most recently watched first
+export async function getTvShowsWithProgress(userId: number): Promise<{ tv_show_id: number; tmdb_id: number; last_watched_at: string }[]> {
+    const db = await getDB();
+    return db.all<{ tv_show_id: number; tmdb_id: number; last_watched_at: string }[]>(
+        `SELECT e.tv_show_id, t.tmdb_id, MAX(p.watched_at) AS last_watched_at
+         FROM user_episode_progress p
+         JOIN tv_episodes e ON e.id = p.episode_id
+         JOIN tv_shows t ON t.id = e.tv_show_id
+         WHERE p.user_id = ?
+         GROUP BY e.tv_show_id
+         ORDER BY last_watched_at DESC`,
+        userId
+    );
+}
@@ -0,0 +1,58 @@
+// src/db/linkTables.ts
+// Helpers for the ordered list tables (movie_genres, restaurant_cuisines, user_*_preferred_* ...).
+// Table and column names are always constants from the accessors, never user input.
+import type { Database } from 'sqlite';
+import type { Genre } from '../common/types';
+
+export type NamedLookupTable = 'cuisines' | 'dietary_options';
+
+/** IDs for each name in a name-keyed lookup table, inserting names it hasn't seen yet. */
+export async function ensureLookupIds(db: Database, table: NamedLookupTable, names: string[]): Promise<number[]> {
+    const ids: number[] = [];
+    for (const name of names) {
+        await db.run(`INSERT INTO ${table} (name) VALUES (?) ON CONFLICT(name) DO NOTHING`, name);
+        const row = await db.get<{ id: number }>(`SELECT id FROM ${table} WHERE name = ?`, name);
+        if (row) ids.push(row.id);
+    }
+    return ids;
+}
+
+/** Replaces an owner's list in a link table, keeping the given order and dropping repeats. */
+export async function replaceLinkedValues(
+    db: Database,
+    table: string,
+    ownerColumn: string,
+    ownerId: number,
+    valueColumn: string,
+    values: (string | number)[]
+): Promise<void> {
+    await db.run(`DELETE FROM ${table} WHERE ${ownerColumn} = ?`, ownerId);
+    const unique = [...new Set(values)];
+    for (const [position, value] of unique.entries()) {
+        await db.run(`INSERT INTO ${table} (${ownerColumn}, ${valueColumn}, position) VALUES (?, ?, ?)`, ownerId, value, position);
+    }
+}
+
+/**
+ * SQL expression for an owner's list as an ordered JSON array, for use as a column in a
+ * SELECT over the owner table. `valueExpression` is evaluated over `fromClause`, whose
+ * link table must be aliased `x`. Set `valuesAreJson` when the values are json_object()s,
+ * which would otherwise come out of the subquery as escaped strings.
+ */
+export function orderedJsonList(valueExpression: string, fromClause: string, ownerMatch: string, valuesAreJson: boolean = false): string {
+    return `(SELECT json_group_array(${valuesAreJson ? 'json(v)' : 'v'}) FROM (SELECT ${valueExpression} AS v FROM ${fromClause} WHERE ${ownerMatch} ORDER BY x.position))`;
+}
+
+/** Upserts TMDB genres (names can change upstream) and links them to a movie or TV show in order. */
+export async function saveTitleGenres(
+    db: Database,
+    linkTable: 'movie_genres' | 'tv_genres',
+    ownerColumn: 'movie_id' | 'tv_show_id',
+    ownerId: number,
+    genres: Genre[]
+): Promise<void> {
+    for (const genre of genres) {
+        await db.run('INSERT INTO genres (id, name) VALUES (?, ?) ON CONFLICT(id) DO UPDATE SET name = excluded.name', genre.id, genre.name);
+    }
+    await replaceLinkedValues(db, linkTable, ownerColumn, ownerId, 'genre_id', genres.map(g => g.id));
+}
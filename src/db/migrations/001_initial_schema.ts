@@ -0,0 +1,150 @@
+// src/db/migrations/001_initial_schema.ts
+// The users / restaurants / movies / TV schema the app shipped with. Written with
+// IF NOT EXISTS plus column back-fills so it can adopt databases created before
+// migrations existed, including ones from before runtime/imdb_id were added.
+import type { Migration } from '../migrator';
+import { addColumnIfMissing } from './helpers';
+
+export const initialSchema: Migration = {
+    version: 1,
+    name: 'initial_schema',
+    async up(db) {
+        await db.exec(`
+            CREATE TABLE IF NOT EXISTS users (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              name TEXT NOT NULL UNIQUE -- Ensure user names are unique
+            );
+
+            CREATE TABLE IF NOT EXISTS restaurants (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              googlePlaceId TEXT UNIQUE NOT NULL,
+              name TEXT NOT NULL,
+              address TEXT,
+              cuisines TEXT,          -- JSON string array of cuisine names
+              dietaryOptions TEXT,    -- JSON string array of dietary option names
+              rating REAL
+            );
+
+            CREATE TABLE IF NOT EXISTS user_restaurant_preferences (
+              user_id INTEGER PRIMARY KEY,
+              favoriteCuisines TEXT,    -- JSON string array
+              dietaryRestrictions TEXT, -- JSON string array
+              minRating REAL,
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            );
+
+            CREATE TABLE IF NOT EXISTS user_restaurant_likes (
+              user_id INTEGER NOT NULL,
+              restaurant_id INTEGER NOT NULL,
+              liked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+              PRIMARY KEY (user_id, restaurant_id),
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+              FOREIGN KEY (restaurant_id) REFERENCES restaurants(id) ON DELETE CASCADE
+            );
+
+            CREATE TABLE IF NOT EXISTS movies (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              tmdb_id INTEGER UNIQUE NOT NULL,
+              title TEXT NOT NULL,
+              overview TEXT,
+              release_date TEXT,          -- Format: "YYYY-MM-DD" or NULL
+              vote_average REAL,          -- TMDB's rating (0-10)
+              vote_count INTEGER,
+              poster_path TEXT,
+              backdrop_path TEXT,
+              genres TEXT,                -- JSON string array of {id, name} genre objects
+              runtime INTEGER,            -- Duration in minutes or NULL
+              original_language TEXT,     -- ISO 639-1 code or NULL
+              imdb_id TEXT                -- IMDb ID (e.g., "tt1234567") or NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS user_movie_preferences (
+              user_id INTEGER PRIMARY KEY,
+              preferred_genres TEXT,          -- JSON array of genre names
+              preferred_languages TEXT,       -- JSON array of language codes (e.g., "en", "es")
+              release_year_min INTEGER,       -- NULL if not set
+              release_year_max INTEGER,       -- NULL if not set
+              duration_min_minutes INTEGER,   -- NULL if not set
+              duration_max_minutes INTEGER,   -- NULL if not set
+              min_imdb_rating REAL,           -- Using TMDB vote_average as proxy; NULL if not set
+              preferred_streaming_providers TEXT, -- JSON array of provider names or IDs; NULL if not set
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            );
+
+            CREATE TABLE IF NOT EXISTS user_movie_ratings (
+              user_id INTEGER NOT NULL,
+              movie_id INTEGER NOT NULL,        -- Refers to our internal movies.id
+              rating INTEGER NOT NULL,          -- User's rating (e.g., 1-5)
+              rated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+              PRIMARY KEY (user_id, movie_id),
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+              FOREIGN KEY (movie_id) REFERENCES movies(id) ON DELETE CASCADE
+            );
+
+            CREATE TABLE IF NOT EXISTS tv_shows (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              tmdb_id INTEGER UNIQUE NOT NULL,
+              name TEXT NOT NULL,
+              overview TEXT,
+              first_air_date TEXT,        -- Format: "YYYY-MM-DD" or NULL
+              vote_average REAL,
+              vote_count INTEGER,
+              poster_path TEXT,
+              backdrop_path TEXT,
+              genres TEXT,                -- JSON string array of {id, name} genre objects
+              number_of_seasons INTEGER,  -- NULL if not set
+              episode_run_time TEXT,      -- JSON array of runtimes (e.g. [22, 25]) or NULL
+              original_language TEXT,     -- ISO 639-1 code or NULL
+              imdb_id TEXT                -- IMDb ID or NULL
+            );
+
+            CREATE TABLE IF NOT EXISTS user_tv_show_preferences (
+              user_id INTEGER PRIMARY KEY,
+              preferred_genres TEXT,
+              preferred_languages TEXT,
+              first_air_year_min INTEGER,
+              first_air_year_max INTEGER,
+              avg_episode_duration_min INTEGER, -- Using first element of episode_run_time as proxy
+              avg_episode_duration_max INTEGER,
+              min_imdb_rating REAL,             -- Using TMDB vote_average as proxy
+              preferred_streaming_providers TEXT,
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            );
+
+            CREATE TABLE IF NOT EXISTS user_tv_show_ratings (
+              user_id INTEGER NOT NULL,
+              tv_show_id INTEGER NOT NULL,      -- Refers to our internal tv_shows.id
+              rating INTEGER NOT NULL,
+              rated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+              PRIMARY KEY (user_id, tv_show_id),
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+              FOREIGN KEY (tv_show_id) REFERENCES tv_shows(id) ON DELETE CASCADE
+            );
+        `);
+
+        // Columns that were added to these tables after their first release
+        await addColumnIfMissing(db, 'movies', 'runtime', 'INTEGER');
+        await addColumnIfMissing(db, 'movies', 'original_language', 'TEXT');
+        await addColumnIfMissing(db, 'movies', 'imdb_id', 'TEXT');
+        await addColumnIfMissing(db, 'tv_shows', 'number_of_seasons', 'INTEGER');
+        await addColumnIfMissing(db, 'tv_shows', 'episode_run_time', 'TEXT');
+        await addColumnIfMissing(db, 'tv_shows', 'original_language', 'TEXT');
+        await addColumnIfMissing(db, 'tv_shows', 'imdb_id', 'TEXT');
+        await addColumnIfMissing(db, 'user_movie_preferences', 'preferred_streaming_providers', 'TEXT');
+        await addColumnIfMissing(db, 'user_tv_show_preferences', 'preferred_streaming_providers', 'TEXT');
+    },
+    async down(db) {
+        await db.exec(`
+            DROP TABLE IF EXISTS user_tv_show_ratings;
+            DROP TABLE IF EXISTS user_tv_show_preferences;
+            DROP TABLE IF EXISTS tv_shows;
+            DROP TABLE IF EXISTS user_movie_ratings;
+            DROP TABLE IF EXISTS user_movie_preferences;
+            DROP TABLE IF EXISTS movies;
+            DROP TABLE IF EXISTS user_restaurant_likes;
+            DROP TABLE IF EXISTS user_restaurant_preferences;
+            DROP TABLE IF EXISTS restaurants;
+            DROP TABLE IF EXISTS users;
+        `);
+    },
+};
@@ -0,0 +1,72 @@
+// src/db/migrations/002_legacy_restaurant_schema.ts
+// Brings forward data from the original restaurant-only app (src/.old_code/database.ts),
+// where preferences lived on the users row, names weren't unique and likes were kept
+// in `user_likes`. That app wrote to ./restaurants.sqlite; rename (or copy) it to
+// ./recommender_system.sqlite before starting this version and it will be upgraded here.
+// A no-op on databases that never had the legacy layout. Irreversible: the old
+// columns and table are dropped once their contents have been moved.
+import type { Migration } from '../migrator';
+import { columnNames, tableExists } from './helpers';
+
+// Every table from 001 that references users(id)
+const USER_TABLES = [
+    'user_restaurant_preferences', 'user_restaurant_likes',
+    'user_movie_preferences', 'user_movie_ratings',
+    'user_tv_show_preferences', 'user_tv_show_ratings',
+];
+
+// Lowest id among users sharing a name; duplicates are merged into it
+const CANONICAL_USER_ID = '(SELECT MIN(u2.id) FROM users u2 WHERE u2.name = (SELECT u1.name FROM users u1 WHERE u1.id = {col}))';
+
+export const legacyRestaurantSchema: Migration = {
+    version: 2,
+    name: 'legacy_restaurant_schema',
+    async up(db) {
+        const userColumns = await columnNames(db, 'users');
+        const hasLegacyPreferences = userColumns.includes('favoriteCuisines');
+
+        if (hasLegacyPreferences) {
+            // First row per name wins, matching how duplicates are merged below
+            await db.exec(`
+                INSERT OR IGNORE INTO user_restaurant_preferences (user_id, favoriteCuisines, dietaryRestrictions, minRating)
+                SELECT ${CANONICAL_USER_ID.replace('{col}', 'u.id')}, u.favoriteCuisines, u.dietaryRestrictions, u.minRating
+                FROM users u
+                WHERE u.favoriteCuisines IS NOT NULL OR u.dietaryRestrictions IS NOT NULL OR u.minRating IS NOT NULL
+                ORDER BY u.id ASC;
+            `);
+        }
+
+        if (await tableExists(db, 'user_likes')) {
+            await db.exec(`
+                INSERT OR IGNORE INTO user_restaurant_likes (user_id, restaurant_id, liked_at)
+                SELECT ${CANONICAL_USER_ID.replace('{col}', 'l.user_id')}, l.restaurant_id, l.liked_at
+                FROM user_likes l
+                WHERE EXISTS (SELECT 1 FROM users WHERE id = l.user_id)
+                  AND EXISTS (SELECT 1 FROM restaurants WHERE id = l.restaurant_id);
+                DROP TABLE user_likes;
+            `);
+        }
+
+        if (!hasLegacyPreferences) return;
+
+        // Point rows owned by duplicate users at the surviving user, then drop whatever collides
+        for (const table of USER_TABLES) {
+            await db.exec(`
+                UPDATE OR IGNORE ${table} SET user_id = ${CANONICAL_USER_ID.replace('{col}', `${table}.user_id`)}
+                WHERE user_id IN (SELECT id FROM users) AND user_id NOT IN (SELECT MIN(id) FROM users GROUP BY name);
+                DELETE FROM ${table} WHERE user_id NOT IN (SELECT MIN(id) FROM users GROUP BY name);
+            `);
+        }
+
+        // Rebuild users with the current shape (unique names, no preference columns)
+        await db.exec(`
+            CREATE TABLE users_new (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              name TEXT NOT NULL UNIQUE
+            );
+            INSERT INTO users_new (id, name) SELECT MIN(id), name FROM users GROUP BY name;
+            DROP TABLE users;
+            ALTER TABLE users_new RENAME TO users;
+        `);
+    },
+};
@@ -0,0 +1,54 @@
+// src/db/migrations/003_feedback_streaming_settings.ts
+import type { Migration } from '../migrator';
+
+export const feedbackStreamingSettings: Migration = {
+    version: 3,
+    name: 'feedback_streaming_settings',
+    async up(db) {
+        await db.exec(`
+            CREATE TABLE IF NOT EXISTS user_restaurant_feedback (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              user_id INTEGER NOT NULL,
+              restaurant_id INTEGER NOT NULL,
+              feedback TEXT NOT NULL CHECK (feedback IN ('like', 'dislike', 'skip', 'visited')),
+              created_at DATETIME DEFAULT CURRENT_TIMESTAMP, -- One row per reaction, so history is kept
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+              FOREIGN KEY (restaurant_id) REFERENCES restaurants(id) ON DELETE CASCADE
+            );
+            CREATE INDEX IF NOT EXISTS idx_user_restaurant_feedback_user ON user_restaurant_feedback (user_id, restaurant_id);
+
+            -- Streaming availability (shared by movies and TV)
+            CREATE TABLE IF NOT EXISTS title_watch_providers (
+              media_type TEXT NOT NULL,         -- 'movie' or 'tv'
+              tmdb_id INTEGER NOT NULL,
+              region TEXT NOT NULL,             -- ISO 3166-1 code, e.g. "US", "GB"
+              provider_id INTEGER NOT NULL,
+              provider_name TEXT NOT NULL,
+              availability_type TEXT NOT NULL,  -- 'flatrate', 'rent' or 'buy'
+              PRIMARY KEY (media_type, tmdb_id, region, provider_id, availability_type)
+            );
+
+            CREATE TABLE IF NOT EXISTS title_watch_provider_refreshes (
+              media_type TEXT NOT NULL,
+              tmdb_id INTEGER NOT NULL,
+              refreshed_at DATETIME DEFAULT CURRENT_TIMESTAMP, -- When watch/providers was last pulled for this title
+              PRIMARY KEY (media_type, tmdb_id)
+            );
+
+            CREATE TABLE IF NOT EXISTS user_settings (
+              user_id INTEGER PRIMARY KEY,
+              home_region TEXT NOT NULL DEFAULT 'US',        -- Region used for watch provider lookups
+              streaming_filter TEXT NOT NULL DEFAULT 'rank', -- 'rank' boosts titles on preferred providers, 'only' drops the rest
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+            );
+        `);
+    },
+    async down(db) {
+        await db.exec(`
+            DROP TABLE IF EXISTS user_settings;
+            DROP TABLE IF EXISTS title_watch_provider_refreshes;
+            DROP TABLE IF EXISTS title_watch_providers;
+            DROP TABLE IF EXISTS user_restaurant_feedback;
+        `);
+    },
+};
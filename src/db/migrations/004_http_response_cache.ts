@@ -0,0 +1,24 @@
+// src/db/migrations/004_http_response_cache.ts
+import type { Migration } from '../migrator';
+
+export const httpResponseCache: Migration = {
+    version: 4,
+    name: 'http_response_cache',
+    async up(db) {
+        await db.exec(`
+            CREATE TABLE IF NOT EXISTS http_response_cache (
+              cache_key TEXT PRIMARY KEY,       -- service + endpoint + sorted params
+              service TEXT NOT NULL,            -- 'tmdb' or 'google_places'
+              endpoint TEXT NOT NULL,
+              params TEXT NOT NULL,             -- JSON object of query params (no API keys)
+              response TEXT NOT NULL,           -- JSON body
+              fetched_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+              hit_count INTEGER NOT NULL DEFAULT 0
+            );
+            CREATE INDEX IF NOT EXISTS idx_http_response_cache_service ON http_response_cache (service);
+        `);
+    },
+    async down(db) {
+        await db.exec('DROP TABLE IF EXISTS http_response_cache;');
+    },
+};
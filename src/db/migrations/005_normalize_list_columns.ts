@@ -0,0 +1,245 @@
+// src/db/migrations/005_normalize_list_columns.ts
+// Moves the JSON-in-TEXT list columns into lookup + link tables so genres,
+// cuisines and preference lists can be joined and filtered in SQL.
+// Every link table has a `position` column to keep the original list order.
+import type { Database } from 'sqlite';
+import type { Migration } from '../migrator';
+
+// json_each() over a column, treating NULL or malformed JSON as an empty list
+function jsonList(column: string): string {
+    return `json_each(CASE WHEN json_valid(${column}) THEN ${column} ELSE '[]' END)`;
+}
+
+// Preference lists for movies and TV share a shape: [table suffix, value column, old JSON column]
+const MEDIA_PREFERENCE_LISTS: [string, string, string][] = [
+    ['preferred_genres', 'genre_name', 'preferred_genres'],
+    ['preferred_languages', 'language', 'preferred_languages'],
+    ['preferred_providers', 'provider', 'preferred_streaming_providers'],
+];
+
+const MEDIA_PREFERENCE_TABLES: [string, string][] = [
+    ['user_movie', 'user_movie_preferences'],
+    ['user_tv_show', 'user_tv_show_preferences'],
+];
+
+async function createTables(db: Database): Promise<void> {
+    await db.exec(`
+        CREATE TABLE genres (
+          id INTEGER PRIMARY KEY,       -- TMDB genre ID (shared by movies and TV)
+          name TEXT NOT NULL
+        );
+
+        CREATE TABLE movie_genres (
+          movie_id INTEGER NOT NULL,
+          genre_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,    -- Order TMDB listed the genres in
+          PRIMARY KEY (movie_id, genre_id),
+          FOREIGN KEY (movie_id) REFERENCES movies(id) ON DELETE CASCADE,
+          FOREIGN KEY (genre_id) REFERENCES genres(id)
+        );
+        CREATE INDEX idx_movie_genres_genre ON movie_genres (genre_id);
+
+        CREATE TABLE tv_genres (
+          tv_show_id INTEGER NOT NULL,
+          genre_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (tv_show_id, genre_id),
+          FOREIGN KEY (tv_show_id) REFERENCES tv_shows(id) ON DELETE CASCADE,
+          FOREIGN KEY (genre_id) REFERENCES genres(id)
+        );
+        CREATE INDEX idx_tv_genres_genre ON tv_genres (genre_id);
+
+        CREATE TABLE cuisines (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE     -- As the source spelled it; compare with COLLATE NOCASE
+        );
+
+        CREATE TABLE restaurant_cuisines (
+          restaurant_id INTEGER NOT NULL,
+          cuisine_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (restaurant_id, cuisine_id),
+          FOREIGN KEY (restaurant_id) REFERENCES restaurants(id) ON DELETE CASCADE,
+          FOREIGN KEY (cuisine_id) REFERENCES cuisines(id)
+        );
+        CREATE INDEX idx_restaurant_cuisines_cuisine ON restaurant_cuisines (cuisine_id);
+
+        CREATE TABLE dietary_options (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          name TEXT NOT NULL UNIQUE
+        );
+
+        CREATE TABLE restaurant_dietary_options (
+          restaurant_id INTEGER NOT NULL,
+          dietary_option_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (restaurant_id, dietary_option_id),
+          FOREIGN KEY (restaurant_id) REFERENCES restaurants(id) ON DELETE CASCADE,
+          FOREIGN KEY (dietary_option_id) REFERENCES dietary_options(id)
+        );
+
+        CREATE TABLE user_restaurant_favorite_cuisines (
+          user_id INTEGER NOT NULL,
+          cuisine_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (user_id, cuisine_id),
+          FOREIGN KEY (user_id) REFERENCES user_restaurant_preferences(user_id) ON DELETE CASCADE,
+          FOREIGN KEY (cuisine_id) REFERENCES cuisines(id)
+        );
+
+        CREATE TABLE user_restaurant_dietary_restrictions (
+          user_id INTEGER NOT NULL,
+          dietary_option_id INTEGER NOT NULL,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (user_id, dietary_option_id),
+          FOREIGN KEY (user_id) REFERENCES user_restaurant_preferences(user_id) ON DELETE CASCADE,
+          FOREIGN KEY (dietary_option_id) REFERENCES dietary_options(id)
+        );
+    `);
+
+    // Genre names, language codes and provider names are free text typed by users,
+    // so they're stored as values rather than linked to a lookup table
+    for (const [prefix, parent] of MEDIA_PREFERENCE_TABLES) {
+        for (const [suffix, valueColumn] of MEDIA_PREFERENCE_LISTS) {
+            await db.exec(`
+                CREATE TABLE ${prefix}_${suffix} (
+                  user_id INTEGER NOT NULL,
+                  ${valueColumn} TEXT NOT NULL,
+                  position INTEGER NOT NULL,
+                  PRIMARY KEY (user_id, ${valueColumn}),
+                  FOREIGN KEY (user_id) REFERENCES ${parent}(user_id) ON DELETE CASCADE
+                );
+            `);
+        }
+    }
+}
+
+async function copyJsonIntoTables(db: Database): Promise<void> {
+    await db.exec(`
+        INSERT OR IGNORE INTO genres (id, name)
+        SELECT json_extract(j.value, '$.id'), json_extract(j.value, '$.name') FROM movies m, ${jsonList('m.genres')} j
+        WHERE json_extract(j.value, '$.id') IS NOT NULL AND json_extract(j.value, '$.name') IS NOT NULL
+        UNION
+        SELECT json_extract(j.value, '$.id'), json_extract(j.value, '$.name') FROM tv_shows t, ${jsonList('t.genres')} j
+        WHERE json_extract(j.value, '$.id') IS NOT NULL AND json_extract(j.value, '$.name') IS NOT NULL;
+
+        INSERT OR IGNORE INTO movie_genres (movie_id, genre_id, position)
+        SELECT m.id, json_extract(j.value, '$.id'), j.key FROM movies m, ${jsonList('m.genres')} j
+        WHERE json_extract(j.value, '$.id') IN (SELECT id FROM genres);
+
+        INSERT OR IGNORE INTO tv_genres (tv_show_id, genre_id, position)
+        SELECT t.id, json_extract(j.value, '$.id'), j.key FROM tv_shows t, ${jsonList('t.genres')} j
+        WHERE json_extract(j.value, '$.id') IN (SELECT id FROM genres);
+
+        INSERT OR IGNORE INTO cuisines (name)
+        SELECT j.value FROM restaurants r, ${jsonList('r.cuisines')} j WHERE j.type = 'text'
+        UNION
+        SELECT j.value FROM user_restaurant_preferences p, ${jsonList('p.favoriteCuisines')} j WHERE j.type = 'text';
+
+        INSERT OR IGNORE INTO dietary_options (name)
+        SELECT j.value FROM restaurants r, ${jsonList('r.dietaryOptions')} j WHERE j.type = 'text'
+        UNION
+        SELECT j.value FROM user_restaurant_preferences p, ${jsonList('p.dietaryRestrictions')} j WHERE j.type = 'text';
+
+        INSERT OR IGNORE INTO restaurant_cuisines (restaurant_id, cuisine_id, position)
+        SELECT r.id, c.id, j.key FROM restaurants r, ${jsonList('r.cuisines')} j JOIN cuisines c ON c.name = j.value;
+
+        INSERT OR IGNORE INTO restaurant_dietary_options (restaurant_id, dietary_option_id, position)
+        SELECT r.id, d.id, j.key FROM restaurants r, ${jsonList('r.dietaryOptions')} j JOIN dietary_options d ON d.name = j.value;
+
+        INSERT OR IGNORE INTO user_restaurant_favorite_cuisines (user_id, cuisine_id, position)
+        SELECT p.user_id, c.id, j.key FROM user_restaurant_preferences p, ${jsonList('p.favoriteCuisines')} j JOIN cuisines c ON c.name = j.value;
+
+        INSERT OR IGNORE INTO user_restaurant_dietary_restrictions (user_id, dietary_option_id, position)
+        SELECT p.user_id, d.id, j.key FROM user_restaurant_preferences p, ${jsonList('p.dietaryRestrictions')} j JOIN dietary_options d ON d.name = j.value;
+    `);
+
+    for (const [prefix, parent] of MEDIA_PREFERENCE_TABLES) {
+        for (const [suffix, valueColumn, jsonColumn] of MEDIA_PREFERENCE_LISTS) {
+            await db.exec(`
+                INSERT OR IGNORE INTO ${prefix}_${suffix} (user_id, ${valueColumn}, position)
+                SELECT p.user_id, CAST(j.value AS TEXT), j.key FROM ${parent} p, ${jsonList(`p.${jsonColumn}`)} j
+                WHERE j.type IN ('text', 'integer');
+            `);
+        }
+    }
+}
+
+async function dropJsonColumns(db: Database): Promise<void> {
+    await db.exec(`
+        ALTER TABLE movies DROP COLUMN genres;
+        ALTER TABLE tv_shows DROP COLUMN genres;
+        ALTER TABLE restaurants DROP COLUMN cuisines;
+        ALTER TABLE restaurants DROP COLUMN dietaryOptions;
+        ALTER TABLE user_restaurant_preferences DROP COLUMN favoriteCuisines;
+        ALTER TABLE user_restaurant_preferences DROP COLUMN dietaryRestrictions;
+    `);
+    for (const [, parent] of MEDIA_PREFERENCE_TABLES) {
+        for (const [, , jsonColumn] of MEDIA_PREFERENCE_LISTS) {
+            await db.exec(`ALTER TABLE ${parent} DROP COLUMN ${jsonColumn};`);
+        }
+    }
+}
+
+export const normalizeListColumns: Migration = {
+    version: 5,
+    name: 'normalize_list_columns',
+    async up(db) {
+        await createTables(db);
+        await copyJsonIntoTables(db);
+        await dropJsonColumns(db);
+    },
+    async down(db) {
+        await db.exec(`
+            ALTER TABLE movies ADD COLUMN genres TEXT;
+            ALTER TABLE tv_shows ADD COLUMN genres TEXT;
+            ALTER TABLE restaurants ADD COLUMN cuisines TEXT;
+            ALTER TABLE restaurants ADD COLUMN dietaryOptions TEXT;
+            ALTER TABLE user_restaurant_preferences ADD COLUMN favoriteCuisines TEXT;
+            ALTER TABLE user_restaurant_preferences ADD COLUMN dietaryRestrictions TEXT;
+
+            UPDATE movies SET genres = (
+              SELECT json_group_array(json_object('id', id, 'name', name)) FROM (
+                SELECT g.id, g.name FROM movie_genres x JOIN genres g ON g.id = x.genre_id WHERE x.movie_id = movies.id ORDER BY x.position));
+            UPDATE tv_shows SET genres = (
+              SELECT json_group_array(json_object('id', id, 'name', name)) FROM (
+                SELECT g.id, g.name FROM tv_genres x JOIN genres g ON g.id = x.genre_id WHERE x.tv_show_id = tv_shows.id ORDER BY x.position));
+            UPDATE restaurants SET
+              cuisines = (SELECT json_group_array(name) FROM (
+                SELECT c.name FROM restaurant_cuisines x JOIN cuisines c ON c.id = x.cuisine_id WHERE x.restaurant_id = restaurants.id ORDER BY x.position)),
+              dietaryOptions = (SELECT json_group_array(name) FROM (
+                SELECT d.name FROM restaurant_dietary_options x JOIN dietary_options d ON d.id = x.dietary_option_id WHERE x.restaurant_id = restaurants.id ORDER BY x.position));
+            UPDATE user_restaurant_preferences SET
+              favoriteCuisines = (SELECT json_group_array(name) FROM (
+                SELECT c.name FROM user_restaurant_favorite_cuisines x JOIN cuisines c ON c.id = x.cuisine_id WHERE x.user_id = user_restaurant_preferences.user_id ORDER BY x.position)),
+              dietaryRestrictions = (SELECT json_group_array(name) FROM (
+                SELECT d.name FROM user_restaurant_dietary_restrictions x JOIN dietary_options d ON d.id = x.dietary_option_id WHERE x.user_id = user_restaurant_preferences.user_id ORDER BY x.position));
+        `);
+
+        for (const [prefix, parent] of MEDIA_PREFERENCE_TABLES) {
+            for (const [suffix, valueColumn, jsonColumn] of MEDIA_PREFERENCE_LISTS) {
+                // NULL rather than '[]' when the list is empty, as the old columns had it
+                await db.exec(`
+                    ALTER TABLE ${parent} ADD COLUMN ${jsonColumn} TEXT;
+                    UPDATE ${parent} SET ${jsonColumn} = (
+                      SELECT json_group_array(${valueColumn}) FROM (
+                        SELECT ${valueColumn} FROM ${prefix}_${suffix} x WHERE x.user_id = ${parent}.user_id ORDER BY x.position))
+                    WHERE EXISTS (SELECT 1 FROM ${prefix}_${suffix} x WHERE x.user_id = ${parent}.user_id);
+                    DROP TABLE ${prefix}_${suffix};
+                `);
+            }
+        }
+
+        await db.exec(`
+            DROP TABLE user_restaurant_dietary_restrictions;
+            DROP TABLE user_restaurant_favorite_cuisines;
+            DROP TABLE restaurant_dietary_options;
+            DROP TABLE dietary_options;
+            DROP TABLE restaurant_cuisines;
+            DROP TABLE cuisines;
+            DROP TABLE tv_genres;
+            DROP TABLE movie_genres;
+            DROP TABLE genres;
+        `);
+    },
+};
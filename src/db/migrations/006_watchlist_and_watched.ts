@@ -0,0 +1,39 @@
+// src/db/migrations/006_watchlist_and_watched.ts
+import type { Migration } from '../migrator';
+
+// Each row points at exactly one of movies / tv_shows, so both keep real foreign keys
+function titleListTable(table: string, timestampColumn: string): string {
+    return `
+        CREATE TABLE IF NOT EXISTS ${table} (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          user_id INTEGER NOT NULL,
+          movie_id INTEGER,
+          tv_show_id INTEGER,
+          ${timestampColumn} DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+          FOREIGN KEY (movie_id) REFERENCES movies(id) ON DELETE CASCADE,
+          FOREIGN KEY (tv_show_id) REFERENCES tv_shows(id) ON DELETE CASCADE,
+          CHECK ((movie_id IS NULL) <> (tv_show_id IS NULL)),
+          UNIQUE (user_id, movie_id),
+          UNIQUE (user_id, tv_show_id)
+        );
+    `;
+}
+
+export const watchlistAndWatched: Migration = {
+    version: 6,
+    name: 'watchlist_and_watched',
+    async up(db) {
+        await db.exec(titleListTable('user_watchlist', 'added_at'));
+        await db.exec(titleListTable('user_watched', 'watched_at')); // Watched without necessarily rating
+        // 1 = rank titles that share genres with the watchlist higher
+        await db.exec('ALTER TABLE user_settings ADD COLUMN watchlist_boost INTEGER NOT NULL DEFAULT 1;');
+    },
+    async down(db) {
+        await db.exec(`
+            DROP TABLE IF EXISTS user_watched;
+            DROP TABLE IF EXISTS user_watchlist;
+            ALTER TABLE user_settings DROP COLUMN watchlist_boost;
+        `);
+    },
+};
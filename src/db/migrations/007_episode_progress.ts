@@ -0,0 +1,39 @@
+// src/db/migrations/007_episode_progress.ts
+import type { Migration } from '../migrator';
+
+export const episodeProgress: Migration = {
+    version: 7,
+    name: 'episode_progress',
+    async up(db) {
+        await db.exec(`
+            -- Episodes of shows someone is tracking, copied from TMDB season details
+            CREATE TABLE IF NOT EXISTS tv_episodes (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              tv_show_id INTEGER NOT NULL,
+              tmdb_id INTEGER UNIQUE NOT NULL,
+              season_number INTEGER NOT NULL,  -- 0 holds specials
+              episode_number INTEGER NOT NULL,
+              name TEXT,
+              air_date TEXT,                   -- "YYYY-MM-DD", NULL until scheduled
+              runtime INTEGER,
+              FOREIGN KEY (tv_show_id) REFERENCES tv_shows(id) ON DELETE CASCADE,
+              UNIQUE (tv_show_id, season_number, episode_number)
+            );
+
+            CREATE TABLE IF NOT EXISTS user_episode_progress (
+              user_id INTEGER NOT NULL,
+              episode_id INTEGER NOT NULL,
+              watched_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+              PRIMARY KEY (user_id, episode_id),
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+              FOREIGN KEY (episode_id) REFERENCES tv_episodes(id) ON DELETE CASCADE
+            );
+        `);
+    },
+    async down(db) {
+        await db.exec(`
+            DROP TABLE IF EXISTS user_episode_progress;
+            DROP TABLE IF EXISTS tv_episodes;
+        `);
+    },
+};
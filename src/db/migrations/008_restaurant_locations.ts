@@ -0,0 +1,32 @@
+// src/db/migrations/008_restaurant_locations.ts
+import type { Migration } from '../migrator';
+
+export const restaurantLocations: Migration = {
+    version: 8,
+    name: 'restaurant_locations',
+    async up(db) {
+        // NULL for places stored before coordinates were kept, until a source returns them again
+        await db.exec('ALTER TABLE restaurants ADD COLUMN latitude REAL;');
+        await db.exec('ALTER TABLE restaurants ADD COLUMN longitude REAL;');
+        await db.exec(`
+            -- Named places a user searches from, e.g. "home" and "work"
+            CREATE TABLE IF NOT EXISTS user_locations (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              user_id INTEGER NOT NULL,
+              label TEXT NOT NULL COLLATE NOCASE,
+              latitude REAL NOT NULL,
+              longitude REAL NOT NULL,
+              updated_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+              UNIQUE (user_id, label)
+            );
+        `);
+    },
+    async down(db) {
+        await db.exec(`
+            DROP TABLE IF EXISTS user_locations;
+            ALTER TABLE restaurants DROP COLUMN longitude;
+            ALTER TABLE restaurants DROP COLUMN latitude;
+        `);
+    },
+};
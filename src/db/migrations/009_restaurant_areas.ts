@@ -0,0 +1,44 @@
+// src/db/migrations/009_restaurant_areas.ts
+import type { Migration } from '../migrator';
+
+export const restaurantAreas: Migration = {
+    version: 9,
+    name: 'restaurant_areas',
+    async up(db) {
+        await db.exec(`
+            -- One row per location query restaurants were fetched for, e.g. "Austin, TX"
+            CREATE TABLE IF NOT EXISTS restaurant_areas (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              query TEXT UNIQUE NOT NULL COLLATE NOCASE, -- As first searched; fetching it again reuses the area
+              name TEXT UNIQUE NOT NULL COLLATE NOCASE,  -- Shown to users; starts as the query and can be renamed
+              created_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+              last_fetched_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+            );
+
+            -- A restaurant can turn up in several areas ("Soho" and "London")
+            CREATE TABLE IF NOT EXISTS restaurant_area_members (
+              area_id INTEGER NOT NULL,
+              restaurant_id INTEGER NOT NULL,
+              PRIMARY KEY (area_id, restaurant_id),
+              FOREIGN KEY (area_id) REFERENCES restaurant_areas(id) ON DELETE CASCADE,
+              FOREIGN KEY (restaurant_id) REFERENCES restaurants(id) ON DELETE CASCADE
+            );
+            CREATE INDEX IF NOT EXISTS idx_restaurant_area_members_restaurant ON restaurant_area_members(restaurant_id);
+
+            -- The area a user's restaurant recommendations are drawn from; no row means every stored restaurant
+            CREATE TABLE IF NOT EXISTS user_active_restaurant_area (
+              user_id INTEGER PRIMARY KEY,
+              area_id INTEGER NOT NULL,
+              FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
+              FOREIGN KEY (area_id) REFERENCES restaurant_areas(id) ON DELETE CASCADE
+            );
+        `);
+    },
+    async down(db) {
+        await db.exec(`
+            DROP TABLE IF EXISTS user_active_restaurant_area;
+            DROP TABLE IF EXISTS restaurant_area_members;
+            DROP TABLE IF EXISTS restaurant_areas;
+        `);
+    },
+};
@@ -0,0 +1,36 @@
+// src/db/migrations/010_restaurant_opening_hours.ts
+import type { Migration } from '../migrator';
+
+export const restaurantOpeningHours: Migration = {
+    version: 10,
+    name: 'restaurant_opening_hours',
+    async up(db) {
+        // All NULL until a source reports them; the hours are local to time_zone (or utc_offset_minutes)
+        await db.exec('ALTER TABLE restaurants ADD COLUMN business_status TEXT;');
+        await db.exec('ALTER TABLE restaurants ADD COLUMN time_zone TEXT;');
+        await db.exec('ALTER TABLE restaurants ADD COLUMN utc_offset_minutes INTEGER;');
+        await db.exec(`
+            -- One row per opening period, as in Google Places: days 0 (Sunday) to 6, minutes from midnight.
+            -- A period without a close is open around the clock.
+            CREATE TABLE IF NOT EXISTS restaurant_opening_hours (
+              id INTEGER PRIMARY KEY AUTOINCREMENT,
+              restaurant_id INTEGER NOT NULL,
+              open_day INTEGER NOT NULL CHECK (open_day BETWEEN 0 AND 6),
+              open_minute INTEGER NOT NULL CHECK (open_minute BETWEEN 0 AND 1439),
+              close_day INTEGER CHECK (close_day BETWEEN 0 AND 6),
+              close_minute INTEGER CHECK (close_minute BETWEEN 0 AND 1439),
+              FOREIGN KEY (restaurant_id) REFERENCES restaurants(id) ON DELETE CASCADE,
+              CHECK ((close_day IS NULL) = (close_minute IS NULL))
+            );
+            CREATE INDEX IF NOT EXISTS idx_restaurant_opening_hours_restaurant ON restaurant_opening_hours(restaurant_id);
+        `);
+    },
+    async down(db) {
+        await db.exec(`
+            DROP TABLE IF EXISTS restaurant_opening_hours;
+            ALTER TABLE restaurants DROP COLUMN utc_offset_minutes;
+            ALTER TABLE restaurants DROP COLUMN time_zone;
+            ALTER TABLE restaurants DROP COLUMN business_status;
+        `);
+    },
+};
@@ -0,0 +1,20 @@
+// src/db/migrations/011_restaurant_price_levels.ts
+import type { Migration } from '../migrator';
+
+export const restaurantPriceLevels: Migration = {
+    version: 11,
+    name: 'restaurant_price_levels',
+    async up(db) {
+        // Google price levels, 0 (free) to 4; NULL when the source doesn't say, or the user has no budget
+        await db.exec('ALTER TABLE restaurants ADD COLUMN price_level INTEGER CHECK (price_level BETWEEN 0 AND 4);');
+        await db.exec('ALTER TABLE user_restaurant_preferences ADD COLUMN minPriceLevel INTEGER CHECK (minPriceLevel BETWEEN 0 AND 4);');
+        await db.exec('ALTER TABLE user_restaurant_preferences ADD COLUMN maxPriceLevel INTEGER CHECK (maxPriceLevel BETWEEN 0 AND 4);');
+    },
+    async down(db) {
+        await db.exec(`
+            ALTER TABLE user_restaurant_preferences DROP COLUMN maxPriceLevel;
+            ALTER TABLE user_restaurant_preferences DROP COLUMN minPriceLevel;
+            ALTER TABLE restaurants DROP COLUMN price_level;
+        `);
+    },
+};
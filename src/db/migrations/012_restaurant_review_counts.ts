@@ -0,0 +1,14 @@
+// src/db/migrations/012_restaurant_review_counts.ts
+import type { Migration } from '../migrator';
+
+export const restaurantReviewCounts: Migration = {
+    version: 12,
+    name: 'restaurant_review_counts',
+    async up(db) {
+        // How many reviews the rating is based on; NULL until a source reports it
+        await db.exec('ALTER TABLE restaurants ADD COLUMN user_ratings_total INTEGER CHECK (user_ratings_total >= 0);');
+    },
+    async down(db) {
+        await db.exec('ALTER TABLE restaurants DROP COLUMN user_ratings_total;');
+    },
+};
@@ -0,0 +1,20 @@
+// src/db/migrations/helpers.ts
+// Introspection helpers so migrations can cope with databases created by the
+// old CREATE TABLE IF NOT EXISTS setup, which may be missing later columns.
+import type { Database } from 'sqlite';
+
+export async function tableExists(db: Database, table: string): Promise<boolean> {
+    const row = await db.get<{ name: string }>("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?", table);
+    return row !== undefined;
+}
+
+export async function columnNames(db: Database, table: string): Promise<string[]> {
+    const rows = await db.all<{ name: string }[]>(`PRAGMA table_info(${table})`);
+    return rows.map(r => r.name);
+}
+
+export async function addColumnIfMissing(db: Database, table: string, column: string, definition: string): Promise<void> {
+    if (!(await columnNames(db, table)).includes(column)) {
+        await db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+}
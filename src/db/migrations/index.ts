@@ -0,0 +1,31 @@
+// src/db/migrations/index.ts
+// Every schema change, oldest first. Never edit or renumber a migration that has
+// shipped; add a new file with the next version instead.
+import type { Migration } from '../migrator';
+import { initialSchema } from './001_initial_schema';
+import { legacyRestaurantSchema } from './002_legacy_restaurant_schema';
+import { feedbackStreamingSettings } from './003_feedback_streaming_settings';
+import { httpResponseCache } from './004_http_response_cache';
+import { normalizeListColumns } from './005_normalize_list_columns';
+import { watchlistAndWatched } from './006_watchlist_and_watched';
+import { episodeProgress } from './007_episode_progress';
+import { restaurantLocations } from './008_restaurant_locations';
+import { restaurantAreas } from './009_restaurant_areas';
+import { restaurantOpeningHours } from './010_restaurant_opening_hours';
+import { restaurantPriceLevels } from './011_restaurant_price_levels';
+import { restaurantReviewCounts } from './012_restaurant_review_counts';
+
+export const MIGRATIONS: Migration[] = [
+    initialSchema,
+    legacyRestaurantSchema,
+    feedbackStreamingSettings,
+    httpResponseCache,
+    normalizeListColumns,
+    watchlistAndWatched,
+    episodeProgress,
+    restaurantLocations,
+    restaurantAreas,
+    restaurantOpeningHours,
+    restaurantPriceLevels,
+    restaurantReviewCounts,
+];
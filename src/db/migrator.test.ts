@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import type { Database } from 'sqlite';
+import { IN_MEMORY_DB_PATH } from '../common/config';
+import { columnNames, tableExists } from './migrations/helpers';
+import { getCurrentSchemaVersion, getLatestSchemaVersion, getMigrationStatus, migrateDown, migrateUp } from './migrator';
+import { openDatabase } from './setup';
+
+let db: Database;
+
+// Everything except the bookkeeping table, so runs can be compared
+async function schema(): Promise<string[]> {
+    const rows = await db.all<{ sql: string }[]>(
+        `SELECT sql FROM sqlite_master WHERE sql IS NOT NULL AND name <> 'schema_version' ORDER BY type, name`,
+    );
+    return rows.map(r => r.sql);
+}
+
+beforeEach(async () => {
+    spyOn(console, 'log').mockImplementation(() => {});
+    db = await openDatabase({ config: { dbPath: IN_MEMORY_DB_PATH }, runMigrations: false });
+});
+
+afterEach(async () => {
+    await db.close();
+});
+
+describe('migrateUp', () => {
+    test('applies every migration to an empty database, then nothing', async () => {
+        const applied = await migrateUp(db);
+        expect(applied.map(m => m.version)).toEqual(Array.from({ length: getLatestSchemaVersion() }, (_, i) => i + 1));
+
+        const status = await getMigrationStatus(db);
+        expect(status.currentVersion).toBe(getLatestSchemaVersion());
+        expect(status.pending).toEqual([]);
+        expect(await migrateUp(db)).toEqual([]);
+    });
+
+    test('builds the schema the app reads', async () => {
+        await migrateUp(db);
+        for (const table of ['users', 'movies', 'tv_shows', 'restaurant_cuisines', 'user_watchlist', 'user_episode_progress']) {
+            expect(await tableExists(db, table)).toBe(true);
+        }
+        expect(await columnNames(db, 'restaurants')).toEqual(expect.arrayContaining(['latitude', 'longitude', 'price_level', 'user_ratings_total']));
+        expect(await columnNames(db, 'restaurants')).not.toContain('cuisines');
+    });
+
+    test('stops at the target version', async () => {
+        await migrateUp(db, 4);
+        expect(await getCurrentSchemaVersion(db)).toBe(4);
+        expect(await columnNames(db, 'restaurants')).toContain('cuisines');
+        expect(await tableExists(db, 'restaurant_cuisines')).toBe(false);
+    });
+});
+
+describe('migrateDown', () => {
+    test('steps back one migration by default', async () => {
+        await migrateUp(db);
+        const reverted = await migrateDown(db);
+        expect(reverted.map(m => m.version)).toEqual([getLatestSchemaVersion()]);
+        expect(await columnNames(db, 'restaurants')).not.toContain('user_ratings_total');
+    });
+
+    test('reverts to the oldest reversible version and back to the same schema', async () => {
+        await migrateUp(db);
+        const latest = await schema();
+
+        await migrateDown(db, 2);
+        expect(await getCurrentSchemaVersion(db)).toBe(2);
+        await migrateUp(db);
+        expect(await schema()).toEqual(latest);
+    });
+
+    test('keeps list data across the normalisation migration', async () => {
+        await migrateUp(db);
+        await db.run(`INSERT INTO restaurants (id, googlePlaceId, name, address, rating) VALUES (1, 'p1', 'Dishoom', '', 4.5)`);
+        await db.run(`INSERT INTO cuisines (id, name) VALUES (1, 'Indian'), (2, 'Breakfast')`);
+        await db.run(`INSERT INTO restaurant_cuisines (restaurant_id, cuisine_id, position) VALUES (1, 2, 0), (1, 1, 1)`);
+
+        await migrateDown(db, 4);
+        const row = await db.get<{ cuisines: string }>('SELECT cuisines FROM restaurants WHERE id = 1');
+        expect(JSON.parse(row!.cuisines)).toEqual(['Breakfast', 'Indian']);
+
+        await migrateUp(db);
+        const cuisines = await db.all<{ name: string }[]>(
+            'SELECT c.name FROM restaurant_cuisines x JOIN cuisines c ON c.id = x.cuisine_id WHERE x.restaurant_id = 1 ORDER BY x.position',
+        );
+        expect(cuisines.map(c => c.name)).toEqual(['Breakfast', 'Indian']);
+    });
+
+    test('refuses to pass an irreversible migration and changes nothing', async () => {
+        await migrateUp(db);
+        await expect(migrateDown(db, 0)).rejects.toThrow(/irreversible/);
+        expect(await getCurrentSchemaVersion(db)).toBe(getLatestSchemaVersion());
+    });
+});
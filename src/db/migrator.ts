@@ -0,0 +1,136 @@
+// src/db/migrator.ts
+// Versioned schema migrations. Applied versions are recorded in `schema_version`;
+// each migration runs in its own transaction so a failure leaves the DB at the
+// last good version. Migrations live in ./migrations and are listed in order there.
+import type { Database } from 'sqlite';
+import chalk from 'chalk';
+import { MIGRATIONS } from './migrations';
+
+export interface Migration {
+    version: number;
+    name: string;
+    up: (db: Database) => Promise<void>;
+    down?: (db: Database) => Promise<void>; // Omitted when the change can't be undone (e.g. legacy data moves)
+}
+
+export interface AppliedMigration {
+    version: number;
+    name: string;
+    applied_at: string;
+}
+
+export interface MigrationStatus {
+    currentVersion: number;
+    latestVersion: number;
+    applied: AppliedMigration[];
+    pending: { version: number; name: string }[];
+}
+
+async function ensureSchemaVersionTable(db: Database): Promise<void> {
+    await db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_version (
+          version INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          applied_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+        );
+    `);
+}
+
+async function getAppliedMigrations(db: Database): Promise<AppliedMigration[]> {
+    await ensureSchemaVersionTable(db);
+    return db.all<AppliedMigration[]>('SELECT version, name, applied_at FROM schema_version ORDER BY version ASC');
+}
+
+/**
+ * Runs one migration step inside a transaction. Foreign keys are switched off for the
+ * step (SQLite can't toggle them mid-transaction) so table rebuilds don't cascade,
+ * then checked before committing.
+ */
+async function runInTransaction(db: Database, migration: Migration, direction: 'up' | 'down'): Promise<void> {
+    const step = direction === 'up' ? migration.up : migration.down;
+    if (!step) throw new Error(`Migration ${migration.version} (${migration.name}) cannot be reverted.`);
+
+    await db.exec('PRAGMA foreign_keys = OFF;');
+    await db.exec('BEGIN;');
+    try {
+        await step(db);
+        const violations = await db.all('PRAGMA foreign_key_check;');
+        if (violations.length > 0) {
+            throw new Error(`Migration ${migration.version} (${migration.name}) left ${violations.length} foreign key violation(s).`);
+        }
+        if (direction === 'up') {
+            await db.run('INSERT INTO schema_version (version, name) VALUES (?, ?)', migration.version, migration.name);
+        } else {
+            await db.run('DELETE FROM schema_version WHERE version = ?', migration.version);
+        }
+        await db.exec('COMMIT;');
+    } catch (error) {
+        await db.exec('ROLLBACK;');
+        throw error;
+    } finally {
+        await db.exec('PRAGMA foreign_keys = ON;');
+    }
+}
+
+export async function getCurrentSchemaVersion(db: Database): Promise<number> {
+    const applied = await getAppliedMigrations(db);
+    return applied.at(-1)?.version ?? 0;
+}
+
+export function getLatestSchemaVersion(): number {
+    return MIGRATIONS.at(-1)?.version ?? 0;
+}
+
+export async function getMigrationStatus(db: Database): Promise<MigrationStatus> {
+    const applied = await getAppliedMigrations(db);
+    const appliedVersions = new Set(applied.map(m => m.version));
+    return {
+        currentVersion: applied.at(-1)?.version ?? 0,
+        latestVersion: getLatestSchemaVersion(),
+        applied,
+        pending: MIGRATIONS.filter(m => !appliedVersions.has(m.version)).map(({ version, name }) => ({ version, name })),
+    };
+}
+
+/**
+ * Applies pending migrations in order, up to and including `targetVersion`
+ * (default: latest). Returns the migrations that were applied.
+ */
+export async function migrateUp(db: Database, targetVersion: number = getLatestSchemaVersion()): Promise<Migration[]> {
+    const appliedVersions = new Set((await getAppliedMigrations(db)).map(m => m.version));
+    const pending = MIGRATIONS.filter(m => !appliedVersions.has(m.version) && m.version <= targetVersion);
+    for (const migration of pending) {
+        await runInTransaction(db, migration, 'up');
+        console.log(chalk.green(`Applied migration ${migration.version} (${migration.name}).`));
+    }
+    return pending;
+}
+
+/**
+ * Reverts applied migrations newest-first until the schema is at `targetVersion`
+ * (default: one step back). Stops before touching anything if an irreversible
+ * migration is in the way.
+ */
+export async function migrateDown(db: Database, targetVersion?: number): Promise<Migration[]> {
+    const applied = await getAppliedMigrations(db);
+    const current = applied.at(-1)?.version ?? 0;
+    const target = targetVersion ?? (applied.at(-2)?.version ?? 0);
+    const toRevert = applied
+        .filter(a => a.version > target)
+        .reverse()
+        .map(a => {
+            const migration = MIGRATIONS.find(m => m.version === a.version);
+            if (!migration) throw new Error(`Applied migration ${a.version} (${a.name}) is unknown to this version of the app.`);
+            return migration;
+        });
+
+    const blocker = toRevert.find(m => !m.down);
+    if (blocker) {
+        throw new Error(`Cannot migrate from ${current} down to ${target}: migration ${blocker.version} (${blocker.name}) is irreversible.`);
+    }
+    for (const migration of toRevert) {
+        await runInTransaction(db, migration, 'down');
+        console.log(chalk.yellow(`Reverted migration ${migration.version} (${migration.name}).`));
+    }
+    return toRevert;
+}
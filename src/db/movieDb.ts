@@ -4,8 +4,20 @@ import type { Movie, UserMovieRating, UserMoviePreferences } from '../movies/typ
 import type { TMDBMovie as TMDBMovieFromService } from '../common/tmdbService';
 import { mapMovieGenreIdsToObjects } from '../common/tmdbService'; // Import helper
 import type { Genre } from '../common/types';
+import { saveTitleWatchProviders } from './watchProviderDb';
+import { orderedJsonList, replaceLinkedValues, saveTitleGenres } from './linkTables';
 import chalk from 'chalk';
 
+// Genres live in movie_genres; this folds them back into [{id, name}] per row of `movies m`
+const MOVIE_SELECT = `SELECT m.*, ${orderedJsonList("json_object('id', g.id, 'name', g.name)", 'movie_genres x JOIN genres g ON g.id = x.genre_id', 'x.movie_id = m.id', true)} AS genres FROM movies m`;
+
+// Preference lists: [field on UserMoviePreferences, link table, value column]
+const MOVIE_PREFERENCE_LISTS = [
+    ['preferred_genres', 'user_movie_preferred_genres', 'genre_name'],
+    ['preferred_languages', 'user_movie_preferred_languages', 'language'],
+    ['preferred_streaming_providers', 'user_movie_preferred_providers', 'provider'],
+] as const;
+
 // Helper to ensure movieData has full genre objects before saving
 async function ensureFullMovieGenreObjects(movieData: TMDBMovieFromService): Promise<Genre[]> {
     // If 'genres' (full objects) is already present and populated, use it
@@ -28,13 +40,17 @@ export async function saveMovie(movieDataFromService: TMDBMovieFromService): Pro
         const fullGenres = await ensureFullMovieGenreObjects(movieDataFromService);
         // Prioritize imdb_id from external_ids if available, then direct imdb_id
         const imdbIdToSave = movieDataFromService.external_ids?.imdb_id || movieDataFromService.imdb_id || null;
+        // Details responses carry provider availability; list results don't, so only refresh when present
+        if (movieDataFromService["watch/providers"]?.results) {
+            await saveTitleWatchProviders('movie', movieDataFromService.id, movieDataFromService["watch/providers"].results);
+        }
 
         if (existingMovie) {
             // Movie exists, update it with potentially new/more complete information
             const result = await db.run(
                 `UPDATE movies SET
                     title = ?, overview = ?, release_date = ?, vote_average = ?, vote_count = ?,
-                    poster_path = ?, backdrop_path = ?, genres = ?, runtime = ?, original_language = ?, imdb_id = ?
+                    poster_path = ?, backdrop_path = ?, runtime = ?, original_language = ?, imdb_id = ?
                  WHERE tmdb_id = ?`,
                 movieDataFromService.title,
                 movieDataFromService.overview,
@@ -43,7 +59,6 @@ export async function saveMovie(movieDataFromService: TMDBMovieFromService): Pro
                 movieDataFromService.vote_count,
                 movieDataFromService.poster_path,
                 movieDataFromService.backdrop_path,
-                JSON.stringify(fullGenres.map(g => ({ id: g.id, name: g.name }))), // Store consistent structure
                 movieDataFromService.runtime === undefined ? null : movieDataFromService.runtime,
                 movieDataFromService.original_language === undefined ? null : movieDataFromService.original_language,
                 imdbIdToSave,
@@ -52,13 +67,15 @@ export async function saveMovie(movieDataFromService: TMDBMovieFromService): Pro
             if (result.changes !== undefined && result.changes > 0) {
                 // console.log(chalk.dim(`[DB] Updated movie: ${movieDataFromService.title}`));
             }
+            // List results only carry genre_ids, which we may not be able to map; keep what we have then
+            if (fullGenres.length > 0) await saveTitleGenres(db, 'movie_genres', 'movie_id', existingMovie.id, fullGenres);
             return getMovieByTmdbId(movieDataFromService.id); // Fetch the updated record
         } else {
             // Movie doesn't exist, insert new record
             const result = await db.run(
                 `INSERT INTO movies (tmdb_id, title, overview, release_date, vote_average, vote_count,
-                                     poster_path, backdrop_path, genres, runtime, original_language, imdb_id)
-                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                                     poster_path, backdrop_path, runtime, original_language, imdb_id)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
                 movieDataFromService.id,
                 movieDataFromService.title,
                 movieDataFromService.overview,
@@ -67,13 +84,13 @@ export async function saveMovie(movieDataFromService: TMDBMovieFromService): Pro
                 movieDataFromService.vote_count,
                 movieDataFromService.poster_path,
                 movieDataFromService.backdrop_path,
-                JSON.stringify(fullGenres.map(g => ({ id: g.id, name: g.name }))),
                 movieDataFromService.runtime === undefined ? null : movieDataFromService.runtime,
                 movieDataFromService.original_language === undefined ? null : movieDataFromService.original_language,
                 imdbIdToSave
             );
             if (result.lastID) {
                 // console.log(chalk.dim(`[DB] Inserted new movie: ${movieDataFromService.title}`));
+                await saveTitleGenres(db, 'movie_genres', 'movie_id', result.lastID, fullGenres);
                 return getMovieByOurId(result.lastID);
             }
         }
@@ -101,7 +118,7 @@ const mapDbRowToMovie = (row: any): Movie | undefined => {
         vote_count: row.vote_count,
         poster_path: row.poster_path,
         backdrop_path: row.backdrop_path,
-        genres: JSON.parse(row.genres || '[]') as Genre[], // Ensure genres is always an array
+        genres: JSON.parse(row.genres || '[]') as Genre[], // Built from movie_genres by MOVIE_SELECT
         runtime: row.runtime, // Will be number or null
         original_language: row.original_language, // Will be string or null
         imdb_id: row.imdb_id, // Will be string or null
@@ -110,19 +127,19 @@ const mapDbRowToMovie = (row: any): Movie | undefined => {
 
 export async function getMovieByOurId(id: number): Promise<Movie | undefined> {
     const db = await getDB();
-    const row = await db.get<any>('SELECT * FROM movies WHERE id = ?', id);
+    const row = await db.get<any>(`${MOVIE_SELECT} WHERE m.id = ?`, id);
     return mapDbRowToMovie(row);
 }
 
 export async function getMovieByTmdbId(tmdbId: number): Promise<Movie | undefined> {
     const db = await getDB();
-    const row = await db.get<any>('SELECT * FROM movies WHERE tmdb_id = ?', tmdbId);
+    const row = await db.get<any>(`${MOVIE_SELECT} WHERE m.tmdb_id = ?`, tmdbId);
     return mapDbRowToMovie(row);
 }
 
 export async function getAllMoviesFromDb(): Promise<Movie[]> {
     const db = await getDB();
-    const rows = await db.all<any[]>('SELECT * FROM movies');
+    const rows = await db.all<any[]>(MOVIE_SELECT);
     return rows.map(mapDbRowToMovie).filter(movie => movie !== undefined) as Movie[];
 }
 
@@ -133,29 +150,26 @@ export async function saveUserMoviePreferences(prefs: UserMoviePreferences): Pro
     try {
         await db.run(
             `INSERT INTO user_movie_preferences (
-                user_id, preferred_genres, preferred_languages, release_year_min, release_year_max,
-                duration_min_minutes, duration_max_minutes, min_imdb_rating, preferred_streaming_providers
-             ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+                user_id, release_year_min, release_year_max,
+                duration_min_minutes, duration_max_minutes, min_imdb_rating
+             ) VALUES (?, ?, ?, ?, ?, ?)
              ON CONFLICT(user_id) DO UPDATE SET
-                preferred_genres = excluded.preferred_genres,
-                preferred_languages = excluded.preferred_languages,
                 release_year_min = excluded.release_year_min,
                 release_year_max = excluded.release_year_max,
                 duration_min_minutes = excluded.duration_min_minutes,
                 duration_max_minutes = excluded.duration_max_minutes,
-                min_imdb_rating = excluded.min_imdb_rating,
-                preferred_streaming_providers = excluded.preferred_streaming_providers
+                min_imdb_rating = excluded.min_imdb_rating
             `,
             prefs.user_id,
-            prefs.preferred_genres ? JSON.stringify(prefs.preferred_genres) : null,
-            prefs.preferred_languages ? JSON.stringify(prefs.preferred_languages) : null,
             prefs.release_year_min === undefined ? null : prefs.release_year_min,
             prefs.release_year_max === undefined ? null : prefs.release_year_max,
             prefs.duration_min_minutes === undefined ? null : prefs.duration_min_minutes,
             prefs.duration_max_minutes === undefined ? null : prefs.duration_max_minutes,
-            prefs.min_imdb_rating === undefined ? null : prefs.min_imdb_rating,
-            prefs.preferred_streaming_providers ? JSON.stringify(prefs.preferred_streaming_providers) : null
+            prefs.min_imdb_rating === undefined ? null : prefs.min_imdb_rating
         );
+        for (const [field, table, column] of MOVIE_PREFERENCE_LISTS) {
+            await replaceLinkedValues(db, table, 'user_id', prefs.user_id, column, prefs[field] ?? []);
+        }
         // console.log(chalk.dim(`[DB] Saved movie preferences for user ${prefs.user_id}`));
     } catch (error) {
         console.error(chalk.red(`[DB Error] Error saving movie preferences for user ${prefs.user_id}:`), error);
@@ -164,8 +178,9 @@ export async function saveUserMoviePreferences(prefs: UserMoviePreferences): Pro
 
 export async function getUserMoviePreferences(userId: number): Promise<UserMoviePreferences | undefined> {
     const db = await getDB();
+    const listColumns = MOVIE_PREFERENCE_LISTS.map(([field, table, column]) => `${orderedJsonList(`x.${column}`, `${table} x`, 'x.user_id = p.user_id')} AS ${field}`);
     const row = await db.get<any>( // `any` because DB returns raw row
-        'SELECT * FROM user_movie_preferences WHERE user_id = ?',
+        `SELECT p.*, ${listColumns.join(', ')} FROM user_movie_preferences p WHERE p.user_id = ?`,
         userId
     );
     if (!row) return undefined;
@@ -173,29 +188,36 @@ export async function getUserMoviePreferences(userId: number): Promise<UserMovie
     // Map nulls from DB back to undefined if that's how the type is defined,
     // or keep them as null if the type expects `| null`.
     // Our UserMoviePreferences type uses `?` (optional), so `undefined` is appropriate.
+    // Empty lists come back as undefined too: "no preference" either way.
+    const parseList = (json: string | null): string[] | undefined => {
+        const values: string[] = JSON.parse(json || '[]');
+        return values.length > 0 ? values : undefined;
+    };
     return {
         user_id: row.user_id,
-        preferred_genres: row.preferred_genres ? JSON.parse(row.preferred_genres) : undefined,
-        preferred_languages: row.preferred_languages ? JSON.parse(row.preferred_languages) : undefined,
+        preferred_genres: parseList(row.preferred_genres),
+        preferred_languages: parseList(row.preferred_languages),
         release_year_min: row.release_year_min === null ? undefined : row.release_year_min,
         release_year_max: row.release_year_max === null ? undefined : row.release_year_max,
         duration_min_minutes: row.duration_min_minutes === null ? undefined : row.duration_min_minutes,
         duration_max_minutes: row.duration_max_minutes === null ? undefined : row.duration_max_minutes,
         min_imdb_rating: row.min_imdb_rating === null ? undefined : row.min_imdb_rating,
-        preferred_streaming_providers: row.preferred_streaming_providers ? JSON.parse(row.preferred_streaming_providers) : undefined,
+        preferred_streaming_providers: parseList(row.preferred_streaming_providers),
     };
 }
 
 // --- User Movie Ratings ---
-export async function saveUserMovieRating(userId: number, movieId: number, rating: number): Promise<void> {
+// `ratedAt` ("YYYY-MM-DD HH:MM:SS" UTC) keeps the original time when importing; defaults to now
+export async function saveUserMovieRating(userId: number, movieId: number, rating: number, ratedAt?: string): Promise<void> {
     const db = await getDB();
     try {
         await db.run(
-            `INSERT INTO user_movie_ratings (user_id, movie_id, rating) VALUES (?, ?, ?)
-             ON CONFLICT(user_id, movie_id) DO UPDATE SET rating = excluded.rating, rated_at = CURRENT_TIMESTAMP`,
+            `INSERT INTO user_movie_ratings (user_id, movie_id, rating, rated_at) VALUES (?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+             ON CONFLICT(user_id, movie_id) DO UPDATE SET rating = excluded.rating, rated_at = excluded.rated_at`,
             userId,
             movieId, // This is our internal DB movie ID
-            rating
+            rating,
+            ratedAt ?? null
         );
         // console.log(chalk.dim(`[DB] Saved rating ${rating} for user ${userId}, movie ID ${movieId}`));
     } catch (error) {
@@ -226,21 +248,19 @@ export async function getRatedMovieIdsByUser(userId: number): Promise<number[]>
 // This can be used as an implicit preference if explicit preferences are not set
 export async function getGenresFromUserHighlyRatedMovies(userId: number, minRating: number = 4): Promise<string[]> {
     const db = await getDB();
-    const rows = await db.all<{ genres: string }[]>(`
-        SELECT m.genres
-        FROM movies m
-        JOIN user_movie_ratings umr ON m.id = umr.movie_id
+    const rows = await db.all<{ name: string }[]>(`
+        SELECT DISTINCT g.name
+        FROM user_movie_ratings umr
+        JOIN movie_genres mg ON mg.movie_id = umr.movie_id
+        JOIN genres g ON g.id = mg.genre_id
         WHERE umr.user_id = ? AND umr.rating >= ?
     `, userId, minRating);
-
-    const allGenreNames = new Set<string>();
-    rows.forEach(row => {
-        try {
-            const genresArray: Genre[] = JSON.parse(row.genres || '[]');
-            genresArray.forEach(g => allGenreNames.add(g.name));
-        } catch (e) {
-            console.error(chalk.red(`[DB Error] Failed to parse genres for user ${userId} rated movie: ${row.genres}`), e);
-        }
-    });
-    return Array.from(allGenreNames);
-}
\ No newline at end of file
+    return rows.map(row => row.name);
+}
+// All users' ratings, keyed by our internal movie ID (input for local collaborative filtering)
+export async function getAllMovieRatings(): Promise<{ user_id: number; item_id: number; rating: number }[]> {
+    const db = await getDB();
+    return db.all<{ user_id: number; item_id: number; rating: number }[]>(
+        'SELECT user_id, movie_id AS item_id, rating FROM user_movie_ratings'
+    );
+}
@@ -0,0 +1,138 @@
+import { getDB } from './setup';
+import type { MediaType } from '../common/types';
+import type { RestaurantFeedbackType } from '../restaurants/types';
+import chalk from 'chalk';
+
+// Queries behind profile export/import (src/profiles). Rows carry TMDB IDs and
+// Google place IDs so they can be matched in another database.
+
+export interface TitleRatingRow {
+    tmdb_id: number;
+    title: string;
+    rating: number;
+    rated_at: string;
+}
+
+export async function getMovieRatingsForExport(userId: number): Promise<TitleRatingRow[]> {
+    const db = await getDB();
+    return db.all<TitleRatingRow[]>(
+        `SELECT m.tmdb_id, m.title, r.rating, r.rated_at
+         FROM user_movie_ratings r JOIN movies m ON m.id = r.movie_id
+         WHERE r.user_id = ? ORDER BY r.rated_at ASC, m.tmdb_id ASC`,
+        userId
+    );
+}
+
+export async function getTvShowRatingsForExport(userId: number): Promise<TitleRatingRow[]> {
+    const db = await getDB();
+    return db.all<TitleRatingRow[]>(
+        `SELECT t.tmdb_id, t.name AS title, r.rating, r.rated_at
+         FROM user_tv_show_ratings r JOIN tv_shows t ON t.id = r.tv_show_id
+         WHERE r.user_id = ? ORDER BY r.rated_at ASC, t.tmdb_id ASC`,
+        userId
+    );
+}
+
+export interface EpisodeProgressRow {
+    tmdb_id: number;
+    title: string;
+    season_number: number;
+    episode_number: number;
+    watched_at: string;
+}
+
+export async function getEpisodeProgressForExport(userId: number): Promise<EpisodeProgressRow[]> {
+    const db = await getDB();
+    return db.all<EpisodeProgressRow[]>(
+        `SELECT t.tmdb_id, t.name AS title, e.season_number, e.episode_number, p.watched_at
+         FROM user_episode_progress p
+         JOIN tv_episodes e ON e.id = p.episode_id
+         JOIN tv_shows t ON t.id = e.tv_show_id
+         WHERE p.user_id = ? ORDER BY t.tmdb_id ASC, e.season_number ASC, e.episode_number ASC`,
+        userId
+    );
+}
+
+export async function getRestaurantLikesForExport(userId: number): Promise<{ restaurant_id: number; liked_at: string }[]> {
+    const db = await getDB();
+    return db.all<{ restaurant_id: number; liked_at: string }[]>(
+        'SELECT restaurant_id, liked_at FROM user_restaurant_likes WHERE user_id = ? ORDER BY liked_at ASC, restaurant_id ASC',
+        userId
+    );
+}
+
+export async function getRestaurantFeedbackForExport(userId: number): Promise<{ googlePlaceId: string; feedback: RestaurantFeedbackType; created_at: string }[]> {
+    const db = await getDB();
+    return db.all<{ googlePlaceId: string; feedback: RestaurantFeedbackType; created_at: string }[]>(
+        `SELECT r.googlePlaceId, f.feedback, f.created_at
+         FROM user_restaurant_feedback f JOIN restaurants r ON r.id = f.restaurant_id
+         WHERE f.user_id = ? ORDER BY f.created_at ASC, f.id ASC`,
+        userId
+    );
+}
+
+/**
+ * Removes everything personal about a user except the users row itself. Errors are
+ * thrown, not logged, so an import's transaction rolls back instead of half-clearing.
+ */
+export async function clearUserProfileData(userId: number): Promise<void> {
+    const db = await getDB();
+    // Preference list tables cascade from their preferences rows
+    for (const table of [
+        'user_movie_preferences', 'user_tv_show_preferences', 'user_restaurant_preferences',
+        'user_movie_ratings', 'user_tv_show_ratings', 'user_restaurant_likes', 'user_restaurant_feedback', 'user_settings',
+        'user_watchlist', 'user_watched', 'user_episode_progress', 'user_locations', 'user_active_restaurant_area',
+    ]) {
+        await db.run(`DELETE FROM ${table} WHERE user_id = ?`, userId);
+    }
+}
+
+/** Removes a user's movie and TV ratings. Throws on failure, like clearUserProfileData. */
+export async function clearUserRatings(userId: number): Promise<void> {
+    const db = await getDB();
+    await db.run('DELETE FROM user_movie_ratings WHERE user_id = ?', userId);
+    await db.run('DELETE FROM user_tv_show_ratings WHERE user_id = ?', userId);
+}
+
+export async function importRestaurantLike(userId: number, restaurantId: number, likedAt: string): Promise<void> {
+    const db = await getDB();
+    try {
+        await db.run(
+            'INSERT INTO user_restaurant_likes (user_id, restaurant_id, liked_at) VALUES (?, ?, ?) ON CONFLICT(user_id, restaurant_id) DO NOTHING',
+            userId, restaurantId, likedAt
+        );
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error importing like for user ${userId}, restaurant ${restaurantId}:`), error);
+    }
+}
+
+/** Adds a title to the watchlist with its original added_at; one already there keeps its own. */
+export async function importWatchlistEntry(userId: number, mediaType: MediaType, titleId: number, addedAt: string): Promise<void> {
+    const db = await getDB();
+    const column = mediaType === 'movie' ? 'movie_id' : 'tv_show_id';
+    try {
+        await db.run(
+            `INSERT INTO user_watchlist (user_id, ${column}, added_at) VALUES (?, ?, ?) ON CONFLICT(user_id, ${column}) DO NOTHING`,
+            userId, titleId, addedAt
+        );
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error importing watchlist entry for user ${userId}, ${mediaType} ${titleId}:`), error);
+    }
+}
+
+/** Adds a feedback row with its original timestamp, unless the exact same reaction is already there. */
+export async function importRestaurantFeedback(userId: number, restaurantId: number, feedback: RestaurantFeedbackType, createdAt: string): Promise<void> {
+    const db = await getDB();
+    try {
+        await db.run(
+            `INSERT INTO user_restaurant_feedback (user_id, restaurant_id, feedback, created_at)
+             SELECT ?, ?, ?, ?
+             WHERE NOT EXISTS (SELECT 1 FROM user_restaurant_feedback
+                               WHERE user_id = ? AND restaurant_id = ? AND feedback = ? AND created_at = ?)`,
+            userId, restaurantId, feedback, createdAt,
+            userId, restaurantId, feedback, createdAt
+        );
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error importing ${feedback} for user ${userId}, restaurant ${restaurantId}:`), error);
+    }
+}
@@ -0,0 +1,114 @@
+import { getDB } from './setup';
+import type { CacheService } from '../common/types';
+import chalk from 'chalk';
+
+export interface CachedResponseRow {
+    cache_key: string;
+    service: CacheService;
+    endpoint: string;
+    params: Record<string, string>;
+    response: unknown;
+    fetched_at: Date;
+    hit_count: number;
+    size_bytes: number;
+}
+
+// SQLite CURRENT_TIMESTAMP is UTC without a zone marker
+function parseTimestamp(value: string): Date {
+    return new Date(`${value.replace(' ', 'T')}Z`);
+}
+
+export async function getCachedResponse(cacheKey: string): Promise<CachedResponseRow | undefined> {
+    const db = await getDB();
+    try {
+        const row = await db.get<any>('SELECT * FROM http_response_cache WHERE cache_key = ?', cacheKey);
+        if (!row) return undefined;
+        return {
+            ...row,
+            params: JSON.parse(row.params || '{}'),
+            response: JSON.parse(row.response),
+            fetched_at: parseTimestamp(row.fetched_at),
+            size_bytes: row.response.length,
+        };
+    } catch (error) {
+        console.error(chalk.red(`Error reading cached response ${cacheKey}:`), error);
+        return undefined;
+    }
+}
+
+export async function saveCachedResponse(
+    cacheKey: string,
+    service: CacheService,
+    endpoint: string,
+    params: Record<string, string>,
+    response: unknown
+): Promise<void> {
+    const db = await getDB();
+    try {
+        await db.run(
+            `INSERT INTO http_response_cache (cache_key, service, endpoint, params, response, fetched_at, hit_count)
+             VALUES (?, ?, ?, ?, ?, CURRENT_TIMESTAMP, 0)
+             ON CONFLICT(cache_key) DO UPDATE SET
+               response = excluded.response,
+               fetched_at = excluded.fetched_at`,
+            cacheKey, service, endpoint, JSON.stringify(params), JSON.stringify(response)
+        );
+    } catch (error) {
+        console.error(chalk.red(`Error caching response for ${service} ${endpoint}:`), error);
+    }
+}
+
+export async function recordCacheHit(cacheKey: string): Promise<void> {
+    const db = await getDB();
+    try {
+        await db.run('UPDATE http_response_cache SET hit_count = hit_count + 1 WHERE cache_key = ?', cacheKey);
+    } catch (error) {
+        console.error(chalk.red(`Error recording cache hit for ${cacheKey}:`), error);
+    }
+}
+
+// Everything but the response bodies, newest first
+export async function getCachedResponseRows(service?: CacheService): Promise<Omit<CachedResponseRow, 'response'>[]> {
+    const db = await getDB();
+    try {
+        const rows = await db.all<any[]>(
+            `SELECT cache_key, service, endpoint, params, fetched_at, hit_count, LENGTH(response) AS size_bytes
+             FROM http_response_cache
+             ${service ? 'WHERE service = ?' : ''}
+             ORDER BY fetched_at DESC`,
+            ...(service ? [service] : [])
+        );
+        return rows.map(row => ({ ...row, params: JSON.parse(row.params || '{}'), fetched_at: parseTimestamp(row.fetched_at) }));
+    } catch (error) {
+        console.error(chalk.red("Error listing cached responses:"), error);
+        return [];
+    }
+}
+
+export async function deleteCachedResponses(cacheKeys: string[]): Promise<number> {
+    const db = await getDB();
+    let deleted = 0;
+    try {
+        for (const cacheKey of cacheKeys) {
+            const result = await db.run('DELETE FROM http_response_cache WHERE cache_key = ?', cacheKey);
+            deleted += result.changes ?? 0;
+        }
+    } catch (error) {
+        console.error(chalk.red("Error deleting cached responses:"), error);
+    }
+    return deleted;
+}
+
+// Drops everything, or everything for one service
+export async function clearResponseCache(service?: CacheService): Promise<number> {
+    const db = await getDB();
+    try {
+        const result = service
+            ? await db.run('DELETE FROM http_response_cache WHERE service = ?', service)
+            : await db.run('DELETE FROM http_response_cache');
+        return result.changes ?? 0;
+    } catch (error) {
+        console.error(chalk.red("Error clearing response cache:"), error);
+        return 0;
+    }
+}
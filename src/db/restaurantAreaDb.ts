@@ -0,0 +1,118 @@
+import { getDB } from './setup';
+import type { RestaurantArea } from '../restaurants/types';
+import chalk from 'chalk';
+
+const AREA_SELECT = `SELECT a.id, a.name, a.query, a.created_at, a.last_fetched_at,
+                            (SELECT COUNT(*) FROM restaurant_area_members m WHERE m.area_id = a.id) AS restaurant_count
+                     FROM restaurant_areas a`;
+
+/** Links restaurants to the area for `query`, creating the area the first time the query is fetched. */
+export async function recordRestaurantArea(query: string, restaurantIds: number[]): Promise<RestaurantArea | undefined> {
+    const db = await getDB();
+    const trimmed = query.trim();
+    try {
+        let area = await db.get<{ id: number }>('SELECT id FROM restaurant_areas WHERE query = ?', trimmed);
+        if (area) {
+            await db.run('UPDATE restaurant_areas SET last_fetched_at = CURRENT_TIMESTAMP WHERE id = ?', area.id);
+        } else {
+            // A renamed area may already be called what was just searched for; keep both distinguishable
+            const taken = await db.get('SELECT 1 FROM restaurant_areas WHERE name = ?', trimmed);
+            const result = await db.run('INSERT INTO restaurant_areas (query, name) VALUES (?, ?)', trimmed, taken ? `${trimmed} (search)` : trimmed);
+            area = { id: result.lastID! };
+        }
+        for (const restaurantId of restaurantIds) {
+            await db.run('INSERT OR IGNORE INTO restaurant_area_members (area_id, restaurant_id) VALUES (?, ?)', area.id, restaurantId);
+        }
+        return getRestaurantArea(area.id);
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error recording restaurant area "${trimmed}":`), error);
+        return undefined;
+    }
+}
+
+export async function getRestaurantArea(areaId: number): Promise<RestaurantArea | undefined> {
+    const db = await getDB();
+    return db.get<RestaurantArea>(`${AREA_SELECT} WHERE a.id = ?`, areaId);
+}
+
+// The area a fetch for `query` was recorded under
+export async function getRestaurantAreaByQuery(query: string): Promise<RestaurantArea | undefined> {
+    const db = await getDB();
+    return db.get<RestaurantArea>(`${AREA_SELECT} WHERE a.query = ?`, query.trim());
+}
+
+// By name or by the query it was fetched with, case-insensitively; a name match wins
+export async function findRestaurantArea(nameOrQuery: string): Promise<RestaurantArea | undefined> {
+    const db = await getDB();
+    return db.get<RestaurantArea>(`${AREA_SELECT} WHERE a.name = ? OR a.query = ? ORDER BY a.name = ? DESC LIMIT 1`,
+        nameOrQuery.trim(), nameOrQuery.trim(), nameOrQuery.trim());
+}
+
+export async function getRestaurantAreas(): Promise<RestaurantArea[]> {
+    const db = await getDB();
+    return db.all<RestaurantArea[]>(`${AREA_SELECT} ORDER BY a.name ASC`);
+}
+
+// False when another area already has that name
+export async function renameRestaurantArea(areaId: number, name: string): Promise<boolean> {
+    const db = await getDB();
+    try {
+        const result = await db.run('UPDATE restaurant_areas SET name = ? WHERE id = ?', name.trim(), areaId);
+        return (result.changes ?? 0) > 0;
+    } catch (error: any) {
+        if (error.message?.includes('UNIQUE constraint failed')) return false;
+        console.error(chalk.red(`[DB Error] Error renaming restaurant area ${areaId}:`), error);
+        return false;
+    }
+}
+
+/**
+ * Removes an area. Its restaurants go too, unless another area still lists them or
+ * someone has liked or left feedback on them. Returns how many restaurants were deleted.
+ */
+export async function forgetRestaurantArea(areaId: number): Promise<number> {
+    const db = await getDB();
+    try {
+        const orphans = await db.all<{ restaurant_id: number }[]>(
+            `SELECT m.restaurant_id FROM restaurant_area_members m
+             WHERE m.area_id = ?
+               AND NOT EXISTS (SELECT 1 FROM restaurant_area_members o WHERE o.restaurant_id = m.restaurant_id AND o.area_id != m.area_id)
+               AND NOT EXISTS (SELECT 1 FROM user_restaurant_likes l WHERE l.restaurant_id = m.restaurant_id)
+               AND NOT EXISTS (SELECT 1 FROM user_restaurant_feedback f WHERE f.restaurant_id = m.restaurant_id)`,
+            areaId
+        );
+        await db.run('DELETE FROM restaurant_areas WHERE id = ?', areaId); // Links and active selections cascade
+        for (const { restaurant_id } of orphans) await db.run('DELETE FROM restaurants WHERE id = ?', restaurant_id);
+        return orphans.length;
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error forgetting restaurant area ${areaId}:`), error);
+        return 0;
+    }
+}
+
+// --- Active area per user ---
+export async function getActiveRestaurantArea(userId: number): Promise<RestaurantArea | undefined> {
+    const db = await getDB();
+    return db.get<RestaurantArea>(
+        `${AREA_SELECT} JOIN user_active_restaurant_area u ON u.area_id = a.id WHERE u.user_id = ?`,
+        userId
+    );
+}
+
+// `areaId` null clears the selection (recommend from every stored restaurant)
+export async function setActiveRestaurantArea(userId: number, areaId: number | null): Promise<void> {
+    const db = await getDB();
+    try {
+        if (areaId === null) {
+            await db.run('DELETE FROM user_active_restaurant_area WHERE user_id = ?', userId);
+        } else {
+            await db.run(
+                `INSERT INTO user_active_restaurant_area (user_id, area_id) VALUES (?, ?)
+                 ON CONFLICT(user_id) DO UPDATE SET area_id = excluded.area_id`,
+                userId, areaId
+            );
+        }
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error setting the active restaurant area for user ${userId}:`), error);
+    }
+}
@@ -1,10 +1,74 @@
 import { getDB } from './setup'; 
-import type { Restaurant, RestaurantUserPreferences, UserRestaurantLike } from '../restaurants/types';
+import type { Restaurant, OpeningPeriod, RestaurantFilter, RestaurantUserPreferences, UserRestaurantLike, RestaurantFeedbackType, UserRestaurantFeedback, RestaurantInteraction, RestaurantSource } from '../restaurants/types';
 // import { mockUserRestaurantPreferences } from '../restaurants/data/mockUserRestaurantPreferences'; // Path to mock preferences
-import { fetchRestaurantsFromGooglePlaces } from '../restaurants/googleApiService'; // Path to google service
+import { getDefaultRestaurantSource } from '../restaurants/restaurantSources';
 import type { User } from '../common/types'; // Common User type
 import chalk from 'chalk';
 import { mockUsers } from '../data/mockUsers';
+import { ensureLookupIds, orderedJsonList, replaceLinkedValues } from './linkTables';
+import { isValidCoordinate } from '../common/geo';
+import { isPriceLevel } from '../restaurants/priceLevel';
+import { recordRestaurantArea } from './restaurantAreaDb';
+
+// Cuisines and dietary options live in link tables; these fold them back into arrays per row of `restaurants r`
+const RESTAURANT_CUISINES_SQL = orderedJsonList('c.name', 'restaurant_cuisines x JOIN cuisines c ON c.id = x.cuisine_id', 'x.restaurant_id = r.id');
+const RESTAURANT_DIETARY_OPTIONS_SQL = orderedJsonList('d.name', 'restaurant_dietary_options x JOIN dietary_options d ON d.id = x.dietary_option_id', 'x.restaurant_id = r.id');
+// Opening periods have no position column; they come back in week order
+const RESTAURANT_OPENING_HOURS_SQL = `(SELECT json_group_array(json(v)) FROM (
+    SELECT json_object('openDay', h.open_day, 'openMinute', h.open_minute, 'closeDay', h.close_day, 'closeMinute', h.close_minute) AS v
+    FROM restaurant_opening_hours h WHERE h.restaurant_id = r.id ORDER BY h.open_day, h.open_minute))`;
+const RESTAURANT_SELECT = `SELECT r.*, ${RESTAURANT_CUISINES_SQL} AS cuisines, ${RESTAURANT_DIETARY_OPTIONS_SQL} AS dietaryOptions,
+    ${RESTAURANT_OPENING_HOURS_SQL} AS openingHours FROM restaurants r`;
+
+// Drops the null close of a round-the-clock period
+const mapOpeningPeriod = ({ closeDay, closeMinute, ...period }: any): OpeningPeriod =>
+    closeDay == null || closeMinute == null ? period : { ...period, closeDay, closeMinute };
+
+// Coordinates, hours and the rest of the optional fields are left off entirely (not null) when unknown, matching Restaurant
+const mapDbRowToRestaurant = ({ user_ratings_total, price_level, latitude, longitude, business_status, time_zone, utc_offset_minutes, openingHours, ...row }: any): Restaurant => {
+    const periods: OpeningPeriod[] = JSON.parse(openingHours || '[]').map(mapOpeningPeriod);
+    return {
+        ...row,
+        cuisines: JSON.parse(row.cuisines || '[]'),
+        dietaryOptions: JSON.parse(row.dietaryOptions || '[]'),
+        ...(user_ratings_total != null ? { userRatingsTotal: user_ratings_total } : {}),
+        ...(price_level != null ? { priceLevel: price_level } : {}),
+        ...(latitude != null && longitude != null ? { latitude, longitude } : {}),
+        ...(business_status != null ? { businessStatus: business_status } : {}),
+        ...(periods.length > 0 ? { openingHours: periods } : {}),
+        ...(time_zone != null ? { timeZone: time_zone } : {}),
+        ...(utc_offset_minutes != null ? { utcOffsetMinutes: utc_offset_minutes } : {}),
+    };
+};
+
+async function saveRestaurantLists(restaurantId: number, cuisines: string[], dietaryOptions: string[]): Promise<void> {
+    const db = await getDB();
+    await replaceLinkedValues(db, 'restaurant_cuisines', 'restaurant_id', restaurantId, 'cuisine_id', await ensureLookupIds(db, 'cuisines', cuisines));
+    await replaceLinkedValues(db, 'restaurant_dietary_options', 'restaurant_id', restaurantId, 'dietary_option_id', await ensureLookupIds(db, 'dietary_options', dietaryOptions));
+}
+
+const isReviewCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+// Status, time zone and hours, each only when the source reported it, so a source without hours doesn't wipe them
+async function saveRestaurantOpeningInfo(restaurantId: number, restaurantData: Omit<Restaurant, 'id'>): Promise<void> {
+    const db = await getDB();
+    await db.run(
+        `UPDATE restaurants SET
+            business_status = COALESCE(?, business_status),
+            time_zone = COALESCE(?, time_zone),
+            utc_offset_minutes = COALESCE(?, utc_offset_minutes)
+         WHERE id = ?`,
+        restaurantData.businessStatus ?? null, restaurantData.timeZone ?? null, restaurantData.utcOffsetMinutes ?? null, restaurantId
+    );
+    if (!restaurantData.openingHours) return;
+    await db.run('DELETE FROM restaurant_opening_hours WHERE restaurant_id = ?', restaurantId);
+    for (const period of restaurantData.openingHours) {
+        await db.run(
+            'INSERT INTO restaurant_opening_hours (restaurant_id, open_day, open_minute, close_day, close_minute) VALUES (?, ?, ?, ?, ?)',
+            restaurantId, period.openDay, period.openMinute, period.closeDay ?? null, period.closeMinute ?? null
+        );
+    }
+}
 
 // --- Restaurant Data ---
 export async function saveRestaurantToDb(
@@ -12,28 +76,49 @@ export async function saveRestaurantToDb(
 ): Promise<Restaurant | undefined> {
     const db = await getDB();
     try {
-        const existing = await db.get<Restaurant>(
-            'SELECT * FROM restaurants WHERE googlePlaceId = ?',
+        const existing = await db.get<{ id: number }>(
+            'SELECT id FROM restaurants WHERE googlePlaceId = ?',
             restaurantData.googlePlaceId
         );
-        if (existing) return existing;
+        const hasCoordinates = isValidCoordinate(restaurantData.latitude, restaurantData.longitude);
+        if (existing) {
+            // Places saved before coordinates (or hours, or prices) were kept pick them up the next time a source returns them
+            if (hasCoordinates) {
+                await db.run('UPDATE restaurants SET latitude = ?, longitude = ? WHERE id = ?',
+                    restaurantData.latitude, restaurantData.longitude, existing.id);
+            }
+            // The rating only moves together with its review count, so the two always match
+            if (isReviewCount(restaurantData.userRatingsTotal)) {
+                await db.run('UPDATE restaurants SET rating = ?, user_ratings_total = ? WHERE id = ?',
+                    restaurantData.rating, restaurantData.userRatingsTotal, existing.id);
+            }
+            if (isPriceLevel(restaurantData.priceLevel)) {
+                await db.run('UPDATE restaurants SET price_level = ? WHERE id = ?', restaurantData.priceLevel, existing.id);
+            }
+            await saveRestaurantOpeningInfo(existing.id, restaurantData);
+            return getRestaurantById(existing.id); // Parsed, unlike the raw row
+        }
 
         const result = await db.run(
-            `INSERT INTO restaurants (googlePlaceId, name, address, cuisines, dietaryOptions, rating)
-             VALUES (?, ?, ?, ?, ?, ?)`,
+            `INSERT INTO restaurants (googlePlaceId, name, address, rating, user_ratings_total, price_level, latitude, longitude)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
             restaurantData.googlePlaceId,
             restaurantData.name,
             restaurantData.address,
-            JSON.stringify(restaurantData.cuisines),
-            JSON.stringify(restaurantData.dietaryOptions),
-            restaurantData.rating
+            restaurantData.rating,
+            isReviewCount(restaurantData.userRatingsTotal) ? restaurantData.userRatingsTotal : null,
+            isPriceLevel(restaurantData.priceLevel) ? restaurantData.priceLevel : null,
+            hasCoordinates ? restaurantData.latitude : null,
+            hasCoordinates ? restaurantData.longitude : null
         );
         if (result.lastID) {
+            await saveRestaurantLists(result.lastID, restaurantData.cuisines, restaurantData.dietaryOptions);
+            await saveRestaurantOpeningInfo(result.lastID, restaurantData);
             return getRestaurantById(result.lastID);
         }
     } catch (error: any) {
         if (error.message?.includes('UNIQUE constraint failed')) {
-            return db.get<Restaurant>('SELECT * FROM restaurants WHERE googlePlaceId = ?', restaurantData.googlePlaceId);
+            return getRestaurantByGooglePlaceId(restaurantData.googlePlaceId);
         }
         console.error(chalk.red(`Error saving restaurant "${restaurantData.name}":`), error);
     }
@@ -42,39 +127,62 @@ export async function saveRestaurantToDb(
 
 export async function getRestaurantById(id: number): Promise<Restaurant | undefined> {
     const db = await getDB();
-    const row = await db.get<any>('SELECT * FROM restaurants WHERE id = ?', id);
-    if (!row) return undefined;
-    return {
-        ...row,
-        cuisines: JSON.parse(row.cuisines || '[]'),
-        dietaryOptions: JSON.parse(row.dietaryOptions || '[]'),
-    };
+    const row = await db.get<any>(`${RESTAURANT_SELECT} WHERE r.id = ?`, id);
+    return row ? mapDbRowToRestaurant(row) : undefined;
 }
 
-export async function getAllRestaurantsFromDb(): Promise<Restaurant[]> {
+export async function getRestaurantByGooglePlaceId(googlePlaceId: string): Promise<Restaurant | undefined> {
     const db = await getDB();
-    const rows = await db.all<any[]>('SELECT * FROM restaurants');
-    return rows.map(row => ({
-        ...row,
-        cuisines: JSON.parse(row.cuisines || '[]'),
-        dietaryOptions: JSON.parse(row.dietaryOptions || '[]'),
-    }));
+    const row = await db.get<any>(`${RESTAURANT_SELECT} WHERE r.googlePlaceId = ?`, googlePlaceId);
+    return row ? mapDbRowToRestaurant(row) : undefined;
 }
 
-export async function fetchAndSaveRestaurantsToDb(locationQuery: string): Promise<void> {
+export async function getAllRestaurantsFromDb(filter: RestaurantFilter = {}): Promise<Restaurant[]> {
+    const db = await getDB();
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (filter.areaId !== undefined) {
+        conditions.push('EXISTS (SELECT 1 FROM restaurant_area_members m WHERE m.restaurant_id = r.id AND m.area_id = ?)');
+        params.push(filter.areaId);
+    }
+    if (filter.cuisine) {
+        conditions.push(`EXISTS (SELECT 1 FROM restaurant_cuisines rc JOIN cuisines c ON c.id = rc.cuisine_id
+                                 WHERE rc.restaurant_id = r.id AND c.name = ? COLLATE NOCASE)`);
+        params.push(filter.cuisine);
+    }
+    if (filter.dietaryOption) {
+        conditions.push(`EXISTS (SELECT 1 FROM restaurant_dietary_options rd JOIN dietary_options d ON d.id = rd.dietary_option_id
+                                 WHERE rd.restaurant_id = r.id AND d.name = ? COLLATE NOCASE)`);
+        params.push(filter.dietaryOption);
+    }
+    if (filter.minRating !== undefined) {
+        conditions.push('r.rating >= ?');
+        params.push(filter.minRating);
+    }
+    const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await db.all<any[]>(`${RESTAURANT_SELECT}${where} ORDER BY r.id ASC`, ...params);
+    return rows.map(mapDbRowToRestaurant);
+}
+
+export async function fetchAndSaveRestaurantsToDb(
+    locationQuery: string,
+    source: RestaurantSource = getDefaultRestaurantSource()
+): Promise<Restaurant[]> { // Everything the source returned, as stored in our DB (new or existing), linked to the query's area
     if (!locationQuery || locationQuery.trim() === "") {
-        console.log(chalk.yellow("Location query is empty. Skipping Google Places API fetch."));
-        return;
+        console.log(chalk.yellow(`Location query is empty. Skipping ${source.name} fetch.`));
+        return [];
     }
-    const restaurantsFromApi = await fetchRestaurantsFromGooglePlaces(locationQuery);
+    const restaurantsFromApi = await source.fetchRestaurants(locationQuery);
     if (!restaurantsFromApi || restaurantsFromApi.length === 0) {
-        console.log(chalk.yellow("No restaurants from Google API. DB not updated."));
-        return;
+        console.log(chalk.yellow(`No restaurants from ${source.name}. DB not updated.`));
+        return [];
     }
     let savedCount = 0;
     let skippedCount = 0;
+    const stored: Restaurant[] = [];
     for (const resto of restaurantsFromApi) {
         const saved = await saveRestaurantToDb(resto);
+        if (saved) stored.push(saved);
         if (saved && !await isRestaurantPreviouslySaved(resto.googlePlaceId, saved.id)) { // Check if it's truly new vs just fetched again
              savedCount++;
         } else {
@@ -82,6 +190,8 @@ export async function fetchAndSaveRestaurantsToDb(locationQuery: string): Promis
         }
     }
     console.log(chalk.green(`Saved ${savedCount} new restaurants. Skipped ${skippedCount} (likely existing).`));
+    await recordRestaurantArea(locationQuery, stored.map(r => r.id));
+    return stored;
 }
 // Helper to avoid double counting if saveRestaurantToDb returns existing
 async function isRestaurantPreviouslySaved(googlePlaceId: string, currentIdInDb: number): Promise<boolean> {
@@ -98,17 +208,21 @@ export async function saveUserRestaurantPreferences(
     const db = await getDB();
     try {
         await db.run(
-            `INSERT INTO user_restaurant_preferences (user_id, favoriteCuisines, dietaryRestrictions, minRating)
+            `INSERT INTO user_restaurant_preferences (user_id, minRating, minPriceLevel, maxPriceLevel)
              VALUES (?, ?, ?, ?)
              ON CONFLICT(user_id) DO UPDATE SET
-               favoriteCuisines = excluded.favoriteCuisines,
-               dietaryRestrictions = excluded.dietaryRestrictions,
-               minRating = excluded.minRating`,
+                minRating = excluded.minRating,
+                minPriceLevel = excluded.minPriceLevel,
+                maxPriceLevel = excluded.maxPriceLevel`,
             prefs.user_id,
-            JSON.stringify(prefs.favoriteCuisines),
-            JSON.stringify(prefs.dietaryRestrictions),
-            prefs.minRating
+            prefs.minRating,
+            prefs.minPriceLevel ?? null,
+            prefs.maxPriceLevel ?? null
         );
+        await replaceLinkedValues(db, 'user_restaurant_favorite_cuisines', 'user_id', prefs.user_id, 'cuisine_id',
+            await ensureLookupIds(db, 'cuisines', prefs.favoriteCuisines));
+        await replaceLinkedValues(db, 'user_restaurant_dietary_restrictions', 'user_id', prefs.user_id, 'dietary_option_id',
+            await ensureLookupIds(db, 'dietary_options', prefs.dietaryRestrictions));
     } catch (error) {
         console.error(chalk.red(`Error saving restaurant prefs for user ${prefs.user_id}:`), error);
     }
@@ -117,7 +231,10 @@ export async function saveUserRestaurantPreferences(
 export async function getUserRestaurantPreferences(userId: number): Promise<RestaurantUserPreferences | undefined> {
     const db = await getDB();
     const row = await db.get<any>(
-        'SELECT * FROM user_restaurant_preferences WHERE user_id = ?',
+        `SELECT p.user_id, p.minRating, p.minPriceLevel, p.maxPriceLevel,
+                ${orderedJsonList('c.name', 'user_restaurant_favorite_cuisines x JOIN cuisines c ON c.id = x.cuisine_id', 'x.user_id = p.user_id')} AS favoriteCuisines,
+                ${orderedJsonList('d.name', 'user_restaurant_dietary_restrictions x JOIN dietary_options d ON d.id = x.dietary_option_id', 'x.user_id = p.user_id')} AS dietaryRestrictions
+         FROM user_restaurant_preferences p WHERE p.user_id = ?`,
         userId
     );
     if (!row) return undefined;
@@ -126,6 +243,8 @@ export async function getUserRestaurantPreferences(userId: number): Promise<Rest
         favoriteCuisines: JSON.parse(row.favoriteCuisines || '[]'),
         dietaryRestrictions: JSON.parse(row.dietaryRestrictions || '[]'),
         minRating: row.minRating,
+        ...(row.minPriceLevel != null ? { minPriceLevel: row.minPriceLevel } : {}),
+        ...(row.maxPriceLevel != null ? { maxPriceLevel: row.maxPriceLevel } : {}),
     };
 }
 
@@ -166,6 +285,7 @@ export async function recordUserRestaurantLike(userId: number, restaurantId: num
             userId,
             restaurantId
         );
+        await recordRestaurantFeedback(userId, restaurantId, 'like');
     } catch (error) {
         console.error(chalk.red(`Error recording like for user ${userId}, restaurant ${restaurantId}:`), error);
     }
@@ -183,4 +303,96 @@ export async function getLikedRestaurantIdsByUserId(userId: number): Promise<num
         console.error(chalk.red(`Error fetching liked restaurants for user ${userId}:`), error);
         return [];
     }
-}
\ No newline at end of file
+}
+
+
+// --- User Restaurant Feedback ---
+export async function recordRestaurantFeedback(
+    userId: number,
+    restaurantId: number,
+    feedback: RestaurantFeedbackType
+): Promise<void> {
+    const db = await getDB();
+    try {
+        await db.run(
+            'INSERT INTO user_restaurant_feedback (user_id, restaurant_id, feedback) VALUES (?, ?, ?)',
+            userId,
+            restaurantId,
+            feedback
+        );
+    } catch (error) {
+        console.error(chalk.red(`Error recording ${feedback} for user ${userId}, restaurant ${restaurantId}:`), error);
+    }
+}
+
+export async function getRestaurantFeedbackByUserId(userId: number): Promise<UserRestaurantFeedback[]> {
+    const db = await getDB();
+    try {
+        return await db.all<UserRestaurantFeedback[]>(
+            'SELECT id, user_id, restaurant_id, feedback, created_at FROM user_restaurant_feedback WHERE user_id = ? ORDER BY created_at ASC, id ASC',
+            userId
+        );
+    } catch (error) {
+        console.error(chalk.red(`Error fetching restaurant feedback for user ${userId}:`), error);
+        return [];
+    }
+}
+
+/**
+ * Restaurants the user has turned down: anything whose latest reaction is a dislike,
+ * plus skips newer than `skipCooldownDays` (a skip is "not tonight", not "never").
+ */
+export async function getDismissedRestaurantIdsByUserId(userId: number, skipCooldownDays: number): Promise<number[]> {
+    const db = await getDB();
+    try {
+        const rows = await db.all<{ restaurant_id: number }[]>(
+            `SELECT f.restaurant_id
+             FROM user_restaurant_feedback f
+             WHERE f.user_id = ?
+               AND f.id = (SELECT MAX(id) FROM user_restaurant_feedback WHERE user_id = f.user_id AND restaurant_id = f.restaurant_id)
+               AND (f.feedback = 'dislike' OR (f.feedback = 'skip' AND f.created_at >= datetime('now', ?)))`,
+            userId,
+            `-${skipCooldownDays} days`
+        );
+        return rows.map(row => row.restaurant_id);
+    } catch (error) {
+        console.error(chalk.red(`Error fetching dismissed restaurants for user ${userId}:`), error);
+        return [];
+    }
+}
+
+/**
+ * Every restaurant reaction the user has left, joined with the restaurant's data.
+ * Likes recorded before feedback existed (user_restaurant_likes only) are included as 'like'.
+ */
+export async function getRestaurantInteractionsByUserId(userId: number): Promise<RestaurantInteraction[]> {
+    const db = await getDB();
+    try {
+        const rows = await db.all<any[]>(
+            `SELECT f.restaurant_id, f.feedback, ${RESTAURANT_CUISINES_SQL} AS cuisines, r.rating, r.user_ratings_total, r.price_level
+             FROM user_restaurant_feedback f
+             JOIN restaurants r ON r.id = f.restaurant_id
+             WHERE f.user_id = ?
+             UNION ALL
+             SELECT l.restaurant_id, 'like' AS feedback, ${RESTAURANT_CUISINES_SQL} AS cuisines, r.rating, r.user_ratings_total, r.price_level
+             FROM user_restaurant_likes l
+             JOIN restaurants r ON r.id = l.restaurant_id
+             WHERE l.user_id = ?
+               AND NOT EXISTS (SELECT 1 FROM user_restaurant_feedback f2
+                               WHERE f2.user_id = l.user_id AND f2.restaurant_id = l.restaurant_id AND f2.feedback = 'like')`,
+            userId,
+            userId
+        );
+        return rows.map(row => ({
+            restaurant_id: row.restaurant_id,
+            feedback: row.feedback,
+            cuisines: JSON.parse(row.cuisines || '[]'),
+            rating: row.rating,
+            ...(row.user_ratings_total != null ? { userRatingsTotal: row.user_ratings_total } : {}),
+            ...(row.price_level != null ? { priceLevel: row.price_level } : {}),
+        }));
+    } catch (error) {
+        console.error(chalk.red(`Error fetching restaurant interactions for user ${userId}:`), error);
+        return [];
+    }
+}
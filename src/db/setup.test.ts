@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import type { Database } from 'sqlite';
+import { IN_MEMORY_DB_PATH } from '../common/config';
+import { closeDB, initDB, withTransaction } from './setup';
+
+let db: Database;
+
+async function names(): Promise<string[]> {
+    return (await db.all<{ name: string }[]>('SELECT name FROM users ORDER BY name')).map(u => u.name);
+}
+
+async function addUser(name: string): Promise<void> {
+    await db.run('INSERT INTO users (name) VALUES (?)', name);
+}
+
+beforeEach(async () => {
+    spyOn(console, 'log').mockImplementation(() => {});
+    db = await initDB({ config: { dbPath: IN_MEMORY_DB_PATH } });
+});
+
+afterEach(async () => {
+    await closeDB();
+});
+
+describe('withTransaction', () => {
+    test('keeps the writes and returns the result', async () => {
+        expect(await withTransaction(async () => { await addUser('Alice'); return 1; })).toBe(1);
+        expect(await names()).toEqual(['Alice']);
+    });
+
+    test('rolls everything back on an error and rethrows it', async () => {
+        await expect(withTransaction(async () => {
+            await addUser('Alice');
+            throw new Error('boom');
+        })).rejects.toThrow('boom');
+        expect(await names()).toEqual([]);
+    });
+
+    test('nests: a failed inner call undoes only its own writes', async () => {
+        await withTransaction(async () => {
+            await addUser('Alice');
+            await withTransaction(async () => {
+                await addUser('Bob');
+                throw new Error('inner');
+            }).catch(() => {});
+            await addUser('Carol');
+        });
+        expect(await names()).toEqual(['Alice', 'Carol']);
+    });
+
+    test('runs separate transactions one at a time, so a rollback leaves the others alone', async () => {
+        let release!: () => void;
+        const waiting = new Promise<void>(resolve => { release = resolve; });
+        const failing = withTransaction(async () => {
+            await addUser('Alice');
+            await waiting;
+            throw new Error('boom');
+        });
+        const other = withTransaction(async () => addUser('Bob'));
+        release();
+
+        await expect(failing).rejects.toThrow('boom');
+        await other;
+        expect(await names()).toEqual(['Bob']);
+    });
+});
@@ -1,187 +1,111 @@
 import { Database } from 'sqlite';
 import { open } from 'sqlite';
 import chalk from 'chalk';
+import { AsyncLocalStorage } from 'async_hooks';
+import { migrateUp, getLatestSchemaVersion } from './migrator';
+import type { AppConfig } from '../common/config';
+import { getConfig, IN_MEMORY_DB_PATH } from '../common/config';
 // Note: Mock user data is now more specific to modules (e.g., restaurant preferences)
 // and generic user seeding is handled here.
 
-const DB_PATH = './recommender_system.sqlite'; // A more descriptive name for the single DB
-let db: Database;
+let db: Database | undefined;
 
-export async function initDB(): Promise<Database> {
-  if (db) {
-    // console.log(chalk.dim("Database connection already established."));
-    return db;
-  }
+export interface InitDBOptions {
+  config?: AppConfig;        // Defaults to getConfig(): config file, env and CLI flags
+  runMigrations?: boolean;   // `migrate` commands open the DB without applying them
+}
 
-  console.log(chalk.blue("Initializing database connection..."));
-  db = await open({
-    filename: DB_PATH,
+/**
+ * Opens a connection to the configured database and brings its schema up to date.
+ * Not shared: use this for isolated databases (tests, a second household);
+ * the rest of the app goes through initDB/getDB.
+ */
+export async function openDatabase(options: InitDBOptions = {}): Promise<Database> {
+  const { dbPath } = options.config ?? getConfig();
+  console.log(chalk.blue(dbPath === IN_MEMORY_DB_PATH ? "Opening in-memory database..." : `Opening database ${dbPath}...`));
+  const connection = await open({
+    filename: dbPath,
     driver: require('sqlite3').Database // Bun needs this for sqlite3 driver
   });
 
   // Enable Foreign Key support if not enabled by default (good practice)
-  await db.exec('PRAGMA foreign_keys = ON;');
-
-  // --- User Table (Common for all modules) ---
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS users (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT NOT NULL UNIQUE -- Ensure user names are unique
-    );
-  `);
-  console.log(chalk.green("Table 'users' ensured."));
-
-  // --- Restaurant Module Tables ---
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS restaurants (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      googlePlaceId TEXT UNIQUE NOT NULL,
-      name TEXT NOT NULL,
-      address TEXT,
-      cuisines TEXT,          -- JSON string array of cuisine names
-      dietaryOptions TEXT,    -- JSON string array of dietary option names
-      rating REAL
-    );
-  `);
-  console.log(chalk.green("Table 'restaurants' ensured."));
+  await connection.exec('PRAGMA foreign_keys = ON;');
 
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS user_restaurant_preferences (
-        user_id INTEGER PRIMARY KEY,
-        favoriteCuisines TEXT,    -- JSON string array
-        dietaryRestrictions TEXT, -- JSON string array
-        minRating REAL,
-        FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-    );
-  `);
-  console.log(chalk.green("Table 'user_restaurant_preferences' ensured."));
-
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS user_restaurant_likes (
-      user_id INTEGER NOT NULL,
-      restaurant_id INTEGER NOT NULL,
-      liked_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      PRIMARY KEY (user_id, restaurant_id),
-      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-      FOREIGN KEY (restaurant_id) REFERENCES restaurants(id) ON DELETE CASCADE
-    );
-  `);
-  console.log(chalk.green("Table 'user_restaurant_likes' ensured."));
-
-  // --- Movie Module Tables ---
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS movies (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      tmdb_id INTEGER UNIQUE NOT NULL,
-      title TEXT NOT NULL,
-      overview TEXT,
-      release_date TEXT,          -- Format: "YYYY-MM-DD" or NULL
-      vote_average REAL,          -- TMDB's rating (0-10)
-      vote_count INTEGER,
-      poster_path TEXT,
-      backdrop_path TEXT,
-      genres TEXT,                -- JSON string array of {id, name} genre objects
-      runtime INTEGER,            -- Duration in minutes or NULL
-      original_language TEXT,     -- ISO 639-1 code or NULL
-      imdb_id TEXT                -- IMDb ID (e.g., "tt1234567") or NULL
-    );
-  `);
-  console.log(chalk.green("Table 'movies' ensured."));
-
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS user_movie_preferences (
-      user_id INTEGER PRIMARY KEY,
-      preferred_genres TEXT,          -- JSON array of genre names
-      preferred_languages TEXT,       -- JSON array of language codes (e.g., "en", "es")
-      release_year_min INTEGER,       -- NULL if not set
-      release_year_max INTEGER,       -- NULL if not set
-      duration_min_minutes INTEGER,   -- NULL if not set
-      duration_max_minutes INTEGER,   -- NULL if not set
-      min_imdb_rating REAL,           -- Using TMDB vote_average as proxy; NULL if not set
-      preferred_streaming_providers TEXT, -- JSON array of provider names or IDs; NULL if not set
-      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-    );
-  `);
-  console.log(chalk.green("Table 'user_movie_preferences' ensured."));
-
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS user_movie_ratings (
-      user_id INTEGER NOT NULL,
-      movie_id INTEGER NOT NULL,        -- Refers to our internal movies.id
-      rating INTEGER NOT NULL,          -- User's rating (e.g., 1-5)
-      rated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      PRIMARY KEY (user_id, movie_id),
-      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-      FOREIGN KEY (movie_id) REFERENCES movies(id) ON DELETE CASCADE
-    );
-  `);
-  console.log(chalk.green("Table 'user_movie_ratings' ensured."));
-
-  // --- TV Show Module Tables ---
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS tv_shows (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      tmdb_id INTEGER UNIQUE NOT NULL,
-      name TEXT NOT NULL,
-      overview TEXT,
-      first_air_date TEXT,        -- Format: "YYYY-MM-DD" or NULL
-      vote_average REAL,
-      vote_count INTEGER,
-      poster_path TEXT,
-      backdrop_path TEXT,
-      genres TEXT,                -- JSON string array of {id, name} genre objects
-      number_of_seasons INTEGER,  -- NULL if not set
-      episode_run_time TEXT,      -- JSON array of runtimes (e.g. [22, 25]) or NULL
-      original_language TEXT,     -- ISO 639-1 code or NULL
-      imdb_id TEXT                -- IMDb ID or NULL
-    );
-  `);
-  console.log(chalk.green("Table 'tv_shows' ensured."));
-
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS user_tv_show_preferences (
-      user_id INTEGER PRIMARY KEY,
-      preferred_genres TEXT,
-      preferred_languages TEXT,
-      first_air_year_min INTEGER,
-      first_air_year_max INTEGER,
-      avg_episode_duration_min INTEGER, -- Using first element of episode_run_time as proxy
-      avg_episode_duration_max INTEGER,
-      min_imdb_rating REAL,             -- Using TMDB vote_average as proxy
-      preferred_streaming_providers TEXT,
-      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
-    );
-  `);
-  console.log(chalk.green("Table 'user_tv_show_preferences' ensured."));
-
-  await db.exec(`
-    CREATE TABLE IF NOT EXISTS user_tv_show_ratings (
-      user_id INTEGER NOT NULL,
-      tv_show_id INTEGER NOT NULL,      -- Refers to our internal tv_shows.id
-      rating INTEGER NOT NULL,
-      rated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
-      PRIMARY KEY (user_id, tv_show_id),
-      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE,
-      FOREIGN KEY (tv_show_id) REFERENCES tv_shows(id) ON DELETE CASCADE
-    );
-  `);
-  console.log(chalk.green("Table 'user_tv_show_ratings' ensured."));
+  // Schema lives in ./migrations
+  if (options.runMigrations === false) return connection;
+  const applied = await migrateUp(connection);
+  if (applied.length === 0) console.log(chalk.green(`Schema is up to date (version ${getLatestSchemaVersion()}).`));
 
   console.log(chalk.blueBright("\nDatabase schema initialized/verified successfully!"));
+  return connection;
+}
+
+/** Opens the app-wide connection once; later calls return it regardless of options. */
+export async function initDB(options: InitDBOptions = {}): Promise<Database> {
+  if (db) {
+    // console.log(chalk.dim("Database connection already established."));
+    return db;
+  }
+  db = await openDatabase(options);
   return db;
 }
 
+/** Closes the app-wide connection so the next initDB can open a different database. */
+export async function closeDB(): Promise<void> {
+  if (!db) return;
+  const connection = db;
+  db = undefined;
+  await connection.close();
+}
+
 // Getter for the database instance
-export async function getDB(): Promise<Database> {
+export async function getDB(options: InitDBOptions = {}): Promise<Database> {
   if (!db) {
     // This case should ideally not be hit if initDB is called first in index.ts
     // But as a fallback, initialize it.
     console.warn(chalk.yellow("DB instance not found, initializing it now. Ensure initDB() is called at app start."));
-    await initDB();
+    return initDB(options);
   }
   return db;
 }
 
+let savepointCount = 0;
+// Set while a transaction's work runs, so nested calls join it instead of queueing behind it
+const transactionScope = new AsyncLocalStorage<true>();
+// Tail of the queue of transactions waiting for the connection
+let transactionQueue: Promise<unknown> = Promise.resolve();
+
+async function runInSavepoint<T>(currentDb: Database, work: () => Promise<T>): Promise<T> {
+  const savepoint = `tx_${++savepointCount}`;
+  await currentDb.exec(`SAVEPOINT ${savepoint}`);
+  try {
+    const result = await work();
+    await currentDb.exec(`RELEASE ${savepoint}`);
+    return result;
+  } catch (error) {
+    await currentDb.exec(`ROLLBACK TO ${savepoint}`).catch(() => {});
+    await currentDb.exec(`RELEASE ${savepoint}`).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Runs `work` on the app-wide connection so its writes are kept together or not at all;
+ * any error rolls them back and is rethrown. Every caller shares the one connection, so
+ * transactions run one at a time: a call waits for the one in progress to finish. A call
+ * made from inside another transaction's work nests as a savepoint of it instead, so a
+ * title saved (with its watch providers) inside an import shares the import's transaction.
+ * Keep network calls out of `work`; everyone else's transactions wait on it.
+ */
+export async function withTransaction<T>(work: () => Promise<T>): Promise<T> {
+  const currentDb = await getDB();
+  if (transactionScope.getStore()) return runInSavepoint(currentDb, work);
+
+  const run = transactionQueue.then(() => transactionScope.run(true, () => runInSavepoint(currentDb, work)));
+  transactionQueue = run.catch(() => {});
+  return run;
+}
+
 // --- Generic User Management ---
 // Common User type (can also live in src/common/types.ts and be imported)
 export interface User {
@@ -228,6 +152,11 @@ export async function getUserById(id: number): Promise<User | undefined > {
     return currentDb.get<User>('SELECT id, name FROM users WHERE id = ?', id);
 }
 
+export async function getUserByName(name: string): Promise<User | undefined> {
+    const currentDb = await getDB();
+    return currentDb.get<User>('SELECT id, name FROM users WHERE name = ?', name);
+}
+
 // Seed initial generic users (if users table is empty)
 export async function seedInitialGenericUsers(): Promise<void> {
   const currentDb = await getDB();
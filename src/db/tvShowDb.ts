@@ -3,8 +3,20 @@ import type { TvShow, UserTvShowRating, UserTvShowPreferences } from '../tvshows
 import type { TMDBTvShow as TMDBTvShowFromService } from '../common/tmdbService';
 import { mapTvGenreIdsToObjects } from '../common/tmdbService';
 import type { Genre } from '../common/types';
+import { saveTitleWatchProviders } from './watchProviderDb';
+import { orderedJsonList, replaceLinkedValues, saveTitleGenres } from './linkTables';
 import chalk from 'chalk';
 
+// Genres live in tv_genres; this folds them back into [{id, name}] per row of `tv_shows t`
+const TV_SHOW_SELECT = `SELECT t.*, ${orderedJsonList("json_object('id', g.id, 'name', g.name)", 'tv_genres x JOIN genres g ON g.id = x.genre_id', 'x.tv_show_id = t.id', true)} AS genres FROM tv_shows t`;
+
+// Preference lists: [field on UserTvShowPreferences, link table, value column]
+const TV_SHOW_PREFERENCE_LISTS = [
+    ['preferred_genres', 'user_tv_show_preferred_genres', 'genre_name'],
+    ['preferred_languages', 'user_tv_show_preferred_languages', 'language'],
+    ['preferred_streaming_providers', 'user_tv_show_preferred_providers', 'provider'],
+] as const;
+
 async function ensureFullTvGenreObjects(tvShowData: TMDBTvShowFromService): Promise<Genre[]> {
     if (tvShowData.genres && tvShowData.genres.length > 0) return tvShowData.genres;
     if (tvShowData.genre_ids && tvShowData.genre_ids.length > 0) return mapTvGenreIdsToObjects(tvShowData.genre_ids);
@@ -17,44 +29,48 @@ export async function saveTvShow(tvShowData: TMDBTvShowFromService): Promise<TvS
         const existing = await db.get<TvShow>('SELECT * FROM tv_shows WHERE tmdb_id = ?', tvShowData.id);
         const fullGenres = await ensureFullTvGenreObjects(tvShowData);
         const imdbIdToSave = tvShowData.imdb_id || tvShowData.external_ids?.imdb_id || null;
+        if (tvShowData["watch/providers"]?.results) {
+            await saveTitleWatchProviders('tv', tvShowData.id, tvShowData["watch/providers"].results);
+        }
 
         if (existing) {
             await db.run(
                 `UPDATE tv_shows SET
                     name = ?, overview = ?, first_air_date = ?, vote_average = ?, vote_count = ?,
-                    poster_path = ?, backdrop_path = ?, genres = ?, number_of_seasons = ?,
+                    poster_path = ?, backdrop_path = ?, number_of_seasons = ?,
                     episode_run_time = ?, original_language = ?, imdb_id = ?
                  WHERE tmdb_id = ?`,
                 tvShowData.name, tvShowData.overview, tvShowData.first_air_date, tvShowData.vote_average, tvShowData.vote_count,
                 tvShowData.poster_path, tvShowData.backdrop_path,
-                JSON.stringify(fullGenres.map(g => ({id: g.id, name: g.name}))),
                 tvShowData.number_of_seasons === undefined ? null : tvShowData.number_of_seasons,
                 tvShowData.episode_run_time ? JSON.stringify(tvShowData.episode_run_time) : null,
                 tvShowData.original_language === undefined ? null : tvShowData.original_language,
                 imdbIdToSave,
                 tvShowData.id
             );
+            // List results only carry genre_ids, which we may not be able to map; keep what we have then
+            if (fullGenres.length > 0) await saveTitleGenres(db, 'tv_genres', 'tv_show_id', existing.id, fullGenres);
             return getTvShowByTmdbId(tvShowData.id);
         }
 
         const result = await db.run(
             `INSERT INTO tv_shows (tmdb_id, name, overview, first_air_date, vote_average, vote_count,
-                                   poster_path, backdrop_path, genres, number_of_seasons, episode_run_time, original_language, imdb_id)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                                   poster_path, backdrop_path, number_of_seasons, episode_run_time, original_language, imdb_id)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
             tvShowData.id, tvShowData.name, tvShowData.overview, tvShowData.first_air_date,
             tvShowData.vote_average, tvShowData.vote_count, tvShowData.poster_path, tvShowData.backdrop_path,
-            JSON.stringify(fullGenres.map(g => ({id: g.id, name: g.name}))),
             tvShowData.number_of_seasons === undefined ? null : tvShowData.number_of_seasons,
             tvShowData.episode_run_time ? JSON.stringify(tvShowData.episode_run_time) : null,
             tvShowData.original_language === undefined ? null : tvShowData.original_language,
             imdbIdToSave
         );
         if (result.lastID) {
+            await saveTitleGenres(db, 'tv_genres', 'tv_show_id', result.lastID, fullGenres);
             return getTvShowByOurId(result.lastID);
         }
     } catch (error: any) {
         if (error.message?.includes('UNIQUE constraint failed: tv_shows.tmdb_id')) {
-            return db.get<TvShow>('SELECT * FROM tv_shows WHERE tmdb_id = ?', tvShowData.id).then(mapDbRowToTvShow);
+            return getTvShowByTmdbId(tvShowData.id);
         }
         console.error(chalk.red(`Error saving TV show TMDB ID ${tvShowData.id} ("${tvShowData.name}"):`), error);
     }
@@ -83,13 +99,13 @@ const mapDbRowToTvShow = (row: any): TvShow | undefined => {
 
 export async function getTvShowByOurId(id: number): Promise<TvShow | undefined> {
     const db = await getDB();
-    const row = await db.get<any>('SELECT * FROM tv_shows WHERE id = ?', id);
+    const row = await db.get<any>(`${TV_SHOW_SELECT} WHERE t.id = ?`, id);
     return mapDbRowToTvShow(row);
 }
 
 export async function getTvShowByTmdbId(tmdbId: number): Promise<TvShow | undefined> {
     const db = await getDB();
-    const row = await db.get<any>('SELECT * FROM tv_shows WHERE tmdb_id = ?', tmdbId);
+    const row = await db.get<any>(`${TV_SHOW_SELECT} WHERE t.tmdb_id = ?`, tmdbId);
     return mapDbRowToTvShow(row);
 }
 
@@ -99,29 +115,26 @@ export async function saveUserTvShowPreferences(prefs: UserTvShowPreferences): P
     try {
         await db.run(
             `INSERT INTO user_tv_show_preferences (
-                user_id, preferred_genres, preferred_languages, first_air_year_min, first_air_year_max,
-                avg_episode_duration_min, avg_episode_duration_max, min_imdb_rating, preferred_streaming_providers
-             ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+                user_id, first_air_year_min, first_air_year_max,
+                avg_episode_duration_min, avg_episode_duration_max, min_imdb_rating
+             ) VALUES (?, ?, ?, ?, ?, ?)
              ON CONFLICT(user_id) DO UPDATE SET
-                preferred_genres = excluded.preferred_genres,
-                preferred_languages = excluded.preferred_languages,
                 first_air_year_min = excluded.first_air_year_min,
                 first_air_year_max = excluded.first_air_year_max,
                 avg_episode_duration_min = excluded.avg_episode_duration_min,
                 avg_episode_duration_max = excluded.avg_episode_duration_max,
-                min_imdb_rating = excluded.min_imdb_rating,
-                preferred_streaming_providers = excluded.preferred_streaming_providers
+                min_imdb_rating = excluded.min_imdb_rating
             `,
             prefs.user_id,
-            prefs.preferred_genres ? JSON.stringify(prefs.preferred_genres) : null,
-            prefs.preferred_languages ? JSON.stringify(prefs.preferred_languages) : null,
             prefs.first_air_year_min === undefined ? null : prefs.first_air_year_min,
             prefs.first_air_year_max === undefined ? null : prefs.first_air_year_max,
             prefs.avg_episode_duration_min === undefined ? null : prefs.avg_episode_duration_min,
             prefs.avg_episode_duration_max === undefined ? null : prefs.avg_episode_duration_max,
-            prefs.min_imdb_rating === undefined ? null : prefs.min_imdb_rating,
-            prefs.preferred_streaming_providers ? JSON.stringify(prefs.preferred_streaming_providers) : null
+            prefs.min_imdb_rating === undefined ? null : prefs.min_imdb_rating
         );
+        for (const [field, table, column] of TV_SHOW_PREFERENCE_LISTS) {
+            await replaceLinkedValues(db, table, 'user_id', prefs.user_id, column, prefs[field] ?? []);
+        }
     } catch (error) {
         console.error(chalk.red(`Error saving TV show preferences for user ${prefs.user_id}:`), error);
     }
@@ -129,34 +142,41 @@ export async function saveUserTvShowPreferences(prefs: UserTvShowPreferences): P
 
 export async function getUserTvShowPreferences(userId: number): Promise<UserTvShowPreferences | undefined> {
     const db = await getDB();
+    const listColumns = TV_SHOW_PREFERENCE_LISTS.map(([field, table, column]) => `${orderedJsonList(`x.${column}`, `${table} x`, 'x.user_id = p.user_id')} AS ${field}`);
     const row = await db.get<any>(
-        'SELECT * FROM user_tv_show_preferences WHERE user_id = ?',
+        `SELECT p.*, ${listColumns.join(', ')} FROM user_tv_show_preferences p WHERE p.user_id = ?`,
         userId
     );
     if (!row) return undefined;
+    const parseList = (json: string | null): string[] | undefined => { // Empty list = no preference
+        const values: string[] = JSON.parse(json || '[]');
+        return values.length > 0 ? values : undefined;
+    };
     return {
         user_id: row.user_id,
-        preferred_genres: row.preferred_genres ? JSON.parse(row.preferred_genres) : undefined,
-        preferred_languages: row.preferred_languages ? JSON.parse(row.preferred_languages) : undefined,
+        preferred_genres: parseList(row.preferred_genres),
+        preferred_languages: parseList(row.preferred_languages),
         first_air_year_min: row.first_air_year_min === null ? undefined : row.first_air_year_min,
         first_air_year_max: row.first_air_year_max === null ? undefined : row.first_air_year_max,
         avg_episode_duration_min: row.avg_episode_duration_min === null ? undefined : row.avg_episode_duration_min,
         avg_episode_duration_max: row.avg_episode_duration_max === null ? undefined : row.avg_episode_duration_max,
         min_imdb_rating: row.min_imdb_rating === null ? undefined : row.min_imdb_rating,
-        preferred_streaming_providers: row.preferred_streaming_providers ? JSON.parse(row.preferred_streaming_providers) : undefined,
+        preferred_streaming_providers: parseList(row.preferred_streaming_providers),
     };
 }
 
 // --- User TV Show Ratings ---
-export async function saveUserTvShowRating(userId: number, tvShowId: number, rating: number): Promise<void> {
+// `ratedAt` ("YYYY-MM-DD HH:MM:SS" UTC) keeps the original time when importing; defaults to now
+export async function saveUserTvShowRating(userId: number, tvShowId: number, rating: number, ratedAt?: string): Promise<void> {
     const db = await getDB();
     try {
         await db.run(
-            `INSERT INTO user_tv_show_ratings (user_id, tv_show_id, rating) VALUES (?, ?, ?)
-             ON CONFLICT(user_id, tv_show_id) DO UPDATE SET rating = excluded.rating, rated_at = CURRENT_TIMESTAMP`,
+            `INSERT INTO user_tv_show_ratings (user_id, tv_show_id, rating, rated_at) VALUES (?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+             ON CONFLICT(user_id, tv_show_id) DO UPDATE SET rating = excluded.rating, rated_at = excluded.rated_at`,
             userId,
             tvShowId,
-            rating
+            rating,
+            ratedAt ?? null
         );
     } catch (error) {
         console.error(chalk.red(`Error saving TV show rating for user ${userId}, TV show ${tvShowId}:`), error);
@@ -177,4 +197,11 @@ export async function getRatedTvShowIdsByUser(userId: number): Promise<number[]>
     const db = await getDB();
     const rows = await db.all<{ tv_show_id: number }[]>('SELECT tv_show_id FROM user_tv_show_ratings WHERE user_id = ?', userId);
     return rows.map(r => r.tv_show_id);
-}
\ No newline at end of file
+}
+// All users' ratings, keyed by our internal TV show ID (input for local collaborative filtering)
+export async function getAllTvShowRatings(): Promise<{ user_id: number; item_id: number; rating: number }[]> {
+    const db = await getDB();
+    return db.all<{ user_id: number; item_id: number; rating: number }[]>(
+        'SELECT user_id, tv_show_id AS item_id, rating FROM user_tv_show_ratings'
+    );
+}
@@ -0,0 +1,50 @@
+import { getDB } from './setup';
+import type { UserLocation } from '../common/types';
+import type { GeoPoint } from '../common/geo';
+import chalk from 'chalk';
+
+// Labels are unique per user, case-insensitively; saving an existing label moves it
+export async function saveUserLocation(userId: number, label: string, point: GeoPoint): Promise<UserLocation | undefined> {
+    const db = await getDB();
+    try {
+        await db.run(
+            `INSERT INTO user_locations (user_id, label, latitude, longitude) VALUES (?, ?, ?, ?)
+             ON CONFLICT(user_id, label) DO UPDATE SET
+                latitude = excluded.latitude,
+                longitude = excluded.longitude,
+                updated_at = CURRENT_TIMESTAMP`,
+            userId, label.trim(), point.latitude, point.longitude
+        );
+        return getUserLocation(userId, label);
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error saving location "${label}" for user ${userId}:`), error);
+        return undefined;
+    }
+}
+
+export async function getUserLocation(userId: number, label: string): Promise<UserLocation | undefined> {
+    const db = await getDB();
+    return db.get<UserLocation>(
+        'SELECT user_id, label, latitude, longitude, updated_at FROM user_locations WHERE user_id = ? AND label = ?',
+        userId, label.trim()
+    );
+}
+
+export async function getUserLocations(userId: number): Promise<UserLocation[]> {
+    const db = await getDB();
+    return db.all<UserLocation[]>(
+        'SELECT user_id, label, latitude, longitude, updated_at FROM user_locations WHERE user_id = ? ORDER BY label ASC',
+        userId
+    );
+}
+
+export async function deleteUserLocation(userId: number, label: string): Promise<boolean> {
+    const db = await getDB();
+    try {
+        const result = await db.run('DELETE FROM user_locations WHERE user_id = ? AND label = ?', userId, label.trim());
+        return (result.changes ?? 0) > 0;
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error removing location "${label}" for user ${userId}:`), error);
+        return false;
+    }
+}
@@ -0,0 +1,35 @@
+import { getDB } from './setup';
+import type { UserSettings } from '../common/types';
+import chalk from 'chalk';
+
+export const DEFAULT_HOME_REGION = 'US';
+
+export async function getUserSettings(userId: number): Promise<UserSettings> {
+    const db = await getDB();
+    const row = await db.get<Omit<UserSettings, 'watchlist_boost'> & { watchlist_boost: number }>(
+        'SELECT user_id, home_region, streaming_filter, watchlist_boost FROM user_settings WHERE user_id = ?',
+        userId
+    );
+    // Users without a row get the defaults the table would have assigned
+    if (!row) return { user_id: userId, home_region: DEFAULT_HOME_REGION, streaming_filter: 'rank', watchlist_boost: true };
+    return { ...row, watchlist_boost: row.watchlist_boost !== 0 };
+}
+
+export async function saveUserSettings(settings: UserSettings): Promise<void> {
+    const db = await getDB();
+    try {
+        await db.run(
+            `INSERT INTO user_settings (user_id, home_region, streaming_filter, watchlist_boost) VALUES (?, ?, ?, ?)
+             ON CONFLICT(user_id) DO UPDATE SET
+                home_region = excluded.home_region,
+                streaming_filter = excluded.streaming_filter,
+                watchlist_boost = excluded.watchlist_boost`,
+            settings.user_id,
+            settings.home_region.toUpperCase(),
+            settings.streaming_filter,
+            settings.watchlist_boost ? 1 : 0
+        );
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error saving settings for user ${settings.user_id}:`), error);
+    }
+}
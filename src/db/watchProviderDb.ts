@@ -0,0 +1,67 @@
+import { getDB, withTransaction } from './setup';
+import type { MediaType, ProviderAvailabilityType, TitleWatchProvider, WatchProviders } from '../common/types';
+import chalk from 'chalk';
+
+const AVAILABILITY_TYPES: ProviderAvailabilityType[] = ['flatrate', 'rent', 'buy'];
+
+/**
+ * Replaces the stored provider availability for a title with the `watch/providers`
+ * results from TMDB (all regions) and stamps the refresh time.
+ */
+export async function saveTitleWatchProviders(
+    mediaType: MediaType,
+    tmdbId: number,
+    providersByRegion: WatchProviders
+): Promise<void> {
+    const db = await getDB();
+    try {
+        await withTransaction(async () => {
+            await db.run('DELETE FROM title_watch_providers WHERE media_type = ? AND tmdb_id = ?', mediaType, tmdbId);
+            for (const [region, regionData] of Object.entries(providersByRegion)) {
+                for (const availabilityType of AVAILABILITY_TYPES) {
+                    for (const provider of regionData[availabilityType] ?? []) {
+                        await db.run(
+                            `INSERT INTO title_watch_providers (media_type, tmdb_id, region, provider_id, provider_name, availability_type)
+                             VALUES (?, ?, ?, ?, ?, ?)
+                             ON CONFLICT(media_type, tmdb_id, region, provider_id, availability_type) DO NOTHING`,
+                            mediaType, tmdbId, region, provider.provider_id, provider.provider_name, availabilityType
+                        );
+                    }
+                }
+            }
+            await db.run(
+                `INSERT INTO title_watch_provider_refreshes (media_type, tmdb_id, refreshed_at) VALUES (?, ?, CURRENT_TIMESTAMP)
+                 ON CONFLICT(media_type, tmdb_id) DO UPDATE SET refreshed_at = CURRENT_TIMESTAMP`,
+                mediaType, tmdbId
+            );
+        });
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error saving watch providers for ${mediaType} TMDB ID ${tmdbId}:`), error);
+    }
+}
+
+export async function getTitleWatchProviders(
+    mediaType: MediaType,
+    tmdbId: number,
+    region: string
+): Promise<TitleWatchProvider[]> {
+    const db = await getDB();
+    return db.all<TitleWatchProvider[]>(
+        `SELECT media_type, tmdb_id, region, provider_id, provider_name, availability_type
+         FROM title_watch_providers
+         WHERE media_type = ? AND tmdb_id = ? AND region = ?
+         ORDER BY availability_type, provider_name`,
+        mediaType, tmdbId, region.toUpperCase()
+    );
+}
+
+// Returns the last refresh time for a title, or undefined if providers were never fetched
+export async function getTitleWatchProvidersRefreshedAt(mediaType: MediaType, tmdbId: number): Promise<Date | undefined> {
+    const db = await getDB();
+    const row = await db.get<{ refreshed_at: string }>(
+        'SELECT refreshed_at FROM title_watch_provider_refreshes WHERE media_type = ? AND tmdb_id = ?',
+        mediaType, tmdbId
+    );
+    // SQLite CURRENT_TIMESTAMP is UTC without a zone suffix
+    return row ? new Date(`${row.refreshed_at.replace(' ', 'T')}Z`) : undefined;
+}
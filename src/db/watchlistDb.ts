@@ -0,0 +1,108 @@
+import { getDB } from './setup';
+import type { MediaType, TitleListEntry } from '../common/types';
+import chalk from 'chalk';
+
+// user_watchlist and user_watched share a layout: one row per user and title, pointing at
+// either movies (movie_id) or tv_shows (tv_show_id). Titles must already be saved locally.
+type TitleList = 'watchlist' | 'watched';
+
+const LIST_TABLES: Record<TitleList, { table: string; timestamp: string }> = {
+    watchlist: { table: 'user_watchlist', timestamp: 'added_at' },
+    watched: { table: 'user_watched', timestamp: 'watched_at' },
+};
+
+const TITLE_COLUMNS: Record<MediaType, string> = { movie: 'movie_id', tv: 'tv_show_id' };
+
+async function getTitleList(list: TitleList, userId: number, mediaType?: MediaType): Promise<TitleListEntry[]> {
+    const db = await getDB();
+    const { table, timestamp } = LIST_TABLES[list];
+    const mediaFilter = mediaType ? `AND l.${TITLE_COLUMNS[mediaType]} IS NOT NULL` : '';
+    return db.all<TitleListEntry[]>(
+        `SELECT CASE WHEN l.movie_id IS NOT NULL THEN 'movie' ELSE 'tv' END AS media_type,
+                COALESCE(l.movie_id, l.tv_show_id) AS title_id,
+                COALESCE(m.tmdb_id, t.tmdb_id) AS tmdb_id,
+                COALESCE(m.title, t.name) AS title,
+                l.${timestamp} AS added_at
+         FROM ${table} l
+         LEFT JOIN movies m ON m.id = l.movie_id
+         LEFT JOIN tv_shows t ON t.id = l.tv_show_id
+         WHERE l.user_id = ? ${mediaFilter}
+         ORDER BY l.${timestamp} DESC, l.id DESC`,
+        userId
+    );
+}
+
+async function removeFromTitleList(list: TitleList, userId: number, mediaType: MediaType, titleId: number): Promise<boolean> {
+    const db = await getDB();
+    try {
+        const result = await db.run(`DELETE FROM ${LIST_TABLES[list].table} WHERE user_id = ? AND ${TITLE_COLUMNS[mediaType]} = ?`, userId, titleId);
+        return (result.changes ?? 0) > 0;
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error removing ${mediaType} ${titleId} from ${list} for user ${userId}:`), error);
+        return false;
+    }
+}
+
+// --- Watchlist ---
+// Re-adding a title keeps its original added_at
+export async function addToWatchlist(userId: number, mediaType: MediaType, titleId: number): Promise<void> {
+    const db = await getDB();
+    const column = TITLE_COLUMNS[mediaType];
+    try {
+        await db.run(`INSERT INTO user_watchlist (user_id, ${column}) VALUES (?, ?) ON CONFLICT(user_id, ${column}) DO NOTHING`, userId, titleId);
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error adding ${mediaType} ${titleId} to watchlist for user ${userId}:`), error);
+    }
+}
+
+export async function removeFromWatchlist(userId: number, mediaType: MediaType, titleId: number): Promise<boolean> {
+    return removeFromTitleList('watchlist', userId, mediaType, titleId);
+}
+
+export async function getWatchlist(userId: number, mediaType?: MediaType): Promise<TitleListEntry[]> {
+    return getTitleList('watchlist', userId, mediaType);
+}
+
+// Genre names across the user's watchlist, for the "similar to your watchlist" boost
+export async function getGenresFromUserWatchlist(userId: number, mediaType: MediaType): Promise<string[]> {
+    const db = await getDB();
+    const [column, genreTable] = mediaType === 'movie' ? ['movie_id', 'movie_genres'] : ['tv_show_id', 'tv_genres'];
+    const rows = await db.all<{ name: string }[]>(`
+        SELECT DISTINCT g.name
+        FROM user_watchlist w
+        JOIN ${genreTable} x ON x.${column} = w.${column}
+        JOIN genres g ON g.id = x.genre_id
+        WHERE w.user_id = ?
+    `, userId);
+    return rows.map(row => row.name);
+}
+
+// --- Watched ---
+// Watching a title takes it off the watchlist. `watchedAt` ("YYYY-MM-DD HH:MM:SS" UTC) defaults to now.
+export async function markWatched(userId: number, mediaType: MediaType, titleId: number, watchedAt?: string): Promise<void> {
+    const db = await getDB();
+    const column = TITLE_COLUMNS[mediaType];
+    try {
+        await db.run(
+            `INSERT INTO user_watched (user_id, ${column}, watched_at) VALUES (?, ?, COALESCE(?, CURRENT_TIMESTAMP))
+             ON CONFLICT(user_id, ${column}) DO UPDATE SET watched_at = excluded.watched_at`,
+            userId, titleId, watchedAt ?? null
+        );
+        await db.run(`DELETE FROM user_watchlist WHERE user_id = ? AND ${column} = ?`, userId, titleId);
+    } catch (error) {
+        console.error(chalk.red(`[DB Error] Error marking ${mediaType} ${titleId} as watched for user ${userId}:`), error);
+    }
+}
+
+export async function unmarkWatched(userId: number, mediaType: MediaType, titleId: number): Promise<boolean> {
+    return removeFromTitleList('watched', userId, mediaType, titleId);
+}
+
+export async function getWatched(userId: number, mediaType?: MediaType): Promise<TitleListEntry[]> {
+    return getTitleList('watched', userId, mediaType);
+}
+
+// TMDB IDs the recommenders should skip: watched titles, rated or not
+export async function getWatchedTmdbIds(userId: number, mediaType: MediaType): Promise<number[]> {
+    return (await getWatched(userId, mediaType)).map(entry => entry.tmdb_id);
+}
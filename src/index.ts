@@ -1,11 +1,45 @@
 // src/index.ts
-import { initDB, getDB, seedInitialGenericUsers } from './db/setup';
+import { initDB, closeDB, seedInitialGenericUsers } from './db/setup';
 // Make sure restaurant specific seeding is handled within its module or called appropriately
 // import { seedInitialRestaurantData } from './database/restaurantDb'; // Example
-import { runMainCLI } from './cli/main';
+import { isKnownCommand, runCommand } from './cli/commands';
+import { waitForPendingRevalidations } from './common/responseCache';
+import { ConfigError, extractConfigFlags, loadConfig, setConfig } from './common/config';
 import chalk from 'chalk';
 
+async function shutdown(): Promise<void> {
+  await waitForPendingRevalidations(); // Let background cache refreshes finish before closing the DB
+  await closeDB();
+}
+
+// `bun start recommend movies --user Alice` etc.: run once and exit with the command's code
+async function runSubcommand(argv: string[]): Promise<never> {
+  const exitCode = await runCommand(argv);
+  await waitForPendingRevalidations(); // Nothing else to flush: every write has already completed
+  process.exit(exitCode);
+}
+
 async function main() {
+  // --db, --in-memory and --config work with or without a subcommand
+  let argv: string[];
+  try {
+    const { flags, rest } = extractConfigFlags(process.argv.slice(2));
+    setConfig(loadConfig(flags));
+    argv = rest;
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    console.error(chalk.red(error.message));
+    process.exit(2);
+  }
+
+  if (argv.length > 0) {
+    if (!isKnownCommand(argv)) {
+      console.error(chalk.red(`Unknown command "${argv[0]}". Run with --help for usage.`));
+      process.exit(2);
+    }
+    await runSubcommand(argv);
+  }
+
   console.log(chalk.bold.cyan("🚀 Starting Advanced Recommender System 🚀"));
 
   await initDB(); // Initializes all tables
@@ -15,24 +49,20 @@ async function main() {
   // await seedInitialRestaurantData(); // If you have restaurant-specific initial data
 
   // The main CLI will now handle fetching data (like restaurants for a location) on demand.
-  
+  // Imported lazily: the menu modules open readline on stdin as soon as they load
+  const { runMainCLI } = await import('./cli/main');
   await runMainCLI();
-
-  const dbInstance = await getDB();
-  await dbInstance.close();
+  await shutdown();
   console.log(chalk.bold.cyan("Recommender shut down gracefully."));
 }
 
 main().catch(async (err) => {
   console.error(chalk.red.bold("Unhandled error in main application:"), err);
   try {
-    const dbInstance = await getDB().catch(() => null);
-    if (dbInstance) {
-      await dbInstance.close();
-      console.log("Database connection closed on error.");
-    }
+    await closeDB();
+    console.log("Database connection closed on error.");
   } catch (closeErr) {
     console.error("Error closing DB on unhandled main error:", closeErr);
   }
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -1,75 +1,320 @@
-import type { Movie } from './types';
-import type { User } from '../common/types';
-import { getMovieRecommendations as getTMDBRecommendations, getPopularMovies } from '../common/tmdbService';
+import type { Movie, UserMoviePreferences } from './types';
+import type { User, UserSettings, Recommendation, RecommendationReason, ScoreComponent } from '../common/types';
+import {
+    getMovieRecommendations as getTMDBRecommendations,
+    getPopularMovies,
+    getMovieDetails as getTMDBMovieDetails,
+} from '../common/tmdbService';
 import type { TMDBMovie } from '../common/tmdbService';
-import { saveMovie, getMovieByTmdbId, getUserMovieRatings, getGenresFromUserHighlyRatedMovies as getGenresFromUserLikedMovies } from '../db/movieDb';
+import {
+    saveMovie, getMovieByTmdbId, getMovieByOurId, getUserMovieRatings, getAllMovieRatings,
+    getGenresFromUserHighlyRatedMovies as getGenresFromUserLikedMovies,
+} from '../db/movieDb';
+import { getAllUsers } from '../db/setup';
+import { getGenresFromUserWatchlist, getWatchedTmdbIds } from '../db/watchlistDb';
+import { getUserSettings } from '../db/userSettingsDb';
+import { getWatchProvidersForTitle, matchPreferredProviders } from '../common/watchProviders';
+import { predictForUser } from '../common/collaborativeFiltering';
+import { rankForGroup } from '../common/groupScoring';
+import type { GroupStrategy, GroupRecommendation, MemberScores } from '../common/groupScoring';
 import chalk from 'chalk';
 
 const MIN_RATINGS_FOR_COLLABORATIVE = 3; // Min ratings before using TMDB recommendations
+const MIN_RATINGS_FOR_LOCAL_COLLABORATIVE = 1; // Local CF only needs one overlap with another user
+const MAX_POPULAR_PAGES = 5; // How far we page through /movie/popular when hard filters thin out candidates
+const STREAMING_MATCH_SCORE = 6; // Boost for titles streaming on one of the user's services
+const WATCHLIST_GENRE_SCORE = 2; // Per genre shared with the user's watchlist
 
-// Content-Based: Simple genre matching
+// Everything the scorer needs to know about the user, loaded once per recommendation run
+interface MovieScoringContext {
+    preferences: UserMoviePreferences;
+    settings: UserSettings;
+    likedGenres: string[];
+    watchlistGenres: string[]; // Empty when the user turned the watchlist boost off
+}
+
+function hasAnyPreferences(preferences: UserMoviePreferences): boolean {
+    return Object.entries(preferences)
+        .some(([key, value]) => key !== 'user_id' && value !== undefined && value !== null && (!Array.isArray(value) || value.length > 0));
+}
+
+// Popular/recommendation list results don't carry runtime, so duration
+// preferences can only be checked against the details endpoint.
+function needsDetailsForPreferences(preferences: UserMoviePreferences): boolean {
+    return preferences.duration_min_minutes != null || preferences.duration_max_minutes != null;
+}
+
+// Names of the user's preferred services that stream this movie in their home region
+async function findPreferredProviders(movie: Movie, preferences: UserMoviePreferences, settings: UserSettings): Promise<string[]> {
+    if (!preferences.preferred_streaming_providers || preferences.preferred_streaming_providers.length === 0) return [];
+    const providers = await getWatchProvidersForTitle('movie', movie.tmdb_id, settings.home_region);
+    return matchPreferredProviders(providers, preferences.preferred_streaming_providers).map(p => p.provider_name);
+}
+
+// Saves the candidate (with details when needed) and looks up which of the user's services stream it
+async function resolveCandidate(
+    tmdbMovie: TMDBMovie,
+    preferences: UserMoviePreferences,
+    settings: UserSettings
+): Promise<{ movie: Movie; preferredProviders: string[] } | undefined> {
+    let movieInDb = await getMovieByTmdbId(tmdbMovie.id);
+    if (needsDetailsForPreferences(preferences) && movieInDb?.runtime == null) {
+        const details = await getTMDBMovieDetails(tmdbMovie.id);
+        if (details) movieInDb = await saveMovie(details);
+    }
+    if (!movieInDb) movieInDb = await saveMovie(tmdbMovie);
+    if (!movieInDb) return undefined;
+    return { movie: movieInDb, preferredProviders: await findPreferredProviders(movieInDb, preferences, settings) };
+}
+
+// Returns false if the movie violates any explicit preference
+function meetsMovieHardFilters(
+    movie: Movie,
+    preferences: UserMoviePreferences,
+    settings: UserSettings,
+    preferredProviders: string[]
+): boolean {
+    // 1. Genre
+    if (preferences.preferred_genres && preferences.preferred_genres.length > 0) {
+        const movieGenresLower = movie.genres.map(g => g.name.toLowerCase());
+        const matches = preferences.preferred_genres.some(pg => movieGenresLower.includes(pg.toLowerCase()));
+        if (!matches) return false;
+    }
+
+    // 2. Language
+    if (preferences.preferred_languages && preferences.preferred_languages.length > 0) {
+        if (!movie.original_language || !preferences.preferred_languages.includes(movie.original_language.toLowerCase())) {
+            return false;
+        }
+    }
+
+    // 3. Release Year
+    if (preferences.release_year_min != null || preferences.release_year_max != null) {
+        if (!movie.release_date) return false;
+        const releaseYear = parseInt(movie.release_date.substring(0, 4));
+        if (isNaN(releaseYear)) return false;
+        if (preferences.release_year_min != null && releaseYear < preferences.release_year_min) return false;
+        if (preferences.release_year_max != null && releaseYear > preferences.release_year_max) return false;
+    }
+
+    // 4. Runtime
+    if (preferences.duration_min_minutes != null || preferences.duration_max_minutes != null) {
+        if (movie.runtime == null) return false;
+        if (preferences.duration_min_minutes != null && movie.runtime < preferences.duration_min_minutes) return false;
+        if (preferences.duration_max_minutes != null && movie.runtime > preferences.duration_max_minutes) return false;
+    }
+
+    // 5. TMDB Vote Average
+    if (preferences.min_imdb_rating != null && movie.vote_average < preferences.min_imdb_rating) return false;
+
+    // 6. Streaming Provider (only a hard filter when the user asked for "only my services")
+    if (settings.streaming_filter === 'only'
+        && preferences.preferred_streaming_providers && preferences.preferred_streaming_providers.length > 0
+        && preferredProviders.length === 0) {
+        return false;
+    }
+
+    return true;
+}
+
+// The active hard filters, phrased for display; every recommendation has passed all of them
+function describeActiveFilters(preferences: UserMoviePreferences, settings: UserSettings): RecommendationReason[] {
+    const filters: string[] = [];
+    if (preferences.preferred_languages?.length) filters.push(`language ${preferences.preferred_languages.join('/')}`);
+    if (preferences.release_year_min != null || preferences.release_year_max != null) {
+        filters.push(`released ${preferences.release_year_min ?? 'any'}–${preferences.release_year_max ?? 'now'}`);
+    }
+    if (preferences.duration_min_minutes != null || preferences.duration_max_minutes != null) {
+        filters.push(`runtime ${preferences.duration_min_minutes ?? 0}–${preferences.duration_max_minutes ?? '∞'} min`);
+    }
+    if (preferences.min_imdb_rating != null) filters.push(`TMDB rating ≥ ${preferences.min_imdb_rating}`);
+    if (settings.streaming_filter === 'only' && preferences.preferred_streaming_providers?.length) filters.push('on your streaming services');
+    return filters.map(filter => ({ type: 'passed_filter', filter }));
+}
+
+function scoreMovie(
+    movie: Movie,
+    context: MovieScoringContext,
+    preferredProviders: string[]
+): { score: number; reasons: RecommendationReason[]; scoreComponents: ScoreComponent[] } {
+    const { preferences, settings, likedGenres, watchlistGenres } = context;
+    const reasons: RecommendationReason[] = [];
+    const scoreComponents: ScoreComponent[] = [];
+
+    // Explicit genre preferences weigh more than genres inferred from ratings
+    if (preferences.preferred_genres && preferences.preferred_genres.length > 0) {
+        const preferredGenresLower = preferences.preferred_genres.map(g => g.toLowerCase());
+        const matched = movie.genres.filter(g => preferredGenresLower.includes(g.name.toLowerCase())).map(g => g.name);
+        if (matched.length > 0) {
+            reasons.push({ type: 'matched_genres', genres: matched, source: 'preferences' });
+            scoreComponents.push({ label: 'preferred genres', points: matched.length * 5 });
+        }
+    }
+    const matchedLiked = movie.genres.filter(g => likedGenres.includes(g.name)).map(g => g.name);
+    if (matchedLiked.length > 0) {
+        reasons.push({ type: 'matched_genres', genres: matchedLiked, source: 'ratings' });
+        scoreComponents.push({ label: 'genres you rated highly', points: matchedLiked.length });
+    }
+    const matchedWatchlist = movie.genres.filter(g => watchlistGenres.includes(g.name)).map(g => g.name);
+    if (matchedWatchlist.length > 0) {
+        reasons.push({ type: 'matched_genres', genres: matchedWatchlist, source: 'watchlist' });
+        scoreComponents.push({ label: 'like your watchlist', points: matchedWatchlist.length * WATCHLIST_GENRE_SCORE });
+    }
+
+    if (preferredProviders.length > 0) {
+        reasons.push({ type: 'streaming_on', providers: preferredProviders, region: settings.home_region });
+        scoreComponents.push({ label: 'on your services', points: STREAMING_MATCH_SCORE });
+    }
+
+    scoreComponents.push({ label: 'TMDB rating', points: movie.vote_average / 2 });
+    reasons.push(...describeActiveFilters(preferences, settings));
+
+    return { score: scoreComponents.reduce((sum, c) => sum + c.points, 0), reasons, scoreComponents };
+}
+
+// Content-Based: explicit preferences as hard filters, preferred and liked genres as boosts
 async function getContentBasedRecommendations(
     user: User,
-    allMoviesFromDB: Movie[], // Or fetch popular ones not yet rated highly by user
+    context: MovieScoringContext,
+    excludeMovieTmdbIds: Set<number>,
     count: number = 10
-): Promise<Movie[]> {
-    const likedGenres = await getGenresFromUserLikedMovies(user.id, 3.5); // User rated 3.5+/5
-    if (likedGenres.length === 0) {
+): Promise<Recommendation<Movie>[]> {
+    const { preferences, settings, likedGenres, watchlistGenres } = context;
+    if (likedGenres.length === 0 && watchlistGenres.length === 0 && !hasAnyPreferences(preferences)) {
         console.log(chalk.blue("No specific genre preferences found from your ratings yet for content-based filtering."));
-        return []; // Or fallback to general popular movies
+        return [];
     }
-    console.log(chalk.dim(`[Content-Based] Preferred genres: ${likedGenres.join(', ')}`));
+    if (likedGenres.length > 0) console.log(chalk.dim(`[Content-Based] Preferred genres: ${likedGenres.join(', ')}`));
+    if (hasAnyPreferences(preferences)) console.log(chalk.dim(`[Content-Based] Applying saved movie preferences for ${user.name}`));
 
-    const scoredMovies = allMoviesFromDB.map(movie => {
-        let score = 0;
-        movie.genres.forEach(genre => {
-            if (likedGenres.includes(genre.name)) {
-                score += 1; // Simple score increment for each matching genre
-            }
-        });
-        return { movie, score };
-    })
-    .filter(item => item.score > 0)
-    .sort((a, b) => b.score - a.score);
+    const scoredMovies: Recommendation<Movie>[] = [];
+    const seenTmdbIds = new Set<number>();
+    for (let page = 1; page <= MAX_POPULAR_PAGES && scoredMovies.length < count; page++) {
+        const popularTmdb = await getPopularMovies(page);
+        if (!popularTmdb || !popularTmdb.results) break;
+
+        for (const tmdbPopMovie of popularTmdb.results) {
+            if (excludeMovieTmdbIds.has(tmdbPopMovie.id) || seenTmdbIds.has(tmdbPopMovie.id)) continue;
+            seenTmdbIds.add(tmdbPopMovie.id);
+            const candidate = await resolveCandidate(tmdbPopMovie, preferences, settings);
+            if (!candidate || !meetsMovieHardFilters(candidate.movie, preferences, settings, candidate.preferredProviders)) continue;
 
-    return scoredMovies.slice(0, count).map(item => item.movie);
+            // Without explicit preferences, only keep movies that share a genre with the user's favourites or watchlist
+            if (!hasAnyPreferences(preferences)
+                && !candidate.movie.genres.some(g => likedGenres.includes(g.name) || watchlistGenres.includes(g.name))) continue;
+            scoredMovies.push({ item: candidate.movie, ...scoreMovie(candidate.movie, context, candidate.preferredProviders) });
+        }
+        if (page >= popularTmdb.total_pages) break;
+        if (scoredMovies.length < count) console.log(chalk.dim(`[Content-Based] ${scoredMovies.length} matches after page ${page}, fetching more...`));
+    }
+
+    return scoredMovies
+        .sort((a, b) => b.score - a.score)
+        .slice(0, count);
 }
 
+// Local Collaborative: item-item similarity over our own users' ratings (no network needed)
+async function getLocalCollaborativeRecommendations(
+    user: User,
+    context: MovieScoringContext,
+    excludeMovieTmdbIds: Set<number>,
+    count: number
+): Promise<Recommendation<Movie>[]> {
+    const { preferences, settings } = context;
+    const predictions = predictForUser(user.id, await getAllMovieRatings(), new Set(), count * 3);
+    if (predictions.length === 0) {
+        console.log(chalk.blue("No overlap with other users' ratings yet for local collaborative filtering."));
+        return [];
+    }
+    const userNames = new Map((await getAllUsers()).map(u => [u.id, u.name]));
+
+    const recommendations: Recommendation<Movie>[] = [];
+    for (const prediction of predictions) {
+        if (recommendations.length >= count) break;
+        const movie = await getMovieByOurId(prediction.itemId);
+        if (!movie || excludeMovieTmdbIds.has(movie.tmdb_id)) continue;
+        const preferredProviders = await findPreferredProviders(movie, preferences, settings);
+        if (!meetsMovieHardFilters(movie, preferences, settings, preferredProviders)) continue;
+
+        const seedMovies = await Promise.all(prediction.neighbors.slice(0, 2).map(n => getMovieByOurId(n.itemId)));
+        const scored = scoreMovie(movie, context, preferredProviders);
+        recommendations.push({
+            item: movie,
+            score: scored.score,
+            reasons: [{
+                type: 'similar_ratings',
+                titles: seedMovies.filter(m => m).map(m => m!.title),
+                similarUsers: prediction.similarUserIds.slice(0, 3).map(id => userNames.get(id) ?? `User ${id}`),
+                predictedRating: prediction.predictedRating,
+            }, ...scored.reasons],
+            scoreComponents: [{ label: 'predicted rating', points: prediction.predictedRating }, ...scored.scoreComponents],
+        });
+    }
+    return recommendations;
+}
+
+async function loadScoringContext(user: User, preferences: UserMoviePreferences): Promise<MovieScoringContext> {
+    const settings = await getUserSettings(user.id);
+    return {
+        preferences,
+        settings,
+        likedGenres: await getGenresFromUserLikedMovies(user.id, 3.5), // User rated 3.5+/5
+        watchlistGenres: settings.watchlist_boost ? await getGenresFromUserWatchlist(user.id, 'movie') : [],
+    };
+}
 
 export async function getMovieRecommendationsForUser(
     user: User,
+    userPrefs: UserMoviePreferences,
     excludeMovieTmdbIds: Set<number> = new Set(), // TMDB IDs to exclude
     count: number = 5
-): Promise<Movie[]> {
+): Promise<Recommendation<Movie>[]> {
     const userRatings = await getUserMovieRatings(user.id);
-    const recommendations: Movie[] = [];
+    const context = await loadScoringContext(user, userPrefs);
+    // Watched-but-unrated titles would otherwise keep coming back
+    for (const tmdbId of await getWatchedTmdbIds(user.id, 'movie')) excludeMovieTmdbIds.add(tmdbId);
+    const recommendations: Recommendation<Movie>[] = [];
+    const addRecommendation = (rec: Recommendation<Movie>) => {
+        if (recommendations.some(r => r.item.tmdb_id === rec.item.tmdb_id)) return;
+        recommendations.push(rec);
+        excludeMovieTmdbIds.add(rec.item.tmdb_id); // Add to exclude for this run
+    };
+
+    // Phase 2a: Collaborative Filtering (local, from other users of this app)
+    if (userRatings.length >= MIN_RATINGS_FOR_LOCAL_COLLABORATIVE) {
+        console.log(chalk.cyan("\nTrying collaborative filtering (ratings from other users)..."));
+        const localRecs = await getLocalCollaborativeRecommendations(user, context, excludeMovieTmdbIds, count);
+        for (const rec of localRecs) {
+            if (recommendations.length >= count) break;
+            addRecommendation(rec);
+        }
+    }
 
-    // Phase 2: Collaborative Filtering (via TMDB Recommendations API)
-    if (userRatings.length >= MIN_RATINGS_FOR_COLLABORATIVE) {
+    // Phase 2b: Collaborative Filtering (via TMDB Recommendations API)
+    if (recommendations.length < count && userRatings.length >= MIN_RATINGS_FOR_COLLABORATIVE) {
         console.log(chalk.cyan("\nTrying collaborative filtering (TMDB recommendations)..."));
         // Get TMDB recommendations based on user's highest-rated movies
-        const sortedRatings = userRatings.sort((a: { rating: number; }, b: { rating: number; }) => b.rating - a.rating);
-        
+        const sortedRatings = [...userRatings].sort((a, b) => b.rating - a.rating);
+
         for (const ratedMovie of sortedRatings.slice(0, 3)) { // Use top 3 rated movies as seeds
-            // We need movie_tmdb_id from userRatings for this, ensure it's fetched in getUserMovieRatings
-            if (!('movie_tmdb_id' in ratedMovie)) {
-                 console.warn(chalk.yellow("Missing movie_tmdb_id in rating object, cannot fetch TMDB recommendations for it."));
-                 continue;
-            }
-            const tmdbRecs = await getTMDBRecommendations((ratedMovie as any).movie_tmdb_id); // Fetch based on TMDB ID
+            const seedMovie = await getMovieByTmdbId(ratedMovie.movie_tmdb_id);
+            const tmdbRecs = await getTMDBRecommendations(ratedMovie.movie_tmdb_id); // Fetch based on TMDB ID
             if (tmdbRecs && tmdbRecs.results) {
                 for (const tmdbMovie of tmdbRecs.results) {
                     if (recommendations.length >= count) break;
                     if (excludeMovieTmdbIds.has(tmdbMovie.id)) continue;
 
-                    let movieInDb = await getMovieByTmdbId(tmdbMovie.id);
-                    if (!movieInDb) {
-                        movieInDb = await saveMovie(tmdbMovie as TMDBMovie); // Save if not in DB
-                    }
-                    if (movieInDb && !recommendations.find(r => r.tmdb_id === movieInDb!.tmdb_id)) {
-                        recommendations.push(movieInDb);
-                        excludeMovieTmdbIds.add(movieInDb.tmdb_id); // Add to exclude for this run
-                    }
+                    const candidate = await resolveCandidate(tmdbMovie, userPrefs, context.settings);
+                    if (!candidate || !meetsMovieHardFilters(candidate.movie, userPrefs, context.settings, candidate.preferredProviders)) continue;
+                    const scored = scoreMovie(candidate.movie, context, candidate.preferredProviders);
+                    addRecommendation({
+                        item: candidate.movie,
+                        ...scored,
+                        reasons: [
+                            { type: 'seed_title', title: seedMovie?.title ?? `TMDB #${ratedMovie.movie_tmdb_id}`, tmdbId: ratedMovie.movie_tmdb_id },
+                            ...scored.reasons,
+                        ],
+                    });
                 }
             }
             if (recommendations.length >= count) break;
@@ -77,51 +322,126 @@ export async function getMovieRecommendationsForUser(
     }
 
     // Phase 1: Content-Based Filtering (if collaborative didn't yield enough or not applicable)
-    if (recommendations.length < count && userRatings.length > 0) {
+    if (recommendations.length < count && (userRatings.length > 0 || context.watchlistGenres.length > 0 || hasAnyPreferences(userPrefs))) {
         console.log(chalk.cyan("\nTrying content-based filtering..."));
-        // For simplicity, we'd fetch popular movies and filter, or use movies already in DB.
-        // This part needs a source of candidate movies if `allMoviesFromDB` isn't readily available.
-        // Let's assume we fetch some popular ones if our DB is small.
-        const popularTmdb = await getPopularMovies();
-        const candidateMovies: Movie[] = [];
-        if (popularTmdb && popularTmdb.results) {
-            for (const tmdbPopMovie of popularTmdb.results) {
-                if (excludeMovieTmdbIds.has(tmdbPopMovie.id)) continue;
-                let movieInDb = await getMovieByTmdbId(tmdbPopMovie.id);
-                if (!movieInDb) movieInDb = await saveMovie(tmdbPopMovie as TMDBMovie);
-                if (movieInDb) candidateMovies.push(movieInDb);
-            }
-        }
-
-        const contentRecs = await getContentBasedRecommendations(user, candidateMovies, count - recommendations.length);
+        const contentRecs = await getContentBasedRecommendations(user, context, excludeMovieTmdbIds, count - recommendations.length);
         for (const rec of contentRecs) {
             if (recommendations.length >= count) break;
-            if (!recommendations.find(r => r.tmdb_id === rec.tmdb_id) && !excludeMovieTmdbIds.has(rec.tmdb_id)) {
-                recommendations.push(rec);
-                excludeMovieTmdbIds.add(rec.tmdb_id);
-            }
+            if (!excludeMovieTmdbIds.has(rec.item.tmdb_id)) addRecommendation(rec);
         }
     }
 
-    // Fallback: Popular Movies (if still not enough recommendations)
+    // Fallback: Popular Movies (if still not enough recommendations); hard filters still apply
     if (recommendations.length < count) {
         console.log(chalk.cyan("\nFalling back to popular movies..."));
-        const popularTmdb = await getPopularMovies();
-        if (popularTmdb && popularTmdb.results) {
+        for (let page = 1; page <= MAX_POPULAR_PAGES && recommendations.length < count; page++) {
+            const popularTmdb = await getPopularMovies(page);
+            if (!popularTmdb || !popularTmdb.results) break;
             for (const tmdbMovie of popularTmdb.results) {
                 if (recommendations.length >= count) break;
                 if (excludeMovieTmdbIds.has(tmdbMovie.id)) continue;
 
-                let movieInDb = await getMovieByTmdbId(tmdbMovie.id);
-                if (!movieInDb) {
-                     movieInDb = await saveMovie(tmdbMovie as TMDBMovie);
-                }
-                if (movieInDb && !recommendations.find(r => r.tmdb_id === movieInDb!.tmdb_id)) {
-                    recommendations.push(movieInDb);
-                    excludeMovieTmdbIds.add(movieInDb.tmdb_id);
-                }
+                const candidate = await resolveCandidate(tmdbMovie, userPrefs, context.settings);
+                if (!candidate || !meetsMovieHardFilters(candidate.movie, userPrefs, context.settings, candidate.preferredProviders)) continue;
+                const scored = scoreMovie(candidate.movie, context, candidate.preferredProviders);
+                addRecommendation({ item: candidate.movie, ...scored, reasons: [{ type: 'popular_fallback' }, ...scored.reasons] });
             }
+            if (page >= popularTmdb.total_pages) break;
         }
     }
     return recommendations.slice(0, count);
-}
\ No newline at end of file
+}
+
+// The preferences a whole group has to agree on; genres and streaming services stay per member
+export type GroupMovieConstraints = Pick<UserMoviePreferences,
+    'preferred_languages' | 'release_year_min' | 'release_year_max' | 'duration_min_minutes' | 'duration_max_minutes' | 'min_imdb_rating'>;
+
+// Narrows an optional [min, max] range to what every member accepts; undefined bounds are open
+function intersectRanges(ranges: [number | undefined, number | undefined][]): [number | undefined, number | undefined] | null {
+    const mins = ranges.map(r => r[0]).filter((v): v is number => v != null);
+    const maxes = ranges.map(r => r[1]).filter((v): v is number => v != null);
+    const min = mins.length > 0 ? Math.max(...mins) : undefined;
+    const max = maxes.length > 0 ? Math.min(...maxes) : undefined;
+    return min !== undefined && max !== undefined && min > max ? null : [min, max];
+}
+
+/**
+ * Merges members' hard filters: only languages everyone accepts, the overlap of the year and
+ * runtime ranges, and the strictest rating floor. A constraint that can't be satisfied by
+ * everyone (no shared language, ranges that don't overlap) is dropped and reported instead.
+ */
+export function mergeGroupMovieConstraints(preferences: UserMoviePreferences[]): { constraints: GroupMovieConstraints; conflicts: string[] } {
+    // Every key is set, even to undefined, so spreading this over a member's preferences replaces theirs
+    const constraints: GroupMovieConstraints = { preferred_languages: undefined };
+    const conflicts: string[] = [];
+
+    const languageLists = preferences
+        .map(p => (p.preferred_languages ?? []).map(l => l.toLowerCase()))
+        .filter(languages => languages.length > 0);
+    if (languageLists.length > 0) {
+        const shared = languageLists.reduce((acc, languages) => acc.filter(l => languages.includes(l)));
+        if (shared.length > 0) constraints.preferred_languages = shared;
+        else conflicts.push(`No language everyone accepts (${languageLists.map(l => l.join('/')).join(' vs ')}); ignoring languages.`);
+    }
+
+    const years = intersectRanges(preferences.map(p => [p.release_year_min, p.release_year_max]));
+    if (!years) conflicts.push('Release year ranges don\'t overlap; ignoring them.');
+    [constraints.release_year_min, constraints.release_year_max] = years ?? [undefined, undefined];
+
+    const durations = intersectRanges(preferences.map(p => [p.duration_min_minutes, p.duration_max_minutes]));
+    if (!durations) conflicts.push('Runtime ranges don\'t overlap; ignoring them.');
+    [constraints.duration_min_minutes, constraints.duration_max_minutes] = durations ?? [undefined, undefined];
+
+    const ratingFloors = preferences.map(p => p.min_imdb_rating).filter((v): v is number => v != null);
+    constraints.min_imdb_rating = ratingFloors.length > 0 ? Math.max(...ratingFloors) : undefined;
+
+    return { constraints, conflicts };
+}
+
+/**
+ * Movie night for several users. Every member's own pipeline (with the group's merged hard
+ * filters) proposes candidates, nothing anyone has rated or watched is proposed, and then each
+ * member scores every candidate with their own genres, watchlist and services. A candidate that
+ * fails a member's own genre or streaming filter gets no score from them, which counts as a 0 fit.
+ */
+export async function getGroupMovieRecommendations(
+    members: { user: User; prefs: UserMoviePreferences }[],
+    strategy: GroupStrategy = 'average',
+    count: number = 5
+): Promise<{ recommendations: GroupRecommendation<Movie>[]; conflicts: string[] }> {
+    const { constraints, conflicts } = mergeGroupMovieConstraints(members.map(m => m.prefs));
+    const excludeTmdbIds = new Set<number>();
+    for (const { user } of members) {
+        for (const rating of await getUserMovieRatings(user.id)) excludeTmdbIds.add(rating.movie_tmdb_id);
+        for (const tmdbId of await getWatchedTmdbIds(user.id, 'movie')) excludeTmdbIds.add(tmdbId);
+    }
+
+    const candidates = new Map<number, Movie>();
+    const groupMembers = members.map(({ user, prefs }) => ({ user, prefs: { ...prefs, ...constraints } }));
+    for (const { user, prefs } of groupMembers) {
+        console.log(chalk.cyan(`\n[Group] Candidates for ${user.name}...`));
+        const recs = await getMovieRecommendationsForUser(user, prefs, new Set(excludeTmdbIds), count);
+        for (const rec of recs) candidates.set(rec.item.tmdb_id, rec.item);
+    }
+
+    const memberScores: { user: User; scores: MemberScores }[] = [];
+    const contexts: MovieScoringContext[] = [];
+    for (const { user, prefs } of groupMembers) {
+        const context = await loadScoringContext(user, prefs);
+        contexts.push(context);
+        const scores: MemberScores = new Map();
+        for (const movie of candidates.values()) {
+            const preferredProviders = await findPreferredProviders(movie, prefs, context.settings);
+            if (!meetsMovieHardFilters(movie, prefs, context.settings, preferredProviders)) continue;
+            scores.set(movie.tmdb_id, scoreMovie(movie, context, preferredProviders));
+        }
+        memberScores.push({ user, scores });
+    }
+
+    // Without streaming providers in it, the settings only matter to describeActiveFilters' signature
+    const sharedReasons = contexts[0] ? describeActiveFilters({ user_id: 0, ...constraints }, contexts[0].settings) : [];
+    const recommendations = rankForGroup([...candidates].map(([key, item]) => ({ key, item })), memberScores, strategy)
+        .slice(0, count)
+        .map(rec => ({ ...rec, reasons: sharedReasons }));
+    return { recommendations, conflicts };
+}
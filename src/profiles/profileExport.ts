@@ -0,0 +1,66 @@
+// src/profiles/profileExport.ts
+// Builds a portable JSON snapshot of one user (see types.ts for the format).
+import type { UserProfileExport, ExportedRestaurantLike, ExportedRestaurantFeedback } from './types';
+import { PROFILE_FORMAT, PROFILE_FORMAT_VERSION } from './types';
+import { getUserById } from '../db/setup';
+import { getUserSettings } from '../db/userSettingsDb';
+import { getUserMoviePreferences } from '../db/movieDb';
+import { getUserTvShowPreferences } from '../db/tvShowDb';
+import { getUserRestaurantPreferences, getRestaurantById, getRestaurantByGooglePlaceId } from '../db/restaurantDb';
+import {
+    getMovieRatingsForExport, getTvShowRatingsForExport, getEpisodeProgressForExport,
+    getRestaurantLikesForExport, getRestaurantFeedbackForExport,
+} from '../db/profileDb';
+import { getWatchlist, getWatched } from '../db/watchlistDb';
+
+function withoutUserId<T extends { user_id: number }>(row: T | undefined): Omit<T, 'user_id'> | undefined {
+    if (!row) return undefined;
+    const { user_id: _userId, ...rest } = row;
+    return rest;
+}
+
+export async function exportUserProfile(userId: number): Promise<UserProfileExport | undefined> {
+    const user = await getUserById(userId);
+    if (!user) return undefined;
+
+    const restaurantLikes: ExportedRestaurantLike[] = [];
+    for (const like of await getRestaurantLikesForExport(userId)) {
+        const restaurant = await getRestaurantById(like.restaurant_id);
+        if (!restaurant) continue;
+        const { id: _id, ...record } = restaurant;
+        restaurantLikes.push({ restaurant: record, liked_at: like.liked_at });
+    }
+
+    const likedPlaceIds = new Set(restaurantLikes.map(like => like.restaurant.googlePlaceId));
+    const restaurantFeedback: ExportedRestaurantFeedback[] = [];
+    for (const entry of await getRestaurantFeedbackForExport(userId)) {
+        const restaurant = likedPlaceIds.has(entry.googlePlaceId) ? undefined : await getRestaurantByGooglePlaceId(entry.googlePlaceId);
+        if (!restaurant) {
+            restaurantFeedback.push(entry);
+            continue;
+        }
+        const { id: _id, ...record } = restaurant;
+        restaurantFeedback.push({ ...entry, restaurant: record });
+    }
+
+    return {
+        format: PROFILE_FORMAT,
+        version: PROFILE_FORMAT_VERSION,
+        exportedAt: new Date().toISOString(),
+        user: { name: user.name },
+        settings: withoutUserId(await getUserSettings(userId)),
+        moviePreferences: withoutUserId(await getUserMoviePreferences(userId)),
+        tvShowPreferences: withoutUserId(await getUserTvShowPreferences(userId)),
+        restaurantPreferences: withoutUserId(await getUserRestaurantPreferences(userId)),
+        movieRatings: await getMovieRatingsForExport(userId),
+        tvShowRatings: await getTvShowRatingsForExport(userId),
+        // Oldest first, like the ratings, so an import recreates them in the same order
+        watchlist: (await getWatchlist(userId)).reverse()
+            .map(({ media_type, tmdb_id, title, added_at }) => ({ media_type, tmdb_id, title, added_at })),
+        watched: (await getWatched(userId)).reverse()
+            .map(({ media_type, tmdb_id, title, added_at }) => ({ media_type, tmdb_id, title, watched_at: added_at })),
+        episodeProgress: await getEpisodeProgressForExport(userId),
+        restaurantLikes,
+        restaurantFeedback,
+    };
+}
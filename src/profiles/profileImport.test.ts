@@ -0,0 +1,201 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import type { TMDBMovie, TMDBTvShow } from '../common/tmdbService';
+import type { Restaurant } from '../restaurants/types';
+import type { UserProfileExport } from './types';
+import { ProfileImportError } from './types';
+import { IN_MEMORY_DB_PATH } from '../common/config';
+import { closeDB, ensureUser, initDB } from '../db/setup';
+import { getMovieByTmdbId, saveMovie, saveUserMoviePreferences, saveUserMovieRating } from '../db/movieDb';
+import { getTvShowByTmdbId, saveTvShow, saveUserTvShowRating } from '../db/tvShowDb';
+import { markWatched } from '../db/watchlistDb';
+import { getTvShowEpisodes, markEpisodesWatched, saveTvEpisodes } from '../db/episodeDb';
+import { getRestaurantByGooglePlaceId, saveRestaurantToDb, saveUserRestaurantPreferences } from '../db/restaurantDb';
+import { importRestaurantFeedback, importRestaurantLike, importWatchlistEntry } from '../db/profileDb';
+import { exportUserProfile } from './profileExport';
+import { importUserProfile, parseUserProfile } from './profileImport';
+
+function movie(id: number, title: string): TMDBMovie {
+    return {
+        id, title, overview: '', release_date: '1999-03-31', vote_average: 8, vote_count: 1000,
+        poster_path: null, backdrop_path: null, genres: [{ id: 878, name: 'Science Fiction' }], original_language: 'en',
+    };
+}
+
+function show(id: number, name: string): TMDBTvShow {
+    return {
+        id, name, overview: '', first_air_date: '2008-01-20', vote_average: 9, vote_count: 1000,
+        poster_path: null, backdrop_path: null, genres: [{ id: 18, name: 'Drama' }], original_language: 'en',
+    };
+}
+
+function episode(season: number, number: number) {
+    return {
+        id: season * 100 + number, season_number: season, episode_number: number, name: `Episode ${number}`,
+        air_date: '2008-01-20', overview: '', still_path: null, vote_average: 8, vote_count: 10,
+    };
+}
+
+const TRATTORIA: Omit<Restaurant, 'id'> = {
+    googlePlaceId: 'place-trattoria', name: 'Trattoria', address: '1 High St', cuisines: ['Italian'], dietaryOptions: ['vegetarian'],
+    rating: 4.5, userRatingsTotal: 320, priceLevel: 2, latitude: 51.5, longitude: -0.12, businessStatus: 'OPERATIONAL',
+    openingHours: [{ openDay: 1, openMinute: 720, closeDay: 1, closeMinute: 1320 }], timeZone: 'Europe/London',
+};
+const NOODLE_BAR: Omit<Restaurant, 'id'> = {
+    googlePlaceId: 'place-noodles', name: 'Noodle Bar', address: '2 Low St', cuisines: ['Chinese'], dietaryOptions: [], rating: 4.1,
+};
+
+// Titles and episodes every database in these tests has, so nothing is fetched from TMDB.
+// `extra` saves another movie first, so internal IDs differ from the exporting database's.
+async function seedCatalogue(extra = false): Promise<void> {
+    if (extra) await saveMovie(movie(13, 'Forrest Gump'));
+    await saveMovie(movie(603, 'The Matrix'));
+    await saveMovie(movie(550, 'Fight Club'));
+    const breakingBad = (await saveTvShow(show(1396, 'Breaking Bad')))!;
+    await saveTvEpisodes(breakingBad.id, [episode(1, 1), episode(1, 2), episode(1, 3)]);
+}
+
+async function movieId(tmdbId: number): Promise<number> {
+    return (await getMovieByTmdbId(tmdbId))!.id;
+}
+
+// Alice with some of everything a profile holds
+async function seedAlice(): Promise<number> {
+    const alice = (await ensureUser('Alice'))!;
+    await saveUserMoviePreferences({ user_id: alice.id, preferred_genres: ['Science Fiction'], preferred_languages: ['en'], min_imdb_rating: 7 });
+    await saveUserRestaurantPreferences({ user_id: alice.id, favoriteCuisines: ['Italian'], dietaryRestrictions: ['vegetarian'], minRating: 4, maxPriceLevel: 3 });
+
+    await saveUserMovieRating(alice.id, await movieId(603), 5, '2024-01-01 10:00:00');
+    await saveUserMovieRating(alice.id, await movieId(550), 3, '2024-01-02 10:00:00');
+    const breakingBad = (await getTvShowByTmdbId(1396))!;
+    await saveUserTvShowRating(alice.id, breakingBad.id, 4, '2024-01-03 10:00:00');
+    await importWatchlistEntry(alice.id, 'movie', await movieId(550), '2024-02-01 10:00:00');
+    await markWatched(alice.id, 'movie', await movieId(603), '2024-02-02 10:00:00');
+    const [first, second] = await getTvShowEpisodes(breakingBad.id);
+    await markEpisodesWatched(alice.id, [first!.id, second!.id], '2024-02-03 10:00:00');
+
+    const trattoria = (await saveRestaurantToDb(TRATTORIA))!;
+    const noodleBar = (await saveRestaurantToDb(NOODLE_BAR))!;
+    await importRestaurantLike(alice.id, trattoria.id, '2024-03-01 19:00:00');
+    await importRestaurantFeedback(alice.id, noodleBar.id, 'dislike', '2024-03-02 19:00:00');
+    return alice.id;
+}
+
+// What a file written and read back would hold
+function asFile(profile: UserProfileExport | undefined): UserProfileExport {
+    return parseUserProfile(JSON.parse(JSON.stringify(profile)));
+}
+
+function withoutExportTime({ exportedAt: _exportedAt, ...profile }: UserProfileExport) {
+    return profile;
+}
+
+async function freshDatabase(): Promise<void> {
+    await closeDB();
+    await initDB({ config: { dbPath: IN_MEMORY_DB_PATH } });
+}
+
+let exported: UserProfileExport;
+
+beforeEach(async () => {
+    spyOn(console, 'log').mockImplementation(() => {});
+    await initDB({ config: { dbPath: IN_MEMORY_DB_PATH } });
+    await seedCatalogue();
+    exported = asFile(await exportUserProfile(await seedAlice()));
+    await freshDatabase();
+    await seedCatalogue(true);
+});
+
+afterEach(async () => {
+    await closeDB();
+});
+
+describe('importUserProfile', () => {
+    test('recreates an exported profile in another database', async () => {
+        const result = await importUserProfile(exported);
+        expect(result).toMatchObject({
+            created: true, movieRatings: 2, tvShowRatings: 1, watchlist: 1, watched: 1, episodes: 2, restaurantLikes: 1, restaurantFeedback: 1, skipped: [],
+        });
+        expect(withoutExportTime(asFile(await exportUserProfile(result.user.id)))).toEqual(withoutExportTime(exported));
+    });
+
+    test('matches titles by TMDB ID and restaurants by Google place ID, whatever their IDs here', async () => {
+        await saveRestaurantToDb({ ...NOODLE_BAR, googlePlaceId: 'place-other', name: 'Other' }); // Takes the first restaurant ID
+        const localTrattoria = (await saveRestaurantToDb(TRATTORIA))!;
+        const result = await importUserProfile(exported);
+
+        const reexported = asFile(await exportUserProfile(result.user.id));
+        expect(reexported.movieRatings.map(r => [r.tmdb_id, r.rating])).toEqual([[603, 5], [550, 3]]);
+        expect(await movieId(603)).not.toBe(1); // Forrest Gump took the first ID
+        expect((await getRestaurantByGooglePlaceId('place-trattoria'))!.id).toBe(localTrattoria.id);
+        expect(await getRestaurantByGooglePlaceId('place-noodles')).toMatchObject(NOODLE_BAR);
+    });
+
+    test('skips entries it cannot use and imports the rest', async () => {
+        const result = await importUserProfile({
+            ...exported,
+            movieRatings: [...exported.movieRatings, { tmdb_id: 603, title: 'The Matrix', rating: 9, rated_at: '2024-01-01' }],
+            episodeProgress: [...exported.episodeProgress, { tmdb_id: 1396, title: 'Breaking Bad', season_number: 1, episode_number: 0, watched_at: '2024-01-01' }],
+        });
+        expect(result.movieRatings).toBe(2);
+        expect(result.episodes).toBe(2);
+        expect(result.skipped).toHaveLength(2);
+        expect(result.skipped[0]).toStartWith('movie rating {"tmdb_id":603');
+        expect(result.skipped[1]).toEndWith('needs a show TMDB ID, season_number and episode_number');
+    });
+
+    describe('when the user already exists', () => {
+        let existingId: number;
+
+        beforeEach(async () => {
+            existingId = (await ensureUser('Alice'))!.id;
+            await saveUserMovieRating(existingId, await movieId(550), 5, '2023-06-01 10:00:00');
+            await saveUserMovieRating(existingId, await movieId(13), 4, '2023-06-02 10:00:00');
+        });
+
+        async function ratings(): Promise<[number, number][]> {
+            return (await exportUserProfile(existingId))!.movieRatings.map(r => [r.tmdb_id, r.rating]);
+        }
+
+        test('fails by default and changes nothing', async () => {
+            const error = await importUserProfile(exported).catch(e => e);
+            expect(error).toBeInstanceOf(ProfileImportError);
+            expect(error.reason).toBe('conflict');
+            expect(await ratings()).toEqual([[550, 5], [13, 4]]);
+        });
+
+        test('merges, with the imported ratings winning where both have one', async () => {
+            const result = await importUserProfile(exported, { onConflict: 'merge' });
+            expect(result).toMatchObject({ created: false, user: { id: existingId } });
+            expect(await ratings()).toEqual([[13, 4], [603, 5], [550, 3]]); // Oldest rating first
+        });
+
+        test('replaces everything the user had with the file', async () => {
+            const result = await importUserProfile(exported, { onConflict: 'replace' });
+            expect(result.created).toBe(false);
+            expect(withoutExportTime(asFile(await exportUserProfile(existingId)))).toEqual(withoutExportTime(exported));
+        });
+
+        test('imports under another name without touching the existing user', async () => {
+            const result = await importUserProfile(exported, { userName: 'Alice (imported)' });
+            expect(result.created).toBe(true);
+            expect(result.user.name).toBe('Alice (imported)');
+            expect(await ratings()).toEqual([[550, 5], [13, 4]]);
+        });
+    });
+});
+
+describe('parseUserProfile', () => {
+    test('reads version 1 files, which have no watch lists or episode progress', () => {
+        const { watchlist: _w, watched: _d, episodeProgress: _e, ...versionOne } = exported;
+        const parsed = parseUserProfile({ ...versionOne, version: 1 });
+        expect(parsed.watchlist).toEqual([]);
+        expect(parsed.episodeProgress).toEqual([]);
+        expect(parsed.movieRatings).toEqual(exported.movieRatings);
+    });
+
+    test('rejects other files and newer versions', () => {
+        expect(() => parseUserProfile({ format: 'something-else' })).toThrow(ProfileImportError);
+        expect(() => parseUserProfile({ ...exported, version: 99 })).toThrow('Unsupported profile version 99');
+        expect(() => parseUserProfile({ ...exported, movieRatings: {} })).toThrow('"movieRatings" must be an array.');
+    });
+});
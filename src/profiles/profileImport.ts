@@ -0,0 +1,373 @@
+// src/profiles/profileImport.ts
+// Loads a profile written by exportUserProfile into this database. Titles are matched
+// by TMDB ID (fetched from TMDB if we've never stored them) and restaurants by
+// Google place ID, so internal IDs in the source database don't matter.
+import chalk from 'chalk';
+import type { MediaType, UserSettings } from '../common/types';
+import type { UserMoviePreferences } from '../movies/types';
+import type { UserTvShowPreferences } from '../tvshows/types';
+import type { Restaurant, OpeningPeriod, RestaurantFeedbackType, RestaurantUserPreferences } from '../restaurants/types';
+import type {
+    UserProfileExport, ExportedTitleRating, ExportedWatchlistEntry, ExportedWatchedEntry, ExportedEpisodeProgress,
+    ExportedRestaurantLike, ExportedRestaurantFeedback, ProfileImportOptions, ProfileImportResult,
+} from './types';
+import { PROFILE_FORMAT, PROFILE_FORMAT_VERSION, ProfileImportError } from './types';
+import { ensureUser, getUserByName, withTransaction } from '../db/setup';
+import { saveUserSettings } from '../db/userSettingsDb';
+import { getMovieByTmdbId, saveMovie, saveUserMoviePreferences, saveUserMovieRating } from '../db/movieDb';
+import { getTvShowByTmdbId, getTvShowByOurId, saveTvShow, saveUserTvShowPreferences, saveUserTvShowRating } from '../db/tvShowDb';
+import { markWatched } from '../db/watchlistDb';
+import { getRestaurantByGooglePlaceId, saveRestaurantToDb, saveUserRestaurantPreferences } from '../db/restaurantDb';
+import { clearUserProfileData, importRestaurantFeedback, importRestaurantLike, importWatchlistEntry } from '../db/profileDb';
+import { getMovieDetails, getTvShowDetails } from '../common/tmdbService';
+import { parseBusinessStatus } from '../restaurants/openingHours';
+import { isPriceLevel } from '../restaurants/priceLevel';
+import { findEpisode, formatEpisodeCode } from '../tvshows/episodeProgress';
+import { markEpisodesWatched } from '../db/episodeDb';
+
+const FEEDBACK_TYPES: readonly RestaurantFeedbackType[] = ['like', 'dislike', 'skip', 'visited'];
+
+// --- Field helpers: the file is user-editable, so nothing is trusted ---
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function stringArray(value: unknown): string[] | undefined {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : undefined;
+}
+
+function finiteNumber(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function isTmdbId(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+function isMediaType(value: unknown): value is MediaType {
+    return value === 'movie' || value === 'tv';
+}
+
+function countOrUndefined(value: unknown): number | undefined {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 ? value : undefined;
+}
+
+// Exported opening periods, dropping any that don't fit the restaurant_opening_hours checks
+function openingPeriods(value: unknown): OpeningPeriod[] | undefined {
+    if (!Array.isArray(value)) return undefined;
+    const isDay = (day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6;
+    const isMinute = (minute: unknown) => Number.isInteger(minute) && (minute as number) >= 0 && (minute as number) < 24 * 60;
+    const periods = value.filter(isRecord)
+        .filter(p => isDay(p.openDay) && isMinute(p.openMinute)
+            && (p.closeDay === undefined ? p.closeMinute === undefined : isDay(p.closeDay) && isMinute(p.closeMinute)))
+        .map(p => p as unknown as OpeningPeriod);
+    return periods.length > 0 ? periods : undefined;
+}
+
+/**
+ * Normalizes a date or date-time to SQLite's "YYYY-MM-DD HH:MM:SS" (UTC), the format
+ * CURRENT_TIMESTAMP writes. Returns undefined for anything unparseable.
+ */
+export function toSqliteTimestamp(value: unknown): string | undefined {
+    if (typeof value !== 'string' || !value.trim()) return undefined;
+    const text = value.trim();
+    if (/^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(text)) return text;
+    const date = new Date(/^\d{4}-\d{2}-\d{2}$/.test(text) ? `${text}T00:00:00Z` : text);
+    if (Number.isNaN(date.getTime())) return undefined;
+    return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+export function isValidRating(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= 5;
+}
+
+/** Our internal ID for a title, saving it from TMDB first if this database hasn't seen it. */
+export async function ensureTitleSaved(mediaType: MediaType, tmdbId: number): Promise<number | undefined> {
+    if (mediaType === 'movie') {
+        const existing = await getMovieByTmdbId(tmdbId);
+        if (existing) return existing.id;
+        const details = await getMovieDetails(tmdbId);
+        return details ? (await saveMovie(details))?.id : undefined;
+    }
+    const existing = await getTvShowByTmdbId(tmdbId);
+    if (existing) return existing.id;
+    const details = await getTvShowDetails(tmdbId);
+    return details ? (await saveTvShow(details))?.id : undefined;
+}
+
+/** Checks the envelope of a parsed profile file. Individual entries are validated on import. */
+export function parseUserProfile(data: unknown): UserProfileExport {
+    if (!isRecord(data) || data.format !== PROFILE_FORMAT) {
+        throw new ProfileImportError(`Not a profile export (expected "format": "${PROFILE_FORMAT}").`);
+    }
+    if (typeof data.version !== 'number' || data.version > PROFILE_FORMAT_VERSION) {
+        throw new ProfileImportError(`Unsupported profile version ${String(data.version)}; this app reads up to ${PROFILE_FORMAT_VERSION}.`);
+    }
+    if (!isRecord(data.user) || typeof data.user.name !== 'string' || !data.user.name.trim()) {
+        throw new ProfileImportError('Profile is missing user.name.');
+    }
+    for (const key of ['movieRatings', 'tvShowRatings', 'watchlist', 'watched', 'episodeProgress', 'restaurantLikes', 'restaurantFeedback'] as const) {
+        if (data[key] !== undefined && !Array.isArray(data[key])) throw new ProfileImportError(`"${key}" must be an array.`);
+    }
+    return {
+        ...(data as unknown as UserProfileExport),
+        movieRatings: (data.movieRatings as ExportedTitleRating[] | undefined) ?? [],
+        tvShowRatings: (data.tvShowRatings as ExportedTitleRating[] | undefined) ?? [],
+        // Not in version 1 files
+        watchlist: (data.watchlist as ExportedWatchlistEntry[] | undefined) ?? [],
+        watched: (data.watched as ExportedWatchedEntry[] | undefined) ?? [],
+        episodeProgress: (data.episodeProgress as ExportedEpisodeProgress[] | undefined) ?? [],
+        restaurantLikes: (data.restaurantLikes as ExportedRestaurantLike[] | undefined) ?? [],
+        restaurantFeedback: (data.restaurantFeedback as ExportedRestaurantFeedback[] | undefined) ?? [],
+    };
+}
+
+/** The local restaurant for a place ID, saving it from the exported record if it isn't here yet. */
+async function findOrSaveRestaurant(googlePlaceId: string, record: Record<string, unknown> | undefined): Promise<Restaurant | undefined> {
+    const existing = await getRestaurantByGooglePlaceId(googlePlaceId);
+    if (existing || !record || typeof record.name !== 'string') return existing;
+    return saveRestaurantToDb({
+        googlePlaceId,
+        name: record.name,
+        address: typeof record.address === 'string' ? record.address : 'Address N/A',
+        cuisines: stringArray(record.cuisines) ?? [],
+        dietaryOptions: stringArray(record.dietaryOptions) ?? [],
+        rating: finiteNumber(record.rating) ?? 0,
+        userRatingsTotal: countOrUndefined(record.userRatingsTotal),
+        priceLevel: isPriceLevel(record.priceLevel) ? record.priceLevel : undefined,
+        latitude: finiteNumber(record.latitude),
+        longitude: finiteNumber(record.longitude),
+        businessStatus: parseBusinessStatus(record.businessStatus),
+        openingHours: openingPeriods(record.openingHours),
+        timeZone: typeof record.timeZone === 'string' ? record.timeZone : undefined,
+        utcOffsetMinutes: finiteNumber(record.utcOffsetMinutes),
+    });
+}
+
+async function importPreferences(userId: number, profile: UserProfileExport): Promise<void> {
+    const settings = profile.settings;
+    if (isRecord(settings)) {
+        const region = typeof settings.home_region === 'string' && /^[a-z]{2}$/i.test(settings.home_region) ? settings.home_region : 'US';
+        const filter: UserSettings['streaming_filter'] = settings.streaming_filter === 'only' ? 'only' : 'rank';
+        await saveUserSettings({ user_id: userId, home_region: region, streaming_filter: filter, watchlist_boost: settings.watchlist_boost !== false });
+    }
+    const movie = profile.moviePreferences;
+    if (isRecord(movie)) {
+        const prefs: UserMoviePreferences = {
+            user_id: userId,
+            preferred_genres: stringArray(movie.preferred_genres),
+            preferred_languages: stringArray(movie.preferred_languages),
+            release_year_min: finiteNumber(movie.release_year_min),
+            release_year_max: finiteNumber(movie.release_year_max),
+            duration_min_minutes: finiteNumber(movie.duration_min_minutes),
+            duration_max_minutes: finiteNumber(movie.duration_max_minutes),
+            min_imdb_rating: finiteNumber(movie.min_imdb_rating),
+            preferred_streaming_providers: stringArray(movie.preferred_streaming_providers),
+        };
+        await saveUserMoviePreferences(prefs);
+    }
+    const tv = profile.tvShowPreferences;
+    if (isRecord(tv)) {
+        const prefs: UserTvShowPreferences = {
+            user_id: userId,
+            preferred_genres: stringArray(tv.preferred_genres),
+            preferred_languages: stringArray(tv.preferred_languages),
+            first_air_year_min: finiteNumber(tv.first_air_year_min),
+            first_air_year_max: finiteNumber(tv.first_air_year_max),
+            avg_episode_duration_min: finiteNumber(tv.avg_episode_duration_min),
+            avg_episode_duration_max: finiteNumber(tv.avg_episode_duration_max),
+            min_imdb_rating: finiteNumber(tv.min_imdb_rating),
+            preferred_streaming_providers: stringArray(tv.preferred_streaming_providers),
+        };
+        await saveUserTvShowPreferences(prefs);
+    }
+    const restaurant = profile.restaurantPreferences;
+    if (isRecord(restaurant)) {
+        const prefs: RestaurantUserPreferences = {
+            user_id: userId,
+            favoriteCuisines: stringArray(restaurant.favoriteCuisines) ?? [],
+            dietaryRestrictions: stringArray(restaurant.dietaryRestrictions) ?? [],
+            minRating: finiteNumber(restaurant.minRating) ?? 3.0,
+            minPriceLevel: isPriceLevel(restaurant.minPriceLevel) ? restaurant.minPriceLevel : undefined,
+            maxPriceLevel: isPriceLevel(restaurant.maxPriceLevel) ? restaurant.maxPriceLevel : undefined,
+        };
+        await saveUserRestaurantPreferences(prefs);
+    }
+}
+
+// Title entries checked and matched to our title and episode IDs, ready to write
+interface ResolvedTitleEntries {
+    movieRatings: { titleId: number; rating: number; ratedAt?: string }[];
+    tvShowRatings: { titleId: number; rating: number; ratedAt?: string }[];
+    watchlist: { mediaType: MediaType; titleId: number; addedAt?: string }[];
+    watched: { mediaType: MediaType; titleId: number; watchedAt?: string }[];
+    episodes: { episodeId: number; watchedAt?: string }[];
+}
+
+async function resolveTitleRatings(
+    mediaType: MediaType,
+    ratings: ExportedTitleRating[],
+    skipped: string[]
+): Promise<ResolvedTitleEntries['movieRatings']> {
+    const resolved: ResolvedTitleEntries['movieRatings'] = [];
+    for (const entry of ratings) {
+        const tmdbId = isRecord(entry) ? entry.tmdb_id : undefined;
+        if (!isTmdbId(tmdbId) || !isValidRating(entry.rating)) {
+            skipped.push(`${mediaType} rating ${JSON.stringify(entry)}: needs a TMDB ID and a 1-5 rating`);
+            continue;
+        }
+        const titleId = await ensureTitleSaved(mediaType, tmdbId);
+        if (!titleId) {
+            skipped.push(`${mediaType} ${tmdbId} (${entry.title ?? 'unknown title'}): not found on TMDB`);
+            continue;
+        }
+        resolved.push({ titleId, rating: entry.rating, ratedAt: toSqliteTimestamp(entry.rated_at) });
+    }
+    return resolved;
+}
+
+// Our ID for a watchlist or watched-list entry's title, or undefined (with the reason added to `skipped`)
+async function resolveListEntry(list: string, entry: unknown, skipped: string[]): Promise<{ mediaType: MediaType; titleId: number } | undefined> {
+    if (!isRecord(entry) || !isMediaType(entry.media_type) || !isTmdbId(entry.tmdb_id)) {
+        skipped.push(`${list} entry ${JSON.stringify(entry)}: needs a media_type of movie or tv and a TMDB ID`);
+        return undefined;
+    }
+    const titleId = await ensureTitleSaved(entry.media_type, entry.tmdb_id);
+    if (!titleId) {
+        skipped.push(`${entry.media_type} ${entry.tmdb_id} (${entry.title ?? 'unknown title'}): not found on TMDB`);
+        return undefined;
+    }
+    return { mediaType: entry.media_type, titleId };
+}
+
+// Episodes are matched by season and episode number, syncing the show's episode list from TMDB as needed
+async function resolveEpisodeProgress(entries: ExportedEpisodeProgress[], skipped: string[]): Promise<ResolvedTitleEntries['episodes']> {
+    const resolved: ResolvedTitleEntries['episodes'] = [];
+    for (const entry of entries) {
+        if (!isRecord(entry) || !isTmdbId(entry.tmdb_id) || countOrUndefined(entry.season_number) === undefined || (countOrUndefined(entry.episode_number) ?? 0) < 1) {
+            skipped.push(`episode ${JSON.stringify(entry)}: needs a show TMDB ID, season_number and episode_number`);
+            continue;
+        }
+        const showId = await ensureTitleSaved('tv', entry.tmdb_id);
+        const show = showId ? await getTvShowByOurId(showId) : undefined;
+        if (!show) {
+            skipped.push(`tv ${entry.tmdb_id} (${entry.title ?? 'unknown title'}): not found on TMDB`);
+            continue;
+        }
+        const episode = await findEpisode(show, entry.season_number, entry.episode_number);
+        if (!episode) {
+            skipped.push(`${show.name} ${formatEpisodeCode(entry)}: no such episode on TMDB`);
+            continue;
+        }
+        resolved.push({ episodeId: episode.id, watchedAt: toSqliteTimestamp(entry.watched_at) });
+    }
+    return resolved;
+}
+
+/**
+ * Checks every title entry and matches it to this database, fetching titles and episode
+ * lists from TMDB where needed. Runs before the import's transaction so no network call
+ * holds it open.
+ */
+async function resolveTitleEntries(profile: UserProfileExport, skipped: string[]): Promise<ResolvedTitleEntries> {
+    const resolved: ResolvedTitleEntries = {
+        movieRatings: await resolveTitleRatings('movie', profile.movieRatings, skipped),
+        tvShowRatings: await resolveTitleRatings('tv', profile.tvShowRatings, skipped),
+        watchlist: [],
+        watched: [],
+        episodes: [],
+    };
+    for (const entry of profile.watchlist) {
+        const title = await resolveListEntry('watchlist', entry, skipped);
+        if (title) resolved.watchlist.push({ ...title, addedAt: toSqliteTimestamp(entry.added_at) });
+    }
+    for (const entry of profile.watched) {
+        const title = await resolveListEntry('watched', entry, skipped);
+        if (title) resolved.watched.push({ ...title, watchedAt: toSqliteTimestamp(entry.watched_at) });
+    }
+    resolved.episodes = await resolveEpisodeProgress(profile.episodeProgress, skipped);
+    return resolved;
+}
+
+// The watchlist goes in before the watched list: marking a title watched takes it off the watchlist, as in the app
+async function saveTitleEntries(userId: number, entries: ResolvedTitleEntries, now: string): Promise<void> {
+    for (const { titleId, rating, ratedAt } of entries.movieRatings) await saveUserMovieRating(userId, titleId, rating, ratedAt);
+    for (const { titleId, rating, ratedAt } of entries.tvShowRatings) await saveUserTvShowRating(userId, titleId, rating, ratedAt);
+    for (const { mediaType, titleId, addedAt } of entries.watchlist) await importWatchlistEntry(userId, mediaType, titleId, addedAt ?? now);
+    for (const { mediaType, titleId, watchedAt } of entries.watched) await markWatched(userId, mediaType, titleId, watchedAt ?? now);
+    for (const { episodeId, watchedAt } of entries.episodes) await markEpisodesWatched(userId, [episodeId], watchedAt);
+}
+
+/**
+ * Imports a parsed profile. With the default `onConflict: 'fail'` an existing user of
+ * the same name is an error; see ProfileConflictStrategy for the alternatives.
+ */
+export async function importUserProfile(profile: UserProfileExport, options: ProfileImportOptions = {}): Promise<ProfileImportResult> {
+    const onConflict = options.onConflict ?? 'fail';
+    const name = (options.userName ?? profile.user.name).trim();
+    if (!name) throw new ProfileImportError('User name cannot be empty.');
+
+    const existing = await getUserByName(name);
+    if (existing && onConflict === 'fail') {
+        throw new ProfileImportError(`User "${name}" already exists. Import with merge or replace, or under another name.`, 'conflict');
+    }
+    const skipped: string[] = [];
+    const now = toSqliteTimestamp(new Date().toISOString())!; // For entries exported without a time
+    const titles = await resolveTitleEntries(profile, skipped);
+
+    // One transaction, so a failure part-way through a replace doesn't leave the profile half cleared
+    return withTransaction(async () => {
+        if (existing && onConflict === 'replace') await clearUserProfileData(existing.id);
+        const user = existing ?? await ensureUser(name);
+        if (!user) throw new ProfileImportError(`Could not create user "${name}".`);
+
+        await importPreferences(user.id, profile);
+        await saveTitleEntries(user.id, titles, now);
+
+        let restaurantLikes = 0;
+        for (const like of profile.restaurantLikes) {
+            const record = isRecord(like) && isRecord(like.restaurant) ? like.restaurant : undefined;
+            if (!record || typeof record.googlePlaceId !== 'string' || typeof record.name !== 'string') {
+                skipped.push(`restaurant like ${JSON.stringify(like)}: needs a restaurant with googlePlaceId and name`);
+                continue;
+            }
+            const restaurant = await findOrSaveRestaurant(record.googlePlaceId, record);
+            if (!restaurant) {
+                skipped.push(`restaurant ${record.googlePlaceId} (${record.name}): could not be saved`);
+                continue;
+            }
+            await importRestaurantLike(user.id, restaurant.id, toSqliteTimestamp(like.liked_at) ?? now);
+            restaurantLikes++;
+        }
+
+        let restaurantFeedback = 0;
+        for (const entry of profile.restaurantFeedback) {
+            if (!isRecord(entry) || typeof entry.googlePlaceId !== 'string' || !FEEDBACK_TYPES.includes(entry.feedback as RestaurantFeedbackType)) {
+                skipped.push(`restaurant feedback ${JSON.stringify(entry)}: needs googlePlaceId and one of ${FEEDBACK_TYPES.join(', ')}`);
+                continue;
+            }
+            const restaurant = await findOrSaveRestaurant(entry.googlePlaceId, isRecord(entry.restaurant) ? entry.restaurant : undefined);
+            if (!restaurant) {
+                skipped.push(`restaurant feedback for ${entry.googlePlaceId}: restaurant not in this database`);
+                continue;
+            }
+            await importRestaurantFeedback(user.id, restaurant.id, entry.feedback as RestaurantFeedbackType, toSqliteTimestamp(entry.created_at) ?? now);
+            restaurantFeedback++;
+        }
+
+        if (skipped.length > 0) console.log(chalk.yellow(`Skipped ${skipped.length} entries while importing "${name}".`));
+        return {
+            user,
+            created: !existing,
+            movieRatings: titles.movieRatings.length,
+            tvShowRatings: titles.tvShowRatings.length,
+            watchlist: titles.watchlist.length,
+            watched: titles.watched.length,
+            episodes: titles.episodes.length,
+            restaurantLikes,
+            restaurantFeedback,
+            skipped,
+        };
+    });
+}
@@ -0,0 +1,103 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import type { TMDBMovie, TMDBTvShow } from '../common/tmdbService';
+import { IN_MEMORY_DB_PATH } from '../common/config';
+import { closeDB, ensureUser, initDB } from '../db/setup';
+import { getMovieByTmdbId, saveMovie, saveUserMovieRating } from '../db/movieDb';
+import { getTvShowByTmdbId, saveTvShow, saveUserTvShowRating } from '../db/tvShowDb';
+import { exportRatingsCsv, importRatingsCsv } from './ratingsCsv';
+import { ProfileImportError } from './types';
+
+const HEADER = 'media_type,tmdb_id,title,rating,rated_at';
+
+function csv(...rows: string[]): string {
+    return [HEADER, ...rows].join('\n') + '\n';
+}
+
+function movie(id: number, title: string): TMDBMovie {
+    return { id, title, overview: '', release_date: '1999-03-31', vote_average: 8, vote_count: 1000, poster_path: null, backdrop_path: null, genres: [] };
+}
+
+function show(id: number, name: string): TMDBTvShow {
+    return { id, name, overview: '', first_air_date: '2008-01-20', vote_average: 9, vote_count: 1000, poster_path: null, backdrop_path: null, genres: [] };
+}
+
+// Stored up front so nothing is fetched from TMDB; `extra` shifts the internal IDs
+async function seedCatalogue(extra = false): Promise<void> {
+    if (extra) await saveMovie(movie(13, 'Forrest Gump'));
+    await saveMovie(movie(603, 'The Matrix'));
+    await saveMovie(movie(550, 'Fight Club, The Director\'s Cut'));
+    await saveTvShow(show(1396, 'Breaking Bad'));
+}
+
+async function newUser(name: string): Promise<number> {
+    return (await ensureUser(name))!.id;
+}
+
+beforeEach(async () => {
+    spyOn(console, 'log').mockImplementation(() => {});
+    await initDB({ config: { dbPath: IN_MEMORY_DB_PATH } });
+    await seedCatalogue();
+});
+
+afterEach(async () => {
+    await closeDB();
+});
+
+describe('exportRatingsCsv and importRatingsCsv', () => {
+    test('round-trip a user\'s ratings through another database', async () => {
+        const alice = await newUser('Alice');
+        await saveUserMovieRating(alice, (await getMovieByTmdbId(603))!.id, 5, '2024-01-01 10:00:00');
+        await saveUserMovieRating(alice, (await getMovieByTmdbId(550))!.id, 3, '2024-01-02 10:00:00');
+        await saveUserTvShowRating(alice, (await getTvShowByTmdbId(1396))!.id, 4, '2024-01-03 10:00:00');
+        const exported = await exportRatingsCsv(alice);
+        expect(exported.split('\n')[0]).toBe(HEADER);
+
+        await closeDB();
+        await initDB({ config: { dbPath: IN_MEMORY_DB_PATH } });
+        await seedCatalogue(true);
+        const copy = await newUser('Alice');
+        expect(await importRatingsCsv(copy, exported)).toEqual({ movieRatings: 2, tvShowRatings: 1, skipped: [] });
+        expect(await exportRatingsCsv(copy)).toBe(exported);
+    });
+});
+
+describe('importRatingsCsv', () => {
+    let alice: number;
+
+    beforeEach(async () => {
+        alice = await newUser('Alice');
+        await saveUserMovieRating(alice, (await getMovieByTmdbId(550))!.id, 2, '2023-01-01 10:00:00');
+    });
+
+    test('merges into the user\'s ratings by default', async () => {
+        await importRatingsCsv(alice, csv('movie,603,The Matrix,5,2024-01-01'));
+        expect(await exportRatingsCsv(alice)).toBe(csv(
+            'movie,550,"Fight Club, The Director\'s Cut",2,2023-01-01 10:00:00',
+            'movie,603,The Matrix,5,2024-01-01 00:00:00',
+        ));
+    });
+
+    test('replaces the user\'s ratings with replace', async () => {
+        await importRatingsCsv(alice, csv('movie,603,The Matrix,5,2024-01-01'), { replace: true });
+        expect(await exportRatingsCsv(alice)).toBe(csv('movie,603,The Matrix,5,2024-01-01 00:00:00'));
+    });
+
+    test('matches rows on media type and TMDB ID, ignoring the title and column order', async () => {
+        const result = await importRatingsCsv(alice, 'rating,tmdb_id,media_type\n4,1396,TV\n', { replace: true });
+        expect(result).toEqual({ movieRatings: 0, tvShowRatings: 1, skipped: [] });
+    });
+
+    test('skips rows it cannot use, by line number', async () => {
+        const result = await importRatingsCsv(alice, csv('book,1,A Book,5,', 'movie,603,The Matrix,6,', 'movie,603,The Matrix,4,'));
+        expect(result.movieRatings).toBe(1);
+        expect(result.skipped).toEqual(['line 2: media_type must be movie or tv', 'line 3: needs a TMDB ID and a 1-5 rating']);
+    });
+
+    test('rejects a file without the required columns before touching the ratings, even with replace', async () => {
+        const before = await exportRatingsCsv(alice);
+        const error = await importRatingsCsv(alice, 'Name,Year,Rating\nThe Matrix,1999,5', { replace: true }).catch(e => e);
+        expect(error).toBeInstanceOf(ProfileImportError);
+        expect(error.message).toContain('missing column(s) media_type, tmdb_id');
+        expect(await exportRatingsCsv(alice)).toBe(before);
+    });
+});
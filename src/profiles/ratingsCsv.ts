@@ -0,0 +1,79 @@
+// src/profiles/ratingsCsv.ts
+// Movie and TV ratings as a spreadsheet-friendly CSV:
+//   media_type,tmdb_id,title,rating,rated_at
+//   movie,603,The Matrix,5,2024-03-01 20:15:00
+// `title` is informational; rows are matched on media_type + tmdb_id.
+import type { MediaType } from '../common/types';
+import { csvColumns, csvToRecords, toCsv } from '../common/csv';
+import { getMovieRatingsForExport, getTvShowRatingsForExport, clearUserRatings } from '../db/profileDb';
+import { saveUserMovieRating } from '../db/movieDb';
+import { saveUserTvShowRating } from '../db/tvShowDb';
+import { withTransaction } from '../db/setup';
+import { ensureTitleSaved, isValidRating, toSqliteTimestamp } from './profileImport';
+import { ProfileImportError } from './types';
+
+export const RATINGS_CSV_COLUMNS = ['media_type', 'tmdb_id', 'title', 'rating', 'rated_at'];
+const REQUIRED_COLUMNS = ['media_type', 'tmdb_id', 'rating'];
+
+export interface RatingsCsvImportResult {
+    movieRatings: number;
+    tvShowRatings: number;
+    skipped: string[]; // "line N: reason"
+}
+
+export async function exportRatingsCsv(userId: number): Promise<string> {
+    const movies = (await getMovieRatingsForExport(userId)).map(r => ({ media_type: 'movie', ...r }));
+    const shows = (await getTvShowRatingsForExport(userId)).map(r => ({ media_type: 'tv', ...r }));
+    return toCsv(RATINGS_CSV_COLUMNS, [...movies, ...shows]);
+}
+
+/**
+ * Imports rated titles for an existing user. With `replace`, their current ratings are cleared
+ * first, in the same transaction as the new ones are written. Throws ProfileImportError, before
+ * touching any ratings, if the header lacks the media_type, tmdb_id or rating column.
+ */
+export async function importRatingsCsv(userId: number, csvText: string, options: { replace?: boolean } = {}): Promise<RatingsCsvImportResult> {
+    const result: RatingsCsvImportResult = { movieRatings: 0, tvShowRatings: 0, skipped: [] };
+    const columns = csvColumns(csvText);
+    const missing = REQUIRED_COLUMNS.filter(column => !columns.includes(column));
+    if (missing.length > 0) {
+        throw new ProfileImportError(`Not a ratings CSV: missing column(s) ${missing.join(', ')} (expected ${RATINGS_CSV_COLUMNS.join(',')}).`);
+    }
+
+    // Resolve every row (fetching titles we haven't stored) before writing anything
+    const ratings: { mediaType: MediaType; titleId: number; rating: number; ratedAt?: string }[] = [];
+    for (const [index, row] of csvToRecords(csvText).entries()) {
+        const line = index + 2; // 1-based, after the header
+        const mediaType = row.media_type?.trim().toLowerCase();
+        const tmdbId = Number(row.tmdb_id);
+        const rating = Number(row.rating);
+        if (mediaType !== 'movie' && mediaType !== 'tv') {
+            result.skipped.push(`line ${line}: media_type must be movie or tv`);
+            continue;
+        }
+        if (!Number.isInteger(tmdbId) || tmdbId <= 0 || !isValidRating(rating)) {
+            result.skipped.push(`line ${line}: needs a TMDB ID and a 1-5 rating`);
+            continue;
+        }
+        const titleId = await ensureTitleSaved(mediaType as MediaType, tmdbId);
+        if (!titleId) {
+            result.skipped.push(`line ${line}: ${mediaType} ${tmdbId} not found on TMDB`);
+            continue;
+        }
+        ratings.push({ mediaType: mediaType as MediaType, titleId, rating, ratedAt: toSqliteTimestamp(row.rated_at) });
+    }
+
+    await withTransaction(async () => {
+        if (options.replace) await clearUserRatings(userId);
+        for (const { mediaType, titleId, rating, ratedAt } of ratings) {
+            if (mediaType === 'movie') {
+                await saveUserMovieRating(userId, titleId, rating, ratedAt);
+                result.movieRatings++;
+            } else {
+                await saveUserTvShowRating(userId, titleId, rating, ratedAt);
+                result.tvShowRatings++;
+            }
+        }
+    });
+    return result;
+}
@@ -0,0 +1,101 @@
+import type { MediaType, UserSettings } from '../common/types';
+import type { UserMoviePreferences } from '../movies/types';
+import type { UserTvShowPreferences } from '../tvshows/types';
+import type { Restaurant, RestaurantFeedbackType, RestaurantUserPreferences } from '../restaurants/types';
+
+export const PROFILE_FORMAT = 'recommender-profile';
+export const PROFILE_FORMAT_VERSION = 2; // 2 added watchlist, watched and episodeProgress
+
+// Titles and restaurants are identified by TMDB IDs and Google place IDs, never our row IDs,
+// so a profile can be imported into any database
+export interface ExportedTitleRating {
+    tmdb_id: number;
+    title: string;     // For people reading the file; not used for matching
+    rating: number;    // 1-5
+    rated_at: string;  // "YYYY-MM-DD HH:MM:SS" (UTC), as stored
+}
+
+export interface ExportedWatchlistEntry {
+    media_type: MediaType;
+    tmdb_id: number;
+    title: string;     // For people reading the file; not used for matching
+    added_at: string;
+}
+
+export interface ExportedWatchedEntry {
+    media_type: MediaType;
+    tmdb_id: number;
+    title: string;
+    watched_at: string;
+}
+
+// One watched episode, identified by its show's TMDB ID and its season/episode numbers
+export interface ExportedEpisodeProgress {
+    tmdb_id: number;   // The show
+    title: string;     // The show's name
+    season_number: number;
+    episode_number: number;
+    watched_at: string;
+}
+
+export interface ExportedRestaurantLike {
+    restaurant: Omit<Restaurant, 'id'>; // Full record: there's no lookup by place ID to rebuild it from
+    liked_at: string;
+}
+
+export interface ExportedRestaurantFeedback {
+    googlePlaceId: string;
+    feedback: RestaurantFeedbackType;
+    created_at: string;
+    restaurant?: Omit<Restaurant, 'id'>; // Included when the restaurant isn't already in restaurantLikes
+}
+
+export interface UserProfileExport {
+    format: typeof PROFILE_FORMAT;
+    version: number;
+    exportedAt: string; // ISO 8601
+    user: { name: string };
+    settings?: Omit<UserSettings, 'user_id'>;
+    moviePreferences?: Omit<UserMoviePreferences, 'user_id'>;
+    tvShowPreferences?: Omit<UserTvShowPreferences, 'user_id'>;
+    restaurantPreferences?: Omit<RestaurantUserPreferences, 'user_id'>;
+    movieRatings: ExportedTitleRating[];
+    tvShowRatings: ExportedTitleRating[];
+    watchlist: ExportedWatchlistEntry[];
+    watched: ExportedWatchedEntry[];
+    episodeProgress: ExportedEpisodeProgress[];
+    restaurantLikes: ExportedRestaurantLike[];
+    restaurantFeedback: ExportedRestaurantFeedback[]; // Without `restaurant`, the place must be in restaurantLikes or already exist locally
+}
+
+// What to do when the profile's user name already exists:
+//   fail    - stop without changing anything (default)
+//   merge   - keep existing data; imported ratings and preferences win where both exist
+//   replace - clear the user's preferences, ratings, watch lists, likes and feedback first
+export type ProfileConflictStrategy = 'fail' | 'merge' | 'replace';
+
+export interface ProfileImportOptions {
+    onConflict?: ProfileConflictStrategy;
+    userName?: string; // Import under this name instead of the one in the file
+}
+
+export interface ProfileImportResult {
+    user: { id: number; name: string };
+    created: boolean;       // false when an existing user was merged into or replaced
+    movieRatings: number;
+    tvShowRatings: number;
+    watchlist: number;
+    watched: number;
+    episodes: number;       // Watched episodes, across all shows
+    restaurantLikes: number;
+    restaurantFeedback: number;
+    skipped: string[];      // Human-readable reasons, e.g. a TMDB ID that couldn't be fetched
+}
+
+export class ProfileImportError extends Error {
+    // 'conflict': the user exists and onConflict is 'fail'; 'invalid': the file itself is unusable
+    constructor(message: string, public readonly reason: 'invalid' | 'conflict' = 'invalid') {
+        super(message);
+        this.name = 'ProfileImportError';
+    }
+}
@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, spyOn, test } from 'bun:test';
+import type { TMDBMovie, TMDBTvShow } from '../common/tmdbService';
+import { IN_MEMORY_DB_PATH } from '../common/config';
+import { closeDB, ensureUser, initDB } from '../db/setup';
+import { getMovieByTmdbId, saveMovie, saveUserMovieRating } from '../db/movieDb';
+import { saveTvShow } from '../db/tvShowDb';
+import { exportRatingsCsv } from './ratingsCsv';
+import { importWatchHistory, rescaleRating } from './watchHistoryImport';
+import { ProfileImportError } from './types';
+
+function movie(id: number, title: string): TMDBMovie {
+    return { id, title, overview: '', release_date: '1999-03-31', vote_average: 8, vote_count: 1000, poster_path: null, backdrop_path: null, genres: [] };
+}
+
+function show(id: number, name: string): TMDBTvShow {
+    return { id, name, overview: '', first_air_date: '2008-01-20', vote_average: 9, vote_count: 1000, poster_path: null, backdrop_path: null, genres: [] };
+}
+
+// Trakt exports carry TMDB IDs, so with the titles stored nothing is looked up on TMDB
+const TRAKT_EXPORT = JSON.stringify([
+    { type: 'movie', rating: 10, rated_at: '2024-01-01T20:00:00.000Z', movie: { title: 'The Matrix', year: 1999, ids: { tmdb: 603 } } },
+    { type: 'show', rating: 7, rated_at: '2024-01-02T20:00:00.000Z', show: { title: 'Breaking Bad', year: 2008, ids: { tmdb: 1396 } } },
+    { type: 'episode', rating: 9, episode: { title: 'Pilot' } },
+    { type: 'movie', movie: { title: 'Unrated', year: 2000, ids: { tmdb: 550 } } },
+]);
+
+let alice: number;
+
+async function ratings(): Promise<string> {
+    return exportRatingsCsv(alice);
+}
+
+beforeEach(async () => {
+    spyOn(console, 'log').mockImplementation(() => {});
+    await initDB({ config: { dbPath: IN_MEMORY_DB_PATH } });
+    await saveMovie(movie(603, 'The Matrix'));
+    await saveMovie(movie(550, 'Fight Club'));
+    await saveTvShow(show(1396, 'Breaking Bad'));
+    alice = (await ensureUser('Alice'))!.id;
+    await saveUserMovieRating(alice, (await getMovieByTmdbId(550))!.id, 2, '2023-01-01 10:00:00');
+});
+
+afterEach(async () => {
+    await closeDB();
+});
+
+describe('rescaleRating', () => {
+    test('maps other scales onto whole 1-5 stars', () => {
+        expect(rescaleRating(10, 10)).toBe(5);
+        expect(rescaleRating(7, 10)).toBe(4);
+        expect(rescaleRating(3.5, 5)).toBe(4);
+        expect(rescaleRating(0.5, 5)).toBe(1);
+    });
+});
+
+describe('importWatchHistory', () => {
+    test('imports a Trakt export by TMDB ID, reporting what it could not use', async () => {
+        const result = await importWatchHistory(alice, 'trakt', TRAKT_EXPORT);
+        expect(result).toMatchObject({ source: 'trakt', movieRatings: 1, tvShowRatings: 1 });
+        expect(result.unmatched).toEqual([
+            { row: 3, title: 'Pilot', year: undefined, reason: 'episode entries are not supported' },
+            { row: 4, title: 'Unrated', year: 2000, reason: 'no rating' },
+        ]);
+        expect(await ratings()).toBe([
+            'media_type,tmdb_id,title,rating,rated_at',
+            'movie,550,Fight Club,2,2023-01-01 10:00:00',
+            'movie,603,The Matrix,5,2024-01-01 20:00:00',
+            'tv,1396,Breaking Bad,4,2024-01-02 20:00:00',
+        ].join('\n') + '\n');
+    });
+
+    test('replaces the user\'s ratings with replace', async () => {
+        await importWatchHistory(alice, 'trakt', TRAKT_EXPORT, { replace: true });
+        expect(await ratings()).not.toContain('Fight Club');
+    });
+
+    test('rejects a file from another service before touching the ratings, even with replace', async () => {
+        const before = await ratings();
+        const wrongFiles = [
+            ['letterboxd', 'Const,Your Rating,Title\ntt0133093,10,The Matrix'],
+            ['imdb', 'Name,Year,Rating\nThe Matrix,1999,5'],
+            ['trakt', 'Name,Year'],
+        ] as const;
+        for (const [source, text] of wrongFiles) {
+            await expect(importWatchHistory(alice, source, text, { replace: true })).rejects.toThrow(ProfileImportError);
+        }
+        expect(await ratings()).toBe(before);
+    });
+
+    test('names the missing columns, even when the file has a header and nothing else', async () => {
+        await expect(importWatchHistory(alice, 'letterboxd', 'Date,Name\n')).rejects.toThrow('missing column(s) Year, Rating');
+    });
+});
@@ -0,0 +1,232 @@
+// src/profiles/watchHistoryImport.ts
+// Seeds a user's ratings from other services' exports so new users get past the
+// cold start (the movie recommender only uses TMDB recommendations after 3 ratings):
+//   letterboxd - ratings.csv (or diary.csv): Date,Name,Year,Letterboxd URI,Rating  (0.5-5 stars)
+//   imdb       - ratings export CSV: Const,Your Rating,Date Rated,Title,Title Type,Year,...  (1-10)
+//   trakt      - ratings JSON: [{ rated_at, rating, type, movie|show: { title, year, ids } }]  (1-10)
+// Titles are resolved to TMDB IDs directly where the export has them, then by IMDb ID,
+// then by title + year search. Rows that can't be matched or rated are reported, not fatal.
+import type { MediaType } from '../common/types';
+import { csvColumns, csvToRecords } from '../common/csv';
+import { findByImdbId, searchMovies, searchTvShows } from '../common/tmdbService';
+import { saveUserMovieRating } from '../db/movieDb';
+import { saveUserTvShowRating } from '../db/tvShowDb';
+import { clearUserRatings } from '../db/profileDb';
+import { withTransaction } from '../db/setup';
+import { ensureTitleSaved, toSqliteTimestamp } from './profileImport';
+import { ProfileImportError } from './types';
+
+export const WATCH_HISTORY_SOURCES = ['letterboxd', 'imdb', 'trakt'] as const;
+export type WatchHistorySource = typeof WATCH_HISTORY_SOURCES[number];
+
+export interface UnmatchedHistoryRow {
+    row: number;       // CSV line number, or 1-based position in a Trakt JSON array
+    title: string;
+    year?: number;
+    reason: string;
+}
+
+export interface WatchHistoryImportResult {
+    source: WatchHistorySource;
+    movieRatings: number;
+    tvShowRatings: number;
+    unmatched: UnmatchedHistoryRow[];
+}
+
+// One row of any export, normalized before matching
+interface HistoryEntry {
+    row: number;
+    mediaType?: MediaType; // Unknown for IMDb rows with an unfamiliar title type
+    title: string;
+    year?: number;
+    tmdbId?: number;
+    imdbId?: string;
+    rating?: number;       // Already on our 1-5 scale
+    ratedAt?: string;
+    skipReason?: string;   // Set when the row can never be imported (e.g. an episode rating)
+}
+
+/** Maps a rating on a 0-`scaleMax` scale onto our whole 1-5 stars. */
+export function rescaleRating(value: number, scaleMax: number): number {
+    return Math.min(5, Math.max(1, Math.round((value / scaleMax) * 5)));
+}
+
+function optionalNumber(value: unknown): number | undefined {
+    const parsed = typeof value === 'string' && value.trim() ? Number(value) : value;
+    return typeof parsed === 'number' && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function requireColumns(text: string, columns: string[], source: WatchHistorySource): void {
+    const header = csvColumns(text);
+    const missing = columns.filter(column => !header.includes(column));
+    if (missing.length > 0) {
+        throw new ProfileImportError(`This doesn't look like a ${source} export: missing column(s) ${missing.join(', ')}.`);
+    }
+}
+
+function parseLetterboxd(text: string): HistoryEntry[] {
+    requireColumns(text, ['Name', 'Year', 'Rating'], 'letterboxd');
+    const records = csvToRecords(text);
+    return records.map((record, index) => {
+        const stars = optionalNumber(record.Rating);
+        return {
+            row: index + 2,
+            mediaType: 'movie' as const,
+            title: record.Name ?? '',
+            year: optionalNumber(record.Year),
+            rating: stars !== undefined && stars > 0 ? rescaleRating(stars, 5) : undefined,
+            ratedAt: record.Date,
+        };
+    });
+}
+
+// IMDb title types, compared lowercased without spaces ("TV Series" and "tvSeries" both appear)
+const IMDB_MOVIE_TYPES = new Set(['movie', 'tvmovie', 'video', 'short', 'tvshort', 'tvspecial']);
+const IMDB_TV_TYPES = new Set(['tvseries', 'tvminiseries']);
+
+function parseImdb(text: string): HistoryEntry[] {
+    requireColumns(text, ['Const', 'Your Rating', 'Title'], 'imdb');
+    const records = csvToRecords(text);
+    return records.map((record, index) => {
+        const titleType = (record['Title Type'] ?? '').toLowerCase().replace(/\s+/g, '');
+        const rating = optionalNumber(record['Your Rating']);
+        return {
+            row: index + 2,
+            mediaType: IMDB_MOVIE_TYPES.has(titleType) ? 'movie' : IMDB_TV_TYPES.has(titleType) ? 'tv' : undefined,
+            title: record.Title ?? '',
+            year: optionalNumber(record.Year),
+            imdbId: record.Const?.trim() || undefined,
+            rating: rating !== undefined && rating > 0 ? rescaleRating(rating, 10) : undefined,
+            ratedAt: record['Date Rated'],
+            skipReason: titleType === 'tvepisode' ? 'episode ratings are not supported' : undefined,
+        };
+    });
+}
+
+function parseTrakt(text: string): HistoryEntry[] {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error: any) {
+        throw new ProfileImportError(`Trakt export is not valid JSON: ${error.message}`);
+    }
+    if (!Array.isArray(data)) throw new ProfileImportError('Trakt export must be a JSON array of ratings.');
+
+    return data.map((item: any, index: number): HistoryEntry => {
+        const type = item?.type;
+        const media = type === 'movie' ? item.movie : type === 'show' ? item.show : item?.[type];
+        const rating = optionalNumber(item?.rating);
+        return {
+            row: index + 1,
+            mediaType: type === 'movie' ? 'movie' : type === 'show' ? 'tv' : undefined,
+            title: typeof media?.title === 'string' ? media.title : '',
+            year: optionalNumber(media?.year),
+            tmdbId: optionalNumber(media?.ids?.tmdb),
+            imdbId: typeof media?.ids?.imdb === 'string' ? media.ids.imdb : undefined,
+            rating: rating !== undefined && rating > 0 ? rescaleRating(rating, 10) : undefined,
+            ratedAt: item?.rated_at ?? item?.watched_at,
+            skipReason: type === 'movie' || type === 'show' ? undefined : `${type ?? 'untyped'} entries are not supported`,
+        };
+    });
+}
+
+function normalizeTitle(title: string): string {
+    return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+}
+
+function releaseYear(date: string | null | undefined): number | undefined {
+    return date ? Number(date.slice(0, 4)) || undefined : undefined;
+}
+
+/**
+ * Best search hit for a title: an exact (normalized) title match in the right year,
+ * then any result in the right year, then an exact title match within a year either
+ * side (release dates differ by region).
+ */
+async function searchTmdbId(mediaType: MediaType, title: string, year?: number): Promise<number | undefined> {
+    const results = mediaType === 'movie'
+        ? ((await searchMovies(title, 1, year))?.results ?? []).map(m => ({ id: m.id, title: m.title, year: releaseYear(m.release_date) }))
+        : ((await searchTvShows(title, 1, year))?.results ?? []).map(s => ({ id: s.id, title: s.name, year: releaseYear(s.first_air_date) }));
+    const wanted = normalizeTitle(title);
+    const sameTitle = results.filter(r => normalizeTitle(r.title) === wanted);
+    if (year === undefined) return (sameTitle[0] ?? results[0])?.id;
+    return (sameTitle.find(r => r.year === year)
+        ?? results.find(r => r.year === year)
+        ?? sameTitle.find(r => r.year !== undefined && Math.abs(r.year - year) <= 1))?.id;
+}
+
+async function resolveEntry(entry: HistoryEntry): Promise<{ mediaType: MediaType; tmdbId: number } | undefined> {
+    if (entry.tmdbId && entry.mediaType) return { mediaType: entry.mediaType, tmdbId: entry.tmdbId };
+    if (entry.imdbId) {
+        const found = await findByImdbId(entry.imdbId);
+        const movie = found?.movie_results[0];
+        const show = found?.tv_results[0];
+        if (movie && entry.mediaType !== 'tv') return { mediaType: 'movie', tmdbId: movie.id };
+        if (show && entry.mediaType !== 'movie') return { mediaType: 'tv', tmdbId: show.id };
+    }
+    if (!entry.title) return undefined;
+    // Without a known type, try it as a movie first: most exports are mostly films
+    for (const mediaType of entry.mediaType ? [entry.mediaType] : ['movie', 'tv'] as const) {
+        const tmdbId = await searchTmdbId(mediaType, entry.title, entry.year);
+        if (tmdbId) return { mediaType, tmdbId };
+    }
+    return undefined;
+}
+
+const PARSERS: Record<WatchHistorySource, (text: string) => HistoryEntry[]> = {
+    letterboxd: parseLetterboxd,
+    imdb: parseImdb,
+    trakt: parseTrakt,
+};
+
+/**
+ * Imports rated titles from another service's export for an existing user. The whole file is
+ * parsed and matched before any ratings change; with `replace`, the user's current ratings are
+ * cleared in the same transaction as the new ones are written. Throws ProfileImportError if the
+ * file is unusable.
+ */
+export async function importWatchHistory(
+    userId: number,
+    source: WatchHistorySource,
+    text: string,
+    options: { replace?: boolean } = {}
+): Promise<WatchHistoryImportResult> {
+    const result: WatchHistoryImportResult = { source, movieRatings: 0, tvShowRatings: 0, unmatched: [] };
+    const ratings: { mediaType: MediaType; titleId: number; rating: number; ratedAt?: string }[] = [];
+    for (const entry of PARSERS[source](text)) {
+        const report = (reason: string) => result.unmatched.push({ row: entry.row, title: entry.title, year: entry.year, reason });
+        if (entry.skipReason) {
+            report(entry.skipReason);
+            continue;
+        }
+        if (entry.rating === undefined) {
+            report('no rating');
+            continue;
+        }
+        const match = await resolveEntry(entry);
+        if (!match) {
+            report('no match on TMDB');
+            continue;
+        }
+        const titleId = await ensureTitleSaved(match.mediaType, match.tmdbId);
+        if (!titleId) {
+            report(`${match.mediaType} ${match.tmdbId} could not be fetched from TMDB`);
+            continue;
+        }
+        ratings.push({ mediaType: match.mediaType, titleId, rating: entry.rating, ratedAt: toSqliteTimestamp(entry.ratedAt) });
+    }
+
+    await withTransaction(async () => {
+        if (options.replace) await clearUserRatings(userId);
+        for (const { mediaType, titleId, rating, ratedAt } of ratings) {
+            if (mediaType === 'movie') {
+                await saveUserMovieRating(userId, titleId, rating, ratedAt);
+                result.movieRatings++;
+            } else {
+                await saveUserTvShowRating(userId, titleId, rating, ratedAt);
+                result.tvShowRatings++;
+            }
+        }
+    });
+    return result;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, test } from 'bun:test';
+import { adjustedRating, formatRating } from './adjustedRating';
+
+describe('adjustedRating', () => {
+    test('pulls ratings with few reviews toward the prior mean of 3.8', () => {
+        // (3.8 * 20 + 5.0 * 3) / 23
+        expect(adjustedRating({ rating: 5, userRatingsTotal: 3 })).toBeCloseTo(91 / 23);
+        expect(adjustedRating({ rating: 2, userRatingsTotal: 3 })).toBeGreaterThan(2);
+    });
+
+    test('counts a place\'s own rating for half at 20 reviews', () => {
+        expect(adjustedRating({ rating: 4.8, userRatingsTotal: 20 })).toBeCloseTo(4.3);
+    });
+
+    test('barely moves ratings with many reviews', () => {
+        expect(adjustedRating({ rating: 4.8, userRatingsTotal: 2000 })).toBeCloseTo(4.79, 2);
+    });
+
+    test('ranks a long record above a handful of perfect reviews', () => {
+        expect(adjustedRating({ rating: 4.8, userRatingsTotal: 2000 }))
+            .toBeGreaterThan(adjustedRating({ rating: 5, userRatingsTotal: 3 }));
+    });
+
+    test('weighs a rating without a review count, or with no reviews, as a single review', () => {
+        // (3.8 * 20 + 5.0) / 21
+        expect(adjustedRating({ rating: 5 })).toBeCloseTo(81 / 21);
+        expect(adjustedRating({ rating: 5, userRatingsTotal: 0 })).toBeCloseTo(81 / 21);
+        expect(adjustedRating({ rating: 5 })).toBeLessThan(adjustedRating({ rating: 4.8, userRatingsTotal: 2000 }));
+    });
+
+    test('keeps 0 for a place without a rating', () => {
+        expect(adjustedRating({ rating: 0, userRatingsTotal: 10 })).toBe(0);
+    });
+});
+
+describe('formatRating', () => {
+    test('shows the review count, and the adjusted rating when it differs at one decimal', () => {
+        expect(formatRating({ rating: 4.5, userRatingsTotal: 12 }, '★')).toBe('4.5★ from 12 reviews, counts as 4.1★');
+        expect(formatRating({ rating: 4.8, userRatingsTotal: 2000 })).toBe('4.8 from 2,000 reviews');
+        expect(formatRating({ rating: 3.8, userRatingsTotal: 1 })).toBe('3.8 from 1 review');
+    });
+
+    test('leaves out the review count when it isn\'t known', () => {
+        expect(formatRating({ rating: 4.5 }, '★')).toBe('4.5★, counts as 3.8★');
+        expect(formatRating({ rating: 3.8 })).toBe('3.8');
+    });
+});
@@ -0,0 +1,32 @@
+// src/restaurants/adjustedRating.ts
+// Review counts decide how far a restaurant's star rating can be trusted. The adjusted rating is a
+// Bayesian average: every place starts with RATING_PRIOR_WEIGHT imaginary reviews at
+// RATING_PRIOR_MEAN, so a 5.0 from 3 reviews counts as about 4.0 while a 4.8 from 2,000 stays 4.8.
+// A rating with no review count behind it (older rows, fixture and file sources) gets the least
+// weight a rating can have, that of a single review, rather than being taken at face value.
+import type { Restaurant } from './types';
+
+const RATING_PRIOR_MEAN = 3.8;   // Roughly where an unknown place lands on Google
+const RATING_PRIOR_WEIGHT = 20;  // Reviews it takes before a place's own rating counts for half
+
+type RatedPlace = Pick<Restaurant, 'rating' | 'userRatingsTotal'>;
+
+/** The rating scoring uses. Places without a rating keep their 0. */
+export function adjustedRating({ rating, userRatingsTotal }: RatedPlace): number {
+    if (rating <= 0) return rating;
+    const reviews = Math.max(1, userRatingsTotal ?? 1);
+    return (RATING_PRIOR_MEAN * RATING_PRIOR_WEIGHT + rating * reviews) / (RATING_PRIOR_WEIGHT + reviews);
+}
+
+/**
+ * "4.8 from 2,000 reviews", or "5.0 from 3 reviews, counts as 4.0" when the adjustment shows at one
+ * decimal; just "4.5, counts as 3.8" without a review count. `unit` goes after each number, e.g. "★".
+ */
+export function formatRating(place: RatedPlace, unit: string = ''): string {
+    const raw = `${place.rating.toFixed(1)}${unit}`;
+    const reviews = place.userRatingsTotal === undefined
+        ? raw
+        : `${raw} from ${place.userRatingsTotal.toLocaleString('en-US')} review${place.userRatingsTotal === 1 ? '' : 's'}`;
+    const adjusted = `${adjustedRating(place).toFixed(1)}${unit}`;
+    return adjusted === raw ? reviews : `${reviews}, counts as ${adjusted}`;
+}
@@ -1,9 +1,15 @@
 // Example import:
-import type { Restaurant as ApiRestaurantData } from './types';
+import type { Restaurant as ApiRestaurantData, OpeningPeriod } from './types';
 import chalk from 'chalk';
+import { cachedFetch } from '../common/responseCache';
+import { parseBusinessStatus } from './openingHours';
+import { isPriceLevel } from './priceLevel';
 
 const API_KEY = process.env.GOOGLE_PLACES_API_KEY;
 const BASE_URL = "https://maps.googleapis.com/maps/api/place/textsearch/json";
+const DETAILS_URL = "https://maps.googleapis.com/maps/api/place/details/json";
+const TIME_ZONE_URL = "https://maps.googleapis.com/maps/api/timezone/json";
+const DETAILS_FIELDS = "opening_hours,business_status,utc_offset";
 
 function mapGoogleTypesToCuisines(googleTypes: string[] | undefined, placeName: string): string[] {
     // ... (same implementation as before)
@@ -50,17 +56,13 @@ function mapGoogleTypesToDietary(googleTypes: string[] | undefined): string[] {
 }
 
 
-// The return type here is Omit<Restaurant, 'id'> because the 'id' is assigned by our DB.
-export async function fetchRestaurantsFromGooglePlaces(
-  locationQuery: string,
-  maxResults: number = 20
-): Promise<Omit<ApiRestaurantData, 'id'>[]> { // Use the imported Restaurant type
+// Raw Text Search results; [] for ZERO_RESULTS, null when the request failed (so it isn't cached)
+async function fetchPlacesTextSearch(query: string): Promise<any[] | null> {
   if (!API_KEY) {
     console.error(chalk.red.bold("Google Places API key not found (GOOGLE_PLACES_API_KEY)."));
-    return [];
+    return null;
   }
 
-  const query = `restaurants in ${locationQuery}`;
   const params = new URLSearchParams({ query: query, key: API_KEY, type: 'restaurant' });
   const url = `${BASE_URL}?${params.toString()}`;
   console.log(chalk.blue(`\n[Google API] Fetching restaurants for query: "${query}"...`));
@@ -70,34 +72,118 @@ export async function fetchRestaurantsFromGooglePlaces(
     if (!response.ok) {
       const errorBody = await response.text();
       console.error(chalk.red(`[Google API] Error: ${response.status}`), errorBody);
-      return [];
+      return null;
     }
     const data = await response.json() as any;
     if (data.status !== "OK" && data.status !== "ZERO_RESULTS") {
       console.error(chalk.red(`[Google API] API Status Error: ${data.status} - ${data.error_message || ''}`));
-      return [];
+      return null;
+    }
+    return data.results ?? [];
+  } catch (error: any) {
+    console.error(chalk.red("[Google API] Exception:"), error.message);
+    return null;
+  }
+}
+
+// GET a Maps JSON endpoint and check its status; null (never cached) when anything goes wrong
+async function fetchGoogleJson(url: string, label: string): Promise<any | null> {
+  if (!API_KEY) return null;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      console.error(chalk.red(`[Google API] ${label} error: ${response.status}`), await response.text());
+      return null;
     }
-    if (data.status === "ZERO_RESULTS" || !data.results || data.results.length === 0) {
-      console.log(chalk.yellow(`[Google API] No restaurants found for: "${query}".`));
-      return [];
+    const data = await response.json() as any;
+    if (data.status !== "OK") {
+      console.error(chalk.red(`[Google API] ${label} status error: ${data.status} - ${data.error_message || data.errorMessage || ''}`));
+      return null;
     }
+    return data;
+  } catch (error: any) {
+    console.error(chalk.red(`[Google API] ${label} exception:`), error.message);
+    return null;
+  }
+}
 
-    const fetchedRestaurants: Omit<ApiRestaurantData, 'id'>[] = data.results
-      .slice(0, maxResults)
-      .map((place: any): Omit<ApiRestaurantData, 'id'> => ({ // Ensure this mapping matches your Restaurant type
-        googlePlaceId: place.place_id,
-        name: place.name || 'Name N/A',
-        address: place.formatted_address || place.vicinity || 'Address N/A',
-        cuisines: mapGoogleTypesToCuisines(place.types, place.name || ''),
-        dietaryOptions: mapGoogleTypesToDietary(place.types),
-        rating: place.rating || 0,
-      }));
-    
-    console.log(chalk.green(`[Google API] Fetched ${fetchedRestaurants.length} restaurants.`));
-    return fetchedRestaurants;
+// Place Details for the fields Text Search doesn't return
+async function fetchPlaceDetails(placeId: string): Promise<any | null> {
+  const params = { place_id: placeId, fields: DETAILS_FIELDS };
+  return cachedFetch('google_places', 'details', params, async () => {
+    const data = await fetchGoogleJson(`${DETAILS_URL}?${new URLSearchParams({ ...params, key: API_KEY ?? '' })}`, 'Place Details');
+    return data ? (data.result ?? {}) : null;
+  });
+}
 
-  } catch (error: any) {
-    console.error(chalk.red("[Google API] Exception:"), error.message);
+// IANA zone for a spot; coordinates are rounded to about 1 km so neighbouring places share a lookup
+async function fetchTimeZoneId(latitude: number, longitude: number): Promise<string | undefined> {
+  const location = `${latitude.toFixed(2)},${longitude.toFixed(2)}`;
+  const timeZoneId = await cachedFetch('google_places', 'timezone', { location }, async () => {
+    const params = new URLSearchParams({ location, timestamp: String(Math.floor(Date.now() / 1000)), key: API_KEY ?? '' });
+    const data = await fetchGoogleJson(`${TIME_ZONE_URL}?${params}`, 'Time Zone');
+    return data?.timeZoneId ?? null;
+  });
+  return timeZoneId ?? undefined;
+}
+
+// "periods" from Place Details: { open: { day, time: "1130" }, close?: { day, time } }
+function mapGooglePeriods(periods: any[] | undefined): OpeningPeriod[] | undefined {
+  if (!Array.isArray(periods) || periods.length === 0) return undefined;
+  const minutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(2, 4));
+  return periods
+    .filter(p => p?.open && typeof p.open.time === 'string')
+    .map((p): OpeningPeriod => p.close && typeof p.close.time === 'string'
+      ? { openDay: p.open.day, openMinute: minutes(p.open.time), closeDay: p.close.day, closeMinute: minutes(p.close.time) }
+      : { openDay: p.open.day, openMinute: minutes(p.open.time) });
+}
+
+// Business status, hours and time zone for one Text Search result; whatever can't be fetched is left out
+async function fetchOpeningInfo(place: any): Promise<Partial<ApiRestaurantData>> {
+  const details = place.place_id ? await fetchPlaceDetails(place.place_id) : null;
+  const businessStatus = parseBusinessStatus(details?.business_status ?? place.business_status);
+  const latitude = place.geometry?.location?.lat;
+  const longitude = place.geometry?.location?.lng;
+  const timeZone = typeof latitude === 'number' && typeof longitude === 'number' ? await fetchTimeZoneId(latitude, longitude) : undefined;
+  const utcOffset = details?.utc_offset_minutes ?? details?.utc_offset;
+  const openingHours = mapGooglePeriods(details?.opening_hours?.periods);
+  return {
+    ...(businessStatus ? { businessStatus } : {}),
+    ...(openingHours ? { openingHours } : {}),
+    ...(timeZone ? { timeZone } : {}),
+    ...(typeof utcOffset === 'number' ? { utcOffsetMinutes: utcOffset } : {}),
+  };
+}
+
+// The return type here is Omit<Restaurant, 'id'> because the 'id' is assigned by our DB.
+export async function fetchRestaurantsFromGooglePlaces(
+  locationQuery: string,
+  maxResults: number = 20
+): Promise<Omit<ApiRestaurantData, 'id'>[]> { // Use the imported Restaurant type
+  const query = `restaurants in ${locationQuery}`;
+  const results = await cachedFetch('google_places', 'textsearch', { query, type: 'restaurant' }, () => fetchPlacesTextSearch(query));
+  if (!results || results.length === 0) {
+    if (results) console.log(chalk.yellow(`[Google API] No restaurants found for: "${query}".`));
     return [];
   }
-}
\ No newline at end of file
+
+  const fetchedRestaurants: Omit<ApiRestaurantData, 'id'>[] = [];
+  for (const place of results.slice(0, maxResults)) {
+    fetchedRestaurants.push({ // Ensure this mapping matches your Restaurant type
+      googlePlaceId: place.place_id,
+      name: place.name || 'Name N/A',
+      address: place.formatted_address || place.vicinity || 'Address N/A',
+      cuisines: mapGoogleTypesToCuisines(place.types, place.name || ''),
+      dietaryOptions: mapGoogleTypesToDietary(place.types),
+      rating: place.rating || 0,
+      ...(Number.isInteger(place.user_ratings_total) ? { userRatingsTotal: place.user_ratings_total } : {}),
+      ...(isPriceLevel(place.price_level) ? { priceLevel: place.price_level } : {}),
+      latitude: place.geometry?.location?.lat,
+      longitude: place.geometry?.location?.lng,
+      ...await fetchOpeningInfo(place),
+    });
+  }
+
+  console.log(chalk.green(`[Google API] Fetched ${fetchedRestaurants.length} restaurants.`));
+  return fetchedRestaurants;
+}
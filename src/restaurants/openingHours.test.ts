@@ -0,0 +1,136 @@
+import { describe, expect, test } from 'bun:test';
+import type { Restaurant } from './types';
+import {
+    checkOpenAt, describeOpeningTime, formatOpeningHours, parseBusinessStatus, parseOpeningTime, parseWeeklyHours,
+} from './openingHours';
+
+const [SUN, MON, FRI, SAT] = [0, 1, 5, 6];
+
+function place(hours: string, zone: Partial<Pick<Restaurant, 'timeZone' | 'utcOffsetMinutes'>> = {}): Restaurant {
+    return {
+        id: 1, googlePlaceId: 'test', name: 'Test', address: '', cuisines: [], dietaryOptions: [], rating: 4,
+        openingHours: parseWeeklyHours(hours), ...zone,
+    };
+}
+
+function at(day: number, time: string) {
+    return parseOpeningTime(`${['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'][day]} ${time}`)!;
+}
+
+describe('parseWeeklyHours', () => {
+    test('expands day ranges and several ranges per day', () => {
+        const periods = parseWeeklyHours('Mon-Fri 11:30-14:30 18:00-23:00')!;
+        expect(periods).toHaveLength(10);
+        expect(periods[0]).toEqual({ openDay: MON, openMinute: 690, closeDay: MON, closeMinute: 870 });
+    });
+
+    test('runs a closing time at or before the opening time past midnight', () => {
+        expect(parseWeeklyHours('Sat 22:00-02:00')).toEqual([{ openDay: SAT, openMinute: 1320, closeDay: SUN, closeMinute: 120 }]);
+        expect(parseWeeklyHours('Mon 20:00-24:00')).toEqual([{ openDay: MON, openMinute: 1200, closeDay: 2, closeMinute: 0 }]);
+    });
+
+    test('wraps day ranges over the weekend', () => {
+        expect(parseWeeklyHours('Fri-Sun 12:00-15:00')!.map(p => p.openDay)).toEqual([FRI, SAT, SUN]);
+        expect(parseWeeklyHours('Daily 09:00-17:00')).toHaveLength(7);
+    });
+
+    test('reads 24/7 as a period without a close', () => {
+        expect(parseWeeklyHours('24/7')).toEqual([{ openDay: SUN, openMinute: 0 }]);
+    });
+
+    test('rejects anything it cannot read', () => {
+        expect(parseWeeklyHours('Mon-Fri lunchtime')).toBeUndefined();
+        expect(parseWeeklyHours('Funday 10:00-12:00')).toBeUndefined();
+        expect(parseWeeklyHours('Mon 10:00-25:00')).toBeUndefined();
+        expect(parseWeeklyHours('')).toBeUndefined();
+    });
+});
+
+describe('formatOpeningHours', () => {
+    test('lists periods in week order', () => {
+        expect(formatOpeningHours(parseWeeklyHours('Sat 22:00-02:00; Mon 09:00-17:00')!)).toBe('Mon 09:00-17:00, Sat 22:00-02:00');
+        expect(formatOpeningHours(parseWeeklyHours('24/7')!)).toBe('Open 24/7');
+    });
+});
+
+describe('parseOpeningTime', () => {
+    test('reads "now" and "<day> HH:MM"', () => {
+        const now = new Date('2024-01-05T12:00:00Z');
+        expect(parseOpeningTime('now', now)).toEqual({ kind: 'now', at: now });
+        expect(parseOpeningTime('Friday 20:00')).toEqual({ kind: 'weekly', day: FRI, minute: 1200 });
+        expect(parseOpeningTime('fri 8:30')).toEqual({ kind: 'weekly', day: FRI, minute: 510 });
+        expect(describeOpeningTime(parseOpeningTime('fri 8:30')!)).toBe('Friday 08:30');
+    });
+
+    test('rejects other text and the end-of-day 24:00', () => {
+        expect(parseOpeningTime('tonight')).toBeUndefined();
+        expect(parseOpeningTime('Fr 20:00')).toBeUndefined();
+        expect(parseOpeningTime('Fri 24:00')).toBeUndefined();
+    });
+});
+
+describe('checkOpenAt', () => {
+    test('is undefined when the hours are unknown', () => {
+        expect(checkOpenAt({ ...place('24/7'), openingHours: undefined }, at(MON, '12:00'))).toBeUndefined();
+    });
+
+    test('says when an open stretch ends', () => {
+        const lunchAndDinner = place('Mon-Fri 11:30-14:30 18:00-23:00');
+        expect(checkOpenAt(lunchAndDinner, at(MON, '12:00'))).toEqual({ open: true, closesAt: 870 });
+        expect(checkOpenAt(lunchAndDinner, at(MON, '15:00'))).toEqual({ open: false });
+        expect(checkOpenAt(lunchAndDinner, at(MON, '14:30'))).toEqual({ open: false }); // Closing time is exclusive
+        expect(checkOpenAt(lunchAndDinner, at(SAT, '12:00'))).toEqual({ open: false });
+    });
+
+    test('keeps late places open past midnight', () => {
+        const late = place('Fri 18:00-01:00');
+        expect(checkOpenAt(late, at(FRI, '23:30'))).toEqual({ open: true, closesAt: 60 });
+        expect(checkOpenAt(late, at(SAT, '00:30'))).toEqual({ open: true, closesAt: 60 });
+        expect(checkOpenAt(late, at(SAT, '01:30'))).toEqual({ open: false });
+    });
+
+    test('carries Saturday night into Sunday morning', () => {
+        const saturdayNight = place('Sat 22:00-02:00');
+        expect(checkOpenAt(saturdayNight, at(SAT, '23:00'))?.open).toBe(true);
+        expect(checkOpenAt(saturdayNight, at(SUN, '01:00'))?.open).toBe(true);
+        expect(checkOpenAt(saturdayNight, at(SUN, '03:00'))?.open).toBe(false);
+    });
+
+    test('is always open around the clock', () => {
+        expect(checkOpenAt(place('24/7'), at(SUN, '04:00'))).toEqual({ open: true });
+    });
+
+    describe('"now" in the restaurant\'s own time zone', () => {
+        const fridayLateUtc = parseOpeningTime('now', new Date('2024-01-05T23:30:00Z'))!; // Friday 23:30 UTC
+
+        test('uses the IANA zone', () => {
+            // 15:30 on Friday in Los Angeles, 08:30 on Saturday in Tokyo
+            expect(checkOpenAt(place('Fri 12:00-16:00', { timeZone: 'America/Los_Angeles' }), fridayLateUtc)?.open).toBe(true);
+            expect(checkOpenAt(place('Sat 08:00-10:00', { timeZone: 'Asia/Tokyo' }), fridayLateUtc)?.open).toBe(true);
+            expect(checkOpenAt(place('Fri 08:00-10:00', { timeZone: 'Asia/Tokyo' }), fridayLateUtc)?.open).toBe(false);
+        });
+
+        test('follows daylight saving time', () => {
+            // 19:30 EDT in July; a fixed EST offset would say 18:30
+            const julyEvening = parseOpeningTime('now', new Date('2024-07-05T23:30:00Z'))!;
+            expect(checkOpenAt(place('Fri 19:00-20:00', { timeZone: 'America/New_York' }), julyEvening)?.open).toBe(true);
+            expect(checkOpenAt(place('Fri 19:00-20:00', { utcOffsetMinutes: -300 }), julyEvening)?.open).toBe(false);
+        });
+
+        test('falls back to the UTC offset without a usable zone', () => {
+            // 05:00 on Saturday at UTC+5:30
+            expect(checkOpenAt(place('Sat 04:00-06:00', { utcOffsetMinutes: 330 }), fridayLateUtc)?.open).toBe(true);
+            expect(checkOpenAt(place('Sat 04:00-06:00', { timeZone: 'Not/AZone', utcOffsetMinutes: 330 }), fridayLateUtc)?.open).toBe(true);
+        });
+    });
+});
+
+describe('parseBusinessStatus', () => {
+    test('accepts Google\'s values in any spelling', () => {
+        expect(parseBusinessStatus('CLOSED_PERMANENTLY')).toBe('CLOSED_PERMANENTLY');
+        expect(parseBusinessStatus('closed temporarily')).toBe('CLOSED_TEMPORARILY');
+        expect(parseBusinessStatus('operational')).toBe('OPERATIONAL');
+        expect(parseBusinessStatus('gone')).toBeUndefined();
+        expect(parseBusinessStatus(3)).toBeUndefined();
+    });
+});
@@ -0,0 +1,145 @@
+// src/restaurants/openingHours.ts
+// Weekly opening hours: parsing, formatting and "is it open then?" checks in the restaurant's own time zone.
+import type { Restaurant, RestaurantBusinessStatus, OpeningPeriod, OpeningTimeConstraint } from './types';
+
+const MINUTES_PER_DAY = 24 * 60;
+const MINUTES_PER_WEEK = 7 * MINUTES_PER_DAY;
+const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const BUSINESS_STATUSES: RestaurantBusinessStatus[] = ['OPERATIONAL', 'CLOSED_TEMPORARILY', 'CLOSED_PERMANENTLY'];
+
+/** "CLOSED_PERMANENTLY", "closed permanently" and "closed-permanently" all work; undefined for anything else. */
+export function parseBusinessStatus(value: unknown): RestaurantBusinessStatus | undefined {
+    if (typeof value !== 'string') return undefined;
+    const normalized = value.trim().toUpperCase().replace(/[\s-]+/g, '_');
+    return BUSINESS_STATUSES.find(status => status === normalized);
+}
+
+// "mon", "monday" -> 1; undefined for anything else
+function parseDay(text: string): number | undefined {
+    const key = text.trim().toLowerCase();
+    if (key.length < 3) return undefined;
+    const index = DAY_NAMES.findIndex(day => day.toLowerCase().startsWith(key));
+    return index >= 0 ? index : undefined;
+}
+
+// "9:30", "20:00" and "24:00" (the end of the day) -> minutes from midnight
+function parseClockTime(text: string): number | undefined {
+    const match = text.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match) return undefined;
+    const hours = Number(match[1]);
+    const minutes = Number(match[2]);
+    if (minutes > 59 || hours > 24 || (hours === 24 && minutes > 0)) return undefined;
+    return hours * 60 + minutes;
+}
+
+export function formatMinuteOfDay(minute: number): string {
+    return `${String(Math.floor(minute / 60)).padStart(2, '0')}:${String(minute % 60).padStart(2, '0')}`;
+}
+
+// "Mon-Fri", "Sat", "Daily" -> day numbers; ranges may wrap, e.g. "Fri-Sun"
+function parseDays(text: string): number[] | undefined {
+    if (['daily', 'every day', 'all week'].includes(text.trim().toLowerCase())) return [0, 1, 2, 3, 4, 5, 6];
+    const [from, to] = text.split('-').map(parseDay);
+    if (from === undefined) return undefined;
+    if (!text.includes('-')) return [from];
+    if (to === undefined) return undefined;
+    const days = [from];
+    for (let day = from; day !== to; ) {
+        day = (day + 1) % 7;
+        days.push(day);
+    }
+    return days;
+}
+
+/**
+ * Parses hours written out by hand, as in restaurant files and fixtures:
+ * "Mon-Fri 11:30-14:30 18:00-23:00; Sat-Sun 12:00-01:00" or "24/7". Entries are separated by
+ * ";" or ","; a closing time at or before the opening time runs past midnight.
+ * Returns undefined when any part can't be read.
+ */
+export function parseWeeklyHours(text: string): OpeningPeriod[] | undefined {
+    if (/^\s*24\s*\/\s*7\s*$/.test(text)) return [{ openDay: 0, openMinute: 0 }];
+    const periods: OpeningPeriod[] = [];
+    for (const entry of text.split(/[;,]/).map(e => e.trim()).filter(Boolean)) {
+        const match = entry.match(/^(.+?)\s+(\d{1,2}:\d{2}\s*-\s*\d{1,2}:\d{2}(?:\s+\d{1,2}:\d{2}\s*-\s*\d{1,2}:\d{2})*)$/);
+        const days = match ? parseDays(match[1]!) : undefined;
+        if (!match || !days) return undefined;
+        for (const range of match[2]!.match(/\d{1,2}:\d{2}\s*-\s*\d{1,2}:\d{2}/g)!) {
+            const [open, close] = range.split('-').map(parseClockTime);
+            if (open === undefined || close === undefined || open === MINUTES_PER_DAY) return undefined;
+            for (const day of days) {
+                const closeDay = close <= open || close === MINUTES_PER_DAY ? (day + 1) % 7 : day;
+                periods.push({ openDay: day, openMinute: open, closeDay, closeMinute: close % MINUTES_PER_DAY });
+            }
+        }
+    }
+    return periods.length > 0 ? periods : undefined;
+}
+
+/** "Mon 11:30-14:30, Mon 18:00-23:00, ..." for display; "Open 24/7" for round-the-clock places. */
+export function formatOpeningHours(periods: OpeningPeriod[]): string {
+    if (periods.some(p => p.closeDay === undefined)) return 'Open 24/7';
+    return [...periods]
+        .sort((a, b) => a.openDay - b.openDay || a.openMinute - b.openMinute)
+        .map(p => `${DAY_NAMES[p.openDay]!.slice(0, 3)} ${formatMinuteOfDay(p.openMinute)}-${formatMinuteOfDay(p.closeMinute ?? 0)}`)
+        .join(', ');
+}
+
+/** Parses "now" or "<day> HH:MM" (e.g. "Friday 20:00", "fri 8:30"). */
+export function parseOpeningTime(text: string, now: Date = new Date()): OpeningTimeConstraint | undefined {
+    const trimmed = text.trim();
+    if (trimmed.toLowerCase() === 'now') return { kind: 'now', at: now };
+    const match = trimmed.match(/^([a-z]+)\s+(\d{1,2}:\d{2})$/i);
+    const day = match ? parseDay(match[1]!) : undefined;
+    const minute = match ? parseClockTime(match[2]!) : undefined;
+    if (day === undefined || minute === undefined || minute === MINUTES_PER_DAY) return undefined;
+    return { kind: 'weekly', day, minute };
+}
+
+export function describeOpeningTime(constraint: OpeningTimeConstraint): string {
+    return constraint.kind === 'now' ? 'now' : `${DAY_NAMES[constraint.day]} ${formatMinuteOfDay(constraint.minute)}`;
+}
+
+// Day and minute of an instant as read on a wall clock in the restaurant's zone
+function localWeekMinute(at: Date, restaurant: Restaurant): number {
+    if (restaurant.timeZone) {
+        try {
+            const parts = new Intl.DateTimeFormat('en-US', {
+                timeZone: restaurant.timeZone, weekday: 'long', hour: 'numeric', minute: 'numeric', hourCycle: 'h23',
+            }).formatToParts(at);
+            const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+            return DAY_NAMES.indexOf(part('weekday')) * MINUTES_PER_DAY + Number(part('hour')) * 60 + Number(part('minute'));
+        } catch {
+            // Unknown zone name: fall through to the offset, then to this machine's zone
+        }
+    }
+    if (restaurant.utcOffsetMinutes !== undefined) {
+        const shifted = new Date(at.getTime() + restaurant.utcOffsetMinutes * 60_000);
+        return shifted.getUTCDay() * MINUTES_PER_DAY + shifted.getUTCHours() * 60 + shifted.getUTCMinutes();
+    }
+    return at.getDay() * MINUTES_PER_DAY + at.getHours() * 60 + at.getMinutes();
+}
+
+/**
+ * Whether the restaurant is open at the given time and, if so, when that stretch ends (minutes
+ * from local midnight; undefined when open around the clock). Undefined when its hours aren't known.
+ */
+export function checkOpenAt(restaurant: Restaurant, constraint: OpeningTimeConstraint): { open: boolean; closesAt?: number } | undefined {
+    const periods = restaurant.openingHours;
+    if (!periods || periods.length === 0) return undefined;
+    const time = constraint.kind === 'now'
+        ? localWeekMinute(constraint.at, restaurant)
+        : constraint.day * MINUTES_PER_DAY + constraint.minute;
+
+    for (const period of periods) {
+        if (period.closeDay === undefined || period.closeMinute === undefined) return { open: true };
+        const start = period.openDay * MINUTES_PER_DAY + period.openMinute;
+        let end = period.closeDay * MINUTES_PER_DAY + period.closeMinute;
+        if (end <= start) end += MINUTES_PER_WEEK; // Saturday night into Sunday morning
+        // The second check catches early Sunday hours that belong to a period opened on Saturday
+        if ((time >= start && time < end) || (time + MINUTES_PER_WEEK >= start && time + MINUTES_PER_WEEK < end)) {
+            return { open: true, closesAt: period.closeMinute };
+        }
+    }
+    return { open: false };
+}
@@ -0,0 +1,94 @@
+// src/restaurants/preferenceModel.ts
+import type { LearnedRestaurantWeights, RestaurantFeedbackType, RestaurantInteraction } from './types';
+import { getRestaurantInteractionsByUserId } from '../db/restaurantDb';
+import { adjustedRating } from './adjustedRating';
+
+// How strongly each reaction counts as evidence for (or against) a restaurant's traits
+const FEEDBACK_SIGNAL: Record<RestaurantFeedbackType, number> = {
+    like: 1,
+    visited: 0.5,
+    skip: -0.3,
+    dislike: -1,
+};
+const CUISINE_PRIOR_COUNT = 2;     // Pseudo-observations pulling affinities toward 0 until evidence builds up
+const CONFIDENCE_HALF_POINT = 10;  // Interactions needed before learned weights count as much as explicit ones
+const MAX_LEARNED_SHARE = 0.6;     // Explicit preferences always keep at least 40% of the say
+
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function stdDev(values: number[]): number {
+    const avg = mean(values);
+    return Math.sqrt(mean(values.map(v => (v - avg) ** 2)));
+}
+
+export function learnRestaurantWeights(interactions: RestaurantInteraction[]): LearnedRestaurantWeights {
+    const cuisineTotals: Record<string, { signal: number; count: number }> = {};
+    interactions.forEach(interaction => {
+        const signal = FEEDBACK_SIGNAL[interaction.feedback];
+        interaction.cuisines.forEach(cuisine => {
+            const totals = cuisineTotals[cuisine] ?? { signal: 0, count: 0 };
+            totals.signal += signal;
+            totals.count += 1;
+            cuisineTotals[cuisine] = totals;
+        });
+    });
+    const cuisineAffinity: Record<string, number> = {};
+    for (const [cuisine, totals] of Object.entries(cuisineTotals)) {
+        cuisineAffinity[cuisine] = totals.signal / (totals.count + CUISINE_PRIOR_COUNT);
+    }
+
+    // Adjusted ratings, the same scale the recommender compares against
+    const positiveRatings = interactions.filter(i => FEEDBACK_SIGNAL[i.feedback] > 0 && i.rating > 0).map(adjustedRating);
+    const negativeRatings = interactions.filter(i => FEEDBACK_SIGNAL[i.feedback] < 0 && i.rating > 0).map(adjustedRating);
+
+    // One standard deviation under the average liked rating: places the user still enjoys most of the time
+    const learnedMinRating = positiveRatings.length > 0
+        ? Math.max(1, mean(positiveRatings) - stdDev(positiveRatings))
+        : null;
+
+    // If liked places rate clearly higher than rejected ones, rating matters to this user
+    let ratingSensitivity = 1;
+    if (positiveRatings.length > 0 && negativeRatings.length > 0) {
+        ratingSensitivity = Math.min(2, Math.max(0.5, 1 + (mean(positiveRatings) - mean(negativeRatings))));
+    }
+
+    // Price: the signal-weighted average level of places the user reacted well to
+    const priced = interactions.filter(i => i.priceLevel !== undefined);
+    const positivePriced = priced.filter(i => FEEDBACK_SIGNAL[i.feedback] > 0);
+    const positiveWeight = positivePriced.reduce((sum, i) => sum + FEEDBACK_SIGNAL[i.feedback], 0);
+    const learnedPriceLevel = positivePriced.length > 0
+        ? positivePriced.reduce((sum, i) => sum + FEEDBACK_SIGNAL[i.feedback] * i.priceLevel!, 0) / positiveWeight
+        : null;
+
+    // If rejected places sit further from that level than liked ones do, price is part of why they were rejected
+    let priceSensitivity = 1;
+    const negativePrices = priced.filter(i => FEEDBACK_SIGNAL[i.feedback] < 0).map(i => i.priceLevel!);
+    if (learnedPriceLevel !== null && negativePrices.length > 0) {
+        const distance = (level: number) => Math.abs(level - learnedPriceLevel);
+        const spread = mean(negativePrices.map(distance)) - mean(positivePriced.map(i => distance(i.priceLevel!)));
+        priceSensitivity = Math.min(2, Math.max(0.5, 1 + spread));
+    }
+
+    const sampleSize = interactions.length;
+    return {
+        cuisineAffinity,
+        learnedMinRating,
+        ratingSensitivity,
+        learnedPriceLevel,
+        priceSensitivity,
+        sampleSize,
+        confidence: MAX_LEARNED_SHARE * sampleSize / (sampleSize + CONFIDENCE_HALF_POINT),
+    };
+}
+
+export async function getLearnedRestaurantWeights(userId: number): Promise<LearnedRestaurantWeights> {
+    return learnRestaurantWeights(await getRestaurantInteractionsByUserId(userId));
+}
+
+// Weighted mix of an explicit value and a learned one, by the model's confidence
+export function blendWithLearned(explicitValue: number, learnedValue: number | null, confidence: number): number {
+    if (learnedValue === null) return explicitValue;
+    return (1 - confidence) * explicitValue + confidence * learnedValue;
+}
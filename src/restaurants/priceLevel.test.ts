@@ -0,0 +1,77 @@
+import { describe, expect, test } from 'bun:test';
+import { formatBudget, formatPriceLevel, isPriceLevel, parseBudget, parsePriceLevel } from './priceLevel';
+
+describe('parsePriceLevel', () => {
+    test('reads dollar signs, digits and "free"', () => {
+        expect(parsePriceLevel('$$')).toBe(2);
+        expect(parsePriceLevel(' $$$$ ')).toBe(4);
+        expect(parsePriceLevel('3')).toBe(3);
+        expect(parsePriceLevel('0')).toBe(0);
+        expect(parsePriceLevel('Free')).toBe(0);
+    });
+
+    test('rejects levels outside 0-4 and other text', () => {
+        expect(parsePriceLevel('$$$$$')).toBeUndefined();
+        expect(parsePriceLevel('5')).toBeUndefined();
+        expect(parsePriceLevel('cheap')).toBeUndefined();
+        expect(parsePriceLevel('')).toBeUndefined();
+    });
+});
+
+describe('isPriceLevel', () => {
+    test('accepts whole numbers from 0 to 4 only', () => {
+        expect([0, 4].every(isPriceLevel)).toBe(true);
+        expect([-1, 5, 1.5, '2', null].some(isPriceLevel)).toBe(false);
+    });
+});
+
+describe('formatPriceLevel', () => {
+    test('writes dollar signs, or "Free" for 0', () => {
+        expect(formatPriceLevel(0)).toBe('Free');
+        expect(formatPriceLevel(3)).toBe('$$$');
+    });
+});
+
+describe('parseBudget', () => {
+    test('reads ranges', () => {
+        expect(parseBudget('$-$$$')).toEqual({ minPriceLevel: 1, maxPriceLevel: 3 });
+        expect(parseBudget('1-3')).toEqual({ minPriceLevel: 1, maxPriceLevel: 3 });
+        expect(parseBudget('free-$')).toEqual({ minPriceLevel: 0, maxPriceLevel: 1 });
+    });
+
+    test('reads a single level as exactly that level', () => {
+        expect(parseBudget('$$')).toEqual({ minPriceLevel: 2, maxPriceLevel: 2 });
+    });
+
+    test('reads open-ended budgets', () => {
+        expect(parseBudget('up to $$')).toEqual({ minPriceLevel: undefined, maxPriceLevel: 2 });
+        expect(parseBudget('$$+')).toEqual({ minPriceLevel: 2, maxPriceLevel: undefined });
+        expect(parseBudget('$$ or more')).toEqual({ minPriceLevel: 2, maxPriceLevel: undefined });
+        expect(parseBudget('Any')).toEqual({ minPriceLevel: undefined, maxPriceLevel: undefined });
+    });
+
+    test('rejects reversed ranges and anything unreadable', () => {
+        expect(parseBudget('$$$-$')).toBeUndefined();
+        expect(parseBudget('1-2-3')).toBeUndefined();
+        expect(parseBudget('up to lots')).toBeUndefined();
+        expect(parseBudget('+')).toBeUndefined();
+        expect(parseBudget('')).toBeUndefined();
+    });
+});
+
+describe('formatBudget', () => {
+    test('describes each kind of budget', () => {
+        expect(formatBudget({ minPriceLevel: 1, maxPriceLevel: 3 })).toBe('$-$$$');
+        expect(formatBudget({ minPriceLevel: 2, maxPriceLevel: 2 })).toBe('$$');
+        expect(formatBudget({ maxPriceLevel: 2 })).toBe('up to $$');
+        expect(formatBudget({ minPriceLevel: 2 })).toBe('$$ or more');
+        expect(formatBudget({})).toBeUndefined();
+    });
+
+    test('writes text parseBudget reads back', () => {
+        const budgets = [{ minPriceLevel: 0, maxPriceLevel: 2 }, { minPriceLevel: 3, maxPriceLevel: 3 }, { maxPriceLevel: 1 }, { minPriceLevel: 2 }];
+        for (const budget of budgets) {
+            expect(parseBudget(formatBudget(budget)!)).toEqual({ minPriceLevel: undefined, maxPriceLevel: undefined, ...budget });
+        }
+    });
+});
@@ -0,0 +1,56 @@
+// src/restaurants/priceLevel.ts
+// Google Places price levels, 0 (free) to 4 (very expensive), written "$" to "$$$$" for people.
+import type { RestaurantUserPreferences } from './types';
+
+export const MAX_PRICE_LEVEL = 4;
+
+export function isPriceLevel(value: unknown): value is number {
+    return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= MAX_PRICE_LEVEL;
+}
+
+export function formatPriceLevel(level: number): string {
+    return level === 0 ? 'Free' : '$'.repeat(level);
+}
+
+/** "2", "$$" or "free"; undefined for anything else. */
+export function parsePriceLevel(text: string): number | undefined {
+    const trimmed = text.trim().toLowerCase();
+    if (trimmed === 'free') return 0;
+    const level = /^\$+$/.test(trimmed) ? trimmed.length : /^\d$/.test(trimmed) ? Number(trimmed) : NaN;
+    return isPriceLevel(level) ? level : undefined;
+}
+
+type Budget = Pick<RestaurantUserPreferences, 'minPriceLevel' | 'maxPriceLevel'>;
+
+/**
+ * Parses a budget: "$-$$$" or "1-3" for a range, "up to $$", "$$+" or "$$ or more" for "at least",
+ * a single level for exactly that, and "any" for no budget. Reads everything formatBudget writes.
+ * Undefined when it can't be read.
+ */
+export function parseBudget(text: string): Budget | undefined {
+    const trimmed = text.trim().toLowerCase();
+    if (trimmed === 'any') return { minPriceLevel: undefined, maxPriceLevel: undefined };
+    const upTo = trimmed.match(/^up to (.+)$/);
+    if (upTo) {
+        const max = parsePriceLevel(upTo[1]!);
+        return max === undefined ? undefined : { minPriceLevel: undefined, maxPriceLevel: max };
+    }
+    const atLeast = trimmed.match(/^(.+?)(?:\+| or more)$/);
+    if (atLeast) {
+        const min = parsePriceLevel(atLeast[1]!);
+        return min === undefined ? undefined : { minPriceLevel: min, maxPriceLevel: undefined };
+    }
+    const [minText, maxText = minText, ...rest] = trimmed.split('-');
+    const min = minText === undefined ? undefined : parsePriceLevel(minText);
+    const max = maxText === undefined ? undefined : parsePriceLevel(maxText);
+    if (rest.length > 0 || min === undefined || max === undefined || min > max) return undefined;
+    return { minPriceLevel: min, maxPriceLevel: max };
+}
+
+/** "$-$$$", "up to $$", "$$ or more", or undefined when there's no budget. */
+export function formatBudget({ minPriceLevel: min, maxPriceLevel: max }: Budget): string | undefined {
+    if (min !== undefined && max !== undefined) return min === max ? formatPriceLevel(min) : `${formatPriceLevel(min)}-${formatPriceLevel(max)}`;
+    if (max !== undefined) return `up to ${formatPriceLevel(max)}`;
+    if (min !== undefined) return `${formatPriceLevel(min)} or more`;
+    return undefined;
+}
@@ -1,27 +1,59 @@
-import type { Restaurant, RestaurantUserPreferences } from './types';
-import type { User } from '../common/types'; // Common User type
+import type { Restaurant, RestaurantUserPreferences, LearnedRestaurantWeights, RestaurantRankingOptions } from './types';
+import type { User, Recommendation, RecommendationReason, ScoreComponent } from '../common/types'; // Common User type
+import { getDismissedRestaurantIdsByUserId } from '../db/restaurantDb';
+import { getLearnedRestaurantWeights, blendWithLearned } from './preferenceModel';
+import { seededUnit } from '../common/seededRandom';
+import { haversineKm } from '../common/geo';
+import { checkOpenAt, describeOpeningTime, formatMinuteOfDay } from './openingHours';
+import { formatBudget } from './priceLevel';
+import { adjustedRating } from './adjustedRating';
+import { rankForGroup } from '../common/groupScoring';
+import type { GroupStrategy, GroupRecommendation, MemberScores } from '../common/groupScoring';
 
 const CUISINE_MATCH_SCORE = 30;
 const DIETARY_MATCH_SCORE = 50;
 const RATING_BONUS_PER_POINT = 5;
+const CUISINE_REJECTION_PENALTY = 25; // Scaled by how negative the learned affinity is (down to -1)
+const SKIP_COOLDOWN_DAYS = 14; // Skipped places come back after this long; disliked ones don't
+const LIKED_CUISINE_AFFINITY = 0.2; // Learned affinity above which a cuisine is worth calling out as a reason
+const DEFAULT_SEEDED_JITTER = 2; // Same spread the old random factor had
+const DISTANCE_MAX_SCORE = 20; // For a place at the user's door
+const DISTANCE_HALF_SCORE_KM = 2; // The distance at which the distance bonus has halved
+const BUDGET_MATCH_SCORE = 10; // For a place whose price level is within the user's budget
+const BELOW_BUDGET_PENALTY = 5; // Per price level under the budget's lower end; over the upper end is filtered out
+
+type ScoredRestaurant = Omit<Recommendation<Restaurant>, 'item'>;
 
 function arrayIntersects<T>(arr1: T[], arr2: T[]): boolean {
     return arr1.some(item => arr2.includes(item));
 }
 
+// Returns null when a hard filter rules the restaurant out
 function calculateRestaurantMatchScore(
     restaurant: Restaurant,
-    preferences: RestaurantUserPreferences
-): number {
-    let score = 0;
+    preferences: RestaurantUserPreferences,
+    learned: LearnedRestaurantWeights
+): ScoredRestaurant | null {
+    const reasons: RecommendationReason[] = [];
+    const scoreComponents: ScoreComponent[] = [];
+    const total = () => scoreComponents.reduce((sum, c) => sum + c.points, 0);
 
-    // Cuisine Match
+    // Cuisine Match: explicit favourites blended with what the user's history says
+    let explicitCuisineScore = 0;
     const userCuisines = preferences.favoriteCuisines;
     if (userCuisines.includes("Any") || userCuisines.length === 0) {
-        score += CUISINE_MATCH_SCORE / 2;
+        explicitCuisineScore = CUISINE_MATCH_SCORE / 2;
     } else if (arrayIntersects(restaurant.cuisines, userCuisines)) {
-        score += CUISINE_MATCH_SCORE;
+        explicitCuisineScore = CUISINE_MATCH_SCORE;
+        reasons.push({ type: 'matched_cuisines', cuisines: restaurant.cuisines.filter(c => userCuisines.includes(c)), source: 'preferences' });
     }
+    const affinities = restaurant.cuisines.map(c => learned.cuisineAffinity[c] ?? 0);
+    const bestAffinity = Math.max(0, ...affinities);
+    const worstAffinity = Math.min(0, ...affinities);
+    const learnedCuisineScore = (CUISINE_MATCH_SCORE / 2) * (1 + bestAffinity + worstAffinity);
+    scoreComponents.push({ label: 'cuisine', points: blendWithLearned(explicitCuisineScore, learnedCuisineScore, learned.confidence) });
+    const likedFromHistory = restaurant.cuisines.filter(c => (learned.cuisineAffinity[c] ?? 0) >= LIKED_CUISINE_AFFINITY);
+    if (likedFromHistory.length > 0) reasons.push({ type: 'matched_cuisines', cuisines: likedFromHistory, source: 'history' });
 
     // Dietary Restrictions Match
     const userRestrictions = preferences.dietaryRestrictions;
@@ -32,40 +64,196 @@ function calculateRestaurantMatchScore(
             )
         );
         if (meetsAllRestrictions) {
-            score += DIETARY_MATCH_SCORE;
+            scoreComponents.push({ label: 'dietary match', points: DIETARY_MATCH_SCORE });
+            reasons.push({ type: 'dietary_match', restrictions: userRestrictions });
         } else {
-            return 0; // Hard filter: dietary needs not met
+            return null; // Hard filter: dietary needs not met
         }
     } else {
-        score += DIETARY_MATCH_SCORE / 5; // Small bonus for no restrictions to worry about
+        scoreComponents.push({ label: 'no dietary restrictions', points: DIETARY_MATCH_SCORE / 5 }); // Small bonus for no restrictions to worry about
+    }
+
+    // Budget: more than the user will pay is out; cheaper than they asked for only costs points. The
+    // price level of places they've liked pulls the score toward what they usually pay, blended in like
+    // the cuisine and rating weights. Places whose price isn't known are neither rewarded nor filtered.
+    const budget = formatBudget(preferences);
+    if (restaurant.priceLevel !== undefined && (budget || learned.learnedPriceLevel !== null)) {
+        const { minPriceLevel = 0, maxPriceLevel = Infinity } = preferences;
+        if (restaurant.priceLevel > maxPriceLevel) return null;
+        let explicitPriceScore = BUDGET_MATCH_SCORE / 2; // No budget: neutral, like "Any" cuisine
+        let label = 'usual price range';
+        if (budget && restaurant.priceLevel < minPriceLevel) {
+            explicitPriceScore = -(minPriceLevel - restaurant.priceLevel) * BELOW_BUDGET_PENALTY;
+            label = 'below your budget';
+        } else if (budget) {
+            explicitPriceScore = BUDGET_MATCH_SCORE;
+            label = 'within budget';
+            reasons.push({ type: 'passed_filter', filter: `budget ${budget}` });
+        }
+        const learnedPriceScore = learned.learnedPriceLevel === null
+            ? null
+            : BUDGET_MATCH_SCORE - Math.abs(restaurant.priceLevel - learned.learnedPriceLevel) * BELOW_BUDGET_PENALTY * learned.priceSensitivity;
+        scoreComponents.push({ label, points: blendWithLearned(explicitPriceScore, learnedPriceScore, learned.confidence) });
     }
 
-    // Rating Match
-    if (restaurant.rating >= preferences.minRating) {
-        score += (restaurant.rating - preferences.minRating) * RATING_BONUS_PER_POINT;
-        score += 10; // Base score for meeting min rating
+    // Rating Match: the threshold relaxes or tightens toward what the user actually likes. Both the threshold
+    // and the bonus use the review-count-adjusted rating, so a handful of perfect reviews doesn't beat a long record.
+    const minRating = blendWithLearned(preferences.minRating, learned.learnedMinRating, learned.confidence);
+    const ratingBonusPerPoint = RATING_BONUS_PER_POINT * blendWithLearned(1, learned.ratingSensitivity, learned.confidence);
+    const rating = adjustedRating(restaurant);
+    if (rating >= minRating) {
+        scoreComponents.push({ label: 'rating above minimum', points: (rating - minRating) * ratingBonusPerPoint });
+        scoreComponents.push({ label: 'meets minimum rating', points: 10 }); // Base score for meeting min rating
+        reasons.push({ type: 'passed_filter', filter: `rating ≥ ${minRating.toFixed(1)}` });
     } else {
-        if (score < (CUISINE_MATCH_SCORE + DIETARY_MATCH_SCORE) / 2) return 0; // Filter if not strong match
+        if (total() < (CUISINE_MATCH_SCORE + DIETARY_MATCH_SCORE) / 2) return null; // Filter if not strong match
     }
 
-    score += Math.random() * 2; // Smaller random factor for restaurants
-    return score;
+    // Down-weight cuisines the user keeps turning down, whatever their explicit preferences say
+    if (worstAffinity < 0) scoreComponents.push({ label: 'cuisines you keep passing on', points: worstAffinity * CUISINE_REJECTION_PENALTY });
+    if (total() <= 0) return null;
+
+    return { score: total(), reasons, scoreComponents };
+}
+
+// Kilometres from the origin, or undefined when the restaurant has no stored coordinates
+function distanceFromOrigin(restaurant: Restaurant, origin: NonNullable<RestaurantRankingOptions['origin']>): number | undefined {
+    if (restaurant.latitude == null || restaurant.longitude == null) return undefined;
+    return haversineKm(origin, { latitude: restaurant.latitude, longitude: restaurant.longitude });
+}
+
+// Whether the restaurant is within options.maxDistanceKm (always true without an origin or a radius)
+function withinRadius(restaurant: Restaurant, options: RestaurantRankingOptions): boolean {
+    if (!options.origin || options.maxDistanceKm === undefined) return true;
+    const km = distanceFromOrigin(restaurant, options.origin);
+    return km !== undefined && km <= options.maxDistanceKm;
+}
+
+// Closer is better: the bonus shrinks smoothly with distance rather than stopping at the radius
+function addDistanceScore(restaurant: Restaurant, scored: ScoredRestaurant, options: RestaurantRankingOptions): void {
+    if (!options.origin) return;
+    const km = distanceFromOrigin(restaurant, options.origin);
+    if (km === undefined) return;
+    const points = DISTANCE_MAX_SCORE / (1 + km / DISTANCE_HALF_SCORE_KM);
+    scored.scoreComponents.push({ label: 'distance', points });
+    scored.score += points;
+    scored.reasons.push({ type: 'distance', km, from: options.originLabel });
+}
+
+// Permanently closed places are never recommended. With options.openAt, temporarily closed places and
+// places known to be shut then are dropped too; places whose hours aren't known get the benefit of the doubt.
+function isOpenForVisit(restaurant: Restaurant, options: RestaurantRankingOptions): boolean {
+    if (restaurant.businessStatus === 'CLOSED_PERMANENTLY') return false;
+    if (!options.openAt) return true;
+    if (restaurant.businessStatus === 'CLOSED_TEMPORARILY') return false;
+    return checkOpenAt(restaurant, options.openAt)?.open ?? true;
+}
+
+function addOpeningReason(restaurant: Restaurant, scored: ScoredRestaurant, options: RestaurantRankingOptions): void {
+    if (!options.openAt) return;
+    const status = checkOpenAt(restaurant, options.openAt);
+    if (!status?.open) return;
+    scored.reasons.push({
+        type: 'open_at',
+        when: describeOpeningTime(options.openAt),
+        until: status.closesAt === undefined ? undefined : formatMinuteOfDay(status.closesAt),
+    });
 }
 
 export async function getRestaurantRecommendations(
     user: User, // Current generic user
     userPrefs: RestaurantUserPreferences, // Specific restaurant preferences for this user
     allRestaurants: Restaurant[],
-    excludeRestaurantIds: Set<number> = new Set()
-): Promise<Restaurant[]> {
-    const scoredRestaurants = allRestaurants
-        .filter(r => r.id !== undefined && !excludeRestaurantIds.has(r.id))
-        .map(restaurant => ({
-            restaurant,
-            score: calculateRestaurantMatchScore(restaurant, userPrefs),
-        }))
-        .filter(item => item.score > 0)
-        .sort((a, b) => b.score - a.score);
-
-    return scoredRestaurants.map(item => item.restaurant);
-}
\ No newline at end of file
+    excludeRestaurantIds: Set<number> = new Set(),
+    options: RestaurantRankingOptions = {}
+): Promise<Recommendation<Restaurant>[]> {
+    const dismissedIds = new Set(await getDismissedRestaurantIdsByUserId(user.id, SKIP_COOLDOWN_DAYS));
+    const learned = await getLearnedRestaurantWeights(user.id);
+
+    const scoredRestaurants: Recommendation<Restaurant>[] = [];
+    for (const restaurant of allRestaurants) {
+        if (restaurant.id === undefined || excludeRestaurantIds.has(restaurant.id) || dismissedIds.has(restaurant.id)) continue;
+        if (!withinRadius(restaurant, options) || !isOpenForVisit(restaurant, options)) continue;
+        const scored = calculateRestaurantMatchScore(restaurant, userPrefs, learned);
+        if (!scored) continue;
+        addDistanceScore(restaurant, scored, options);
+        addOpeningReason(restaurant, scored, options);
+        if (options.seed !== undefined) {
+            // Keyed on the restaurant, not its position, so the noise doesn't depend on input order
+            const variety = seededUnit(options.seed, restaurant.googlePlaceId) * (options.jitter ?? DEFAULT_SEEDED_JITTER);
+            if (variety > 0) {
+                scored.scoreComponents.push({ label: 'variety', points: variety });
+                scored.score += variety;
+            }
+        }
+        scoredRestaurants.push({ item: restaurant, ...scored });
+    }
+
+    // Ties fall back to a seeded coin flip when a seed is given, else to the stable Google place ID
+    return scoredRestaurants.sort((a, b) =>
+        b.score - a.score ||
+        (options.seed !== undefined
+            ? seededUnit(options.seed, `tie:${a.item.googlePlaceId}`) - seededUnit(options.seed, `tie:${b.item.googlePlaceId}`)
+            : 0) ||
+        a.item.googlePlaceId.localeCompare(b.item.googlePlaceId)
+    );
+}
+
+// Everyone has to be able to eat there, so the group's dietary restrictions are the union of
+// its members'; case-insensitively, keeping the first spelling seen
+export function mergeDietaryRestrictions(preferences: RestaurantUserPreferences[]): string[] {
+    const merged = new Map<string, string>();
+    for (const restriction of preferences.flatMap(p => p.dietaryRestrictions)) {
+        const key = restriction.trim().toLowerCase();
+        if (key && !merged.has(key)) merged.set(key, restriction.trim());
+    }
+    return [...merged.values()];
+}
+
+/**
+ * Ranks restaurants for several users at once. Each member scores every place with their own
+ * cuisines, minimum rating and learned weights, but against the whole group's dietary
+ * restrictions; a place any member has disliked (or recently skipped) is out for everyone.
+ */
+export async function getGroupRestaurantRecommendations(
+    members: { user: User; prefs: RestaurantUserPreferences }[],
+    allRestaurants: Restaurant[],
+    strategy: GroupStrategy = 'average',
+    excludeRestaurantIds: Set<number> = new Set(),
+    options: Pick<RestaurantRankingOptions, 'origin' | 'originLabel' | 'maxDistanceKm' | 'openAt'> = {}
+): Promise<GroupRecommendation<Restaurant>[]> {
+    const dietaryRestrictions = mergeDietaryRestrictions(members.map(m => m.prefs));
+    const vetoedIds = new Set(excludeRestaurantIds);
+    for (const { user } of members) {
+        for (const id of await getDismissedRestaurantIdsByUserId(user.id, SKIP_COOLDOWN_DAYS)) vetoedIds.add(id);
+    }
+    const candidates = allRestaurants
+        .filter(r => r.id !== undefined && !vetoedIds.has(r.id) && withinRadius(r, options) && isOpenForVisit(r, options))
+        .map(r => ({ key: r.id!, item: r }));
+
+    const memberScores: { user: User; scores: MemberScores }[] = [];
+    for (const { user, prefs } of members) {
+        const learned = await getLearnedRestaurantWeights(user.id);
+        const scores: MemberScores = new Map();
+        for (const { key, item } of candidates) {
+            const scored = calculateRestaurantMatchScore(item, { ...prefs, dietaryRestrictions }, learned);
+            if (!scored) continue;
+            addDistanceScore(item, scored, options);
+            addOpeningReason(item, scored, options);
+            scores.set(key, scored);
+        }
+        memberScores.push({ user, scores });
+    }
+
+    // Places failing the merged dietary filter score null for everyone, so rankForGroup drops them
+    const sharedReasons: RecommendationReason[] = dietaryRestrictions.length > 0 ? [{ type: 'dietary_match', restrictions: dietaryRestrictions }] : [];
+    return rankForGroup(candidates, memberScores, strategy)
+        .map(rec => {
+            // Distance and opening hours are the same for everyone, so they're said once for the group
+            const memberReasons = rec.members.flatMap(m => m.reasons);
+            const placeReasons = (['distance', 'open_at'] as const)
+                .map(type => memberReasons.find(r => r.type === type))
+                .filter((r): r is RecommendationReason => r !== undefined);
+            return { ...rec, reasons: [...sharedReasons, ...placeReasons] };
+        });
+}
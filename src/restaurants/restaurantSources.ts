@@ -0,0 +1,188 @@
+// src/restaurants/restaurantSources.ts
+// Implementations of RestaurantSource. Google Places is the default; the file and
+// fixture sources let the restaurant module run without network access.
+import { readFile } from 'fs/promises';
+import path from 'path';
+import chalk from 'chalk';
+import type { Restaurant, OpeningPeriod, RestaurantSource } from './types';
+import { fetchRestaurantsFromGooglePlaces } from './googleApiService';
+import { restaurantFixtures } from '../data/restaurantFixtures';
+import { createSeededRandom } from '../common/seededRandom';
+import { csvToRecords } from '../common/csv';
+import { isValidCoordinate } from '../common/geo';
+import { parseBusinessStatus, parseWeeklyHours } from './openingHours';
+import { parsePriceLevel } from './priceLevel';
+
+type RestaurantRecord = Omit<Restaurant, 'id'>;
+
+const DEFAULT_MAX_RESULTS = 20;
+
+export const googlePlacesSource: RestaurantSource = {
+    name: "Google Places",
+    fetchRestaurants: (locationQuery, maxResults) => fetchRestaurantsFromGooglePlaces(locationQuery, maxResults),
+};
+
+// --- Local file source (JSON or CSV) ---
+
+// Rows as they appear in a file: list fields may be arrays or ";"/"|"-separated strings
+interface RawRestaurantRow {
+    googlePlaceId?: string;
+    name?: string;
+    address?: string;
+    cuisines?: string[] | string;
+    dietaryOptions?: string[] | string;
+    rating?: number | string;
+    userRatingsTotal?: number | string; // How many reviews the rating comes from
+    priceLevel?: number | string; // 0-4 or "$" to "$$$$"
+    latitude?: number | string;
+    longitude?: number | string;
+    businessStatus?: string;
+    hours?: string | OpeningPeriod[];  // "Mon-Fri 11:00-22:00; Sat 12:00-23:00", or periods as stored (JSON files)
+    timeZone?: string;                  // IANA zone the hours are in, e.g. "Europe/London"
+    location?: string; // Optional city/area the row belongs to; matched against the location query
+}
+
+function splitList(value: string[] | string | undefined): string[] {
+    if (!value) return [];
+    if (Array.isArray(value)) return value.map(v => String(v).trim()).filter(Boolean);
+    return value.split(/[;|]/).map(v => v.trim()).filter(Boolean);
+}
+
+function slugify(value: string): string {
+    return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+}
+
+// Unreadable hours are dropped (the place is then treated as having unknown hours) rather than failing the row
+function parseRowHours(hours: RawRestaurantRow['hours']): OpeningPeriod[] | undefined {
+    if (Array.isArray(hours)) return hours.length > 0 ? hours : undefined;
+    return hours?.trim() ? parseWeeklyHours(hours) : undefined;
+}
+
+function normalizeRow(row: RawRestaurantRow): RestaurantRecord | null {
+    const name = row.name?.trim();
+    if (!name) return null;
+    const rating = Number(row.rating);
+    const latitude = row.latitude === undefined || row.latitude === '' ? NaN : Number(row.latitude);
+    const longitude = row.longitude === undefined || row.longitude === '' ? NaN : Number(row.longitude);
+    const userRatingsTotal = row.userRatingsTotal === undefined || row.userRatingsTotal === '' ? NaN : Number(row.userRatingsTotal);
+    const priceLevel = row.priceLevel === undefined ? undefined : parsePriceLevel(String(row.priceLevel));
+    const businessStatus = parseBusinessStatus(row.businessStatus);
+    const openingHours = parseRowHours(row.hours);
+    return {
+        googlePlaceId: row.googlePlaceId?.trim() || `file-${slugify(`${name} ${row.address ?? ''}`)}`,
+        name,
+        address: row.address?.trim() || 'Address N/A',
+        cuisines: splitList(row.cuisines).length > 0 ? splitList(row.cuisines) : ['Restaurant'],
+        dietaryOptions: splitList(row.dietaryOptions),
+        rating: Number.isFinite(rating) ? Math.min(5, Math.max(0, rating)) : 0,
+        ...(Number.isInteger(userRatingsTotal) && userRatingsTotal >= 0 ? { userRatingsTotal } : {}),
+        ...(priceLevel !== undefined ? { priceLevel } : {}),
+        ...(isValidCoordinate(latitude, longitude) ? { latitude, longitude } : {}),
+        ...(businessStatus ? { businessStatus } : {}),
+        ...(openingHours ? { openingHours } : {}),
+        ...(row.timeZone?.trim() ? { timeZone: row.timeZone.trim() } : {}),
+    };
+}
+
+function csvToRows(text: string): RawRestaurantRow[] {
+    return csvToRecords(text) as RawRestaurantRow[];
+}
+
+// JSON files may be a flat array of rows, or an object of rows keyed by location
+function jsonToRows(text: string): RawRestaurantRow[] {
+    const parsed = JSON.parse(text);
+    if (Array.isArray(parsed)) return parsed;
+    return Object.entries(parsed as Record<string, RawRestaurantRow[]>)
+        .flatMap(([location, rows]) => rows.map(row => ({ location, ...row })));
+}
+
+function matchesLocation(row: RawRestaurantRow, locationQuery: string): boolean {
+    const query = locationQuery.trim().toLowerCase();
+    if (row.location) return row.location.toLowerCase().includes(query) || query.includes(row.location.toLowerCase());
+    return true; // Files without locations are treated as "the one place I care about"
+}
+
+export function createFileRestaurantSource(filePath: string): RestaurantSource {
+    return {
+        name: `file ${path.basename(filePath)}`,
+        async fetchRestaurants(locationQuery, maxResults = DEFAULT_MAX_RESULTS) {
+            let rows: RawRestaurantRow[];
+            try {
+                const text = await readFile(filePath, 'utf-8');
+                rows = filePath.toLowerCase().endsWith('.csv') ? csvToRows(text) : jsonToRows(text);
+            } catch (error: any) {
+                console.error(chalk.red(`[File Source] Could not read restaurants from ${filePath}:`), error.message);
+                return [];
+            }
+            const restaurants = rows
+                .filter(row => matchesLocation(row, locationQuery))
+                .map(normalizeRow)
+                .filter((r): r is RestaurantRecord => r !== null);
+            const skipped = rows.filter(row => matchesLocation(row, locationQuery)).length - restaurants.length;
+            if (skipped > 0) console.log(chalk.yellow(`[File Source] Skipped ${skipped} rows without a name.`));
+            return restaurants.slice(0, maxResults);
+        },
+    };
+}
+
+// --- Fixture-backed fake ---
+
+const SYNTHETIC_CUISINES = ["Italian", "Mexican", "Indian", "Thai", "Japanese", "Chinese", "American", "Vietnamese", "Mediterranean", "Korean"];
+const SYNTHETIC_NAME_WORDS = ["Corner", "Kitchen", "House", "Table", "Garden", "Bistro", "Canteen", "Grill"];
+const SYNTHETIC_COUNT = 8;
+
+// Made-up but stable restaurants for cities with no fixture: the city name is the seed
+function syntheticRestaurants(locationQuery: string): RestaurantRecord[] {
+    const random = createSeededRandom(locationQuery.trim().toLowerCase());
+    const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)]!;
+    const citySlug = slugify(locationQuery);
+    return Array.from({ length: SYNTHETIC_COUNT }, (_, i) => {
+        const cuisine = pick(SYNTHETIC_CUISINES);
+        const dietaryOptions = random() < 0.4 ? (random() < 0.5 ? ["vegetarian", "vegan"] : ["vegetarian"]) : [];
+        return {
+            googlePlaceId: `fixture-${citySlug}-${i + 1}`,
+            name: `${locationQuery.trim()} ${cuisine} ${pick(SYNTHETIC_NAME_WORDS)}`,
+            address: `${10 + i * 7} Main St, ${locationQuery.trim()}`,
+            cuisines: [cuisine],
+            dietaryOptions,
+            rating: Math.round((3 + random() * 2) * 10) / 10,
+        };
+    });
+}
+
+export function createFixtureRestaurantSource(
+    fixtures: Record<string, RestaurantRecord[]> = restaurantFixtures
+): RestaurantSource {
+    return {
+        name: "fixtures",
+        async fetchRestaurants(locationQuery, maxResults = DEFAULT_MAX_RESULTS) {
+            const key = locationQuery.trim().toLowerCase();
+            const matchedKey = Object.keys(fixtures).find(city => key.includes(city) || city.includes(key));
+            const restaurants = matchedKey ? fixtures[matchedKey]! : syntheticRestaurants(locationQuery);
+            return restaurants.slice(0, maxResults);
+        },
+    };
+}
+
+// Picks the source from RESTAURANT_SOURCE (google | file | fixture); "file" reads RESTAURANT_SOURCE_FILE
+export function getDefaultRestaurantSource(): RestaurantSource {
+    const mode = (process.env.RESTAURANT_SOURCE || 'google').toLowerCase();
+    switch (mode) {
+        case 'file': {
+            const filePath = process.env.RESTAURANT_SOURCE_FILE;
+            if (!filePath) {
+                console.error(chalk.red("RESTAURANT_SOURCE=file needs RESTAURANT_SOURCE_FILE. Falling back to fixtures."));
+                return createFixtureRestaurantSource();
+            }
+            return createFileRestaurantSource(filePath);
+        }
+        case 'fixture':
+        case 'fixtures':
+            return createFixtureRestaurantSource();
+        case 'google':
+            return googlePlacesSource;
+        default:
+            console.error(chalk.yellow(`Unknown RESTAURANT_SOURCE "${mode}", using Google Places.`));
+            return googlePlacesSource;
+    }
+}
@@ -1,8 +1,12 @@
+import type { GeoPoint } from '../common/geo';
+
 export interface RestaurantUserPreferences {
   user_id: number; // Foreign key to users table
   favoriteCuisines: string[];
   dietaryRestrictions: string[]; // e.g., "vegetarian", "gluten-free", "vegan"
   minRating: number; // 1-5
+  minPriceLevel?: number; // Budget as Google price levels, 0 (free) to 4 ($$$$); either end may be open
+  maxPriceLevel?: number;
 }
 
 export interface Restaurant {
@@ -13,11 +17,103 @@ export interface Restaurant {
   cuisines: string[];
   dietaryOptions: string[];
   rating: number;
+  userRatingsTotal?: number; // Number of reviews behind `rating`; missing for sources that don't say
+  priceLevel?: number; // 0 (free) to 4 ($$$$), as in Google Places; missing when the source doesn't say
+  latitude?: number;  // Missing for sources without coordinates and places stored before they were kept
+  longitude?: number;
+  businessStatus?: RestaurantBusinessStatus;
+  openingHours?: OpeningPeriod[]; // Missing when the source doesn't know the hours
+  timeZone?: string;              // IANA zone, e.g. "Europe/London"; the hours are local to it
+  utcOffsetMinutes?: number;      // Fallback when the zone is unknown; ignores daylight saving changes
+}
+
+// As reported by Google Places
+export type RestaurantBusinessStatus = 'OPERATIONAL' | 'CLOSED_TEMPORARILY' | 'CLOSED_PERMANENTLY';
+
+// One opening period in the restaurant's local time. Days run 0 (Sunday) to 6 as in Google Places,
+// minutes count from midnight. A close on a later day means open past midnight; no close means open around the clock.
+export interface OpeningPeriod {
+  openDay: number;
+  openMinute: number;
+  closeDay?: number;
+  closeMinute?: number;
 }
 
+// When the user wants to eat. "now" is an instant, read in each restaurant's own time zone;
+// a weekly time such as Friday 20:00 is local to whichever restaurant it's checked against.
+export type OpeningTimeConstraint =
+  | { kind: 'now'; at: Date }
+  | { kind: 'weekly'; day: number; minute: number };
+
 // This type represents a row from the user_restaurant_likes table
 export interface UserRestaurantLike {
     user_id: number;
     restaurant_id: number;
     liked_at: string; // Or Date object if you parse it
-}
\ No newline at end of file
+}
+
+export type RestaurantFeedbackType = 'like' | 'dislike' | 'skip' | 'visited';
+
+// A row from the user_restaurant_feedback table
+export interface UserRestaurantFeedback {
+    id: number;
+    user_id: number;
+    restaurant_id: number;
+    feedback: RestaurantFeedbackType;
+    created_at: string;
+}
+
+// A feedback row joined with the bits of the restaurant the preference model learns from
+export interface RestaurantInteraction {
+    restaurant_id: number;
+    feedback: RestaurantFeedbackType;
+    cuisines: string[];
+    rating: number;
+    userRatingsTotal?: number;
+    priceLevel?: number;
+}
+
+// Per-user weights learned from like/dislike history (see preferenceModel.ts)
+export interface LearnedRestaurantWeights {
+    cuisineAffinity: Record<string, number>; // -1 (keeps rejecting) .. 1 (keeps liking)
+    learnedMinRating: number | null;         // Lowest rating the user still reliably enjoys; null without positive history
+    ratingSensitivity: number;               // Multiplier on the rating bonus; >1 when liked places rate clearly higher than rejected ones
+    learnedPriceLevel: number | null;        // Price level (0-4) the user's liked places average; null without priced positive history
+    priceSensitivity: number;                // Multiplier on the price-distance penalty; >1 when rejected places sit further from that level than liked ones
+    sampleSize: number;                      // Number of interactions the weights are based on
+    confidence: number;                      // 0..1, how much the learned weights should count against explicit preferences
+}
+
+// Controls how ties and near-ties are ordered. Without a seed the ranking is fully deterministic.
+export interface RestaurantRankingOptions {
+    seed?: number | string; // Same seed + same inputs = same list
+    jitter?: number;        // Max points of seeded noise added for variety (default 2; 0 = seed only breaks exact ties)
+    origin?: GeoPoint;      // Where the user is; closer places score higher
+    originLabel?: string;   // How to name the origin in reasons, e.g. "home"
+    maxDistanceKm?: number; // With an origin: drop places further away than this, and places without coordinates
+    openAt?: OpeningTimeConstraint; // Drop places known to be shut then (and temporarily closed ones); unknown hours pass
+}
+
+// Where fetchAndSaveRestaurantsToDb gets restaurants from (see restaurantSources.ts)
+export interface RestaurantSource {
+    name: string; // Shown in log lines, e.g. "Google Places"
+    fetchRestaurants(locationQuery: string, maxResults?: number): Promise<Omit<Restaurant, 'id'>[]>;
+}
+
+// Optional filters for getAllRestaurantsFromDb, applied in SQL (names match case-insensitively)
+export interface RestaurantFilter {
+    areaId?: number; // Only restaurants fetched for this area
+    cuisine?: string;
+    dietaryOption?: string;
+    minRating?: number;
+}
+
+// A location query restaurants were fetched for, and how many of them are stored
+export interface RestaurantArea {
+    id: number;
+    name: string;            // Starts out as the query; users can rename it
+    query: string;
+    created_at: string;
+    last_fetched_at: string;
+    restaurant_count: number;
+}
@@ -0,0 +1,139 @@
+// src/tvshows/episodeProgress.ts
+// Per-episode watch tracking. Episodes are copied from TMDB season details into
+// tv_episodes the first time a show is tracked and refreshed when progress is listed
+// (season responses are cached for a day, so refreshing is cheap).
+import type { TvShow, TvEpisode, TvShowProgress } from './types';
+import { getTvShowDetails, getTvShowSeasonDetails } from '../common/tmdbService';
+import { getTvShowByOurId } from '../db/tvShowDb';
+import {
+    saveTvEpisodes, getTvShowEpisodes, markEpisodesWatched, getWatchedEpisodes, getTvShowsWithProgress,
+} from '../db/episodeDb';
+
+function today(): string {
+    return new Date().toISOString().substring(0, 10);
+}
+
+function hasAired(episode: TvEpisode, asOf: string): boolean {
+    return episode.air_date !== null && episode.air_date <= asOf;
+}
+
+export function formatEpisodeCode(episode: Pick<TvEpisode, 'season_number' | 'episode_number'>): string {
+    return `S${String(episode.season_number).padStart(2, '0')}E${String(episode.episode_number).padStart(2, '0')}`;
+}
+
+/** Parses "S1E3", "s01e03" or "1x3". */
+export function parseEpisodeCode(code: string): { season: number; episode: number } | undefined {
+    const match = code.trim().match(/^(?:s(\d+)e(\d+)|(\d+)x(\d+))$/i);
+    if (!match) return undefined;
+    return { season: Number(match[1] ?? match[3]), episode: Number(match[2] ?? match[4]) };
+}
+
+/** Pulls every season of a show from TMDB into tv_episodes and returns the stored episodes. */
+export async function syncTvShowEpisodes(show: TvShow): Promise<TvEpisode[]> {
+    const details = await getTvShowDetails(show.tmdb_id);
+    for (const season of details?.seasons ?? []) {
+        const seasonDetails = await getTvShowSeasonDetails(show.tmdb_id, season.season_number);
+        if (seasonDetails?.episodes) await saveTvEpisodes(show.id, seasonDetails.episodes);
+    }
+    return getTvShowEpisodes(show.id);
+}
+
+// Stored episodes, syncing first if the show has none yet or a refresh is asked for
+async function loadEpisodes(show: TvShow, refresh: boolean): Promise<TvEpisode[]> {
+    const stored = refresh ? [] : await getTvShowEpisodes(show.id);
+    return stored.length > 0 ? stored : syncTvShowEpisodes(show);
+}
+
+function computeProgress(show: TvShow, episodes: TvEpisode[], watched: Map<number, string>, asOf: string): TvShowProgress | undefined {
+    const lastWatchedAt = [...watched.values()].sort().at(-1);
+    if (!lastWatchedAt) return undefined;
+
+    const regular = episodes.filter(e => e.season_number > 0); // Already in season/episode order
+    const aired = regular.filter(e => hasAired(e, asOf));
+    const unwatchedAired = aired.filter(e => !watched.has(e.id));
+    const lastWatched = regular.filter(e => watched.has(e.id)).at(-1);
+    const afterLast = lastWatched ? regular.slice(regular.indexOf(lastWatched) + 1) : regular;
+    const lastWatchedDate = lastWatchedAt.substring(0, 10);
+
+    return {
+        show,
+        watchedCount: regular.filter(e => watched.has(e.id)).length,
+        airedCount: aired.length,
+        lastWatchedAt,
+        lastWatched,
+        nextEpisode: afterLast.find(e => hasAired(e, asOf) && !watched.has(e.id)) ?? unwatchedAired[0],
+        newSinceLastWatched: unwatchedAired.filter(e => e.air_date! > lastWatchedDate),
+    };
+}
+
+/** A user's progress through one show, or undefined if they haven't marked any of it watched. */
+export async function getTvShowProgress(
+    userId: number,
+    show: TvShow,
+    options: { refresh?: boolean; asOf?: string } = {}
+): Promise<TvShowProgress | undefined> {
+    const episodes = await loadEpisodes(show, options.refresh ?? false);
+    return computeProgress(show, episodes, await getWatchedEpisodes(userId, show.id), options.asOf ?? today());
+}
+
+/**
+ * Shows the user has started and not caught up on, with new episodes first and then
+ * most recently watched. Episode lists are refreshed so newly aired episodes show up.
+ */
+export async function getInProgressShows(userId: number, asOf: string = today()): Promise<TvShowProgress[]> {
+    const inProgress: TvShowProgress[] = [];
+    for (const { tv_show_id } of await getTvShowsWithProgress(userId)) {
+        const show = await getTvShowByOurId(tv_show_id);
+        if (!show) continue;
+        const progress = await getTvShowProgress(userId, show, { refresh: true, asOf });
+        if (progress?.nextEpisode) inProgress.push(progress);
+    }
+    return inProgress.sort((a, b) => Number(b.newSinceLastWatched.length > 0) - Number(a.newSinceLastWatched.length > 0));
+}
+
+/** In-progress shows where episodes have aired since the user last watched anything of them. */
+export async function getShowsWithNewEpisodes(userId: number, asOf: string = today()): Promise<TvShowProgress[]> {
+    return (await getInProgressShows(userId, asOf)).filter(p => p.newSinceLastWatched.length > 0);
+}
+
+// The show's episodes and the one asked for, syncing from TMDB if it isn't stored
+async function loadEpisodesWith(
+    show: TvShow,
+    seasonNumber: number,
+    episodeNumber: number
+): Promise<{ episodes: TvEpisode[]; target: TvEpisode } | undefined> {
+    let episodes = await loadEpisodes(show, false);
+    let target = episodes.find(e => e.season_number === seasonNumber && e.episode_number === episodeNumber);
+    if (!target) { // Maybe a season we haven't stored yet
+        episodes = await loadEpisodes(show, true);
+        target = episodes.find(e => e.season_number === seasonNumber && e.episode_number === episodeNumber);
+    }
+    return target ? { episodes, target } : undefined;
+}
+
+/** One stored episode of a show, syncing the show's episodes from TMDB first if needed. */
+export async function findEpisode(show: TvShow, seasonNumber: number, episodeNumber: number): Promise<TvEpisode | undefined> {
+    return (await loadEpisodesWith(show, seasonNumber, episodeNumber))?.target;
+}
+
+/**
+ * Marks one episode watched, or with `through` every regular episode up to and
+ * including it. Returns the episodes marked, or undefined if the show has no such episode.
+ */
+export async function markEpisodeWatched(
+    userId: number,
+    show: TvShow,
+    seasonNumber: number,
+    episodeNumber: number,
+    options: { through?: boolean; watchedAt?: string } = {}
+): Promise<TvEpisode[] | undefined> {
+    const found = await loadEpisodesWith(show, seasonNumber, episodeNumber);
+    if (!found) return undefined;
+    const { episodes, target } = found;
+
+    const toMark = options.through && target.season_number > 0
+        ? episodes.slice(0, episodes.indexOf(target) + 1).filter(e => e.season_number > 0)
+        : [target];
+    await markEpisodesWatched(userId, toMark.map(e => e.id), options.watchedAt);
+    return toMark;
+}
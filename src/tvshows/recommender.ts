@@ -1,5 +1,5 @@
 import type { TvShow, UserTvShowPreferences } from './types';
-import type { User } from '../common/types';
+import type { User, UserSettings, Recommendation, RecommendationReason, ScoreComponent } from '../common/types';
 import {
     getPopularTvShows,
     getTvShowRecommendations as getTMDBCollaborativeRecs,
@@ -11,42 +11,133 @@ import {
     saveTvShow,
     getTvShowByTmdbId,
     getUserTvShowRatings,
+    getAllTvShowRatings,
+    getTvShowByOurId,
 } from '../db/tvShowDb';
+import { getAllUsers } from '../db/setup';
+import { getGenresFromUserWatchlist, getWatchedTmdbIds } from '../db/watchlistDb';
+import { getTvShowsWithProgress } from '../db/episodeDb';
+import { predictForUser } from '../common/collaborativeFiltering';
+import { getUserSettings } from '../db/userSettingsDb';
+import { getWatchProvidersForTitle, matchPreferredProviders } from '../common/watchProviders';
 
 import chalk from 'chalk';
 
 const MIN_RATINGS_FOR_COLLABORATIVE_TV = 2; // Slightly lower threshold for TV
+const MIN_RATINGS_FOR_LOCAL_COLLABORATIVE_TV = 1; // Local CF only needs one overlap with another user
+const STREAMING_MATCH_SCORE = 6; // Boost for shows streaming on one of the user's services
+const WATCHLIST_GENRE_SCORE = 2; // Per genre shared with the user's watchlist
+
+// Maps TMDB ID -> the user's preferred providers that stream it in their region (only shows with a match are present)
+async function findShowsOnPreferredProviders(
+    shows: TvShow[],
+    preferences: UserTvShowPreferences,
+    settings: UserSettings
+): Promise<Map<number, string[]>> {
+    const onPreferred = new Map<number, string[]>();
+    if (!preferences.preferred_streaming_providers || preferences.preferred_streaming_providers.length === 0) return onPreferred;
+    for (const show of shows) {
+        const providers = await getWatchProvidersForTitle('tv', show.tmdb_id, settings.home_region);
+        const matched = matchPreferredProviders(providers, preferences.preferred_streaming_providers);
+        if (matched.length > 0) onPreferred.set(show.tmdb_id, matched.map(p => p.provider_name));
+    }
+    return onPreferred;
+}
+
+// With streaming_filter 'only', shows not on the user's services are dropped outright
+function failsStreamingFilter(
+    show: TvShow,
+    preferences: UserTvShowPreferences,
+    settings: UserSettings,
+    onPreferredProviders: Map<number, string[]>
+): boolean {
+    return settings.streaming_filter === 'only'
+        && !!preferences.preferred_streaming_providers && preferences.preferred_streaming_providers.length > 0
+        && !onPreferredProviders.has(show.tmdb_id);
+}
+
+// The active hard filters, phrased for display; content-based picks have passed all of them
+function describeActiveFilters(preferences: UserTvShowPreferences, settings: UserSettings): RecommendationReason[] {
+    const filters: string[] = [];
+    if (preferences.preferred_languages?.length) filters.push(`language ${preferences.preferred_languages.join('/')}`);
+    if (preferences.first_air_year_min || preferences.first_air_year_max) {
+        filters.push(`first aired ${preferences.first_air_year_min ?? 'any'}–${preferences.first_air_year_max ?? 'now'}`);
+    }
+    if (preferences.avg_episode_duration_min != null || preferences.avg_episode_duration_max != null) {
+        filters.push(`episodes ${preferences.avg_episode_duration_min ?? 0}–${preferences.avg_episode_duration_max ?? '∞'} min`);
+    }
+    if (preferences.min_imdb_rating != null) filters.push(`TMDB rating ≥ ${preferences.min_imdb_rating}`);
+    if (settings.streaming_filter === 'only' && preferences.preferred_streaming_providers?.length) filters.push('on your streaming services');
+    return filters.map(filter => ({ type: 'passed_filter', filter }));
+}
+
+// Reasons and points shared by every phase: streaming availability, watchlist genres and TMDB rating
+function baseShowExplanation(
+    show: TvShow,
+    settings: UserSettings,
+    onPreferredProviders: Map<number, string[]>,
+    watchlistGenres: string[]
+): { reasons: RecommendationReason[]; scoreComponents: ScoreComponent[] } {
+    const reasons: RecommendationReason[] = [];
+    const scoreComponents: ScoreComponent[] = [];
+    const matchedWatchlist = show.genres.filter(g => watchlistGenres.includes(g.name)).map(g => g.name);
+    if (matchedWatchlist.length > 0) {
+        reasons.push({ type: 'matched_genres', genres: matchedWatchlist, source: 'watchlist' });
+        scoreComponents.push({ label: 'like your watchlist', points: matchedWatchlist.length * WATCHLIST_GENRE_SCORE });
+    }
+    const providers = onPreferredProviders.get(show.tmdb_id);
+    if (providers) {
+        reasons.push({ type: 'streaming_on', providers, region: settings.home_region });
+        scoreComponents.push({ label: 'on your services', points: STREAMING_MATCH_SCORE });
+    }
+    scoreComponents.push({ label: 'TMDB rating', points: show.vote_average / 2 });
+    return { reasons, scoreComponents };
+}
+
+function toRecommendation(
+    show: TvShow,
+    reasons: RecommendationReason[],
+    scoreComponents: ScoreComponent[]
+): Recommendation<TvShow> {
+    return { item: show, score: scoreComponents.reduce((sum, c) => sum + c.points, 0), reasons, scoreComponents };
+}
 
 async function getContentBasedTvShowRecommendations(
     user: User,
     preferences: UserTvShowPreferences,
+    settings: UserSettings,
+    watchlistGenres: string[],
     candidateTvShows: TvShow[],
     count: number
-): Promise<TvShow[]> {
+): Promise<Recommendation<TvShow>[]> {
     console.log(chalk.dim(`[TV Content-Based] Applying detailed preferences for ${user.name}`));
+    const onPreferredProviders = await findShowsOnPreferredProviders(candidateTvShows, preferences, settings);
+    const activeFilters = describeActiveFilters(preferences, settings);
 
     const scoredShows = candidateTvShows
         .map(show => {
-            let score = 0;
+            const reasons: RecommendationReason[] = [];
+            const scoreComponents: ScoreComponent[] = [];
             let meetsAllHardFilters = true;
 
             // 1. Genre Match
             if (preferences.preferred_genres && preferences.preferred_genres.length > 0) {
-                const showGenresLower = show.genres.map(g => g.name.toLowerCase());
                 const preferredGenresLower = preferences.preferred_genres.map(g => g.toLowerCase());
-                let genreMatchCount = 0;
-                preferredGenresLower.forEach(pg => { if (showGenresLower.includes(pg)) genreMatchCount++; });
-                if (genreMatchCount === 0) meetsAllHardFilters = false; else score += genreMatchCount * 5;
+                const matchedGenres = show.genres.filter(g => preferredGenresLower.includes(g.name.toLowerCase())).map(g => g.name);
+                if (matchedGenres.length === 0) {
+                    meetsAllHardFilters = false;
+                } else {
+                    reasons.push({ type: 'matched_genres', genres: matchedGenres, source: 'preferences' });
+                    scoreComponents.push({ label: 'preferred genres', points: matchedGenres.length * 5 });
+                }
             } else {
-                score += 2;
+                scoreComponents.push({ label: 'no genre preference', points: 2 });
             }
 
-            // 2. Language Match
+            // 2. Language (a filter only: every show left is in a preferred language, so there's nothing to score)
             if (preferences.preferred_languages && preferences.preferred_languages.length > 0) {
                 if (!show.original_language || !preferences.preferred_languages.includes(show.original_language.toLowerCase())) {
                     meetsAllHardFilters = false;
-                } else {
-                    score += 10;
                 }
             }
 
@@ -72,32 +163,79 @@ async function getContentBasedTvShowRecommendations(
             if (preferences.min_imdb_rating != null && show.vote_average < preferences.min_imdb_rating) {
                  meetsAllHardFilters = false;
             }
-            
-            // 6. Streaming Provider (soft preference for now)
-            if (preferences.preferred_streaming_providers && preferences.preferred_streaming_providers.length > 0) {
-                score += 3;
-            }
 
+            // 6. Streaming Provider (boost, or hard filter in 'only' mode)
+            if (failsStreamingFilter(show, preferences, settings, onPreferredProviders)) meetsAllHardFilters = false;
 
-            if (!meetsAllHardFilters) return { show, score: 0 };
-            score += 5 + (show.vote_average / 2);
-            return { show, score };
+            if (!meetsAllHardFilters) return undefined;
+            const base = baseShowExplanation(show, settings, onPreferredProviders, watchlistGenres);
+            scoreComponents.push({ label: 'passed all filters', points: 5 }, ...base.scoreComponents);
+            return toRecommendation(show, [...reasons, ...base.reasons, ...activeFilters], scoreComponents);
         })
-        .filter(item => item.score > 0)
+        .filter((item): item is Recommendation<TvShow> => item !== undefined && item.score > 0)
         .sort((a, b) => b.score - a.score);
 
-    return scoredShows.slice(0, count).map(item => item.show);
+    return scoredShows.slice(0, count);
 }
 
+// Local Collaborative: item-item similarity over our own users' ratings (no network needed)
+async function getLocalCollaborativeTvShowRecommendations(
+    user: User,
+    preferences: UserTvShowPreferences,
+    settings: UserSettings,
+    watchlistGenres: string[],
+    excludeTvShowTmdbIds: Set<number>,
+    count: number
+): Promise<Recommendation<TvShow>[]> {
+    const predictions = predictForUser(user.id, await getAllTvShowRatings(), new Set(), count * 3);
+    if (predictions.length === 0) {
+        console.log(chalk.blue("[TV] No overlap with other users' ratings yet for local collaborative filtering."));
+        return [];
+    }
+    const userNames = new Map((await getAllUsers()).map(u => [u.id, u.name]));
+
+    const recommendations: Recommendation<TvShow>[] = [];
+    for (const prediction of predictions) {
+        if (recommendations.length >= count) break;
+        const show = await getTvShowByOurId(prediction.itemId);
+        if (!show || excludeTvShowTmdbIds.has(show.tmdb_id)) continue;
+        const onPreferredProviders = await findShowsOnPreferredProviders([show], preferences, settings);
+        if (failsStreamingFilter(show, preferences, settings, onPreferredProviders)) continue;
+
+        const seedShows = await Promise.all(prediction.neighbors.slice(0, 2).map(n => getTvShowByOurId(n.itemId)));
+        const base = baseShowExplanation(show, settings, onPreferredProviders, watchlistGenres);
+        recommendations.push(toRecommendation(
+            show,
+            [{
+                type: 'similar_ratings',
+                titles: seedShows.filter(s => s).map(s => s!.name),
+                similarUsers: prediction.similarUserIds.slice(0, 3).map(id => userNames.get(id) ?? `User ${id}`),
+                predictedRating: prediction.predictedRating,
+            }, ...base.reasons],
+            [{ label: 'predicted rating', points: prediction.predictedRating }, ...base.scoreComponents]
+        ));
+    }
+    return recommendations;
+}
 
 export async function getTvShowRecommendationsForUser(
     user: User,
     userPrefs: UserTvShowPreferences,
     excludeTvShowTmdbIds: Set<number> = new Set(),
     count: number = 5
-): Promise<TvShow[]> {
+): Promise<Recommendation<TvShow>[]> {
     const userRatings = await getUserTvShowRatings(user.id);
-    let recommendations: TvShow[] = [];
+    const settings = await getUserSettings(user.id);
+    const watchlistGenres = settings.watchlist_boost ? await getGenresFromUserWatchlist(user.id, 'tv') : [];
+    // Watched-but-unrated shows would otherwise keep coming back, and started ones are already on the user's radar
+    for (const tmdbId of await getWatchedTmdbIds(user.id, 'tv')) excludeTvShowTmdbIds.add(tmdbId);
+    for (const { tmdb_id } of await getTvShowsWithProgress(user.id)) excludeTvShowTmdbIds.add(tmdb_id);
+    let recommendations: Recommendation<TvShow>[] = [];
+    const addRecommendation = (rec: Recommendation<TvShow>) => {
+        if (recommendations.some(r => r.item.tmdb_id === rec.item.tmdb_id)) return;
+        recommendations.push(rec);
+        excludeTvShowTmdbIds.add(rec.item.tmdb_id);
+    };
 
     // Phase 1: Content-Based
     console.log(chalk.cyan("\n[TV] Phase 1: Content-based filtering..."));
@@ -113,22 +251,30 @@ export async function getTvShowRecommendationsForUser(
         }
     }
     if (candidateTvShows.length > 0) {
-        const contentRecs = await getContentBasedTvShowRecommendations(user, userPrefs, candidateTvShows, count);
+        const contentRecs = await getContentBasedTvShowRecommendations(user, userPrefs, settings, watchlistGenres, candidateTvShows, count);
         for (const rec of contentRecs) {
             if (recommendations.length >= count) break;
-            if (!recommendations.some(r => r.tmdb_id === rec.tmdb_id)) {
-                recommendations.push(rec);
-                excludeTvShowTmdbIds.add(rec.tmdb_id);
-            }
+            addRecommendation(rec);
         }
     }
 
-    // Phase 2: Collaborative
+    // Phase 2a: Collaborative (local, from other users of this app)
+    if (recommendations.length < count && userRatings.length >= MIN_RATINGS_FOR_LOCAL_COLLABORATIVE_TV) {
+        console.log(chalk.cyan("\n[TV] Phase 2a: Collaborative filtering (ratings from other users)..."));
+        const localRecs = await getLocalCollaborativeTvShowRecommendations(user, userPrefs, settings, watchlistGenres, excludeTvShowTmdbIds, count - recommendations.length);
+        for (const rec of localRecs) {
+            if (recommendations.length >= count) break;
+            addRecommendation(rec);
+        }
+    }
+
+    // Phase 2b: Collaborative (TMDB recommendations)
     if (recommendations.length < count && userRatings.length >= MIN_RATINGS_FOR_COLLABORATIVE_TV) {
-        console.log(chalk.cyan("\n[TV] Phase 2: Collaborative filtering..."));
+        console.log(chalk.cyan("\n[TV] Phase 2b: Collaborative filtering (TMDB recommendations)..."));
         const sortedRatings = [...userRatings].sort((a, b) => b.rating - a.rating);
         for (const ratedShow of sortedRatings.slice(0, 2)) {
             if (recommendations.length >= count) break;
+            const seedShow = await getTvShowByTmdbId(ratedShow.tv_show_tmdb_id);
             const tmdbCollabRecs = await getTMDBCollaborativeRecs(ratedShow.tv_show_tmdb_id);
             if (tmdbCollabRecs && tmdbCollabRecs.results) {
                 for (const tmdbCollabShow of tmdbCollabRecs.results) {
@@ -136,10 +282,15 @@ export async function getTvShowRecommendationsForUser(
                     const detailedCollabShow = await getTMDBTvShowDetails(tmdbCollabShow.id);
                     if (!detailedCollabShow) continue;
                     let showInDb = await saveTvShow(detailedCollabShow as TMDBTvShowFromService);
-                    if (showInDb && !recommendations.some(r => r.tmdb_id === showInDb!.tmdb_id)) {
-                        recommendations.push(showInDb);
-                        excludeTvShowTmdbIds.add(showInDb.tmdb_id);
-                    }
+                    if (!showInDb) continue;
+                    const onPreferredProviders = await findShowsOnPreferredProviders([showInDb], userPrefs, settings);
+                    if (failsStreamingFilter(showInDb, userPrefs, settings, onPreferredProviders)) continue;
+                    const base = baseShowExplanation(showInDb, settings, onPreferredProviders, watchlistGenres);
+                    addRecommendation(toRecommendation(
+                        showInDb,
+                        [{ type: 'seed_title', title: seedShow?.name ?? `TMDB #${ratedShow.tv_show_tmdb_id}`, tmdbId: ratedShow.tv_show_tmdb_id }, ...base.reasons],
+                        base.scoreComponents
+                    ));
                 }
             }
         }
@@ -155,11 +306,12 @@ export async function getTvShowRecommendationsForUser(
                 const detailedFallbackShow = await getTMDBTvShowDetails(tmdbPopShow.id);
                 if (detailedFallbackShow) showInDb = await saveTvShow(detailedFallbackShow as TMDBTvShowFromService);
             }
-            if (showInDb && !recommendations.some(r => r.tmdb_id === showInDb!.tmdb_id)) {
-                recommendations.push(showInDb);
-                excludeTvShowTmdbIds.add(showInDb.tmdb_id);
-            }
+            if (!showInDb) continue;
+            const onPreferredProviders = await findShowsOnPreferredProviders([showInDb], userPrefs, settings);
+            if (failsStreamingFilter(showInDb, userPrefs, settings, onPreferredProviders)) continue;
+            const base = baseShowExplanation(showInDb, settings, onPreferredProviders, watchlistGenres);
+            addRecommendation(toRecommendation(showInDb, [{ type: 'popular_fallback' }, ...base.reasons], base.scoreComponents));
         }
     }
     return recommendations.slice(0, count);
-}
\ No newline at end of file
+}
@@ -18,6 +18,28 @@ export interface TvShow {
   imdb_id?: string | null;
 }
 
+export interface TvEpisode {
+  id: number; // Our DB id
+  tv_show_id: number;
+  tmdb_id: number;
+  season_number: number; // 0 = specials
+  episode_number: number;
+  name: string | null;
+  air_date: string | null; // YYYY-MM-DD, null until scheduled
+  runtime: number | null;
+}
+
+// Where a user is in a show. Specials (season 0) are left out of every count.
+export interface TvShowProgress {
+  show: TvShow;
+  watchedCount: number;
+  airedCount: number;
+  lastWatchedAt: string;                // "YYYY-MM-DD HH:MM:SS" (UTC) of the latest episode marked watched
+  lastWatched?: TvEpisode;              // Furthest episode watched, in season/episode order
+  nextEpisode?: TvEpisode;              // First aired, unwatched episode after lastWatched (or the earliest gap)
+  newSinceLastWatched: TvEpisode[];     // Unwatched episodes that aired after lastWatchedAt
+}
+
 export interface UserTvShowRating {
   user_id: number;
   tv_show_id: number;